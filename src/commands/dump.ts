@@ -1,10 +1,17 @@
 import type { CommandHandler } from "./types.js";
 import { createConnection, runMigrations } from "../db/index.js";
+import {
+	maskRetrievalMethod,
+	matchResourceUris,
+	summarizeSnapshot,
+} from "../db/operations/resources.js";
+import { getAllConfig } from "../db/operations/config.js";
 import { PLACEHOLDER_DESCRIPTION } from "../constants.js";
 import {
 	tags,
 	facts,
 	factTags,
+	factRelations,
 	resources,
 	resourceTags,
 	skills,
@@ -19,6 +26,7 @@ import { dirname } from "node:path";
 import dayjs from "dayjs";
 import { fileExists, readTextFile, writeTextFile } from "../utils/fs.js";
 import { computeHash } from "../utils/hash.js";
+import { canonicalResourceUri } from "../utils/uri.js";
 
 type DumpHandler = CommandHandler<"dump">;
 type RestoreHandler = CommandHandler<"restore">;
@@ -37,10 +45,18 @@ interface DumpOutput {
 		source: string | null;
 		sourceType: string | null;
 		verified: boolean;
+		/** Absent in dumps written before facts could expire */
+		expiresAt?: string | null;
 		tags: string[];
 		createdAt: string;
 		updatedAt: string;
 	}>;
+	/** Absent in dumps written before facts could be related */
+	factRelations?: Array<{
+		factId: number;
+		relatedFactId: number;
+		relationType: string;
+	}>;
 	resources: Array<{
 		id: number;
 		uri: string;
@@ -48,6 +64,8 @@ interface DumpOutput {
 		description?: string | null;
 		snapshot: string | null;
 		retrievalMethod: unknown | null;
+		/** Absent in dumps written before per-resource freshness overrides */
+		maxAgeHours?: number | null;
 		tags: string[];
 		lastVerifiedAt: string | null;
 		createdAt: string;
@@ -89,6 +107,7 @@ export const dumpHandler: DumpHandler = async (cfg) => {
 		if (tagName) existing.push(tagName);
 		factTagsMap.set(ft.factId, existing);
 	}
+	const allFactRelations = await db.select().from(factRelations);
 
 	// Get all resources with their tags
 	const allResources = await db.select().from(resources);
@@ -175,17 +194,28 @@ export const dumpHandler: DumpHandler = async (cfg) => {
 			source: f.source,
 			sourceType: f.sourceType,
 			verified: f.verified,
+			expiresAt: f.expiresAt,
 			tags: factTagsMap.get(f.id) ?? [],
 			createdAt: f.createdAt,
 			updatedAt: f.updatedAt,
 		})),
+		factRelations: allFactRelations.map((fr) => ({
+			factId: fr.factId,
+			relatedFactId: fr.relatedFactId,
+			relationType: fr.relationType,
+		})),
 		resources: allResources.map((r) => ({
 			id: r.id,
 			uri: r.uri,
 			type: r.type,
 			description: r.description,
 			snapshot: r.snapshot,
-			retrievalMethod: r.retrievalMethod,
+			// Encrypted headers stay encrypted, so a restore keeps them working;
+			// credentials stored in plain text are masked
+			retrievalMethod: maskRetrievalMethod(r.retrievalMethod, {
+				keepEncrypted: true,
+			}),
+			maxAgeHours: r.maxAgeHours,
 			tags: resourceTagsMap.get(r.id) ?? [],
 			lastVerifiedAt: r.lastVerifiedAt,
 			createdAt: r.createdAt,
@@ -214,6 +244,7 @@ export const dumpHandler: DumpHandler = async (cfg) => {
 	console.log(`Exported to ${cfg.outputFile}:`);
 	console.log(`  - ${output.tags.length} tags`);
 	console.log(`  - ${output.facts.length} facts`);
+	console.log(`  - ${output.factRelations?.length ?? 0} fact relations`);
 	console.log(`  - ${output.resources.length} resources`);
 	console.log(`  - ${output.skills.length} skills`);
 };
@@ -283,6 +314,7 @@ export const restoreHandler: RestoreHandler = async (cfg) => {
 					source: fact.source,
 					sourceType: fact.sourceType,
 					verified: fact.verified,
+					expiresAt: fact.expiresAt ?? null,
 				})
 				.returning({ id: facts.id });
 			factId = inserted!.id;
@@ -302,11 +334,25 @@ export const restoreHandler: RestoreHandler = async (cfg) => {
 	}
 	console.log(`  - Restored ${input.facts.length} facts`);
 
+	const relations = input.factRelations ?? [];
+	for (const relation of relations) {
+		const factId = oldFactIdToNew.get(relation.factId);
+		const relatedFactId = oldFactIdToNew.get(relation.relatedFactId);
+		if (factId && relatedFactId && factId !== relatedFactId) {
+			await db
+				.insert(factRelations)
+				.values({ factId, relatedFactId, relationType: relation.relationType })
+				.onConflictDoNothing();
+		}
+	}
+	console.log(`  - Restored ${relations.length} fact relations`);
+
+	const dbConfig = await getAllConfig(db);
 	for (const resource of input.resources) {
 		const existing = await db
 			.select()
 			.from(resources)
-			.where(eq(resources.uri, resource.uri))
+			.where(matchResourceUris([resource.uri]))
 			.limit(1);
 		let resourceId: number;
 		if (existing.length > 0) {
@@ -315,15 +361,21 @@ export const restoreHandler: RestoreHandler = async (cfg) => {
 			const [inserted] = await db
 				.insert(resources)
 				.values({
-					uri: resource.uri,
+					uri: canonicalResourceUri(resource.uri, resource.type),
 					type: resource.type,
 					description: resource.description ?? PLACEHOLDER_DESCRIPTION,
 					snapshot: resource.snapshot,
 					snapshotHash: resource.snapshot
 						? computeHash(resource.snapshot)
 						: null,
+					structuredSummary: summarizeSnapshot(
+						resource.uri,
+						resource.snapshot,
+						dbConfig,
+					),
 					retrievalMethod:
 						resource.retrievalMethod as typeof resources.retrievalMethod._.data,
+					maxAgeHours: resource.maxAgeHours ?? null,
 					lastVerifiedAt: resource.lastVerifiedAt,
 				})
 				.returning({ id: resources.id });
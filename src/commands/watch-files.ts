@@ -1,15 +1,21 @@
 import { watch, type FSWatcher } from "node:fs";
 import { readdir, stat } from "node:fs/promises";
 import { join, basename } from "node:path";
+import { isNull } from "drizzle-orm";
 import type { CommandHandler } from "./types.js";
 import { createConnection, runMigrations, type DB } from "../db/index.js";
-import { skills } from "../db/schema.js";
+import { resources, skills } from "../db/schema.js";
 import {
 	syncSkill,
 	resolveSkillsDir,
 	registerSkillFromFile,
 	deleteSkills,
+	markSkillsNeedingReview,
 } from "../db/operations/skills.js";
+import {
+	refreshResources,
+	resolveRefreshTarget,
+} from "../db/operations/refresh.js";
 import { fileExists, toAbsolutePath } from "../utils/fs.js";
 
 type Handler = CommandHandler<"watch-files">;
@@ -17,6 +23,12 @@ type Handler = CommandHandler<"watch-files">;
 // Track active watchers by skill name
 const watchers = new Map<string, FSWatcher>();
 
+// Track file resource watchers by resource id
+const resourceWatchers = new Map<
+	number,
+	{ uri: string; path: string; watcher: FSWatcher }
+>();
+
 // Directory watcher
 let directoryWatcher: FSWatcher | null = null;
 let currentSkillsDir: string | null = null;
@@ -102,6 +114,174 @@ function unwatchSkillFile(skillName: string): void {
 	}
 }
 
+/**
+ * Re-read file resources from disk through the snapshot pipeline and report
+ * what changed. Files that no longer exist are flagged as missing, and skills
+ * linked to a changed file are flagged for review.
+ */
+async function refreshFileResources(db: DB, ids: number[]): Promise<void> {
+	if (ids.length === 0) return;
+
+	try {
+		const result = await refreshResources(db, { ids, limit: ids.length });
+
+		for (const entry of result.results) {
+			if (entry.status === "updated") {
+				console.log(`[watch] Refreshed resource: ${entry.uri}`);
+			} else if (entry.status === "missing") {
+				console.warn(`[watch] Resource file missing: ${entry.uri}`);
+				unwatchResourceFile(entry.id);
+			} else if (entry.status === "failed") {
+				console.error(
+					`[watch] Error refreshing ${entry.uri}: ${entry.message}`,
+				);
+			}
+		}
+		await markSkillsNeedingReview(
+			db,
+			result.skillsToReview.map((skill) => skill.id),
+		);
+		for (const skill of result.skillsToReview) {
+			console.log(
+				`[watch] Skill affected by resource change: ${skill.name} (needs review)`,
+			);
+		}
+	} catch (err) {
+		console.error(
+			"[watch] Error refreshing resources:",
+			err instanceof Error ? err.message : err,
+		);
+	}
+}
+
+function refreshResourceDebounced(
+	db: DB,
+	resourceId: number,
+	eventType: string,
+): void {
+	const timerKey = `resource:${resourceId}`;
+	const existingTimer = debounceTimers.get(timerKey);
+	if (existingTimer) {
+		clearTimeout(existingTimer);
+	}
+
+	debounceTimers.set(
+		timerKey,
+		setTimeout(async () => {
+			debounceTimers.delete(timerKey);
+			const watched = resourceWatchers.get(resourceId);
+			await refreshFileResources(db, [resourceId]);
+
+			// Editors that save by replacing the file leave the old watcher
+			// pointing at a stale inode, so watch the new file again
+			if (eventType === "rename" && watched) {
+				unwatchResourceFile(resourceId);
+				if (await fileExists(watched.path)) {
+					watchResourceFile(db, resourceId, watched.uri, watched.path);
+				}
+			}
+		}, DEBOUNCE_MS),
+	);
+}
+
+function watchResourceFile(
+	db: DB,
+	resourceId: number,
+	uri: string,
+	path: string,
+): void {
+	if (resourceWatchers.has(resourceId)) {
+		return;
+	}
+
+	try {
+		const watcher = watch(path, (eventType) => {
+			refreshResourceDebounced(db, resourceId, eventType);
+		});
+
+		watcher.on("error", (err) => {
+			console.error(`[watch] Watcher error for ${uri}:`, err.message);
+			unwatchResourceFile(resourceId);
+		});
+
+		resourceWatchers.set(resourceId, { uri, path, watcher });
+	} catch (err) {
+		console.error(
+			`[watch] Failed to watch ${uri}:`,
+			err instanceof Error ? err.message : err,
+		);
+	}
+}
+
+function unwatchResourceFile(resourceId: number): void {
+	const watched = resourceWatchers.get(resourceId);
+	if (watched) {
+		watched.watcher.close();
+		resourceWatchers.delete(resourceId);
+	}
+}
+
+/**
+ * Watch every non-deleted file resource. Resources whose file is gone are
+ * flagged as missing once; a missing file that reappears is refreshed.
+ * With catchUp, every watched file is refreshed to pick up edits made while
+ * the watcher was not running.
+ */
+async function refreshResourceWatchers(
+	db: DB,
+	options: { catchUp?: boolean } = {},
+): Promise<void> {
+	const rows = await db
+		.select({
+			id: resources.id,
+			uri: resources.uri,
+			type: resources.type,
+			retrievalMethod: resources.retrievalMethod,
+			lastRefreshStatus: resources.lastRefreshStatus,
+		})
+		.from(resources)
+		.where(isNull(resources.deletedAt));
+
+	const fileResources = new Map<
+		number,
+		{ uri: string; path: string; missing: boolean }
+	>();
+	for (const row of rows) {
+		const target = resolveRefreshTarget(row);
+		if (row.type === "file" && target?.method === "file") {
+			fileResources.set(row.id, {
+				uri: row.uri,
+				path: target.target,
+				missing: row.lastRefreshStatus === "missing",
+			});
+		}
+	}
+
+	// Remove watchers for deleted or re-pointed resources
+	for (const [id, watched] of resourceWatchers) {
+		if (fileResources.get(id)?.path !== watched.path) {
+			unwatchResourceFile(id);
+		}
+	}
+
+	const toRefresh: number[] = [];
+	for (const [id, resource] of fileResources) {
+		if (resourceWatchers.has(id)) {
+			if (options.catchUp) toRefresh.push(id);
+			continue;
+		}
+
+		if (await fileExists(resource.path)) {
+			watchResourceFile(db, id, resource.uri, resource.path);
+			if (options.catchUp || resource.missing) toRefresh.push(id);
+		} else if (!resource.missing) {
+			toRefresh.push(id);
+		}
+	}
+
+	await refreshFileResources(db, toRefresh);
+}
+
 async function refreshWatchers(db: DB): Promise<void> {
 	// Get all current skills from DB
 	const allSkills = await db.select().from(skills);
@@ -293,6 +473,10 @@ export const watchFilesHandler: Handler = async (config) => {
 	// Watch the skills directory for new files
 	await watchSkillsDirectory(db);
 
+	// Watch file resources, catching up on edits made while stopped
+	await refreshResourceWatchers(db, { catchUp: true });
+	console.log(`[watch] Watching ${resourceWatchers.size} file resources`);
+
 	// Periodically check for new/deleted skills and directory changes
 	const pollInterval = Number.parseInt(config.pollInterval, 10) || 5000;
 	const refreshInterval = setInterval(async () => {
@@ -311,6 +495,9 @@ export const watchFilesHandler: Handler = async (config) => {
 				await handleDeletedSkills(db);
 				await refreshWatchers(db);
 			}
+
+			// Pick up new file resources and flag deleted files
+			await refreshResourceWatchers(db);
 		} catch (err) {
 			console.error("[watch] Error in refresh cycle:", err);
 		}
@@ -329,6 +516,10 @@ export const watchFilesHandler: Handler = async (config) => {
 		for (const [skillName] of watchers) {
 			unwatchSkillFile(skillName);
 		}
+
+		for (const [resourceId] of resourceWatchers) {
+			unwatchResourceFile(resourceId);
+		}
 		process.exit(0);
 	};
 
@@ -1,16 +1,32 @@
 import type { CommandHandler } from "./types.js";
 import { createConnection, runMigrations, type DB } from "../db/index.js";
-import { getConfig } from "../db/operations/config.js";
+import {
+	getConfig,
+	getSnapshotRetentionVersions,
+} from "../db/operations/config.js";
 import { deleteFacts } from "../db/operations/facts.js";
+import {
+	captureFactStates,
+	recordFactRevisions,
+} from "../db/operations/fact-revisions.js";
+import { pruneResourceSnapshots } from "../db/operations/resources.js";
+import { refreshResources } from "../db/operations/refresh.js";
 import { pruneOrphanTags } from "../db/operations/tags.js";
 import { nowISO, daysAgoISO } from "../utils/dates.js";
 import { DEFAULT_WORKER_INTERVALS } from "../runtime/defaults.js";
 import { facts, resources, skills, workerState } from "../db/schema.js";
-import { sql, lt, and, isNotNull, eq } from "drizzle-orm";
+import { sql, lt, and, isNotNull, eq, inArray } from "drizzle-orm";
 
 type Handler = CommandHandler<"worker">;
 
-type TaskName = "autoVerify" | "expireFacts" | "pruneTags" | "hardDelete";
+type TaskName =
+	| "autoVerify"
+	| "expireFacts"
+	| "expireDatedFacts"
+	| "pruneSnapshots"
+	| "refreshResources"
+	| "pruneTags"
+	| "hardDelete";
 
 interface TaskState {
 	taskName: string;
@@ -77,6 +93,9 @@ async function getTaskInterval(db: DB, task: TaskName): Promise<number> {
 	const configKeyMap: Record<TaskName, string> = {
 		autoVerify: "worker_interval_auto_verify",
 		expireFacts: "worker_interval_expire_facts",
+		expireDatedFacts: "worker_interval_expire_dated_facts",
+		pruneSnapshots: "worker_interval_prune_snapshots",
+		refreshResources: "worker_interval_refresh_resources",
 		pruneTags: "worker_interval_prune_tags",
 		hardDelete: "worker_interval_hard_delete",
 	};
@@ -84,6 +103,9 @@ async function getTaskInterval(db: DB, task: TaskName): Promise<number> {
 	const defaultMap: Record<TaskName, number> = {
 		autoVerify: DEFAULT_WORKER_INTERVALS.autoVerify,
 		expireFacts: DEFAULT_WORKER_INTERVALS.expireFacts,
+		expireDatedFacts: DEFAULT_WORKER_INTERVALS.expireDatedFacts,
+		pruneSnapshots: DEFAULT_WORKER_INTERVALS.pruneSnapshots,
+		refreshResources: DEFAULT_WORKER_INTERVALS.refreshResources,
 		pruneTags: DEFAULT_WORKER_INTERVALS.pruneTags,
 		hardDelete: DEFAULT_WORKER_INTERVALS.hardDelete,
 	};
@@ -139,12 +161,9 @@ async function runAutoVerify(db: DB): Promise<Omit<TaskState, "taskName">> {
 		// - Created before cutoff
 		// - Have been retrieved at least once
 		// - Are not inference-sourced
-		const result = await db
-			.update(facts)
-			.set({
-				verified: true,
-				updatedAt: sql`(CURRENT_TIMESTAMP)` as unknown as string,
-			})
+		const eligible = await db
+			.select({ id: facts.id })
+			.from(facts)
 			.where(
 				and(
 					eq(facts.verified, false),
@@ -153,8 +172,21 @@ async function runAutoVerify(db: DB): Promise<Omit<TaskState, "taskName">> {
 					sql`${facts.sourceType} != 'inference'`,
 					sql`${facts.deletedAt} IS NULL`,
 				),
-			)
-			.returning({ id: facts.id });
+			);
+		const ids = eligible.map((f) => f.id);
+		const before = await captureFactStates(db, ids);
+		const result =
+			ids.length > 0
+				? await db
+						.update(facts)
+						.set({
+							verified: true,
+							updatedAt: sql`(CURRENT_TIMESTAMP)` as unknown as string,
+						})
+						.where(inArray(facts.id, ids))
+						.returning({ id: facts.id })
+				: [];
+		await recordFactRevisions(db, before, "worker:autoVerify");
 
 		return {
 			lastRunAt: startTime,
@@ -203,11 +235,15 @@ async function runExpireFacts(db: DB): Promise<Omit<TaskState, "taskName">> {
 		// - Are unverified
 		// - Created before cutoff
 		// - Have low retrieval count (not frequently accessed)
-		const deleted = await deleteFacts(db, {
-			olderThan: cutoffDate,
-			unverifiedOnly: true,
-			soft: true,
-		});
+		const deleted = await deleteFacts(
+			db,
+			{
+				olderThan: cutoffDate,
+				unverifiedOnly: true,
+				soft: true,
+			},
+			"worker:expireFacts",
+		);
 
 		return {
 			lastRunAt: startTime,
@@ -225,6 +261,93 @@ async function runExpireFacts(db: DB): Promise<Omit<TaskState, "taskName">> {
 	}
 }
 
+async function runExpireDatedFacts(
+	db: DB,
+): Promise<Omit<TaskState, "taskName">> {
+	const startTime = nowISO();
+
+	try {
+		// Soft-delete facts whose own expiresAt has passed, verified or not
+		const deleted = await deleteFacts(
+			db,
+			{ expired: true, soft: true },
+			"worker:expireDatedFacts",
+		);
+
+		return {
+			lastRunAt: startTime,
+			lastStatus: "success",
+			lastMessage: `Expired ${deleted} facts past their expiry date`,
+			itemsProcessed: deleted,
+		};
+	} catch (err) {
+		return {
+			lastRunAt: startTime,
+			lastStatus: "error",
+			lastMessage: err instanceof Error ? err.message : String(err),
+			itemsProcessed: 0,
+		};
+	}
+}
+
+async function runPruneSnapshots(db: DB): Promise<Omit<TaskState, "taskName">> {
+	const startTime = nowISO();
+
+	try {
+		const retainVersions = await getSnapshotRetentionVersions(db);
+		const result = await pruneResourceSnapshots(db, retainVersions);
+
+		return {
+			lastRunAt: startTime,
+			lastStatus: "success",
+			lastMessage: `Pruned ${result.pruned} snapshot versions (retaining ${retainVersions} per resource)`,
+			itemsProcessed: result.pruned,
+		};
+	} catch (err) {
+		return {
+			lastRunAt: startTime,
+			lastStatus: "error",
+			lastMessage: err instanceof Error ? err.message : String(err),
+			itemsProcessed: 0,
+		};
+	}
+}
+
+async function runRefreshResources(
+	db: DB,
+): Promise<Omit<TaskState, "taskName">> {
+	const startTime = nowISO();
+
+	try {
+		// Opt-in: refreshing runs stored commands and makes network requests
+		const autoRefresh = await getConfig(db, "auto_refresh_resources");
+		if (autoRefresh !== "true") {
+			return {
+				lastRunAt: startTime,
+				lastStatus: "skipped",
+				lastMessage: "Auto refresh disabled (auto_refresh_resources not true)",
+				itemsProcessed: 0,
+			};
+		}
+
+		const result = await refreshResources(db, {});
+
+		return {
+			lastRunAt: startTime,
+			lastStatus: "success",
+			lastMessage: `Refreshed ${result.results.length} stale resources (${result.refreshed} updated, ${result.unchanged} unchanged, ${result.failed} failed)`,
+			itemsProcessed: result.results.length,
+		};
+	} catch (err) {
+		return {
+			lastRunAt: startTime,
+			lastStatus: "error",
+			lastMessage: err instanceof Error ? err.message : String(err),
+			itemsProcessed: 0,
+		};
+	}
+}
+
 async function runPruneTags(db: DB): Promise<Omit<TaskState, "taskName">> {
 	const startTime = nowISO();
 
@@ -320,6 +443,9 @@ async function runWorkerCycle(db: DB): Promise<void> {
 	}> = [
 		{ name: "autoVerify", runner: runAutoVerify },
 		{ name: "expireFacts", runner: runExpireFacts },
+		{ name: "expireDatedFacts", runner: runExpireDatedFacts },
+		{ name: "pruneSnapshots", runner: runPruneSnapshots },
+		{ name: "refreshResources", runner: runRefreshResources },
 		{ name: "pruneTags", runner: runPruneTags },
 		{ name: "hardDelete", runner: runHardDelete },
 	];
@@ -0,0 +1,21 @@
+CREATE VIRTUAL TABLE `facts_fts` USING fts5(
+	`content`,
+	content='facts',
+	content_rowid='id',
+	tokenize='porter unicode61'
+);
+--> statement-breakpoint
+CREATE TRIGGER `facts_fts_ai` AFTER INSERT ON `facts` BEGIN
+	INSERT INTO `facts_fts`(`rowid`, `content`) VALUES (new.`id`, new.`content`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `facts_fts_ad` AFTER DELETE ON `facts` BEGIN
+	INSERT INTO `facts_fts`(`facts_fts`, `rowid`, `content`) VALUES ('delete', old.`id`, old.`content`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `facts_fts_au` AFTER UPDATE OF `content` ON `facts` BEGIN
+	INSERT INTO `facts_fts`(`facts_fts`, `rowid`, `content`) VALUES ('delete', old.`id`, old.`content`);
+	INSERT INTO `facts_fts`(`rowid`, `content`) VALUES (new.`id`, new.`content`);
+END;
+--> statement-breakpoint
+INSERT INTO `facts_fts`(`facts_fts`) VALUES ('rebuild');
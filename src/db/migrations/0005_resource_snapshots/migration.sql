@@ -0,0 +1,11 @@
+CREATE TABLE `resource_snapshots` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`resource_id` integer NOT NULL,
+	`snapshot` text NOT NULL,
+	`snapshot_hash` text NOT NULL,
+	`captured_at` text,
+	`superseded_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	CONSTRAINT `fk_resource_snapshots_resource_id_resources_id_fk` FOREIGN KEY (`resource_id`) REFERENCES `resources`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `resource_snapshots_resource_id_idx` ON `resource_snapshots` (`resource_id`);
\ No newline at end of file
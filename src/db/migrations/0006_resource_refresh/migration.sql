@@ -0,0 +1,3 @@
+ALTER TABLE `resources` ADD `last_refresh_at` text;--> statement-breakpoint
+ALTER TABLE `resources` ADD `last_refresh_status` text;--> statement-breakpoint
+ALTER TABLE `resources` ADD `last_refresh_message` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `resources` ADD `max_age_hours` integer;
\ No newline at end of file
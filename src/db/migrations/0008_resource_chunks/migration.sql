@@ -0,0 +1,13 @@
+CREATE TABLE `resource_chunks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`resource_id` integer NOT NULL,
+	`chunk_index` integer NOT NULL,
+	`title` text NOT NULL,
+	`content` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`start_line` integer,
+	`end_line` integer,
+	CONSTRAINT `fk_resource_chunks_resource_id_resources_id_fk` FOREIGN KEY (`resource_id`) REFERENCES `resources`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `resource_chunks_resource_id_idx` ON `resource_chunks` (`resource_id`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `resource_globs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`pattern` text NOT NULL UNIQUE,
+	`tags` text NOT NULL,
+	`description_template` text,
+	`exclude` text,
+	`max_age_hours` integer,
+	`last_expanded_at` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	`updated_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE `resources` ADD `git_commit` text;
\ No newline at end of file
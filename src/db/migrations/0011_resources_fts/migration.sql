@@ -0,0 +1,22 @@
+CREATE VIRTUAL TABLE `resources_fts` USING fts5(
+	`description`,
+	`snapshot`,
+	content='resources',
+	content_rowid='id',
+	tokenize='porter unicode61'
+);
+--> statement-breakpoint
+CREATE TRIGGER `resources_fts_ai` AFTER INSERT ON `resources` BEGIN
+	INSERT INTO `resources_fts`(`rowid`, `description`, `snapshot`) VALUES (new.`id`, new.`description`, new.`snapshot`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `resources_fts_ad` AFTER DELETE ON `resources` BEGIN
+	INSERT INTO `resources_fts`(`resources_fts`, `rowid`, `description`, `snapshot`) VALUES ('delete', old.`id`, old.`description`, old.`snapshot`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `resources_fts_au` AFTER UPDATE OF `description`, `snapshot` ON `resources` BEGIN
+	INSERT INTO `resources_fts`(`resources_fts`, `rowid`, `description`, `snapshot`) VALUES ('delete', old.`id`, old.`description`, old.`snapshot`);
+	INSERT INTO `resources_fts`(`rowid`, `description`, `snapshot`) VALUES (new.`id`, new.`description`, new.`snapshot`);
+END;
+--> statement-breakpoint
+INSERT INTO `resources_fts`(`resources_fts`) VALUES ('rebuild');
@@ -0,0 +1 @@
+ALTER TABLE `resources` ADD `structured_summary` text;
\ No newline at end of file
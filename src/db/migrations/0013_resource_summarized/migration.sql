@@ -0,0 +1 @@
+ALTER TABLE `resources` ADD `summarized` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `fact_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`fact_id` integer NOT NULL,
+	`changed_by` text NOT NULL,
+	`content` text NOT NULL,
+	`source` text,
+	`source_type` text,
+	`verified` integer NOT NULL,
+	`deleted_at` text,
+	`tags` text NOT NULL,
+	`tags_added` text NOT NULL,
+	`tags_removed` text NOT NULL,
+	`changed_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	CONSTRAINT `fk_fact_revisions_fact_id_facts_id_fk` FOREIGN KEY (`fact_id`) REFERENCES `facts`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `fact_revisions_fact_id_idx` ON `fact_revisions` (`fact_id`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `fact_relations` (
+	`fact_id` integer NOT NULL,
+	`related_fact_id` integer NOT NULL,
+	`relation_type` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	CONSTRAINT `fact_relations_pk` PRIMARY KEY(`fact_id`, `related_fact_id`, `relation_type`),
+	CONSTRAINT `fk_fact_relations_fact_id_facts_id_fk` FOREIGN KEY (`fact_id`) REFERENCES `facts`(`id`) ON DELETE CASCADE,
+	CONSTRAINT `fk_fact_relations_related_fact_id_facts_id_fk` FOREIGN KEY (`related_fact_id`) REFERENCES `facts`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `fact_relations_related_fact_id_idx` ON `fact_relations` (`related_fact_id`);
\ No newline at end of file
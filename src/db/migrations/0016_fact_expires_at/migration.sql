@@ -0,0 +1,3 @@
+ALTER TABLE `fact_revisions` ADD `expires_at` text;--> statement-breakpoint
+ALTER TABLE `facts` ADD `expires_at` text;--> statement-breakpoint
+CREATE INDEX `facts_expires_at_idx` ON `facts` (`expires_at`);
\ No newline at end of file
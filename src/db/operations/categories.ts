@@ -0,0 +1,49 @@
+import type { DB } from "../index.js";
+import { resources } from "../schema.js";
+import { getAllConfig } from "./config.js";
+import { matchResourceUris } from "./resources.js";
+import {
+	explainResourceCategory,
+	getCustomCategories,
+	getFreshnessForCategories,
+	getFreshnessForCategory,
+} from "../../runtime-config.js";
+import type {
+	ClassifyResourceInput,
+	ClassifyResourceOutput,
+} from "../../schemas/context.js";
+
+/**
+ * Explain how a URI is categorized for freshness: which built-in or custom
+ * rules matched, which were excluded or shadowed, and the resulting threshold.
+ */
+export async function classifyResource(
+	db: DB,
+	input: ClassifyResourceInput,
+): Promise<ClassifyResourceOutput> {
+	const dbConfig = await getAllConfig(db);
+	const { categories, matches } = explainResourceCategory(
+		input.uri,
+		getCustomCategories(dbConfig),
+	);
+
+	const [resource] = await db
+		.select({ maxAgeHours: resources.maxAgeHours })
+		.from(resources)
+		.where(matchResourceUris([input.uri]))
+		.limit(1);
+	const resourceMaxAgeHours = resource?.maxAgeHours ?? null;
+
+	return {
+		uri: input.uri,
+		categories,
+		primaryCategory: categories[0] ?? "default",
+		freshnessThresholdHours:
+			resourceMaxAgeHours ?? getFreshnessForCategories(categories, dbConfig),
+		matches: matches.map((match) => ({
+			...match,
+			freshnessHours: getFreshnessForCategory(match.category, dbConfig),
+		})),
+		resourceMaxAgeHours,
+	};
+}
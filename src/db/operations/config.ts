@@ -1,7 +1,28 @@
 import { eq, sql } from "drizzle-orm";
 import type { DB } from "../index.js";
 import { config } from "../schema.js";
-import { CONFIG_SCHEMA, type ConfigKey } from "../../runtime-config.js";
+import {
+	CONFIG_SCHEMA,
+	validateCustomCategories,
+	type ConfigKey,
+} from "../../runtime-config.js";
+import {
+	validateRedactionPatterns,
+	type RedactionOptions,
+} from "../../utils/redact.js";
+import type { ExecutionPolicy } from "../../utils/execution.js";
+import { globToRegExp } from "../../utils/glob.js";
+import {
+	validateContentSelectors,
+	type ContentSelectors,
+} from "../../utils/readability.js";
+
+/** Config keys holding a JSON array of names */
+const NAME_LIST_KEYS = [
+	"execution_allowlist",
+	"execution_denylist",
+	"execution_env_allowlist",
+];
 
 export async function getConfig(db: DB, key: string): Promise<string | null> {
 	const result = await db
@@ -108,6 +129,40 @@ export function validateConfigValue(
 		}
 	}
 
+	if (key === "custom_categories") {
+		const error = validateCustomCategories(value);
+		if (error) {
+			return { valid: false, error };
+		}
+	}
+
+	if (key === "redaction_patterns") {
+		const error = validateRedactionPatterns(value);
+		if (error) {
+			return { valid: false, error };
+		}
+	}
+
+	if (key === "content_selectors") {
+		const error = validateContentSelectors(value);
+		if (error) {
+			return { valid: false, error };
+		}
+	}
+
+	if (NAME_LIST_KEYS.includes(key)) {
+		const parsed: unknown = JSON.parse(value);
+		if (
+			!Array.isArray(parsed) ||
+			!parsed.every((name) => typeof name === "string" && name !== "")
+		) {
+			return {
+				valid: false,
+				error: `${key} must be a JSON array of non-empty strings`,
+			};
+		}
+	}
+
 	if (schema.type === "string" && "values" in schema && schema.values) {
 		if (!schema.values.includes(value as never)) {
 			return {
@@ -159,6 +214,8 @@ import {
 	DEFAULT_SEARCH_LIMITS,
 	DEFAULT_CONTEXT_BUDGETS,
 	DEFAULT_SOURCE_TYPE_TRUST,
+	DEFAULT_SNAPSHOT_SETTINGS,
+	DEFAULT_EXECUTION_POLICY,
 } from "../../runtime/defaults.js";
 
 /**
@@ -188,6 +245,14 @@ export async function getSearchIncludeDeleted(db: DB): Promise<boolean> {
 	return parseBooleanConfig(value, false);
 }
 
+/**
+ * Whether file resources are pinned to a git commit and judged by git
+ */
+export async function getGitFreshnessEnabled(db: DB): Promise<boolean> {
+	const value = await getConfig(db, "git_freshness");
+	return parseBooleanConfig(value, true);
+}
+
 /**
  * Get context budget for a specific entity type
  */
@@ -236,6 +301,14 @@ export async function getStalenessWarningThreshold(db: DB): Promise<number> {
 	return parseNumberConfig(value, 0.8);
 }
 
+/**
+ * Get the similarity at which facts count as near-duplicates (default 0.4)
+ */
+export async function getFactDuplicateThreshold(db: DB): Promise<number> {
+	const value = await getConfig(db, "fact_duplicate_threshold");
+	return parseNumberConfig(value, 0.5);
+}
+
 /**
  * Get snapshot max size in KB
  */
@@ -244,17 +317,113 @@ export async function getSnapshotMaxSizeKb(db: DB): Promise<number> {
 	return parseNumberConfig(value, 100);
 }
 
+/**
+ * Get number of previous snapshot versions to retain per resource
+ */
+export async function getSnapshotRetentionVersions(db: DB): Promise<number> {
+	const value = await getConfig(db, "snapshot_retention_versions");
+	return Math.max(
+		0,
+		parseNumberConfig(value, DEFAULT_SNAPSHOT_SETTINGS.retentionVersions),
+	);
+}
+
+/**
+ * Get maximum size in KB of each chunk of a chunked snapshot
+ */
+export async function getSnapshotChunkSizeKb(db: DB): Promise<number> {
+	const value = await getConfig(db, "snapshot_chunk_size_kb");
+	return parseNumberConfig(value, DEFAULT_SNAPSHOT_SETTINGS.chunkSizeKb);
+}
+
+/**
+ * Get the content selectors for an HTML snapshot of a URL, combined across
+ * every content_selectors pattern the URL matches
+ */
+export async function getContentSelectors(
+	db: DB,
+	uri?: string,
+): Promise<ContentSelectors> {
+	const selectors: ContentSelectors = { include: [], exclude: [] };
+	const value = await getConfig(db, "content_selectors");
+	if (!uri || !value || validateContentSelectors(value) !== null) {
+		return selectors;
+	}
+
+	const rules = parseJsonConfig<Record<string, Partial<ContentSelectors>>>(
+		value,
+		{},
+	);
+	for (const [pattern, rule] of Object.entries(rules)) {
+		if (!globToRegExp(pattern).test(uri)) continue;
+		selectors.include.push(...(rule.include ?? []));
+		selectors.exclude.push(...(rule.exclude ?? []));
+	}
+	return selectors;
+}
+
+/**
+ * Get timeout in milliseconds for server-side resource refreshes
+ */
+export async function getRefreshTimeoutMs(db: DB): Promise<number> {
+	const value = await getConfig(db, "refresh_timeout_ms");
+	return parseNumberConfig(value, DEFAULT_SNAPSHOT_SETTINGS.refreshTimeoutMs);
+}
+
+/**
+ * Get secret redaction settings: whether redaction is on and the
+ * user-defined detectors from redaction_patterns
+ */
+export async function getRedactionOptions(db: DB): Promise<RedactionOptions> {
+	const enabled = await getConfig(db, "redact_secrets");
+	const patterns = await getConfig(db, "redaction_patterns");
+	return {
+		enabled: parseBooleanConfig(enabled, true),
+		patterns:
+			patterns && validateRedactionPatterns(patterns) === null
+				? parseJsonConfig<Record<string, string>>(patterns, {})
+				: {},
+	};
+}
+
+/**
+ * Get the policy for commands Factsets runs itself
+ */
+export async function getExecutionPolicy(db: DB): Promise<ExecutionPolicy> {
+	const allowlist = await getConfig(db, "execution_allowlist");
+	const denylist = await getConfig(db, "execution_denylist");
+	const envAllowlist = await getConfig(db, "execution_env_allowlist");
+	const timeoutMs = await getConfig(db, "execution_timeout_ms");
+	const maxOutputKb = await getConfig(db, "execution_max_output_kb");
+	const dryRun = await getConfig(db, "execution_dry_run");
+	return {
+		allowlist: parseJsonConfig(allowlist, DEFAULT_EXECUTION_POLICY.allowlist),
+		denylist: parseJsonConfig(denylist, DEFAULT_EXECUTION_POLICY.denylist),
+		envAllowlist: parseJsonConfig(
+			envAllowlist,
+			DEFAULT_EXECUTION_POLICY.envAllowlist,
+		),
+		timeoutMs: parseNumberConfig(timeoutMs, DEFAULT_EXECUTION_POLICY.timeoutMs),
+		maxOutputKb: parseNumberConfig(
+			maxOutputKb,
+			DEFAULT_EXECUTION_POLICY.maxOutputKb,
+		),
+		dryRun: parseBooleanConfig(dryRun, DEFAULT_EXECUTION_POLICY.dryRun),
+	};
+}
+
 /**
  * Get snapshot overflow behavior
  */
 export async function getSnapshotOverflowBehavior(
 	db: DB,
-): Promise<"truncate" | "summarize" | "remove_noise" | "auto"> {
+): Promise<"truncate" | "summarize" | "remove_noise" | "chunk" | "auto"> {
 	const value = await getConfig(db, "snapshot_overflow_behavior");
 	if (
 		value === "truncate" ||
 		value === "summarize" ||
 		value === "remove_noise" ||
+		value === "chunk" ||
 		value === "auto"
 	) {
 		return value;
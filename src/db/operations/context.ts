@@ -1,4 +1,4 @@
-import { inArray, sql } from "drizzle-orm";
+import { and, inArray, sql } from "drizzle-orm";
 import type { DB } from "../index.js";
 import {
 	facts,
@@ -11,6 +11,8 @@ import {
 } from "../schema.js";
 import { incrementTagUsage } from "./tags.js";
 import { expandTags } from "./tag-relationships.js";
+import { notSuperseded } from "./fact-relations.js";
+import { notExpired } from "./facts.js";
 import { getContextBudget } from "./config.js";
 import type { ContextBuildInput } from "../../schemas/context.js";
 import { fileExists, readTextFile } from "../../utils/fs.js";
@@ -64,7 +66,13 @@ export async function buildContext(
 		const factIds = await db
 			.selectDistinct({ factId: factTags.factId })
 			.from(factTags)
-			.where(inArray(factTags.tagId, tagIds))
+			.where(
+				and(
+					inArray(factTags.tagId, tagIds),
+					input.includeSuperseded ? undefined : notSuperseded(factTags.factId),
+					input.includeExpired ? undefined : notExpired(factTags.factId),
+				),
+			)
 			.limit(maxFacts);
 
 		if (factIds.length > 0) {
@@ -3,8 +3,9 @@ import type { DB } from "../index.js";
 import { executionLogs, executionLogTags, tags } from "../schema.js";
 import { getOrCreateTags, incrementTagUsage } from "./tags.js";
 import { expandTags } from "./tag-relationships.js";
-import { getSearchLimit } from "./config.js";
+import { getRedactionOptions, getSearchLimit } from "./config.js";
 import { decodeCursor, getNextCursor } from "../../utils/cursor.js";
+import { mergeRedactions, redactSecrets } from "../../utils/redact.js";
 import type {
 	ExecutionLogSubmitInput,
 	ExecutionLogSearchInput,
@@ -15,26 +16,33 @@ import type {
 } from "../../schemas/execution-logs.js";
 
 /**
- * Submit one or more execution logs to the knowledge base
+ * Submit one or more execution logs to the knowledge base.
+ * Secrets in the command, context and output are redacted before storing.
  */
 export async function submitExecutionLogs(
 	db: DB,
 	input: ExecutionLogSubmitInput,
 ): Promise<ExecutionLogSubmitOutput> {
 	const ids: number[] = [];
+	const redactionOptions = await getRedactionOptions(db);
+	const redactions: NonNullable<ExecutionLogSubmitOutput["redactions"]> = [];
 
 	for (const log of input.logs) {
 		// Get or create tags (empty array if none provided)
 		const tagMap = await getOrCreateTags(db, log.tags ?? []);
 
+		const command = redactSecrets(log.command, redactionOptions);
+		const context = redactSecrets(log.context ?? "", redactionOptions);
+		const output = redactSecrets(log.output ?? "", redactionOptions);
+
 		// Insert the execution log
 		const result = await db
 			.insert(executionLogs)
 			.values({
-				command: log.command,
+				command: command.text,
 				workingDirectory: log.workingDirectory ?? null,
-				context: log.context ?? null,
-				output: log.output ?? null,
+				context: log.context != null ? context.text : null,
+				output: log.output != null ? output.text : null,
 				exitCode: log.exitCode ?? null,
 				success: log.success,
 				durationMs: log.durationMs ?? null,
@@ -44,6 +52,13 @@ export async function submitExecutionLogs(
 
 		const logId = result[0]!.id;
 		ids.push(logId);
+		for (const { detector, count } of mergeRedactions(
+			command.redactions,
+			context.redactions,
+			output.redactions,
+		)) {
+			redactions.push({ id: logId, detector, count });
+		}
 
 		// Link tags
 		if (tagMap.size > 0) {
@@ -55,7 +70,9 @@ export async function submitExecutionLogs(
 		}
 	}
 
-	return { created: ids.length, ids };
+	return redactions.length > 0
+		? { created: ids.length, ids, redactions }
+		: { created: ids.length, ids };
 }
 
 /**
@@ -0,0 +1,124 @@
+import type { DB } from "../index.js";
+import { getExecutionPolicy } from "./config.js";
+import { submitExecutionLogs } from "./execution-logs.js";
+import { getProjectRoot, toRelativePath } from "../../utils/fs.js";
+import { checkCommand, runCommand } from "../../utils/execution.js";
+
+/** Output kept in the execution log for each run */
+const LOGGED_OUTPUT_CHARS = 4000;
+
+export interface ExecuteCommandInput {
+	command: string;
+	/** What the command is for, recorded in the execution log */
+	context: string;
+	/** Defaults to the project root */
+	cwd?: string;
+	/** Report what would run instead of running it */
+	dryRun?: boolean;
+	/** Caller's limit, applied when shorter than the policy's */
+	timeoutMs?: number;
+}
+
+export interface ExecuteCommandResult {
+	status: "completed" | "failed" | "blocked" | "dry_run";
+	/** Standard output (completed runs only) */
+	stdout?: string;
+	/** Why the command failed or was blocked, or what a dry run would do */
+	message?: string;
+	exitCode: number | null;
+	durationMs: number;
+	/** Execution log recording the run or the blocked attempt */
+	logId?: number;
+}
+
+function logOutput(stdout: string, stderr: string): string | undefined {
+	const output = [stdout.trimEnd(), stderr.trimEnd()]
+		.filter(Boolean)
+		.join("\n");
+	if (!output) return undefined;
+	return output.length > LOGGED_OUTPUT_CHARS
+		? `${output.slice(0, LOGGED_OUTPUT_CHARS)}\n[... output truncated]`
+		: output;
+}
+
+/**
+ * Run a command on the server under the execution policy. Blocked attempts
+ * and runs are recorded in execution_logs; dry runs are not.
+ */
+export async function executeCommand(
+	db: DB,
+	input: ExecuteCommandInput,
+): Promise<ExecuteCommandResult> {
+	const policy = await getExecutionPolicy(db);
+	const root = getProjectRoot();
+	const cwd = input.cwd ?? root;
+	const workingDirectory = toRelativePath(cwd) || ".";
+
+	const blocked = checkCommand(input.command, cwd, policy, root);
+	if (blocked) {
+		const message = `Blocked by execution policy: ${blocked}`;
+		const { ids } = await submitExecutionLogs(db, {
+			logs: [
+				{
+					command: input.command,
+					workingDirectory,
+					context: input.context,
+					output: message,
+					success: false,
+				},
+			],
+		});
+		return {
+			status: "blocked",
+			message,
+			exitCode: null,
+			durationMs: 0,
+			logId: ids[0],
+		};
+	}
+
+	if (input.dryRun || policy.dryRun) {
+		return {
+			status: "dry_run",
+			message: `Would run \`${input.command}\` in ${workingDirectory}`,
+			exitCode: null,
+			durationMs: 0,
+		};
+	}
+
+	const result = await runCommand(
+		input.command,
+		cwd,
+		policy,
+		Math.min(policy.timeoutMs, input.timeoutMs ?? policy.timeoutMs),
+	);
+	const { ids } = await submitExecutionLogs(db, {
+		logs: [
+			{
+				command: input.command,
+				workingDirectory,
+				context: input.context,
+				output: logOutput(result.stdout, result.stderr),
+				exitCode: result.exitCode ?? undefined,
+				durationMs: result.durationMs,
+				success: !result.error,
+			},
+		],
+	});
+
+	return result.error
+		? {
+				status: "failed",
+				message: result.error,
+				exitCode: result.exitCode,
+				durationMs: result.durationMs,
+				logId: ids[0],
+			}
+		: {
+				status: "completed",
+				stdout: result.stdout,
+				exitCode: result.exitCode,
+				durationMs: result.durationMs,
+				logId: ids[0],
+			};
+}
@@ -0,0 +1,177 @@
+import { and, asc, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { DB } from "../index.js";
+import { facts, factTags, tags } from "../schema.js";
+import { getFactDuplicateThreshold } from "./config.js";
+import { notSuperseded } from "./fact-relations.js";
+import { notExpired } from "./facts.js";
+import { expandTags } from "./tag-relationships.js";
+import { toFtsQuery } from "../../utils/fts.js";
+import {
+	featureSimilarity,
+	normalizeTokens,
+	textFeatures,
+	textSimilarity,
+} from "../../utils/similarity.js";
+import type {
+	FactDuplicatesInput,
+	FactDuplicatesOutput,
+	SimilarFact,
+} from "../../schemas/facts.js";
+
+/** Full-text candidates fetched per fact before scoring */
+const CANDIDATE_LIMIT = 20;
+
+/**
+ * Words shared by more facts than this ("project", "uses") say nothing about
+ * duplication and would make the scan compare every fact with every other
+ */
+const MAX_TOKEN_FACTS = 50;
+
+/**
+ * Live facts similar to the given content, closest first. Candidates come
+ * from the full-text index (any shared term), then are scored with
+ * textSimilarity. Expired and superseded facts no longer hold, so they are
+ * left out, as are facts with exactly this content, since submit_facts
+ * updates those in place.
+ */
+export async function findSimilarFacts(
+	db: DB,
+	content: string,
+	options: { threshold: number; limit?: number },
+): Promise<SimilarFact[]> {
+	const ftsQuery = toFtsQuery(normalizeTokens(content).join(" OR "));
+	if (!ftsQuery) return [];
+
+	const candidates = await db.all<{ id: number; content: string }>(
+		sql`SELECT f.id AS id, f.content AS content
+			FROM facts_fts
+			INNER JOIN ${facts} f ON f.id = facts_fts.rowid
+			WHERE facts_fts MATCH ${ftsQuery}
+			AND f.deleted_at IS NULL
+			AND ${notSuperseded(sql.raw("f.id"))}
+			AND ${notExpired(sql.raw("f.id"))}
+			ORDER BY bm25(facts_fts)
+			LIMIT ${CANDIDATE_LIMIT}`,
+	);
+
+	return candidates
+		.filter((candidate) => candidate.content !== content)
+		.map((candidate) => ({
+			...candidate,
+			score: round(textSimilarity(content, candidate.content)),
+		}))
+		.filter((candidate) => candidate.score >= options.threshold)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, options.limit ?? 5);
+}
+
+function round(score: number): number {
+	return Math.round(score * 100) / 100;
+}
+
+/**
+ * Group live facts that restate each other. Facts sharing a significant word
+ * that is not too common are compared pairwise, and every pair at or above
+ * the threshold joins the two facts' clusters.
+ */
+export async function findDuplicateFacts(
+	db: DB,
+	input: FactDuplicatesInput,
+): Promise<FactDuplicatesOutput> {
+	const threshold = input.threshold ?? (await getFactDuplicateThreshold(db));
+	const conditions = [isNull(facts.deletedAt), notSuperseded(facts.id)];
+
+	if (input.tags?.length) {
+		const expandedTags = await expandTags(db, input.tags);
+		const tagged = await db
+			.selectDistinct({ factId: factTags.factId })
+			.from(factTags)
+			.innerJoin(tags, eq(factTags.tagId, tags.id))
+			.where(inArray(tags.name, expandedTags));
+		if (tagged.length === 0) return { clusters: [], scanned: 0 };
+		conditions.push(
+			inArray(
+				facts.id,
+				tagged.map((t) => t.factId),
+			),
+		);
+	}
+
+	const rows = await db
+		.select({
+			id: facts.id,
+			content: facts.content,
+			verified: facts.verified,
+			updatedAt: facts.updatedAt,
+		})
+		.from(facts)
+		.where(and(...conditions))
+		.orderBy(asc(facts.id));
+
+	const features = rows.map((row) => textFeatures(row.content));
+
+	// Only facts sharing a word can score above zero
+	const byToken = new Map<string, number[]>();
+	features.forEach(({ tokens }, index) => {
+		for (const token of new Set(tokens)) {
+			const indexes = byToken.get(token);
+			if (indexes) indexes.push(index);
+			else byToken.set(token, [index]);
+		}
+	});
+
+	const parent = rows.map((_, index) => index);
+	const find = (index: number): number => {
+		let root = index;
+		while (parent[root] !== root) root = parent[root] ?? root;
+		parent[index] = root;
+		return root;
+	};
+	const best = new Map<number, number>();
+
+	features.forEach((featuresA, a) => {
+		// Each pair is compared once, from its lower index
+		const compared = new Set<number>();
+		for (const token of new Set(featuresA.tokens)) {
+			const indexes = byToken.get(token) ?? [];
+			if (indexes.length > MAX_TOKEN_FACTS) continue;
+
+			for (const b of indexes) {
+				if (b <= a || compared.has(b)) continue;
+				compared.add(b);
+
+				const featuresB = features[b];
+				if (!featuresB) continue;
+				const score = round(featureSimilarity(featuresA, featuresB));
+				if (score < threshold) continue;
+
+				const rootA = find(a);
+				const rootB = find(b);
+				const root = Math.min(rootA, rootB);
+				parent[rootA] = root;
+				parent[rootB] = root;
+				best.set(
+					root,
+					Math.max(score, best.get(rootA) ?? 0, best.get(rootB) ?? 0),
+				);
+			}
+		}
+	});
+
+	const members = new Map<number, typeof rows>();
+	rows.forEach((row, index) => {
+		const root = find(index);
+		members.set(root, [...(members.get(root) ?? []), row]);
+	});
+
+	const clusters = [...members.entries()]
+		.filter(([, group]) => group.length > 1)
+		.map(([root, group]) => ({
+			score: best.get(root) ?? threshold,
+			facts: group,
+		}))
+		.sort((a, b) => b.facts.length - a.facts.length || b.score - a.score)
+		.slice(0, input.limit ?? 20);
+
+	return { clusters, scanned: rows.length };
+}
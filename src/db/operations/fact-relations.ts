@@ -0,0 +1,160 @@
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { DB } from "../index.js";
+import { facts, factRelations } from "../schema.js";
+import type {
+	FactLinkInput,
+	FactLinkOutput,
+	FactUnlinkOutput,
+} from "../../schemas/facts.js";
+import type { CheckStaleOutput } from "../../schemas/context.js";
+
+/**
+ * Condition excluding facts superseded by a live fact. Deleting the newer
+ * fact brings the one it superseded back.
+ */
+export function notSuperseded(factId: SQLiteColumn | SQL): SQL {
+	return sql`${factId} NOT IN (
+		SELECT ${factRelations.relatedFactId} FROM ${factRelations}
+		INNER JOIN ${facts} ON ${facts.id} = ${factRelations.factId}
+		WHERE ${factRelations.relationType} = 'supersedes'
+		AND ${facts.deletedAt} IS NULL
+	)`;
+}
+
+/**
+ * IDs of the live facts superseding each of the given facts
+ */
+export async function getSupersedingFacts(
+	db: DB,
+	ids: number[],
+): Promise<Map<number, number[]>> {
+	const superseding = new Map<number, number[]>();
+	if (ids.length === 0) return superseding;
+
+	const rows = await db
+		.select({
+			factId: factRelations.factId,
+			relatedFactId: factRelations.relatedFactId,
+		})
+		.from(factRelations)
+		.innerJoin(facts, eq(factRelations.factId, facts.id))
+		.where(
+			and(
+				eq(factRelations.relationType, "supersedes"),
+				inArray(factRelations.relatedFactId, ids),
+				sql`${facts.deletedAt} IS NULL`,
+			),
+		);
+	for (const { factId, relatedFactId } of rows) {
+		superseding.set(relatedFactId, [
+			...(superseding.get(relatedFactId) ?? []),
+			factId,
+		]);
+	}
+	return superseding;
+}
+
+// Contradiction is symmetric, so it is stored once with the lower ID first
+function normalize(relation: FactLinkInput["relations"][number]) {
+	if (
+		relation.type === "contradicts" &&
+		relation.factId > relation.relatedFactId
+	) {
+		return {
+			factId: relation.relatedFactId,
+			relatedFactId: relation.factId,
+			relationType: relation.type,
+		};
+	}
+	return {
+		factId: relation.factId,
+		relatedFactId: relation.relatedFactId,
+		relationType: relation.type,
+	};
+}
+
+/**
+ * Throw unless every ID belongs to a stored fact (deleted ones included)
+ */
+export async function assertFactsExist(db: DB, ids: number[]): Promise<void> {
+	const unique = [...new Set(ids)];
+	if (unique.length === 0) return;
+
+	const found = await db
+		.select({ id: facts.id })
+		.from(facts)
+		.where(inArray(facts.id, unique));
+	const foundIds = new Set(found.map((f) => f.id));
+	const missing = unique.filter((id) => !foundIds.has(id));
+	if (missing.length > 0) {
+		throw new Error(`Facts not found: ${missing.join(", ")}`);
+	}
+}
+
+export async function linkFacts(
+	db: DB,
+	input: FactLinkInput,
+): Promise<FactLinkOutput> {
+	const values = input.relations.map(normalize);
+	for (const value of values) {
+		if (value.factId === value.relatedFactId) {
+			throw new Error(`Fact ${value.factId} cannot be related to itself`);
+		}
+	}
+
+	await assertFactsExist(
+		db,
+		values.flatMap((v) => [v.factId, v.relatedFactId]),
+	);
+
+	const inserted = await db
+		.insert(factRelations)
+		.values(values)
+		.onConflictDoNothing()
+		.returning({ factId: factRelations.factId });
+	return { linked: inserted.length };
+}
+
+export async function unlinkFacts(
+	db: DB,
+	input: FactLinkInput,
+): Promise<FactUnlinkOutput> {
+	let unlinked = 0;
+	for (const relation of input.relations.map(normalize)) {
+		const removed = await db
+			.delete(factRelations)
+			.where(
+				and(
+					eq(factRelations.factId, relation.factId),
+					eq(factRelations.relatedFactId, relation.relatedFactId),
+					eq(factRelations.relationType, relation.relationType),
+				),
+			)
+			.returning({ factId: factRelations.factId });
+		unlinked += removed.length;
+	}
+	return { unlinked };
+}
+
+/**
+ * Contradictions between facts that are both still live, i.e. neither
+ * deleted nor superseded
+ */
+export async function findContradictions(
+	db: DB,
+): Promise<CheckStaleOutput["contradictions"]> {
+	return db.all<
+		CheckStaleOutput["contradictions"][number]
+	>(sql`SELECT r.fact_id AS factId, a.content AS content,
+			r.related_fact_id AS relatedFactId, b.content AS relatedContent,
+			r.created_at AS createdAt
+		FROM ${factRelations} r
+		INNER JOIN ${facts} a ON a.id = r.fact_id
+		INNER JOIN ${facts} b ON b.id = r.related_fact_id
+		WHERE r.relation_type = 'contradicts'
+		AND a.deleted_at IS NULL AND b.deleted_at IS NULL
+		AND ${notSuperseded(sql.raw("r.fact_id"))}
+		AND ${notSuperseded(sql.raw("r.related_fact_id"))}
+		ORDER BY r.created_at`);
+}
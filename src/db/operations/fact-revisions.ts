@@ -0,0 +1,238 @@
+import { eq, ne, sql, inArray, and, desc } from "drizzle-orm";
+import type { DB } from "../index.js";
+import { facts, factRevisions, factTags, tags } from "../schema.js";
+import { getOrCreateTags } from "./tags.js";
+import type {
+	FactHistoryInput,
+	FactHistoryOutput,
+	FactRevertInput,
+	FactRevertOutput,
+} from "../../schemas/facts.js";
+
+/**
+ * Revisable values of a fact, as captured before a change
+ */
+export interface FactState {
+	content: string;
+	source: string | null;
+	sourceType: string | null;
+	verified: boolean;
+	deletedAt: string | null;
+	expiresAt: string | null;
+	tags: string[];
+}
+
+/**
+ * Load the current state of facts, keyed by ID. Call before mutating facts
+ * and pass the result to recordFactRevisions afterwards.
+ */
+export async function captureFactStates(
+	db: DB,
+	ids: number[],
+): Promise<Map<number, FactState>> {
+	const states = new Map<number, FactState>();
+	if (ids.length === 0) return states;
+
+	const rows = await db
+		.select({
+			id: facts.id,
+			content: facts.content,
+			source: facts.source,
+			sourceType: facts.sourceType,
+			verified: facts.verified,
+			deletedAt: facts.deletedAt,
+			expiresAt: facts.expiresAt,
+		})
+		.from(facts)
+		.where(inArray(facts.id, ids));
+	const tagRows = await db
+		.select({ factId: factTags.factId, name: tags.name })
+		.from(factTags)
+		.innerJoin(tags, eq(factTags.tagId, tags.id))
+		.where(inArray(factTags.factId, ids));
+
+	for (const { id, ...values } of rows) {
+		states.set(id, { ...values, tags: [] });
+	}
+	for (const { factId, name } of tagRows) {
+		states.get(factId)?.tags.push(name);
+	}
+	for (const state of states.values()) {
+		state.tags.sort();
+	}
+	return states;
+}
+
+/**
+ * Record a revision for every fact whose state differs from the state
+ * captured before the change. Facts deleted by the change are skipped, since
+ * their revisions go with them. Returns the number of revisions written.
+ */
+export async function recordFactRevisions(
+	db: DB,
+	before: Map<number, FactState>,
+	changedBy: string,
+): Promise<number> {
+	const after = await captureFactStates(db, [...before.keys()]);
+
+	const values: Array<typeof factRevisions.$inferInsert> = [];
+	for (const [factId, old] of before) {
+		const current = after.get(factId);
+		if (!current) continue;
+
+		const tagsAdded = current.tags.filter((t) => !old.tags.includes(t));
+		const tagsRemoved = old.tags.filter((t) => !current.tags.includes(t));
+		const changed =
+			old.content !== current.content ||
+			old.source !== current.source ||
+			old.sourceType !== current.sourceType ||
+			old.verified !== current.verified ||
+			old.deletedAt !== current.deletedAt ||
+			old.expiresAt !== current.expiresAt ||
+			tagsAdded.length > 0 ||
+			tagsRemoved.length > 0;
+		if (!changed) continue;
+
+		values.push({ factId, changedBy, ...old, tagsAdded, tagsRemoved });
+	}
+
+	if (values.length > 0) {
+		await db.insert(factRevisions).values(values);
+	}
+	return values.length;
+}
+
+async function findFactId(db: DB, input: FactHistoryInput): Promise<number> {
+	const [found] = await db
+		.select({ id: facts.id })
+		.from(facts)
+		.where(
+			input.id
+				? eq(facts.id, input.id)
+				: eq(facts.content, input.contentMatch ?? ""),
+		)
+		.limit(1);
+	if (!found) {
+		throw new Error(
+			input.id
+				? `Fact with ID ${input.id} not found`
+				: `Fact with content "${input.contentMatch}" not found`,
+		);
+	}
+	return found.id;
+}
+
+/**
+ * List the revisions of a fact, newest first, alongside its current state
+ */
+export async function getFactHistory(
+	db: DB,
+	input: FactHistoryInput,
+): Promise<FactHistoryOutput> {
+	const factId = await findFactId(db, input);
+	const state = (await captureFactStates(db, [factId])).get(factId);
+	const [fact] = await db
+		.select({ updatedAt: facts.updatedAt })
+		.from(facts)
+		.where(eq(facts.id, factId));
+	if (!state || !fact) {
+		throw new Error(`Fact with ID ${factId} not found`);
+	}
+
+	const revisions = await db
+		.select()
+		.from(factRevisions)
+		.where(eq(factRevisions.factId, factId))
+		.orderBy(desc(factRevisions.id))
+		.limit(input.limit ?? 20);
+
+	const { deletedAt, ...current } = state;
+	return {
+		factId,
+		current: { ...current, deleted: deletedAt !== null, ...fact },
+		revisions: revisions.map((r) => ({
+			id: r.id,
+			changedBy: r.changedBy,
+			changedAt: r.changedAt,
+			content: r.content,
+			source: r.source,
+			sourceType: r.sourceType,
+			verified: r.verified,
+			deleted: r.deletedAt !== null,
+			expiresAt: r.expiresAt,
+			tags: r.tags,
+			tagsAdded: r.tagsAdded,
+			tagsRemoved: r.tagsRemoved,
+		})),
+	};
+}
+
+/**
+ * Restore a fact to the values it had before a revision's change. The
+ * revert is itself recorded as a revision, so it can be undone too.
+ */
+export async function revertFact(
+	db: DB,
+	input: FactRevertInput,
+): Promise<FactRevertOutput> {
+	const [revision] = await db
+		.select()
+		.from(factRevisions)
+		.where(
+			and(
+				eq(factRevisions.id, input.revisionId),
+				eq(factRevisions.factId, input.id),
+			),
+		)
+		.limit(1);
+	if (!revision) {
+		throw new Error(
+			`Revision ${input.revisionId} not found for fact ${input.id}`,
+		);
+	}
+
+	const [conflict] = await db
+		.select({ id: facts.id })
+		.from(facts)
+		.where(and(eq(facts.content, revision.content), ne(facts.id, input.id)))
+		.limit(1);
+	if (conflict) {
+		throw new Error(
+			`Cannot revert fact ${input.id}: fact ${conflict.id} already has the content of revision ${revision.id}`,
+		);
+	}
+
+	const before = await captureFactStates(db, [input.id]);
+	await db
+		.update(facts)
+		.set({
+			content: revision.content,
+			source: revision.source,
+			sourceType: revision.sourceType,
+			verified: revision.verified,
+			deletedAt: revision.deletedAt,
+			expiresAt: revision.expiresAt,
+			updatedAt: sql`(CURRENT_TIMESTAMP)`,
+		})
+		.where(eq(facts.id, input.id));
+
+	await db.delete(factTags).where(eq(factTags.factId, input.id));
+	const tagMap = await getOrCreateTags(db, revision.tags);
+	const restoredTags = revision.tags
+		.map((name) => tagMap.get(name))
+		.filter((tagId): tagId is number => tagId !== undefined)
+		.map((tagId) => ({ factId: input.id, tagId }));
+	if (restoredTags.length > 0) {
+		await db.insert(factTags).values(restoredTags).onConflictDoNothing();
+	}
+
+	await recordFactRevisions(db, before, "revert_fact");
+
+	return {
+		success: true,
+		id: input.id,
+		revisionId: revision.id,
+		content: revision.content,
+		tags: revision.tags,
+	};
+}
@@ -1,24 +1,39 @@
 import {
 	eq,
-	like,
 	sql,
 	inArray,
+	notInArray,
 	and,
 	lt,
 	desc,
 	asc,
 	isNull,
+	type SQL,
 } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
 import type { DB } from "../index.js";
-import { facts, factTags, tags } from "../schema.js";
+import { facts, factRelations, factTags, skillFacts, tags } from "../schema.js";
 import {
 	getOrCreateTags,
 	incrementTagUsage,
 	getSuggestedTags,
 } from "./tags.js";
 import { expandTags, validateRequiredTags } from "./tag-relationships.js";
-import { getSearchLimit, getSearchIncludeDeleted } from "./config.js";
+import {
+	getSearchLimit,
+	getSearchIncludeDeleted,
+	getFactDuplicateThreshold,
+} from "./config.js";
+import { captureFactStates, recordFactRevisions } from "./fact-revisions.js";
+import {
+	assertFactsExist,
+	getSupersedingFacts,
+	linkFacts,
+	notSuperseded,
+} from "./fact-relations.js";
+import { findSimilarFacts } from "./fact-duplicates.js";
 import { decodeCursor, getNextCursor } from "../../utils/cursor.js";
+import { toFtsQuery } from "../../utils/fts.js";
 import type {
 	FactSubmitInput,
 	FactSearchInput,
@@ -26,10 +41,24 @@ import type {
 	FactDeleteInput,
 	FactUpdateInput,
 	FactVerifyByTagsInput,
+	FactMergeInput,
 	FactSubmitOutput,
 	FactSearchOutput,
+	FactMergeOutput,
 } from "../../schemas/facts.js";
 
+// expiresAt is an ISO datetime; datetime() normalises it for comparison
+function isExpired(): SQL {
+	return sql`${facts.expiresAt} IS NOT NULL AND datetime(${facts.expiresAt}) <= datetime('now')`;
+}
+
+/**
+ * Condition excluding facts whose expiresAt has passed
+ */
+export function notExpired(factId: SQLiteColumn | SQL): SQL {
+	return sql`${factId} NOT IN (SELECT ${facts.id} FROM ${facts} WHERE ${isExpired()})`;
+}
+
 export async function submitFacts(
 	db: DB,
 	input: FactSubmitInput,
@@ -48,6 +77,11 @@ export async function submitFacts(
 		}
 	}
 
+	await assertFactsExist(
+		db,
+		input.facts.flatMap((f) => f.supersedes ?? []),
+	);
+
 	const allTagNames = [...new Set(input.facts.flatMap((f) => f.tags))];
 	const tagMap = await getOrCreateTags(db, allTagNames);
 
@@ -65,23 +99,53 @@ export async function submitFacts(
 		existingFacts.map((f) => [f.content, f.id]),
 	);
 
-	const toInsert = input.facts.filter(
+	const newFacts = input.facts.filter(
 		(f) => !existingContentMap.has(f.content),
 	);
 	const toUpdate = input.facts.filter((f) => existingContentMap.has(f.content));
 
+	// Look for near-duplicates of new facts among stored ones
+	const mode = input.mode ?? "insert";
+	const threshold = await getFactDuplicateThreshold(db);
+	const possibleDuplicates: NonNullable<
+		FactSubmitOutput["possibleDuplicates"]
+	> = [];
+	for (const fact of newFacts) {
+		const matches = await findSimilarFacts(db, fact.content, { threshold });
+		if (matches.length > 0) {
+			possibleDuplicates.push({ content: fact.content, matches });
+		}
+	}
+	const closestMatch = new Map(
+		possibleDuplicates.map((d) => [d.content, d.matches[0]]),
+	);
+	const toInsert =
+		mode === "insert"
+			? newFacts
+			: newFacts.filter((f) => !closestMatch.has(f.content));
+	const toMerge =
+		mode === "merge" ? newFacts.filter((f) => closestMatch.has(f.content)) : [];
+
 	if (toUpdate.length > 0) {
+		const before = await captureFactStates(
+			db,
+			existingFacts.map((f) => f.id),
+		);
 		for (const fact of toUpdate) {
+			// Resubmitting the same content does not make it less true, so a
+			// verified fact stays verified
 			await db
 				.update(facts)
 				.set({
 					source: fact.source,
 					sourceType: fact.sourceType,
-					verified: fact.verified ?? false,
+					...(fact.verified && { verified: true }),
+					expiresAt: fact.expiresAt,
 					updatedAt: sql`(CURRENT_TIMESTAMP)`,
 				})
 				.where(eq(facts.content, fact.content));
 		}
+		await recordFactRevisions(db, before, "submit_facts");
 	}
 
 	let insertedFacts: { id: number; content: string }[] = [];
@@ -94,6 +158,7 @@ export async function submitFacts(
 					source: fact.source,
 					sourceType: fact.sourceType,
 					verified: fact.verified ?? false,
+					expiresAt: fact.expiresAt,
 				})),
 			)
 			.returning({ id: facts.id, content: facts.content });
@@ -116,6 +181,28 @@ export async function submitFacts(
 		}
 	}
 
+	const mergedFacts: { id: number; content: string; mergedContent: string }[] =
+		[];
+	if (toMerge.length > 0) {
+		const targets = toMerge.flatMap((fact) => {
+			const match = closestMatch.get(fact.content);
+			return match ? [{ fact, match }] : [];
+		});
+		const before = await captureFactStates(
+			db,
+			targets.map((t) => t.match.id),
+		);
+		for (const { fact, match } of targets) {
+			await mergeIntoFact(db, match.id, fact, tagMap);
+			mergedFacts.push({
+				id: match.id,
+				content: match.content,
+				mergedContent: fact.content,
+			});
+		}
+		await recordFactRevisions(db, before, "submit_facts");
+	}
+
 	const allResults = [
 		...insertedFacts,
 		...toUpdate.map((f) => ({
@@ -125,13 +212,66 @@ export async function submitFacts(
 		})),
 	];
 
+	// Merged facts stand for the stored fact they were folded into; skipped
+	// ones have no ID, so their supersedes are dropped
+	const idByContent = new Map(allResults.map((f) => [f.content, f.id]));
+	for (const fact of toMerge) {
+		const match = closestMatch.get(fact.content);
+		if (match) idByContent.set(fact.content, match.id);
+	}
+	const supersessions = input.facts.flatMap((fact) => {
+		const factId = idByContent.get(fact.content);
+		if (factId === undefined) return [];
+		return (fact.supersedes ?? []).map((relatedFactId) => ({
+			factId,
+			relatedFactId,
+			type: "supersedes" as const,
+		}));
+	});
+	if (supersessions.length > 0) {
+		await linkFacts(db, { relations: supersessions });
+	}
+
 	return {
 		created: insertedFacts.length,
 		updated: toUpdate.length,
-		facts: allResults,
+		...(mode === "merge" && { merged: mergedFacts.length }),
+		...(mode === "skip" && { skipped: newFacts.length - toInsert.length }),
+		facts: [...allResults, ...mergedFacts],
+		...(possibleDuplicates.length > 0 && { possibleDuplicates }),
 	};
 }
 
+/**
+ * Fold a submitted fact into a stored near-duplicate: the stored content is
+ * kept, the submitted tags are added and a given source replaces the old one
+ */
+async function mergeIntoFact(
+	db: DB,
+	factId: number,
+	fact: FactSubmitInput["facts"][number],
+	tagMap: Map<string, number>,
+): Promise<void> {
+	if (fact.source !== undefined || fact.sourceType !== undefined) {
+		await db
+			.update(facts)
+			.set({
+				...(fact.source !== undefined && { source: fact.source }),
+				...(fact.sourceType !== undefined && { sourceType: fact.sourceType }),
+				updatedAt: sql`(CURRENT_TIMESTAMP)`,
+			})
+			.where(eq(facts.id, factId));
+	}
+
+	const tagValues = fact.tags
+		.map((name) => tagMap.get(name))
+		.filter((tagId): tagId is number => tagId !== undefined)
+		.map((tagId) => ({ factId, tagId }));
+	if (tagValues.length > 0) {
+		await db.insert(factTags).values(tagValues).onConflictDoNothing();
+	}
+}
+
 export async function searchFacts(
 	db: DB,
 	input: FactSearchInput,
@@ -139,7 +279,8 @@ export async function searchFacts(
 	// Use config-based default limit if not provided
 	const configLimit = await getSearchLimit(db, "facts");
 	const limit = input.limit ?? configLimit;
-	const orderBy = input.orderBy ?? "recent";
+	// Rank by relevance by default when a full-text query is given
+	const orderBy = input.orderBy ?? (input.query ? "relevance" : "recent");
 	const tagIdsToIncrement: number[] = [];
 
 	// Check if we should include soft-deleted items
@@ -181,9 +322,16 @@ export async function searchFacts(
 		tagIdsToIncrement.push(...tagIds);
 	}
 
-	// Add query condition
+	// Add full-text query condition
+	const ftsQuery = input.query ? toFtsQuery(input.query) : null;
 	if (input.query) {
-		conditions.push(like(facts.content, `%${input.query}%`));
+		if (!ftsQuery) {
+			const suggestedTags = await getSuggestedTags(db, 5);
+			return { facts: [], suggestedTags };
+		}
+		conditions.push(
+			sql`${facts.id} IN (SELECT rowid FROM facts_fts WHERE facts_fts MATCH ${ftsQuery})`,
+		);
 	}
 
 	// Add verified filter
@@ -196,6 +344,16 @@ export async function searchFacts(
 		conditions.push(eq(facts.sourceType, input.sourceType));
 	}
 
+	// Hide facts replaced by newer ones
+	if (!input.includeSuperseded) {
+		conditions.push(notSuperseded(facts.id));
+	}
+
+	// Hide facts past their expiry date
+	if (!input.includeExpired) {
+		conditions.push(notExpired(facts.id));
+	}
+
 	// Build query for results
 	let query = db
 		.selectDistinct({
@@ -204,6 +362,7 @@ export async function searchFacts(
 			verified: facts.verified,
 			sourceType: facts.sourceType,
 			updatedAt: facts.updatedAt,
+			expiresAt: facts.expiresAt,
 			retrievalCount: facts.retrievalCount,
 		})
 		.from(facts);
@@ -229,6 +388,15 @@ export async function searchFacts(
 		case "usage":
 			orderedQuery = query.orderBy(desc(facts.retrievalCount));
 			break;
+		case "relevance":
+			// bm25() is lower for better matches; fall back to recency without a query
+			orderedQuery = ftsQuery
+				? query.orderBy(
+						sql`(SELECT bm25(facts_fts) FROM facts_fts WHERE facts_fts MATCH ${ftsQuery} AND rowid = ${facts.id})`,
+						desc(facts.updatedAt),
+					)
+				: query.orderBy(desc(facts.updatedAt));
+			break;
 		case "recent":
 		default:
 			orderedQuery = query.orderBy(desc(facts.updatedAt));
@@ -261,6 +429,29 @@ export async function searchFacts(
 			);
 	}
 
+	const snippets = new Map<number, string>();
+	if (ftsQuery && pageResults.length > 0) {
+		const snippetRows = await db.all<{ id: number; snippet: string }>(
+			sql`SELECT rowid AS id, snippet(facts_fts, 0, '**', '**', '...', 16) AS snippet
+				FROM facts_fts
+				WHERE facts_fts MATCH ${ftsQuery}
+				AND rowid IN (${sql.join(
+					pageResults.map((r) => sql`${r.id}`),
+					sql`, `,
+				)})`,
+		);
+		for (const row of snippetRows) {
+			snippets.set(row.id, row.snippet);
+		}
+	}
+
+	const supersededBy = input.includeSuperseded
+		? await getSupersedingFacts(
+				db,
+				pageResults.map((r) => r.id),
+			)
+		: new Map<number, number[]>();
+
 	const factsWithTags = await Promise.all(
 		pageResults.map(async (fact) => {
 			const factTagsResult = await db
@@ -276,6 +467,11 @@ export async function searchFacts(
 				verified: fact.verified,
 				sourceType: fact.sourceType,
 				updatedAt: fact.updatedAt,
+				...(snippets.has(fact.id) && { snippet: snippets.get(fact.id) }),
+				...(fact.expiresAt !== null && { expiresAt: fact.expiresAt }),
+				...(supersededBy.has(fact.id) && {
+					supersededBy: supersededBy.get(fact.id),
+				}),
 			};
 		}),
 	);
@@ -299,6 +495,7 @@ export async function verifyFacts(
 	db: DB,
 	input: FactVerifyInput,
 ): Promise<void> {
+	const before = await captureFactStates(db, input.ids);
 	await db
 		.update(facts)
 		.set({
@@ -306,11 +503,13 @@ export async function verifyFacts(
 			updatedAt: sql`(CURRENT_TIMESTAMP)`,
 		})
 		.where(inArray(facts.id, input.ids));
+	await recordFactRevisions(db, before, "verify_facts");
 }
 
 export async function deleteFacts(
 	db: DB,
 	input: FactDeleteInput,
+	changedBy = "delete_facts",
 ): Promise<number> {
 	const conditions = [];
 
@@ -357,6 +556,10 @@ export async function deleteFacts(
 		conditions.push(eq(facts.verified, false));
 	}
 
+	if (input.expired) {
+		conditions.push(isExpired());
+	}
+
 	if (conditions.length <= 1) {
 		// Only the deletedAt IS NULL condition
 		return 0;
@@ -364,11 +567,27 @@ export async function deleteFacts(
 
 	// Soft delete: set deletedAt timestamp
 	if (input.soft) {
+		const matched = await db
+			.select({ id: facts.id })
+			.from(facts)
+			.where(and(...conditions));
+		if (matched.length === 0) return 0;
+
+		const before = await captureFactStates(
+			db,
+			matched.map((f) => f.id),
+		);
 		const result = await db
 			.update(facts)
 			.set({ deletedAt: sql`(CURRENT_TIMESTAMP)` as unknown as string })
-			.where(and(...conditions))
+			.where(
+				inArray(
+					facts.id,
+					matched.map((f) => f.id),
+				),
+			)
 			.returning({ id: facts.id });
+		await recordFactRevisions(db, before, changedBy);
 		return result.length;
 	}
 
@@ -389,11 +608,13 @@ export async function restoreFacts(
 		return { restored: 0 };
 	}
 
+	const before = await captureFactStates(db, ids);
 	const result = await db
 		.update(facts)
 		.set({ deletedAt: null })
 		.where(and(inArray(facts.id, ids), sql`${facts.deletedAt} IS NOT NULL`))
 		.returning({ id: facts.id });
+	await recordFactRevisions(db, before, "restore_facts");
 
 	return { restored: result.length };
 }
@@ -444,6 +665,7 @@ export async function updateFact(
 		);
 	}
 
+	const before = await captureFactStates(db, [factId]);
 	const { updates } = input;
 	const updateFields: Record<string, unknown> = {};
 
@@ -459,6 +681,9 @@ export async function updateFact(
 	if (updates.verified !== undefined) {
 		updateFields.verified = updates.verified;
 	}
+	if (updates.expiresAt !== undefined) {
+		updateFields.expiresAt = updates.expiresAt;
+	}
 
 	// Always update the timestamp
 	updateFields.updatedAt = sql`(CURRENT_TIMESTAMP)`;
@@ -522,6 +747,8 @@ export async function updateFact(
 		}
 	}
 
+	await recordFactRevisions(db, before, "update_fact");
+
 	// Get final content
 	const finalFact = await db
 		.select({ content: facts.content })
@@ -589,6 +816,7 @@ export async function verifyFactsByTags(
 	}
 
 	// Update verification status
+	const before = await captureFactStates(db, factIdsToVerify);
 	await db
 		.update(facts)
 		.set({
@@ -596,6 +824,131 @@ export async function verifyFactsByTags(
 			updatedAt: sql`(CURRENT_TIMESTAMP)`,
 		})
 		.where(inArray(facts.id, factIdsToVerify));
+	await recordFactRevisions(db, before, "verify_facts_by_tags");
 
 	return { verified: factIdsToVerify.length, factIds: factIdsToVerify };
 }
+
+/**
+ * Consolidate facts into the first of them. The survivor takes the given
+ * content, the union of all tags, the summed retrieval count and the
+ * strongest verification, and skill links move over to it. Absorbed facts are
+ * kept but superseded by the survivor, so they drop out of search while the
+ * trail back to them remains.
+ */
+export async function mergeFacts(
+	db: DB,
+	input: FactMergeInput,
+): Promise<FactMergeOutput> {
+	const ids = [...new Set(input.ids)];
+	const [survivorId, ...absorbedIds] = ids;
+	if (survivorId === undefined || absorbedIds.length === 0) {
+		throw new Error("At least two distinct fact IDs are required to merge");
+	}
+	await assertFactsExist(db, ids);
+
+	const [conflict] = await db
+		.select({ id: facts.id })
+		.from(facts)
+		.where(and(eq(facts.content, input.content), notInArray(facts.id, ids)))
+		.limit(1);
+	if (conflict) {
+		throw new Error(
+			`Fact with content "${input.content}" already exists (ID ${conflict.id}); include it in ids to merge it`,
+		);
+	}
+
+	const rows = await db
+		.select({
+			id: facts.id,
+			source: facts.source,
+			sourceType: facts.sourceType,
+			verified: facts.verified,
+			retrievalCount: facts.retrievalCount,
+			lastRetrievedAt: facts.lastRetrievedAt,
+		})
+		.from(facts)
+		.where(inArray(facts.id, ids));
+	// Prefer the survivor's source, then the absorbed facts' in the given order
+	rows.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+	const sourced = rows.find(
+		(row) => row.source !== null || row.sourceType !== null,
+	);
+	const lastRetrievedAt =
+		rows
+			.map((row) => row.lastRetrievedAt)
+			.filter((at): at is string => at !== null)
+			.sort()
+			.at(-1) ?? null;
+	const verified = rows.some((row) => row.verified);
+	const retrievalCount = rows.reduce((sum, row) => sum + row.retrievalCount, 0);
+
+	const before = await captureFactStates(db, ids);
+	await db
+		.update(facts)
+		.set({
+			content: input.content,
+			source: sourced?.source ?? null,
+			sourceType: sourced?.sourceType ?? null,
+			verified,
+			retrievalCount,
+			lastRetrievedAt,
+			deletedAt: null,
+			updatedAt: sql`(CURRENT_TIMESTAMP)`,
+		})
+		.where(eq(facts.id, survivorId));
+
+	const tagRows = await db
+		.select({ tagId: factTags.tagId })
+		.from(factTags)
+		.where(inArray(factTags.factId, absorbedIds));
+	if (tagRows.length > 0) {
+		await db
+			.insert(factTags)
+			.values(tagRows.map(({ tagId }) => ({ factId: survivorId, tagId })))
+			.onConflictDoNothing();
+	}
+
+	const links = await db
+		.select({ skillId: skillFacts.skillId, createdAt: skillFacts.createdAt })
+		.from(skillFacts)
+		.where(inArray(skillFacts.factId, absorbedIds));
+	if (links.length > 0) {
+		await db
+			.insert(skillFacts)
+			.values(links.map((link) => ({ ...link, factId: survivorId })))
+			.onConflictDoNothing();
+		await db.delete(skillFacts).where(inArray(skillFacts.factId, absorbedIds));
+	}
+
+	// Relations among the merged facts no longer apply once they are one fact
+	await db
+		.delete(factRelations)
+		.where(
+			and(
+				inArray(factRelations.factId, ids),
+				inArray(factRelations.relatedFactId, ids),
+			),
+		);
+	await linkFacts(db, {
+		relations: absorbedIds.map((relatedFactId) => ({
+			factId: survivorId,
+			relatedFactId,
+			type: "supersedes" as const,
+		})),
+	});
+
+	await recordFactRevisions(db, before, "merge_facts");
+
+	const after = await captureFactStates(db, [survivorId]);
+	return {
+		success: true,
+		id: survivorId,
+		content: input.content,
+		tags: after.get(survivorId)?.tags ?? [],
+		verified,
+		retrievalCount,
+		absorbed: absorbedIds,
+		skillLinks: links.length,
+	};
+}
@@ -0,0 +1,456 @@
+import { readFile } from "node:fs/promises";
+import { and, asc, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import type { DB } from "../index.js";
+import { resources, skills, skillResources } from "../schema.js";
+import {
+	processSnapshot,
+	replaceResourceSnapshot,
+	htmlToMarkdown,
+	getGitChanges,
+	resolveResourceFreshness,
+	matchResourceUris,
+	type SnapshotProcessResult,
+} from "./resources.js";
+import {
+	getAllConfig,
+	getRedactionOptions,
+	getContentSelectors,
+	getRefreshTimeoutMs,
+	getSnapshotMaxSizeKb,
+} from "./config.js";
+import { executeCommand } from "./execution.js";
+import { resolveFileLocation } from "../../utils/fs.js";
+import { hoursSince, nowISO } from "../../utils/dates.js";
+import { redactSecrets, type Redaction } from "../../utils/redact.js";
+import {
+	decryptSecret,
+	isEncrypted,
+	loadSecretKey,
+	SECRET_KEY_ENV,
+	SECRET_KEY_FILE_ENV,
+} from "../../utils/secrets.js";
+import type {
+	RefreshResourcesInput,
+	RefreshResourcesOutput,
+} from "../../schemas/context.js";
+
+type Resource = typeof resources.$inferSelect;
+type RefreshResult = RefreshResourcesOutput["results"][number];
+
+/**
+ * Fetched bodies larger than this multiple of snapshot_max_size_kb are
+ * rejected rather than read into memory; HTML shrinks a lot on conversion
+ */
+const MAX_BODY_SNAPSHOTS = 10;
+
+export interface RefreshTarget {
+	method: "file" | "command" | "url";
+	target: string;
+	headers?: Record<string, string>;
+}
+
+/**
+ * Work out how a resource can be refreshed server-side from its retrieval
+ * method, falling back to the resource type and URI.
+ * Returns null if there is no usable retrieval method.
+ */
+export function resolveRefreshTarget(
+	resource: Pick<Resource, "uri" | "type" | "retrievalMethod">,
+): RefreshTarget | null {
+	const method = resource.retrievalMethod;
+	const knownTypes = ["file", "command", "url", "api"];
+	const type =
+		method?.type && knownTypes.includes(method.type)
+			? method.type
+			: resource.type;
+
+	switch (type) {
+		case "file": {
+			const path = resolveFileLocation(method?.url ?? resource.uri);
+			return path ? { method: "file", target: path } : null;
+		}
+		case "command": {
+			const command =
+				method?.command ??
+				(resource.type === "command" ? resource.uri : undefined);
+			return command ? { method: "command", target: command } : null;
+		}
+		case "url":
+		case "api": {
+			const url = method?.url ?? resource.uri;
+			if (!/^https?:\/\//i.test(url)) {
+				return null;
+			}
+			return { method: "url", target: url, headers: method?.headers };
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Fetch a resource's current content. Commands go through the execution
+ * policy, which may turn the run into a preview of what would run.
+ */
+async function fetchContent(
+	db: DB,
+	resource: Resource,
+	target: RefreshTarget,
+	timeoutMs: number,
+	dryRun: boolean,
+): Promise<{ content: string; isHtml: boolean } | { preview: string }> {
+	switch (target.method) {
+		case "file":
+			return { content: await readFile(target.target, "utf-8"), isHtml: false };
+
+		case "command": {
+			const run = await executeCommand(db, {
+				command: target.target,
+				context: `Refresh of resource ${resource.uri}`,
+				dryRun,
+				timeoutMs,
+			});
+			if (run.status === "dry_run") {
+				return { preview: run.message ?? target.target };
+			}
+			if (run.status !== "completed") {
+				throw new Error(run.message);
+			}
+			return { content: run.stdout ?? "", isHtml: false };
+		}
+
+		case "url": {
+			const response = await fetch(target.target, {
+				headers: await resolveHeaders(target.headers),
+				signal: AbortSignal.timeout(timeoutMs),
+			});
+			if (!response.ok) {
+				throw new Error(
+					`HTTP ${response.status} ${response.statusText}`.trim(),
+				);
+			}
+			const contentType = response.headers.get("content-type") ?? "";
+			const maxKb = (await getSnapshotMaxSizeKb(db)) * MAX_BODY_SNAPSHOTS;
+			return {
+				content: await readBody(response, maxKb),
+				isHtml: contentType.includes("html"),
+			};
+		}
+	}
+}
+
+/**
+ * Read a response body as text, failing once it grows past maxKb
+ */
+async function readBody(response: Response, maxKb: number): Promise<string> {
+	const maxBytes = maxKb * 1024;
+	const tooLarge = () =>
+		new Error(`Response body exceeds ${maxKb} KB; not refreshed`);
+
+	if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+		await response.body?.cancel();
+		throw tooLarge();
+	}
+	if (!response.body) return "";
+
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	const reader = response.body.getReader();
+	for (let read = await reader.read(); !read.done; read = await reader.read()) {
+		size += read.value.byteLength;
+		if (size > maxBytes) {
+			await reader.cancel();
+			throw tooLarge();
+		}
+		chunks.push(read.value);
+	}
+	return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Turn stored header values into the ones to send by decrypting encrypted
+ * values. This is the only place credentials are decrypted.
+ */
+async function resolveHeaders(
+	headers: Record<string, string> | undefined,
+): Promise<Record<string, string> | undefined> {
+	if (!headers) return undefined;
+
+	const needsKey = Object.values(headers).some(isEncrypted);
+	const key = needsKey ? await loadSecretKey() : null;
+	if (needsKey && !key) {
+		throw new Error(
+			`Encrypted headers need a key: set ${SECRET_KEY_ENV} or ${SECRET_KEY_FILE_ENV}`,
+		);
+	}
+
+	return Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			key && isEncrypted(value) ? decryptSecret(value, key) : value,
+		]),
+	);
+}
+
+/**
+ * Redact fetched content and run it through the snapshot overflow pipeline.
+ * Oversized HTML is converted to markdown first. There is no agent to ask
+ * for a resubmission, so when the configured behaviour asks for one the
+ * content is chunked instead.
+ */
+async function processRefreshedContent(
+	db: DB,
+	resource: Resource,
+	content: string,
+	isHtml: boolean,
+): Promise<{
+	snapshot: string;
+	chunked: boolean;
+	original?: string;
+	/** Content before overflow processing */
+	source: string;
+	redactions: Redaction[];
+}> {
+	if (content === "") {
+		return { snapshot: "", chunked: false, source: "", redactions: [] };
+	}
+
+	const redacted = redactSecrets(content, {
+		...(await getRedactionOptions(db)),
+		source: resource.uri,
+	});
+	let source = redacted.text;
+	let result: SnapshotProcessResult = await processSnapshot(db, source);
+
+	// Summarising raw markup would keep little but tags
+	if (isHtml && (result.needsResubmission || result.original !== undefined)) {
+		source = htmlToMarkdown(
+			redacted.text,
+			await getContentSelectors(db, resource.uri),
+		);
+		result = await processSnapshot(db, source);
+	}
+	if (result.needsResubmission) {
+		result = await processSnapshot(db, source, { behavior: "chunk" });
+	}
+
+	return {
+		snapshot: result.snapshot ?? "",
+		chunked: !!result.chunked,
+		...(result.original !== undefined && { original: result.original }),
+		source,
+		redactions: redacted.redactions,
+	};
+}
+
+/**
+ * Resources due for a refresh, least recently attempted first. A resource
+ * whose last refresh failed or found it missing is not retried until its
+ * threshold has passed again, so failing resources cannot take up every
+ * slot of each run.
+ */
+async function selectStaleResources(
+	db: DB,
+	maxAgeHours: number | undefined,
+	limit: number,
+): Promise<Resource[]> {
+	const candidates = await db
+		.select()
+		.from(resources)
+		.where(isNull(resources.deletedAt))
+		.orderBy(
+			asc(
+				sql`coalesce(${resources.lastRefreshAt}, ${resources.lastVerifiedAt})`,
+			),
+			asc(resources.id),
+		);
+
+	const dbConfig = await getAllConfig(db);
+	const gitChanges = await getGitChanges(db, candidates);
+
+	return candidates
+		.filter((r) => {
+			if (!resolveRefreshTarget(r)) return false;
+			const threshold =
+				maxAgeHours ??
+				resolveResourceFreshness(r, dbConfig).freshnessThresholdHours;
+			if (
+				(r.lastRefreshStatus === "failed" ||
+					r.lastRefreshStatus === "missing") &&
+				r.lastRefreshAt &&
+				hoursSince(r.lastRefreshAt) < threshold
+			) {
+				return false;
+			}
+			if (!r.lastVerifiedAt) return true;
+			const gitChanged = gitChanges.get(r.id);
+			if (gitChanged !== undefined) return gitChanged;
+			return hoursSince(r.lastVerifiedAt) >= threshold;
+		})
+		.slice(0, limit);
+}
+
+async function refreshResource(
+	db: DB,
+	resource: Resource,
+	timeoutMs: number,
+	dryRun: boolean,
+): Promise<RefreshResult> {
+	const started = Date.now();
+	const target = resolveRefreshTarget(resource);
+
+	let result: RefreshResult;
+	if (!target) {
+		result = {
+			id: resource.id,
+			uri: resource.uri,
+			method: null,
+			status: "skipped",
+			message: "No retrieval method that can be refreshed server-side",
+			durationMs: 0,
+		};
+	} else if (dryRun && target.method !== "command") {
+		result = {
+			id: resource.id,
+			uri: resource.uri,
+			method: target.method,
+			status: "dry_run",
+			message: `Would ${target.method === "file" ? "read" : "fetch"} ${target.target}`,
+			durationMs: 0,
+		};
+	} else {
+		try {
+			const fetched = await fetchContent(
+				db,
+				resource,
+				target,
+				timeoutMs,
+				dryRun,
+			);
+			if ("preview" in fetched) {
+				return {
+					id: resource.id,
+					uri: resource.uri,
+					method: target.method,
+					status: "dry_run",
+					message: fetched.preview,
+					durationMs: Date.now() - started,
+				};
+			}
+			const { content, isHtml } = fetched;
+			const { snapshot, redactions, ...sections } =
+				await processRefreshedContent(db, resource, content, isHtml);
+			const { changed, snapshotHash } = await replaceResourceSnapshot(
+				db,
+				resource,
+				snapshot,
+				nowISO(),
+				sections,
+			);
+			result = {
+				id: resource.id,
+				uri: resource.uri,
+				method: target.method,
+				status: changed ? "updated" : "unchanged",
+				snapshotHash,
+				durationMs: Date.now() - started,
+				...(redactions.length > 0 && { redactions }),
+			};
+		} catch (err) {
+			const missing =
+				target.method === "file" &&
+				(err as NodeJS.ErrnoException).code === "ENOENT";
+			result = {
+				id: resource.id,
+				uri: resource.uri,
+				method: target.method,
+				status: missing ? "missing" : "failed",
+				message: missing
+					? `File not found: ${target.target}`
+					: err instanceof Error
+						? err.message
+						: String(err),
+				durationMs: Date.now() - started,
+			};
+		}
+	}
+
+	// Dry runs leave no trace on the resource
+	if (result.status !== "dry_run") {
+		await db
+			.update(resources)
+			.set({
+				lastRefreshAt: nowISO(),
+				lastRefreshStatus: result.status,
+				lastRefreshMessage: result.message ?? null,
+			})
+			.where(eq(resources.id, resource.id));
+	}
+
+	return result;
+}
+
+/**
+ * Refresh resources server-side using their retrieval methods: read files
+ * from disk, run commands, or fetch URLs. Without ids/uris, refreshes the
+ * resources that are stale for their freshness category.
+ * File resources whose file no longer exists are reported as missing and
+ * keep their last snapshot.
+ */
+export async function refreshResources(
+	db: DB,
+	input: RefreshResourcesInput,
+): Promise<RefreshResourcesOutput> {
+	const limit = input.limit ?? 20;
+	const timeoutMs = await getRefreshTimeoutMs(db);
+
+	let targets: Resource[];
+	if (input.ids?.length || input.uris?.length) {
+		const conditions = [];
+		if (input.ids?.length) {
+			conditions.push(inArray(resources.id, input.ids));
+		}
+		if (input.uris?.length) {
+			conditions.push(matchResourceUris(input.uris));
+		}
+		targets = await db
+			.select()
+			.from(resources)
+			.where(and(isNull(resources.deletedAt), or(...conditions)))
+			.limit(limit);
+	} else {
+		targets = await selectStaleResources(db, input.maxAgeHours, limit);
+	}
+
+	const results: RefreshResult[] = [];
+	for (const resource of targets) {
+		results.push(
+			await refreshResource(db, resource, timeoutMs, input.dryRun ?? false),
+		);
+	}
+
+	const updatedIds = results
+		.filter((r) => r.status === "updated")
+		.map((r) => r.id);
+	const skillsToReview =
+		updatedIds.length > 0
+			? await db
+					.selectDistinct({ id: skills.id, name: skills.name })
+					.from(skillResources)
+					.innerJoin(skills, eq(skillResources.skillId, skills.id))
+					.where(inArray(skillResources.resourceId, updatedIds))
+			: [];
+
+	const count = (status: RefreshResult["status"]) =>
+		results.filter((r) => r.status === status).length;
+
+	return {
+		refreshed: count("updated"),
+		unchanged: count("unchanged"),
+		failed: count("failed"),
+		missing: count("missing"),
+		skipped: count("skipped"),
+		results,
+		skillsToReview,
+	};
+}
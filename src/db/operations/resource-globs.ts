@@ -0,0 +1,209 @@
+import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import { eq, inArray, like, sql } from "drizzle-orm";
+import type { DB } from "../index.js";
+import { resourceGlobs, resources } from "../schema.js";
+import { addResources, type OverflowBehavior } from "./resources.js";
+import { expandGlob, normalizeGlob } from "../../utils/glob.js";
+import { getProjectRoot } from "../../utils/fs.js";
+import { nowISO } from "../../utils/dates.js";
+import { PLACEHOLDER_DESCRIPTION } from "../../constants.js";
+import type {
+	ResourceAddInput,
+	ResourceGlobInput,
+	ResourceGlobOutput,
+	ResourceGlobSyncInput,
+	ResourceGlobSyncOutput,
+} from "../../schemas/resources.js";
+
+type ResourceGlob = typeof resourceGlobs.$inferSelect;
+
+/** Files registered per expansion when no limit is given */
+const DEFAULT_GLOB_LIMIT = 200;
+
+/**
+ * Fill the {path}, {name}, {dir} and {ext} placeholders of a description
+ * template for one matched file
+ */
+function renderDescription(template: string | null, path: string): string {
+	if (!template) {
+		return PLACEHOLDER_DESCRIPTION;
+	}
+	const values: Record<string, string> = {
+		path,
+		name: basename(path),
+		dir: dirname(path),
+		ext: extname(path).slice(1),
+	};
+	return template.replace(
+		/\{(path|name|dir|ext)\}/g,
+		(placeholder, key: string) => values[key] ?? placeholder,
+	);
+}
+
+/**
+ * Expand a remembered glob and register every matched file that is not
+ * already a resource, snapshotting it from disk. The limit applies to new
+ * files only, so repeated runs work through a large match set.
+ */
+async function expandResourceGlob(
+	db: DB,
+	glob: ResourceGlob,
+	options: { limit?: number; overflowBehavior?: OverflowBehavior },
+): Promise<ResourceGlobOutput> {
+	const root = getProjectRoot();
+	// Glob matches are registered as ./path
+	const existing = await db
+		.select({ uri: resources.uri, deletedAt: resources.deletedAt })
+		.from(resources)
+		.where(like(resources.uri, "./%"));
+	const existingByUri = new Map(existing.map((r) => [r.uri, r.deletedAt]));
+
+	const expanded = await expandGlob(glob.pattern, {
+		root,
+		exclude: glob.exclude ?? undefined,
+		limit: options.limit ?? DEFAULT_GLOB_LIMIT,
+		skip: (path) => existingByUri.has(`./${path}`),
+	});
+	const { files, limited } = expanded;
+
+	const skipped: ResourceGlobOutput["skipped"] = expanded.skipped.map(
+		(path) => ({
+			uri: `./${path}`,
+			reason: existingByUri.get(`./${path}`) ? "deleted" : "exists",
+		}),
+	);
+	const candidates: ResourceAddInput["resources"] = [];
+
+	for (const path of files) {
+		const uri = `./${path}`;
+		let content: Buffer;
+		try {
+			content = await readFile(join(root, path));
+		} catch {
+			skipped.push({ uri, reason: "unreadable" });
+			continue;
+		}
+		if (content.includes(0)) {
+			skipped.push({ uri, reason: "binary" });
+			continue;
+		}
+
+		candidates.push({
+			uri,
+			type: "file",
+			description: renderDescription(glob.descriptionTemplate, path),
+			tags: glob.tags,
+			snapshot: content.toString("utf-8"),
+			retrievalMethod: { type: "file" },
+			maxAgeHours: glob.maxAgeHours ?? undefined,
+			overflowBehavior: options.overflowBehavior,
+		});
+	}
+
+	const added =
+		candidates.length > 0
+			? await addResources(db, { resources: candidates })
+			: { created: 0, resources: [] };
+	const oversize = (added.overflowPrompts ?? []).map(
+		({ uri, currentSizeKb, maxSizeKb }) => ({ uri, currentSizeKb, maxSizeKb }),
+	);
+
+	skipped.sort((a, b) => a.uri.localeCompare(b.uri));
+
+	await db
+		.update(resourceGlobs)
+		.set({ lastExpandedAt: nowISO() })
+		.where(eq(resourceGlobs.id, glob.id));
+
+	return {
+		globId: glob.id,
+		pattern: glob.pattern,
+		matched: files.length + expanded.skipped.length,
+		limited,
+		created: added.resources.map(({ id, uri }) => ({ id, uri })),
+		skipped,
+		oversize,
+		...(added.redactions && { redactions: added.redactions }),
+	};
+}
+
+/**
+ * Register every file matching a glob as a resource and remember the glob,
+ * so re-running it (or sync_resource_globs) picks up files added later.
+ * Options not given fall back to those remembered for the same pattern.
+ */
+export async function addResourceGlob(
+	db: DB,
+	input: ResourceGlobInput,
+): Promise<ResourceGlobOutput> {
+	const pattern = normalizeGlob(input.pattern);
+	const exclude = input.exclude?.map(normalizeGlob);
+
+	const [existing] = await db
+		.select()
+		.from(resourceGlobs)
+		.where(eq(resourceGlobs.pattern, pattern))
+		.limit(1);
+
+	const tags = input.tags ?? existing?.tags;
+	if (!tags) {
+		throw new Error(`Tags are required to register a new glob: ${pattern}`);
+	}
+
+	const values = {
+		pattern,
+		tags,
+		descriptionTemplate:
+			input.description ?? existing?.descriptionTemplate ?? null,
+		exclude: exclude ?? existing?.exclude ?? null,
+		maxAgeHours: input.maxAgeHours ?? existing?.maxAgeHours ?? null,
+	};
+	const [glob] = await db
+		.insert(resourceGlobs)
+		.values(values)
+		.onConflictDoUpdate({
+			target: resourceGlobs.pattern,
+			set: { ...values, updatedAt: sql`(CURRENT_TIMESTAMP)` },
+		})
+		.returning();
+
+	if (!glob) {
+		throw new Error(`Failed to save glob: ${pattern}`);
+	}
+
+	return expandResourceGlob(db, glob, {
+		limit: input.limit,
+		overflowBehavior: input.overflowBehavior,
+	});
+}
+
+/**
+ * Re-expand remembered globs to register files added since they last ran
+ */
+export async function syncResourceGlobs(
+	db: DB,
+	input: ResourceGlobSyncInput,
+): Promise<ResourceGlobSyncOutput> {
+	const patterns = input.patterns?.map(normalizeGlob);
+	const globs = await db
+		.select()
+		.from(resourceGlobs)
+		.where(patterns ? inArray(resourceGlobs.pattern, patterns) : undefined)
+		.orderBy(resourceGlobs.id);
+
+	if (patterns) {
+		const known = new Set(globs.map((g) => g.pattern));
+		const unknown = patterns.filter((p) => !known.has(p));
+		if (unknown.length > 0) {
+			throw new Error(`Unknown glob patterns: ${unknown.join(", ")}`);
+		}
+	}
+
+	const results: ResourceGlobOutput[] = [];
+	for (const glob of globs) {
+		results.push(await expandResourceGlob(db, glob, {}));
+	}
+
+	return { globs: results };
+}
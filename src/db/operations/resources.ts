@@ -7,10 +7,19 @@ import {
 	desc,
 	asc,
 	and,
+	or,
 	isNull,
 } from "drizzle-orm";
 import type { DB } from "../index.js";
-import { resources, resourceTags, tags, skillResources } from "../schema.js";
+import {
+	resources,
+	resourceTags,
+	resourceSnapshots,
+	resourceChunks,
+	tags,
+	skillResources,
+	skills,
+} from "../schema.js";
 import {
 	getOrCreateTags,
 	incrementTagUsage,
@@ -18,22 +27,60 @@ import {
 } from "./tags.js";
 import { expandTags, validateRequiredTags } from "./tag-relationships.js";
 import {
+	getAllConfig,
 	getSearchLimit,
 	getSearchIncludeDeleted,
 	getSnapshotMaxSizeKb,
 	getSnapshotOverflowBehavior,
+	getSnapshotChunkSizeKb,
+	getContentSelectors,
+	getGitFreshnessEnabled,
+	getRedactionOptions,
 } from "./config.js";
 import { computeHash } from "../../utils/hash.js";
+import { getProjectRoot, resolveFileLocation } from "../../utils/fs.js";
+import { getCleanFileCommits, getFilesChangedSince } from "../../utils/git.js";
+import {
+	isSensitiveHeader,
+	mergeRedactions,
+	redactHeaders,
+	redactSecrets,
+	type Redaction,
+	type RedactionOptions,
+} from "../../utils/redact.js";
+import {
+	encryptSecret,
+	isEncrypted,
+	loadSecretKey,
+	SECRET_MASK,
+} from "../../utils/secrets.js";
+import { unifiedDiff } from "../../utils/diff.js";
+import { chunkSnapshot } from "../../utils/chunking.js";
+import { summarizeText } from "../../utils/summarize.js";
+import { looksLikeHtml, outlineSnapshot } from "../../utils/outline.js";
+import {
+	extractMainContent,
+	type ContentSelectors,
+} from "../../utils/readability.js";
 import TurndownService from "turndown";
 import { nowISO, hoursAgoISO, secondsSince } from "../../utils/dates.js";
 import { decodeCursor, getNextCursor } from "../../utils/cursor.js";
+import { toFtsQuery } from "../../utils/fts.js";
+import { canonicalResourceUri, resourceUriKeys } from "../../utils/uri.js";
+import {
+	extractStructuredSummary,
+	type StructuredSummary,
+} from "../../utils/extractors.js";
 import {
 	inferResourceCategory,
+	getCustomCategories,
 	getFreshnessForCategories,
-	type FreshnessCategory,
+	type ResourceCategory,
 } from "../../runtime-config.js";
 import type {
 	ResourceAddInput,
+	ResourceDuplicatesInput,
+	ResourceDuplicatesOutput,
 	ResourceSearchInput,
 	ResourceGetInput,
 	ResourcesGetInput,
@@ -43,36 +90,315 @@ import type {
 	ResourceGetOutput,
 	ResourcesGetOutput,
 	ResourceUpdateOutput,
+	ResourceUpdateSnapshotsOutput,
+	ResourceHistoryInput,
+	ResourceHistoryOutput,
+	ResourceDiffInput,
+	ResourceDiffOutput,
+	ResourceSectionInput,
+	ResourceSectionOutput,
+	ResourceOutlineEntry,
 } from "../../schemas/resources.js";
 
 /**
  * Overflow behavior specification from the agent
  */
-interface OverflowBehavior {
-	behavior: "truncate" | "remove_noise" | "html_to_md" | "ignore";
+export interface OverflowBehavior {
+	behavior:
+		| "truncate"
+		| "remove_noise"
+		| "html_to_md"
+		| "chunk"
+		| "summarize"
+		| "outline"
+		| "ignore";
 	noisePatterns?: string[];
 }
 
 /**
  * Result of processing a snapshot with overflow handling
  */
-interface SnapshotProcessResult {
+export interface SnapshotProcessResult {
 	snapshot: string | null;
 	needsResubmission: boolean;
+	/** The snapshot is stored in full and split into sections */
+	chunked?: boolean;
+	/** Full snapshot, stored in sections, when `snapshot` holds a summary of it */
+	original?: string;
 	currentSizeKb?: number;
 	maxSizeKb?: number;
 }
 
+/**
+ * Convert the main content of an HTML page to markdown using turndown,
+ * leaving out navigation, sidebars and other site chrome
+ */
+export function htmlToMarkdown(
+	html: string,
+	selectors?: ContentSelectors,
+): string {
+	const turndown = new TurndownService({
+		headingStyle: "atx",
+		codeBlockStyle: "fenced",
+	});
+	return turndown.turndown(extractMainContent(html, selectors));
+}
+
+/**
+ * Condition matching resources by URI, in canonical form or as given
+ */
+export function matchResourceUris(uris: string[]) {
+	return inArray(resources.uri, [...new Set(uris.flatMap(resourceUriKeys))]);
+}
+
+/**
+ * Structured summary of a snapshot from the extractors registered for the
+ * resource's categories (custom ones included), or null if none recognises
+ * it. Pass the content as submitted: a truncated or summarised snapshot is
+ * rarely parseable.
+ */
+export function summarizeSnapshot(
+	uri: string,
+	snapshot: string | null | undefined,
+	dbConfig?: Record<string, string>,
+): StructuredSummary | null {
+	return snapshot
+		? extractStructuredSummary(
+				snapshot,
+				uri,
+				inferResourceCategory(uri, getCustomCategories(dbConfig)),
+			)
+		: null;
+}
+
+/**
+ * Resolve the freshness threshold for a resource. A maxAgeHours override stored
+ * on the resource wins; otherwise the strictest inferred category applies.
+ */
+export function resolveResourceFreshness(
+	resource: { uri: string; maxAgeHours: number | null },
+	dbConfig?: Record<string, string>,
+): { categories: ResourceCategory[]; freshnessThresholdHours: number } {
+	const categories = inferResourceCategory(
+		resource.uri,
+		getCustomCategories(dbConfig),
+	);
+	const freshnessThresholdHours =
+		resource.maxAgeHours ?? getFreshnessForCategories(categories, dbConfig);
+	return { categories, freshnessThresholdHours };
+}
+
+type RetrievalMethod = typeof resources.retrievalMethod._.data;
+
+/**
+ * Redact secrets from a retrieval method before it is stored: inline
+ * credentials in commands and URLs, and credential header values. With an
+ * encryption key, sensitive header values are encrypted instead of redacted
+ * so refresh_resources can still send them.
+ */
+export function redactRetrievalMethod(
+	method: RetrievalMethod,
+	options: RedactionOptions,
+	key: Buffer | null = null,
+): { retrievalMethod: RetrievalMethod; redactions: Redaction[] } {
+	const command = method.command
+		? redactSecrets(method.command, options)
+		: undefined;
+	const url = method.url ? redactSecrets(method.url, options) : undefined;
+	const headers = method.headers
+		? redactHeaders(
+				key ? encryptHeaders(method, key) : method.headers,
+				options,
+				method.sensitiveHeaders,
+			)
+		: undefined;
+
+	return {
+		retrievalMethod: {
+			...method,
+			...(command && { command: command.text }),
+			...(url && { url: url.text }),
+			...(headers && { headers: headers.headers }),
+		},
+		redactions: mergeRedactions(
+			command?.redactions ?? [],
+			url?.redactions ?? [],
+			headers?.redactions ?? [],
+		),
+	};
+}
+
+/**
+ * Whether a stored header value must not be shown: encrypted values, and
+ * literal values of sensitive headers
+ */
+function isHiddenHeader(
+	name: string,
+	value: string,
+	marked: string[] | undefined,
+): boolean {
+	return (
+		isEncrypted(value) ||
+		(isSensitiveHeader(name, marked) && value.trim() !== "")
+	);
+}
+
+/**
+ * Encrypt the literal values of sensitive headers
+ */
+function encryptHeaders(
+	method: RetrievalMethod,
+	key: Buffer,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(method.headers ?? {}).map(([name, value]) => [
+			name,
+			isHiddenHeader(name, value, method.sensitiveHeaders) &&
+			!isEncrypted(value) &&
+			!value.includes("[REDACTED:")
+				? encryptSecret(value, key)
+				: value,
+		]),
+	);
+}
+
+/**
+ * Replace sensitive header values with a mask before a retrieval method
+ * is shown to an agent (tool output, prompts). With `keepEncrypted`,
+ * encrypted values are left as ciphertext and only literal credentials are
+ * masked, as in `factsets dump`.
+ */
+export function maskRetrievalMethod<T extends RetrievalMethod | null>(
+	method: T,
+	options: { keepEncrypted?: boolean } = {},
+): T {
+	if (!method?.headers) return method;
+	return {
+		...method,
+		headers: Object.fromEntries(
+			Object.entries(method.headers).map(([name, value]) => [
+				name,
+				isHiddenHeader(name, value, method.sensitiveHeaders) &&
+				!(options.keepEncrypted && isEncrypted(value))
+					? SECRET_MASK
+					: value,
+			]),
+		),
+	};
+}
+
+/**
+ * Keep the stored value of headers sent back masked, so a retrieval method
+ * read from get_resource can be edited and saved without losing credentials
+ */
+function restoreMaskedHeaders(
+	method: RetrievalMethod,
+	existing: RetrievalMethod | null,
+): RetrievalMethod {
+	if (!method.headers) return method;
+	return {
+		...method,
+		headers: Object.fromEntries(
+			Object.entries(method.headers).map(([name, value]) => [
+				name,
+				value === SECRET_MASK ? (existing?.headers?.[name] ?? value) : value,
+			]),
+		),
+	};
+}
+
+type GitTrackable = Pick<
+	typeof resources.$inferSelect,
+	"uri" | "type" | "retrievalMethod"
+>;
+
+/**
+ * Absolute path of a resource whose snapshot is read from a file
+ */
+function resourceFilePath(resource: GitTrackable): string | null {
+	const type = resource.retrievalMethod?.type ?? resource.type;
+	if (type !== "file") return null;
+	return resolveFileLocation(resource.retrievalMethod?.url ?? resource.uri);
+}
+
+/**
+ * Find the git commit to pin each file snapshot to, keyed by URI. Only files
+ * that are tracked and unmodified are pinned; the rest are judged by age.
+ */
+async function resolveSnapshotCommits(
+	db: DB,
+	items: GitTrackable[],
+): Promise<Map<string, string>> {
+	const paths = new Map<string, string>();
+	for (const item of items) {
+		const path = resourceFilePath(item);
+		if (path) paths.set(item.uri, path);
+	}
+	if (paths.size === 0 || !(await getGitFreshnessEnabled(db))) {
+		return new Map();
+	}
+
+	const commits = await getCleanFileCommits(
+		[...paths.values()],
+		getProjectRoot(),
+	);
+	const byUri = new Map<string, string>();
+	for (const [uri, path] of paths) {
+		const commit = commits.get(path);
+		if (commit) byUri.set(uri, commit);
+	}
+	return byUri;
+}
+
+/**
+ * Ask git whether file resources pinned to a commit changed since, keyed by
+ * resource id. Resources git cannot judge are left out and fall back to age.
+ */
+export async function getGitChanges(
+	db: DB,
+	items: Array<GitTrackable & { id: number; gitCommit: string | null }>,
+): Promise<Map<number, boolean>> {
+	const changes = new Map<number, boolean>();
+	const byCommit = new Map<string, Array<{ id: number; path: string }>>();
+	for (const item of items) {
+		const path = item.gitCommit ? resourceFilePath(item) : null;
+		if (!item.gitCommit || !path) continue;
+		const group = byCommit.get(item.gitCommit) ?? [];
+		group.push({ id: item.id, path });
+		byCommit.set(item.gitCommit, group);
+	}
+	if (byCommit.size === 0 || !(await getGitFreshnessEnabled(db))) {
+		return changes;
+	}
+
+	for (const [commit, group] of byCommit) {
+		const changed = await getFilesChangedSince(
+			commit,
+			group.map((g) => g.path),
+			getProjectRoot(),
+		);
+		if (!changed) continue;
+		for (const { id, path } of group) {
+			const verdict = changed.get(path);
+			if (verdict !== undefined) changes.set(id, verdict);
+		}
+	}
+	return changes;
+}
+
 /**
  * Process a snapshot according to size limits and overflow behavior.
  * If snapshot exceeds limit and no overflow behavior is specified,
- * falls back to config-based default. If config default is 'auto' or 'summarize',
+ * falls back to config-based default. If config default is 'auto',
  * returns needsResubmission=true so agent can decide how to handle.
+ * The URI, when known, decides how an outline splits the snapshot and which
+ * content selectors apply to HTML.
  */
-async function processSnapshot(
+export async function processSnapshot(
 	db: DB,
 	snapshot: string | null | undefined,
 	overflowBehavior?: OverflowBehavior,
+	uri?: string,
 ): Promise<SnapshotProcessResult> {
 	if (!snapshot) {
 		return { snapshot: null, needsResubmission: false };
@@ -92,8 +418,8 @@ async function processSnapshot(
 	let effectiveBehavior = overflowBehavior;
 	if (!effectiveBehavior) {
 		const configDefault = await getSnapshotOverflowBehavior(db);
-		// Config values 'summarize' and 'auto' mean we should ask the agent
-		if (configDefault === "summarize" || configDefault === "auto") {
+		// Config value 'auto' means we should ask the agent
+		if (configDefault === "auto") {
 			return {
 				snapshot: null,
 				needsResubmission: true,
@@ -104,6 +430,10 @@ async function processSnapshot(
 		// Map config values to behavior
 		if (configDefault === "truncate") {
 			effectiveBehavior = { behavior: "truncate" };
+		} else if (configDefault === "chunk") {
+			effectiveBehavior = { behavior: "chunk" };
+		} else if (configDefault === "summarize") {
+			effectiveBehavior = { behavior: "summarize" };
 		} else if (configDefault === "remove_noise") {
 			// Config-based remove_noise uses default patterns
 			effectiveBehavior = {
@@ -159,12 +489,10 @@ async function processSnapshot(
 		}
 
 		case "html_to_md": {
-			// Convert HTML to markdown using turndown
-			const turndown = new TurndownService({
-				headingStyle: "atx",
-				codeBlockStyle: "fenced",
-			});
-			const markdown = turndown.turndown(snapshot);
+			const markdown = htmlToMarkdown(
+				snapshot,
+				await getContentSelectors(db, uri),
+			);
 
 			// Check if result fits within limit
 			if (Buffer.byteLength(markdown, "utf8") <= maxSizeBytes) {
@@ -180,6 +508,46 @@ async function processSnapshot(
 			};
 		}
 
+		case "chunk":
+			// Store in full; sections are written alongside the resource
+			return { snapshot, needsResubmission: false, chunked: true };
+
+		case "summarize": {
+			// Keep an extractive summary; the full text is stored in sections
+			const note = `[Summary of a ${currentSizeKb}KB snapshot; read the full text with get_resource_section]\n\n`;
+			return {
+				snapshot:
+					note +
+					summarizeText(
+						snapshot,
+						maxSizeBytes - Buffer.byteLength(note, "utf8"),
+					),
+				needsResubmission: false,
+				original: snapshot,
+			};
+		}
+
+		case "outline": {
+			// HTML is outlined, and its sections stored, as markdown
+			const source = looksLikeHtml(snapshot)
+				? htmlToMarkdown(snapshot, await getContentSelectors(db, uri))
+				: snapshot;
+			const sectionBytes = (await getSnapshotChunkSizeKb(db)) * 1024;
+			const outline = outlineSnapshot(source, { sectionBytes, uri });
+			const outlined = `[Outline of a ${currentSizeKb}KB snapshot; ${outline.elided.length} sections elided, read them with get_resource_section]\n\n${outline.text}`;
+
+			// Too many sections to outline within the limit
+			if (Buffer.byteLength(outlined, "utf8") > maxSizeBytes) {
+				return {
+					snapshot: null,
+					needsResubmission: true,
+					currentSizeKb: Math.ceil(Buffer.byteLength(outlined, "utf8") / 1024),
+					maxSizeKb,
+				};
+			}
+			return { snapshot: outlined, needsResubmission: false, original: source };
+		}
+
 		case "ignore":
 			// Store as-is regardless of size - agent has determined this is critical
 			return { snapshot, needsResubmission: false };
@@ -194,6 +562,86 @@ async function processSnapshot(
 	}
 }
 
+/** Chunks inserted per statement, to stay under SQLite's variable limit */
+const CHUNK_INSERT_BATCH = 100;
+
+/**
+ * Replace the stored sections of a resource. A null snapshot only removes
+ * existing sections, so the resource is read as a whole again.
+ */
+async function writeResourceChunks(
+	db: DB,
+	resource: { id: number; uri: string },
+	snapshot: string | null,
+): Promise<void> {
+	await db
+		.delete(resourceChunks)
+		.where(eq(resourceChunks.resourceId, resource.id));
+	if (!snapshot) return;
+
+	const maxBytes = (await getSnapshotChunkSizeKb(db)) * 1024;
+	const values = chunkSnapshot(snapshot, { maxBytes, uri: resource.uri }).map(
+		(chunk, chunkIndex) => ({
+			resourceId: resource.id,
+			chunkIndex,
+			title: chunk.title,
+			content: chunk.content,
+			contentHash: computeHash(chunk.content),
+			startLine: chunk.startLine,
+			endLine: chunk.endLine,
+		}),
+	);
+
+	for (let i = 0; i < values.length; i += CHUNK_INSERT_BATCH) {
+		await db
+			.insert(resourceChunks)
+			.values(values.slice(i, i + CHUNK_INSERT_BATCH));
+	}
+}
+
+/**
+ * Load the section outline of chunked resources, along with the content of
+ * their first section. Resources without chunks are absent from the map.
+ */
+async function getResourceOutlines(
+	db: DB,
+	resourceIds: number[],
+): Promise<Map<number, { outline: ResourceOutlineEntry[]; lead: string }>> {
+	const outlines = new Map<
+		number,
+		{ outline: ResourceOutlineEntry[]; lead: string }
+	>();
+	if (resourceIds.length === 0) return outlines;
+
+	const rows = await db
+		.select({
+			resourceId: resourceChunks.resourceId,
+			index: resourceChunks.chunkIndex,
+			title: resourceChunks.title,
+			startLine: resourceChunks.startLine,
+			endLine: resourceChunks.endLine,
+			sizeBytes: sql<number>`length(CAST(${resourceChunks.content} AS BLOB))`,
+			lead: sql<
+				string | null
+			>`CASE WHEN ${resourceChunks.chunkIndex} = 0 THEN ${resourceChunks.content} END`,
+		})
+		.from(resourceChunks)
+		.where(inArray(resourceChunks.resourceId, resourceIds))
+		.orderBy(asc(resourceChunks.resourceId), asc(resourceChunks.chunkIndex));
+
+	for (const { resourceId, lead, ...entry } of rows) {
+		let item = outlines.get(resourceId);
+		if (!item) {
+			item = { outline: [], lead: "" };
+			outlines.set(resourceId, item);
+		}
+		item.outline.push(entry);
+		if (lead !== null) item.lead = lead;
+	}
+
+	return outlines;
+}
+
 /**
  * Generate an overflow prompt for the agent
  */
@@ -207,7 +655,7 @@ function generateOverflowPrompt(
 	maxSizeKb: number;
 	message: string;
 	suggestedActions: Array<{
-		behavior: "truncate" | "remove_noise" | "html_to_md" | "ignore";
+		behavior: OverflowBehavior["behavior"];
 		description: string;
 	}>;
 } {
@@ -232,6 +680,21 @@ function generateOverflowPrompt(
 				description:
 					"Convert HTML content to Markdown. Useful for web page snapshots where HTML markup adds significant overhead.",
 			},
+			{
+				behavior: "chunk" as const,
+				description:
+					"Store the full content split into sections (markdown headings, top-level JSON/YAML keys, or line ranges). Retrieval returns an outline and get_resource_section returns one section at a time.",
+			},
+			{
+				behavior: "summarize" as const,
+				description:
+					"Store an extractive summary (headings, code signatures and key sentences) within the size limit. The full content stays readable through get_resource_section.",
+			},
+			{
+				behavior: "outline" as const,
+				description:
+					"Store the document structure: headings with their first paragraph (markdown/HTML) or exported signatures (code). Elided sections are marked in the snapshot and readable through get_resource_section.",
+			},
 			{
 				behavior: "ignore" as const,
 				description:
@@ -243,12 +706,24 @@ function generateOverflowPrompt(
 
 export async function addResources(
 	db: DB,
-	input: ResourceAddInput,
+	rawInput: ResourceAddInput,
 ): Promise<ResourceAddOutput> {
-	if (input.resources.length === 0) {
+	if (rawInput.resources.length === 0) {
 		return { created: 0, resources: [] };
 	}
 
+	// URIs are stored in canonical form; rows written before that are still
+	// matched by the URI as given. Repeats within the batch are dropped.
+	const lookupUris = new Set<string>();
+	const canonicalResources: ResourceAddInput["resources"] = [];
+	for (const resource of rawInput.resources) {
+		const uri = canonicalResourceUri(resource.uri, resource.type);
+		if (lookupUris.has(uri)) continue;
+		lookupUris.add(uri).add(resource.uri);
+		canonicalResources.push({ ...resource, uri });
+	}
+	const input = { ...rawInput, resources: canonicalResources };
+
 	// Validate required tags for each resource
 	for (const resource of input.resources) {
 		const validation = await validateRequiredTags(
@@ -266,20 +741,20 @@ export async function addResources(
 	const allTagNames = [...new Set(input.resources.flatMap((r) => r.tags))];
 	const tagMap = await getOrCreateTags(db, allTagNames);
 
-	const uris = input.resources.map((r) => r.uri);
 	const existingResources = await db
 		.select({
 			id: resources.id,
 			uri: resources.uri,
+			type: resources.type,
 			snapshot: resources.snapshot,
 		})
 		.from(resources)
-		.where(inArray(resources.uri, uris));
+		.where(inArray(resources.uri, [...lookupUris]));
 
 	const existingUriMap = new Map(
 		existingResources.map((r) => [
-			r.uri,
-			{ id: r.id, hasSnapshot: r.snapshot !== null },
+			canonicalResourceUri(r.uri, r.type),
+			{ id: r.id, uri: r.uri, hasSnapshot: r.snapshot !== null },
 		]),
 	);
 	const toInsert = input.resources.filter((r) => !existingUriMap.has(r.uri));
@@ -291,7 +766,7 @@ export async function addResources(
 		maxSizeKb: number;
 		message: string;
 		suggestedActions: Array<{
-			behavior: "truncate" | "remove_noise" | "html_to_md" | "ignore";
+			behavior: OverflowBehavior["behavior"];
 			description: string;
 		}>;
 	}> = [];
@@ -301,11 +776,44 @@ export async function addResources(
 		snapshotResult: SnapshotProcessResult;
 	}> = [];
 
-	for (const resource of toInsert) {
+	// Secrets are redacted before size limits are applied
+	const redactionOptions = await getRedactionOptions(db);
+	const secretKey = await loadSecretKey();
+	const dbConfig = await getAllConfig(db);
+	const redactions: NonNullable<ResourceAddOutput["redactions"]> = [];
+
+	for (const input of toInsert) {
+		const snapshot =
+			input.snapshot !== undefined
+				? redactSecrets(input.snapshot, {
+						...redactionOptions,
+						source: input.uri,
+					})
+				: undefined;
+		const method = input.retrievalMethod
+			? redactRetrievalMethod(
+					input.retrievalMethod,
+					redactionOptions,
+					secretKey,
+				)
+			: undefined;
+		const resource = {
+			...input,
+			snapshot: snapshot?.text,
+			retrievalMethod: method?.retrievalMethod,
+		};
+		for (const { detector, count } of mergeRedactions(
+			snapshot?.redactions ?? [],
+			method?.redactions ?? [],
+		)) {
+			redactions.push({ uri: input.uri, detector, count });
+		}
+
 		const snapshotResult = await processSnapshot(
 			db,
 			resource.snapshot,
 			resource.overflowBehavior,
+			resource.uri,
 		);
 
 		if (snapshotResult.needsResubmission) {
@@ -326,6 +834,17 @@ export async function addResources(
 		(p) => !p.snapshotResult.needsResubmission,
 	);
 
+	const snapshotCommits = await resolveSnapshotCommits(
+		db,
+		toActuallyInsert
+			.filter((p) => p.snapshotResult.snapshot)
+			.map(({ resource }) => ({
+				uri: resource.uri,
+				type: resource.type,
+				retrievalMethod: resource.retrievalMethod ?? null,
+			})),
+	);
+
 	const insertValues = toActuallyInsert.map(({ resource, snapshotResult }) => {
 		const snapshot = snapshotResult.snapshot;
 		const snapshotHash = snapshot ? computeHash(snapshot) : null;
@@ -336,8 +855,16 @@ export async function addResources(
 			description: resource.description,
 			snapshot,
 			snapshotHash,
+			structuredSummary: summarizeSnapshot(
+				resource.uri,
+				resource.snapshot,
+				dbConfig,
+			),
+			summarized: !!snapshotResult.original,
 			retrievalMethod: resource.retrievalMethod ?? null,
+			maxAgeHours: resource.maxAgeHours ?? null,
 			lastVerifiedAt: snapshot ? nowISO() : null,
+			gitCommit: snapshotCommits.get(resource.uri) ?? null,
 		};
 	});
 
@@ -367,6 +894,20 @@ export async function addResources(
 				.values(resourceTagValues)
 				.onConflictDoNothing();
 		}
+
+		for (const inserted of insertedResources) {
+			const processed = toActuallyInsert.find(
+				(p) => p.resource.uri === inserted.uri,
+			);
+			const sectioned =
+				processed?.snapshotResult.original ??
+				(processed?.snapshotResult.chunked
+					? processed.snapshotResult.snapshot
+					: null);
+			if (sectioned) {
+				await writeResourceChunks(db, inserted, sectioned);
+			}
+		}
 	}
 
 	// Build snapshot map from processed results (not original inputs)
@@ -389,7 +930,7 @@ export async function addResources(
 				const existing = existingUriMap.get(r.uri)!;
 				return {
 					id: existing.id,
-					uri: r.uri,
+					uri: existing.uri,
 					hasSnapshot: existing.hasSnapshot,
 				};
 			}),
@@ -405,9 +946,122 @@ export async function addResources(
 		result.overflowPrompts = overflowPrompts;
 	}
 
+	if (redactions.length > 0) {
+		result.redactions = redactions;
+	}
+
 	return result;
 }
 
+/** Snapshot lines returned per resource by a full-text search */
+const MAX_MATCH_LINES = 5;
+
+/** Longest matching line returned, in characters */
+const MAX_MATCH_LINE_LENGTH = 240;
+
+// Control characters mark matched terms in highlight() output
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+type SearchMatch = NonNullable<
+	ResourceSearchOutput["resources"][number]["matches"]
+>[number];
+
+/**
+ * Shorten a highlighted line around its first match and turn the match
+ * markers into **bold**
+ */
+function formatMatchLine(line: string): string {
+	let text = line.trim();
+	if (text.length > MAX_MATCH_LINE_LENGTH) {
+		const start = Math.max(0, text.indexOf(MATCH_START) - 60);
+		const end = start + MAX_MATCH_LINE_LENGTH;
+		text = `${start > 0 ? "..." : ""}${text.slice(start, end)}${end < text.length ? "..." : ""}`;
+		// Close or reopen a highlight cut off by the slice
+		if (text.lastIndexOf(MATCH_START) > text.lastIndexOf(MATCH_END)) {
+			text += MATCH_END;
+		}
+		const firstEnd = text.indexOf(MATCH_END);
+		if (firstEnd !== -1 && firstEnd < text.indexOf(MATCH_START)) {
+			text = MATCH_START + text;
+		}
+	}
+	return text.replaceAll(MATCH_START, "**").replaceAll(MATCH_END, "**");
+}
+
+/**
+ * Find where a full-text query matched each resource: a ranked snippet, and
+ * the first matching snapshot lines (with their section when chunked)
+ */
+async function findSearchMatches(
+	db: DB,
+	ftsQuery: string,
+	resourceIds: number[],
+): Promise<Map<number, { snippet: string; matches: SearchMatch[] }>> {
+	const found = new Map<number, { snippet: string; matches: SearchMatch[] }>();
+	if (resourceIds.length === 0) return found;
+
+	const ids = sql.join(
+		resourceIds.map((id) => sql`${id}`),
+		sql`, `,
+	);
+	const rows = await db.all<{
+		id: number;
+		snippet: string;
+		highlighted: string | null;
+	}>(
+		sql`SELECT rowid AS id,
+				snippet(resources_fts, -1, '**', '**', '...', 16) AS snippet,
+				highlight(resources_fts, 1, ${MATCH_START}, ${MATCH_END}) AS highlighted
+			FROM resources_fts
+			WHERE resources_fts MATCH ${ftsQuery}
+			AND rowid IN (${ids})`,
+	);
+
+	// Sections of a summarised resource split the original, not the indexed
+	// summary, so their line ranges do not apply
+	const sections = await db
+		.select({
+			resourceId: resourceChunks.resourceId,
+			index: resourceChunks.chunkIndex,
+			startLine: resourceChunks.startLine,
+			endLine: resourceChunks.endLine,
+		})
+		.from(resourceChunks)
+		.innerJoin(resources, eq(resources.id, resourceChunks.resourceId))
+		.where(
+			and(
+				inArray(resourceChunks.resourceId, resourceIds),
+				eq(resources.summarized, false),
+			),
+		);
+
+	for (const row of rows) {
+		const matches: SearchMatch[] = [];
+		const lines = row.highlighted?.split("\n") ?? [];
+		for (let i = 0; i < lines.length && matches.length < MAX_MATCH_LINES; i++) {
+			const line = lines[i] ?? "";
+			if (!line.includes(MATCH_START)) continue;
+			const section = sections.find(
+				(s) =>
+					s.resourceId === row.id &&
+					s.startLine !== null &&
+					s.endLine !== null &&
+					s.startLine <= i + 1 &&
+					i + 1 <= s.endLine,
+			);
+			matches.push({
+				line: i + 1,
+				text: formatMatchLine(line),
+				...(section && { section: section.index }),
+			});
+		}
+		found.set(row.id, { snippet: row.snippet, matches });
+	}
+
+	return found;
+}
+
 export async function searchResources(
 	db: DB,
 	input: ResourceSearchInput,
@@ -460,9 +1114,30 @@ export async function searchResources(
 		conditions.push(eq(resources.type, input.type));
 	}
 
-	// Add URI pattern filter
+	// Add URI pattern filter: a substring of the stored URI, or of its
+	// canonical form when the pattern is itself a path or URL
 	if (input.uriPattern) {
-		conditions.push(like(resources.uri, `%${input.uriPattern}%`));
+		const patterns = new Set([
+			input.uriPattern,
+			canonicalResourceUri(input.uriPattern),
+		]);
+		conditions.push(
+			or(
+				...[...patterns].map((pattern) => like(resources.uri, `%${pattern}%`)),
+			) as ReturnType<typeof eq>,
+		);
+	}
+
+	// Add full-text query condition
+	const ftsQuery = input.query ? toFtsQuery(input.query) : null;
+	if (input.query) {
+		if (!ftsQuery) {
+			const suggestedTags = await getSuggestedTags(db, 5);
+			return { resources: [], suggestedTags };
+		}
+		conditions.push(
+			sql`${resources.id} IN (SELECT rowid FROM resources_fts WHERE resources_fts MATCH ${ftsQuery})`,
+		);
 	}
 
 	// Build query for results
@@ -474,6 +1149,7 @@ export async function searchResources(
 			description: resources.description,
 			snapshot: resources.snapshot,
 			lastVerifiedAt: resources.lastVerifiedAt,
+			maxAgeHours: resources.maxAgeHours,
 		})
 		.from(resources);
 
@@ -489,8 +1165,17 @@ export async function searchResources(
 	}
 
 	// Apply ordering
-	const orderBy = input.orderBy ?? "recent";
+	const orderBy = input.orderBy ?? (input.query ? "relevance" : "recent");
 	switch (orderBy) {
+		case "relevance":
+			// bm25() is lower for better matches; description hits weigh double
+			query = (ftsQuery
+				? query.orderBy(
+						sql`(SELECT bm25(resources_fts, 2.0, 1.0) FROM resources_fts WHERE resources_fts MATCH ${ftsQuery} AND rowid = ${resources.id})`,
+						desc(resources.createdAt),
+					)
+				: query.orderBy(desc(resources.createdAt))) as unknown as typeof query;
+			break;
 		case "oldest":
 			query = query.orderBy(
 				asc(resources.createdAt),
@@ -520,6 +1205,15 @@ export async function searchResources(
 		await incrementTagUsage(db, tagIdsToIncrement);
 	}
 
+	const searchMatches = ftsQuery
+		? await findSearchMatches(
+				db,
+				ftsQuery,
+				pageResults.map((r) => r.id),
+			)
+		: new Map<number, { snippet: string; matches: SearchMatch[] }>();
+
+	const dbConfig = await getAllConfig(db);
 	const resourcesWithTags = await Promise.all(
 		pageResults.map(async (resource) => {
 			const resourceTagsResult = await db
@@ -528,11 +1222,10 @@ export async function searchResources(
 				.innerJoin(tags, eq(resourceTags.tagId, tags.id))
 				.where(eq(resourceTags.resourceId, resource.id));
 
-			// Infer categories and use minimum threshold (strictest wins)
-			const categories = inferResourceCategory(
-				resource.uri,
-			) as FreshnessCategory[];
-			const freshnessThresholdHours = getFreshnessForCategories(categories);
+			const { categories, freshnessThresholdHours } = resolveResourceFreshness(
+				resource,
+				dbConfig,
+			);
 
 			return {
 				id: resource.id,
@@ -545,6 +1238,7 @@ export async function searchResources(
 				lastVerifiedAt: resource.lastVerifiedAt,
 				categories,
 				freshnessThresholdHours,
+				...searchMatches.get(resource.id),
 			};
 		}),
 	);
@@ -582,7 +1276,7 @@ export async function getResource(
 		const result = await db
 			.select()
 			.from(resources)
-			.where(eq(resources.uri, input.uri))
+			.where(matchResourceUris([input.uri]))
 			.limit(1);
 		resource = result[0];
 	}
@@ -595,28 +1289,43 @@ export async function getResource(
 		? secondsSince(resource.lastVerifiedAt)
 		: 0;
 
-	// Infer categories and use minimum threshold (strictest wins)
-	const categories = inferResourceCategory(resource.uri) as FreshnessCategory[];
-	const freshnessThresholdHours = getFreshnessForCategories(categories);
+	const { categories, freshnessThresholdHours } = resolveResourceFreshness(
+		resource,
+		await getAllConfig(db),
+	);
 
-	// Use category-specific threshold, but allow override via maxAgeHours if provided
+	// Use the resource threshold, but allow override via maxAgeHours if provided
 	const effectiveThresholdHours = input.maxAgeHours ?? freshnessThresholdHours;
 	const thresholdSeconds = effectiveThresholdHours * 3600;
+	// A file pinned to a git commit is fresh exactly while git reports no change
+	const gitChanged = (await getGitChanges(db, [resource])).get(resource.id);
 
 	await db
 		.update(resources)
 		.set({ retrievalCount: sql`${resources.retrievalCount} + 1` })
 		.where(eq(resources.id, resource.id));
 
+	// Chunked snapshots return their first section and an outline of the rest;
+	// summarised ones return the summary and an outline of the original
+	const chunked = (await getResourceOutlines(db, [resource.id])).get(
+		resource.id,
+	);
+
 	return {
 		uri: resource.uri,
 		type: resource.type,
-		content: resource.snapshot ?? "",
-		isFresh: snapshotAgeSeconds < thresholdSeconds,
+		content:
+			(resource.summarized ? null : chunked?.lead) ?? resource.snapshot ?? "",
+		isFresh:
+			gitChanged !== undefined
+				? !gitChanged
+				: snapshotAgeSeconds < thresholdSeconds,
+		freshnessSource: gitChanged !== undefined ? "git" : "age",
 		snapshotAgeSeconds,
-		retrievalMethod: resource.retrievalMethod,
+		retrievalMethod: maskRetrievalMethod(resource.retrievalMethod),
 		categories,
 		freshnessThresholdHours,
+		...(chunked && { outline: chunked.outline }),
 	};
 }
 
@@ -628,34 +1337,53 @@ export async function getResources(
 	const overrideMaxAgeHours = input.maxAgeHours;
 	const results: ResourcesGetOutput["resources"] = [];
 	const notFound: (number | string)[] = [];
+	const dbConfig = await getAllConfig(db);
+	let outlines = new Map<
+		number,
+		{ outline: ResourceOutlineEntry[]; lead: string }
+	>();
+	let gitChanges = new Map<number, boolean>();
 
 	// Helper to compute freshness for a resource
 	const computeResourceFreshness = (
 		resource: typeof resources.$inferSelect,
-	) => {
+	): ResourcesGetOutput["resources"][number] => {
 		const snapshotAgeSeconds = resource.lastVerifiedAt
 			? secondsSince(resource.lastVerifiedAt)
 			: 0;
 
-		// Infer categories and use minimum threshold (strictest wins)
-		const categories = inferResourceCategory(
-			resource.uri,
-		) as FreshnessCategory[];
-		const freshnessThresholdHours = getFreshnessForCategories(categories);
+		const { categories, freshnessThresholdHours } = resolveResourceFreshness(
+			resource,
+			dbConfig,
+		);
 		const effectiveThresholdHours =
 			overrideMaxAgeHours ?? freshnessThresholdHours;
 		const thresholdSeconds = effectiveThresholdHours * 3600;
+		const chunked = outlines.get(resource.id);
+		const gitChanged = gitChanges.get(resource.id);
+		const summary = input.summaryOnly ? resource.structuredSummary : null;
 
 		return {
 			id: resource.id,
 			uri: resource.uri,
 			type: resource.type,
-			content: resource.snapshot ?? "",
-			isFresh: snapshotAgeSeconds < thresholdSeconds,
+			content: summary
+				? ""
+				: ((resource.summarized ? null : chunked?.lead) ??
+					resource.snapshot ??
+					""),
+			isFresh:
+				gitChanged !== undefined
+					? !gitChanged
+					: snapshotAgeSeconds < thresholdSeconds,
+			freshnessSource: gitChanged !== undefined ? "git" : "age",
 			snapshotAgeSeconds,
-			retrievalMethod: resource.retrievalMethod,
+			retrievalMethod: maskRetrievalMethod(resource.retrievalMethod),
 			categories,
 			freshnessThresholdHours,
+			...(summary
+				? { structuredSummary: summary }
+				: chunked && { outline: chunked.outline }),
 		};
 	};
 
@@ -672,6 +1400,8 @@ export async function getResources(
 				notFound.push(id);
 			}
 		}
+		outlines = await getResourceOutlines(db, [...foundIds]);
+		gitChanges = await getGitChanges(db, found);
 
 		for (const resource of found) {
 			results.push(computeResourceFreshness(resource));
@@ -696,14 +1426,19 @@ export async function getResources(
 		const found = await db
 			.select()
 			.from(resources)
-			.where(inArray(resources.uri, input.uris));
+			.where(matchResourceUris(input.uris));
 
 		const foundUris = new Set(found.map((r) => r.uri));
 		for (const uri of input.uris) {
-			if (!foundUris.has(uri)) {
+			if (!resourceUriKeys(uri).some((key) => foundUris.has(key))) {
 				notFound.push(uri);
 			}
 		}
+		outlines = await getResourceOutlines(
+			db,
+			found.map((r) => r.id),
+		);
+		gitChanges = await getGitChanges(db, found);
 
 		for (const resource of found) {
 			// Skip if already added by ID
@@ -731,77 +1466,459 @@ export async function getResources(
 	return { resources: results, notFound };
 }
 
-export async function updateResourceSnapshot(
+/**
+ * Return one section of a chunked snapshot, selected by index or title.
+ * Titles match case-insensitively, exactly first and then by substring.
+ */
+export async function getResourceSection(
 	db: DB,
-	input: { id?: number; uri?: string; snapshot: string },
+	input: ResourceSectionInput,
+): Promise<ResourceSectionOutput> {
+	let resource: typeof resources.$inferSelect | undefined;
+	if (input.id) {
+		[resource] = await db
+			.select()
+			.from(resources)
+			.where(eq(resources.id, input.id))
+			.limit(1);
+	} else if (input.uri) {
+		[resource] = await db
+			.select()
+			.from(resources)
+			.where(matchResourceUris([input.uri]))
+			.limit(1);
+	}
+
+	if (!resource) {
+		throw new Error(
+			`Resource not found: ${input.id ? `id=${input.id}` : `uri=${input.uri}`}`,
+		);
+	}
+
+	const chunks = await db
+		.select()
+		.from(resourceChunks)
+		.where(eq(resourceChunks.resourceId, resource.id))
+		.orderBy(asc(resourceChunks.chunkIndex));
+
+	if (chunks.length === 0) {
+		throw new Error(
+			`Resource ${resource.uri} is not chunked; use get_resource to read its snapshot`,
+		);
+	}
+
+	let chunk: (typeof chunks)[number] | undefined;
+	if (input.index !== undefined) {
+		chunk = chunks.find((c) => c.chunkIndex === input.index);
+	} else if (input.title !== undefined) {
+		const title = input.title.toLowerCase();
+		chunk =
+			chunks.find((c) => c.title.toLowerCase() === title) ??
+			chunks.find((c) => c.title.toLowerCase().includes(title));
+	}
+
+	if (!chunk) {
+		const requested =
+			input.index !== undefined ? `index ${input.index}` : `"${input.title}"`;
+		throw new Error(
+			`Section ${requested} not found in ${resource.uri} (${chunks.length} sections, indexes 0-${chunks.length - 1})`,
+		);
+	}
+
+	await db
+		.update(resources)
+		.set({ retrievalCount: sql`${resources.retrievalCount} + 1` })
+		.where(eq(resources.id, resource.id));
+
+	return {
+		resourceId: resource.id,
+		uri: resource.uri,
+		index: chunk.chunkIndex,
+		title: chunk.title,
+		content: chunk.content,
+		contentHash: chunk.contentHash,
+		startLine: chunk.startLine,
+		endLine: chunk.endLine,
+		sectionCount: chunks.length,
+		snapshotHash: resource.snapshotHash,
+	};
+}
+
+/**
+ * Move the current snapshot of a resource into resource_snapshots before it
+ * is replaced. Unchanged content (same hash) is not recorded as a new version.
+ */
+async function archiveSnapshot(
+	db: DB,
+	resource: Pick<
+		typeof resources.$inferSelect,
+		"id" | "snapshot" | "snapshotHash" | "lastVerifiedAt"
+	>,
+	nextHash: string,
 ): Promise<void> {
-	// Process snapshot with size limits - use truncate as default for updates
-	const result = await processSnapshot(db, input.snapshot, {
-		behavior: "truncate",
+	if (!resource.snapshot || resource.snapshotHash === nextHash) {
+		return;
+	}
+
+	await db.insert(resourceSnapshots).values({
+		resourceId: resource.id,
+		snapshot: resource.snapshot,
+		snapshotHash: resource.snapshotHash ?? computeHash(resource.snapshot),
+		capturedAt: resource.lastVerifiedAt,
 	});
-	if (!result.snapshot) return;
+}
 
-	const snapshotHash = computeHash(result.snapshot);
-	const now = nowISO();
+/**
+ * Store an already-processed snapshot on a resource, archiving the previous
+ * version, and mark the resource as verified. Sections are rewritten when the
+ * snapshot was chunked or summarised (from the original) and cleared
+ * otherwise, and file snapshots are re-pinned to the current git commit.
+ * A failed or missing status from an earlier refresh no longer applies to
+ * the new snapshot, so it is cleared. `source` is the content before
+ * overflow processing, which the structured summary is extracted from.
+ */
+export async function replaceResourceSnapshot(
+	db: DB,
+	existing: typeof resources.$inferSelect,
+	snapshot: string,
+	verifiedAt: string = nowISO(),
+	{
+		chunked = false,
+		original,
+		source,
+	}: { chunked?: boolean; original?: string; source?: string } = {},
+): Promise<{ changed: boolean; snapshotHash: string }> {
+	const snapshotHash = computeHash(snapshot);
+	await archiveSnapshot(db, existing, snapshotHash);
+	const commits = await resolveSnapshotCommits(db, [existing]);
+
+	await db
+		.update(resources)
+		.set({
+			snapshot,
+			snapshotHash,
+			structuredSummary: summarizeSnapshot(
+				existing.uri,
+				source ?? original ?? snapshot,
+				await getAllConfig(db),
+			),
+			summarized: original !== undefined,
+			lastVerifiedAt: verifiedAt,
+			lastRefreshStatus: null,
+			lastRefreshMessage: null,
+			gitCommit: commits.get(existing.uri) ?? null,
+			updatedAt: sql`(CURRENT_TIMESTAMP)`,
+		})
+		.where(eq(resources.id, existing.id));
+	await writeResourceChunks(
+		db,
+		existing,
+		original ?? (chunked ? snapshot : null),
+	);
 
+	return { changed: existing.snapshotHash !== snapshotHash, snapshotHash };
+}
+
+export async function updateResourceSnapshot(
+	db: DB,
+	input: { id?: number; uri?: string; snapshot: string },
+): Promise<{ redactions: Redaction[] }> {
+	let existing: typeof resources.$inferSelect | undefined;
 	if (input.id) {
-		await db
-			.update(resources)
-			.set({
-				snapshot: result.snapshot,
-				snapshotHash,
-				lastVerifiedAt: now,
-				updatedAt: sql`(CURRENT_TIMESTAMP)`,
-			})
-			.where(eq(resources.id, input.id));
+		[existing] = await db
+			.select()
+			.from(resources)
+			.where(eq(resources.id, input.id))
+			.limit(1);
 	} else if (input.uri) {
-		await db
-			.update(resources)
-			.set({
-				snapshot: result.snapshot,
-				snapshotHash,
-				lastVerifiedAt: now,
-				updatedAt: sql`(CURRENT_TIMESTAMP)`,
-			})
-			.where(eq(resources.uri, input.uri));
+		[existing] = await db
+			.select()
+			.from(resources)
+			.where(matchResourceUris([input.uri]))
+			.limit(1);
 	}
+	if (!existing) return { redactions: [] };
+
+	const { text, redactions } = redactSecrets(input.snapshot, {
+		...(await getRedactionOptions(db)),
+		source: existing.uri,
+	});
+
+	// Process snapshot with size limits - oversized updates are chunked
+	const result = await processSnapshot(db, text, {
+		behavior: "chunk",
+	});
+	if (!result.snapshot) return { redactions };
+
+	await replaceResourceSnapshot(db, existing, result.snapshot, nowISO(), {
+		...result,
+		source: text,
+	});
+	return { redactions };
 }
 
 export async function updateResourceSnapshots(
 	db: DB,
 	inputs: Array<{ resourceId: number; snapshot: string }>,
-): Promise<{ updated: number }> {
+): Promise<ResourceUpdateSnapshotsOutput> {
 	if (inputs.length === 0) {
 		return { updated: 0 };
 	}
 
 	const now = nowISO();
+	const redactionOptions = await getRedactionOptions(db);
+	const redactions: NonNullable<ResourceUpdateSnapshotsOutput["redactions"]> =
+		[];
 	let updated = 0;
 
 	for (const input of inputs) {
-		// Process snapshot with size limits - use truncate as default for updates
-		const processResult = await processSnapshot(db, input.snapshot, {
-			behavior: "truncate",
+		const existing = await getResourceById(db, input.resourceId);
+		if (!existing) continue;
+
+		const redacted = redactSecrets(input.snapshot, {
+			...redactionOptions,
+			source: existing.uri,
+		});
+		for (const { detector, count } of redacted.redactions) {
+			redactions.push({ resourceId: existing.id, detector, count });
+		}
+
+		// Process snapshot with size limits - oversized updates are chunked
+		const processResult = await processSnapshot(db, redacted.text, {
+			behavior: "chunk",
 		});
 		if (!processResult.snapshot) continue;
 
-		const snapshotHash = computeHash(processResult.snapshot);
-		const result = await db
-			.update(resources)
-			.set({
-				snapshot: processResult.snapshot,
-				snapshotHash,
-				lastVerifiedAt: now,
-				updatedAt: sql`(CURRENT_TIMESTAMP)`,
-			})
-			.where(eq(resources.id, input.resourceId));
+		await replaceResourceSnapshot(db, existing, processResult.snapshot, now, {
+			...processResult,
+			source: redacted.text,
+		});
+		updated++;
+	}
+
+	return redactions.length > 0 ? { updated, redactions } : { updated };
+}
 
-		if (result.changes > 0) {
-			updated++;
+/**
+ * List previous snapshot versions of a resource, optionally returning the
+ * full content of one version.
+ */
+export async function getResourceHistory(
+	db: DB,
+	input: ResourceHistoryInput,
+): Promise<ResourceHistoryOutput> {
+	let resource: typeof resources.$inferSelect | undefined;
+	if (input.id) {
+		[resource] = await db
+			.select()
+			.from(resources)
+			.where(eq(resources.id, input.id))
+			.limit(1);
+	} else if (input.uri) {
+		[resource] = await db
+			.select()
+			.from(resources)
+			.where(matchResourceUris([input.uri]))
+			.limit(1);
+	}
+
+	if (!resource) {
+		throw new Error(
+			`Resource not found: ${input.id ? `id=${input.id}` : `uri=${input.uri}`}`,
+		);
+	}
+
+	const versions = await db
+		.select({
+			id: resourceSnapshots.id,
+			snapshotHash: resourceSnapshots.snapshotHash,
+			capturedAt: resourceSnapshots.capturedAt,
+			supersededAt: resourceSnapshots.supersededAt,
+			sizeBytes: sql<number>`length(CAST(${resourceSnapshots.snapshot} AS BLOB))`,
+		})
+		.from(resourceSnapshots)
+		.where(eq(resourceSnapshots.resourceId, resource.id))
+		.orderBy(desc(resourceSnapshots.id))
+		.limit(input.limit ?? 20);
+
+	const result: ResourceHistoryOutput = {
+		resourceId: resource.id,
+		uri: resource.uri,
+		current: {
+			snapshotHash: resource.snapshotHash,
+			lastVerifiedAt: resource.lastVerifiedAt,
+			sizeBytes: resource.snapshot
+				? Buffer.byteLength(resource.snapshot, "utf8")
+				: 0,
+		},
+		versions,
+	};
+
+	if (input.snapshotId) {
+		const [version] = await db
+			.select()
+			.from(resourceSnapshots)
+			.where(
+				and(
+					eq(resourceSnapshots.id, input.snapshotId),
+					eq(resourceSnapshots.resourceId, resource.id),
+				),
+			)
+			.limit(1);
+
+		if (!version) {
+			throw new Error(
+				`Snapshot version ${input.snapshotId} not found for resource ${resource.uri}`,
+			);
 		}
+
+		result.snapshot = {
+			id: version.id,
+			snapshotHash: version.snapshotHash,
+			capturedAt: version.capturedAt,
+			supersededAt: version.supersededAt,
+			sizeBytes: Buffer.byteLength(version.snapshot, "utf8"),
+			content: version.snapshot,
+		};
+	}
+
+	return result;
+}
+
+/**
+ * Line-based unified diff between the stored snapshot of a resource and a
+ * candidate, or between historical versions.
+ */
+export async function diffResourceSnapshot(
+	db: DB,
+	input: ResourceDiffInput,
+): Promise<ResourceDiffOutput> {
+	let resource: typeof resources.$inferSelect | undefined;
+	if (input.id) {
+		[resource] = await db
+			.select()
+			.from(resources)
+			.where(eq(resources.id, input.id))
+			.limit(1);
+	} else if (input.uri) {
+		[resource] = await db
+			.select()
+			.from(resources)
+			.where(matchResourceUris([input.uri]))
+			.limit(1);
 	}
 
-	return { updated };
+	if (!resource) {
+		throw new Error(
+			`Resource not found: ${input.id ? `id=${input.id}` : `uri=${input.uri}`}`,
+		);
+	}
+
+	const loadSide = async (
+		snapshotId: number | undefined,
+	): Promise<{
+		label: string;
+		snapshotHash: string | null;
+		content: string;
+	}> => {
+		if (snapshotId === undefined) {
+			return {
+				label: "current",
+				snapshotHash: resource.snapshotHash,
+				content: resource.snapshot ?? "",
+			};
+		}
+
+		const [version] = await db
+			.select()
+			.from(resourceSnapshots)
+			.where(
+				and(
+					eq(resourceSnapshots.id, snapshotId),
+					eq(resourceSnapshots.resourceId, resource.id),
+				),
+			)
+			.limit(1);
+
+		if (!version) {
+			throw new Error(
+				`Snapshot version ${snapshotId} not found for resource ${resource.uri}`,
+			);
+		}
+
+		return {
+			label: `snapshot:${version.id}`,
+			snapshotHash: version.snapshotHash,
+			content: version.snapshot,
+		};
+	};
+
+	const from = await loadSide(input.fromSnapshotId);
+	const to =
+		input.candidate !== undefined
+			? {
+					label: "candidate",
+					snapshotHash: computeHash(input.candidate),
+					content: input.candidate,
+				}
+			: await loadSide(input.toSnapshotId);
+
+	const { diff, added, removed, tooLarge } = unifiedDiff(
+		from.content,
+		to.content,
+		{
+			fromLabel: `${resource.uri} (${from.label})`,
+			toLabel: `${resource.uri} (${to.label})`,
+			context: input.context ?? 3,
+		},
+	);
+
+	const linkedSkills = await db
+		.select({ name: skills.name })
+		.from(skillResources)
+		.innerJoin(skills, eq(skillResources.skillId, skills.id))
+		.where(
+			and(eq(skillResources.resourceId, resource.id), isNull(skills.deletedAt)),
+		);
+
+	return {
+		resourceId: resource.id,
+		uri: resource.uri,
+		from: { label: from.label, snapshotHash: from.snapshotHash },
+		to: { label: to.label, snapshotHash: to.snapshotHash },
+		identical: !tooLarge && added === 0 && removed === 0,
+		added,
+		removed,
+		diff,
+		...(tooLarge && { tooLarge }),
+		linkedSkills: linkedSkills.map((s) => s.name),
+	};
+}
+
+/**
+ * Delete snapshot history beyond the newest `retainVersions` per resource,
+ * along with history left behind by hard-deleted resources.
+ */
+export async function pruneResourceSnapshots(
+	db: DB,
+	retainVersions: number,
+): Promise<{ pruned: number }> {
+	const result = await db
+		.delete(resourceSnapshots)
+		.where(
+			sql`${resourceSnapshots.id} IN (
+				SELECT id FROM (
+					SELECT id, ROW_NUMBER() OVER (
+						PARTITION BY resource_id ORDER BY id DESC
+					) AS version_rank
+					FROM resource_snapshots
+				)
+				WHERE version_rank > ${retainVersions}
+			) OR ${resourceSnapshots.resourceId} NOT IN (SELECT id FROM resources)`,
+		)
+		.returning({ id: resourceSnapshots.id });
+
+	return { pruned: result.length };
 }
 
 export async function updateResource(
@@ -822,7 +1939,7 @@ export async function updateResource(
 		const result = await db
 			.select()
 			.from(resources)
-			.where(eq(resources.uri, input.uri))
+			.where(matchResourceUris([input.uri]))
 			.limit(1);
 		resourceRecord = result[0];
 	}
@@ -842,8 +1959,22 @@ export async function updateResource(
 		updates.description = input.description;
 	}
 
+	let redactions: Redaction[] = [];
 	if (input.retrievalMethod !== undefined) {
-		updates.retrievalMethod = input.retrievalMethod;
+		const redacted = redactRetrievalMethod(
+			restoreMaskedHeaders(
+				input.retrievalMethod,
+				resourceRecord.retrievalMethod,
+			),
+			await getRedactionOptions(db),
+			await loadSecretKey(),
+		);
+		updates.retrievalMethod = redacted.retrievalMethod;
+		redactions = redacted.redactions;
+	}
+
+	if (input.maxAgeHours !== undefined) {
+		updates.maxAgeHours = input.maxAgeHours;
 	}
 
 	// Apply metadata updates if any
@@ -879,7 +2010,11 @@ export async function updateResource(
 		await db.insert(resourceTags).values(tagValues).onConflictDoNothing();
 	}
 
-	return { success: true, id: resourceId };
+	return {
+		success: true,
+		id: resourceId,
+		...(redactions.length > 0 && { redactions }),
+	};
 }
 
 export async function getStaleResources(
@@ -931,7 +2066,7 @@ export async function deleteResources(
 	}
 
 	if (input.uris && input.uris.length > 0) {
-		conditions.push(inArray(resources.uri, input.uris));
+		conditions.push(matchResourceUris(input.uris));
 	}
 
 	if (conditions.length <= 1) {
@@ -967,13 +2102,27 @@ export async function deleteResources(
 		return { deleted: result.length };
 	}
 
-	// Hard delete: remove from junction tables first
+	return { deleted: await purgeResources(db, resourceIds) };
+}
+
+/**
+ * Hard delete resources along with their tags, skill links, snapshot
+ * history and chunks. Returns the number of resources removed.
+ */
+async function purgeResources(db: DB, resourceIds: number[]): Promise<number> {
+	// Remove from junction tables first
 	await db
 		.delete(resourceTags)
 		.where(inArray(resourceTags.resourceId, resourceIds));
 	await db
 		.delete(skillResources)
 		.where(inArray(skillResources.resourceId, resourceIds));
+	await db
+		.delete(resourceSnapshots)
+		.where(inArray(resourceSnapshots.resourceId, resourceIds));
+	await db
+		.delete(resourceChunks)
+		.where(inArray(resourceChunks.resourceId, resourceIds));
 
 	// Delete resources
 	const result = await db
@@ -981,7 +2130,94 @@ export async function deleteResources(
 		.where(inArray(resources.id, resourceIds))
 		.returning({ id: resources.id });
 
-	return { deleted: result.length };
+	return result.length;
+}
+
+/**
+ * Group resources whose URIs share a canonical form (rows stored before URIs
+ * were canonicalised). With merge, each group collapses into its kept
+ * resource: tags and skill links move over, retrieval counts are summed, the
+ * duplicates are deleted and the kept resource takes the canonical URI.
+ */
+export async function findDuplicateResources(
+	db: DB,
+	input: ResourceDuplicatesInput,
+): Promise<ResourceDuplicatesOutput> {
+	const rows = await db
+		.select({
+			id: resources.id,
+			uri: resources.uri,
+			type: resources.type,
+			lastVerifiedAt: resources.lastVerifiedAt,
+			retrievalCount: resources.retrievalCount,
+			deletedAt: resources.deletedAt,
+		})
+		.from(resources)
+		.orderBy(asc(resources.id));
+
+	const byUri = new Map<string, typeof rows>();
+	for (const row of rows) {
+		const uri = canonicalResourceUri(row.uri, row.type);
+		byUri.set(uri, [...(byUri.get(uri) ?? []), row]);
+	}
+
+	const groups: ResourceDuplicatesOutput["groups"] = [];
+	let merged = 0;
+	for (const [uri, group] of byUri) {
+		const [keep, ...duplicates] = group.sort(
+			(a, b) =>
+				Number(a.deletedAt !== null) - Number(b.deletedAt !== null) ||
+				(b.lastVerifiedAt ?? "").localeCompare(a.lastVerifiedAt ?? "") ||
+				a.id - b.id,
+		);
+		if (!keep || duplicates.length === 0) continue;
+
+		groups.push({
+			uri,
+			keep: { id: keep.id, uri: keep.uri },
+			duplicates: duplicates.map((d) => ({ id: d.id, uri: d.uri })),
+		});
+		if (!input.merge) continue;
+
+		const duplicateIds = duplicates.map((d) => d.id);
+		const tagRows = await db
+			.select({ tagId: resourceTags.tagId })
+			.from(resourceTags)
+			.where(inArray(resourceTags.resourceId, duplicateIds));
+		if (tagRows.length > 0) {
+			await db
+				.insert(resourceTags)
+				.values(tagRows.map(({ tagId }) => ({ resourceId: keep.id, tagId })))
+				.onConflictDoNothing();
+		}
+
+		const links = await db
+			.select({
+				skillId: skillResources.skillId,
+				snapshotHashAtLink: skillResources.snapshotHashAtLink,
+				createdAt: skillResources.createdAt,
+			})
+			.from(skillResources)
+			.where(inArray(skillResources.resourceId, duplicateIds));
+		if (links.length > 0) {
+			await db
+				.insert(skillResources)
+				.values(links.map((link) => ({ ...link, resourceId: keep.id })))
+				.onConflictDoNothing();
+		}
+
+		merged += await purgeResources(db, duplicateIds);
+		await db
+			.update(resources)
+			.set({
+				uri,
+				retrievalCount: group.reduce((sum, r) => sum + r.retrievalCount, 0),
+				updatedAt: sql`(CURRENT_TIMESTAMP)`,
+			})
+			.where(eq(resources.id, keep.id));
+	}
+
+	return { groups, merged };
 }
 
 export async function restoreResources(
@@ -916,6 +916,20 @@ export async function getSkillsNeedingReview(
 		.where(eq(skills.needsReview, true));
 }
 
+/**
+ * Flag skills for review, e.g. when a resource they link to changed on disk
+ */
+export async function markSkillsNeedingReview(
+	db: DB,
+	ids: number[],
+): Promise<void> {
+	if (ids.length === 0) return;
+	await db
+		.update(skills)
+		.set({ needsReview: true })
+		.where(inArray(skills.id, ids));
+}
+
 /**
  * Mark a skill as reviewed (clears the needsReview flag)
  */
@@ -12,26 +12,33 @@ import {
 	nowISO,
 } from "../../utils/dates.js";
 import { needsDescriptionUpdate } from "../../constants.js";
-import { getStalenessWarningThreshold } from "./config.js";
+import { getAllConfig, getStalenessWarningThreshold } from "./config.js";
+import {
+	getGitChanges,
+	maskRetrievalMethod,
+	resolveResourceFreshness,
+} from "./resources.js";
+import { findContradictions } from "./fact-relations.js";
 import dayjs from "dayjs";
 
 export async function checkStale(
 	db: DB,
 	input: CheckStaleInput,
 ): Promise<CheckStaleOutput> {
+	// Resources use their category threshold unless maxAgeHours overrides it
 	const maxAgeHours = input.maxAgeHours ?? 168; // Default 7 days
 	const cutoffIso = hoursAgoISO(maxAgeHours);
 
 	// Get staleness warning threshold from config (default 0.8 = 80%)
 	const warningThreshold = await getStalenessWarningThreshold(db);
-	const warningHours = maxAgeHours * warningThreshold;
-	const warningCutoffIso = hoursAgoISO(warningHours);
 
 	const staleResources: CheckStaleOutput["staleResources"] = [];
 	const approachingStaleResources: CheckStaleOutput["approachingStaleResources"] =
 		[];
+	const missingResources: CheckStaleOutput["missingResources"] = [];
 	const staleSkills: CheckStaleOutput["staleSkills"] = [];
 	const unverifiedFacts: CheckStaleOutput["unverifiedFacts"] = [];
+	let contradictions: CheckStaleOutput["contradictions"] = [];
 	const skillsNeedingReview: CheckStaleOutput["skillsNeedingReview"] = [];
 	const incompleteDescriptions: CheckStaleOutput["incompleteDescriptions"] = [];
 
@@ -44,12 +51,43 @@ export async function checkStale(
 				description: resources.description,
 				lastVerifiedAt: resources.lastVerifiedAt,
 				retrievalMethod: resources.retrievalMethod,
+				maxAgeHours: resources.maxAgeHours,
+				gitCommit: resources.gitCommit,
+				lastRefreshAt: resources.lastRefreshAt,
+				lastRefreshStatus: resources.lastRefreshStatus,
+				lastRefreshMessage: resources.lastRefreshMessage,
 			})
 			.from(resources);
 
+		const dbConfig = await getAllConfig(db);
+		// Files pinned to a git commit are stale exactly when git reports a change
+		const gitChanges = await getGitChanges(db, resourceResults);
+
 		for (const r of resourceResults) {
-			// Check for stale resources (past the cutoff)
-			if (r.lastVerifiedAt && r.lastVerifiedAt < cutoffIso) {
+			const { categories, freshnessThresholdHours } = resolveResourceFreshness(
+				r,
+				dbConfig,
+			);
+			const thresholdHours = input.maxAgeHours ?? freshnessThresholdHours;
+			const resourceCutoffIso = hoursAgoISO(thresholdHours);
+			const warningCutoffIso = hoursAgoISO(thresholdHours * warningThreshold);
+			const gitChanged = gitChanges.get(r.id);
+
+			// Files deleted from disk are reported on their own, not as stale
+			if (r.lastRefreshStatus === "missing") {
+				missingResources.push({
+					id: r.id,
+					uri: r.uri,
+					lastCheckedAt: r.lastRefreshAt,
+					message: r.lastRefreshMessage,
+				});
+			}
+			// Check for stale resources (changed in git, or past the cutoff).
+			// Files unchanged since their pinned commit are fresh at any age.
+			else if (
+				r.lastVerifiedAt &&
+				(gitChanged ?? r.lastVerifiedAt < resourceCutoffIso)
+			) {
 				const daysStale = daysSince(r.lastVerifiedAt);
 				const hoursStale = hoursSince(r.lastVerifiedAt);
 				staleResources.push({
@@ -59,14 +97,21 @@ export async function checkStale(
 					lastVerifiedAt: r.lastVerifiedAt || undefined,
 					daysStale,
 					hoursStale,
-					retrievalMethod: r.retrievalMethod,
+					categories,
+					thresholdHours,
+					retrievalMethod: maskRetrievalMethod(r.retrievalMethod),
+					...(gitChanged && { changedSinceCommit: r.gitCommit ?? undefined }),
 				});
 			}
 			// Check for approaching stale (past warning threshold but not yet stale)
-			else if (r.lastVerifiedAt && r.lastVerifiedAt < warningCutoffIso) {
+			else if (
+				gitChanged === undefined &&
+				r.lastVerifiedAt &&
+				r.lastVerifiedAt < warningCutoffIso
+			) {
 				const hoursOld = hoursSince(r.lastVerifiedAt);
-				const hoursUntilStale = maxAgeHours - hoursOld;
-				const percentToStale = Math.round((hoursOld / maxAgeHours) * 100);
+				const hoursUntilStale = thresholdHours - hoursOld;
+				const percentToStale = Math.round((hoursOld / thresholdHours) * 100);
 				approachingStaleResources.push({
 					id: r.id,
 					uri: r.uri,
@@ -74,6 +119,8 @@ export async function checkStale(
 					lastVerifiedAt: r.lastVerifiedAt || undefined,
 					hoursUntilStale: Math.max(0, hoursUntilStale),
 					percentToStale,
+					categories,
+					thresholdHours,
 				});
 			}
 
@@ -190,28 +237,36 @@ export async function checkStale(
 				});
 			}
 		}
+
+		contradictions = await findContradictions(db);
 	}
 
 	return {
 		staleResources,
 		approachingStaleResources,
+		missingResources,
 		staleSkills,
 		unverifiedFacts,
+		contradictions,
 		skillsNeedingReview,
 		incompleteDescriptions,
 		summary: {
 			totalStale:
 				staleResources.length +
+				missingResources.length +
 				staleSkills.length +
 				unverifiedFacts.length +
+				contradictions.length +
 				skillsNeedingReview.length +
 				incompleteDescriptions.length,
 			resources: staleResources.length,
 			skills: staleSkills.length,
 			facts: unverifiedFacts.length,
+			contradictions: contradictions.length,
 			pendingReview: skillsNeedingReview.length,
 			incompleteDescriptions: incompleteDescriptions.length,
 			approachingStaleResources: approachingStaleResources.length,
+			missingResources: missingResources.length,
 		},
 	};
 }
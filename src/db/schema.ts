@@ -41,11 +41,14 @@ export const facts = sqliteTable(
 		createdAt: text("created_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
 		updatedAt: text("updated_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
 		deletedAt: text("deleted_at"),
+		// ISO datetime after which the fact no longer holds
+		expiresAt: text("expires_at"),
 	},
 	(table) => [
 		index("facts_content_idx").on(table.content),
 		index("facts_source_type_idx").on(table.sourceType),
 		index("facts_deleted_at_idx").on(table.deletedAt),
+		index("facts_expires_at_idx").on(table.expiresAt),
 	],
 );
 
@@ -62,6 +65,55 @@ export const factTags = sqliteTable(
 	(table) => [primaryKey({ columns: [table.factId, table.tagId] })],
 );
 
+export const factRevisions = sqliteTable(
+	"fact_revisions",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		factId: integer("fact_id")
+			.notNull()
+			.references(() => facts.id, { onDelete: "cascade" }),
+		// Tool or worker that made the change (update_fact, revert_fact, ...)
+		changedBy: text("changed_by").notNull(),
+		// Values of the fact before the change
+		content: text("content").notNull(),
+		source: text("source"),
+		sourceType: text("source_type"),
+		verified: integer("verified", { mode: "boolean" }).notNull(),
+		deletedAt: text("deleted_at"),
+		expiresAt: text("expires_at"),
+		tags: text("tags", { mode: "json" }).$type<string[]>().notNull(),
+		// Tag delta of the change
+		tagsAdded: text("tags_added", { mode: "json" }).$type<string[]>().notNull(),
+		tagsRemoved: text("tags_removed", { mode: "json" })
+			.$type<string[]>()
+			.notNull(),
+		changedAt: text("changed_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
+	},
+	(table) => [index("fact_revisions_fact_id_idx").on(table.factId)],
+);
+
+// Directed relations between facts: factId supersedes/contradicts/refines/
+// depends_on relatedFactId
+export const factRelations = sqliteTable(
+	"fact_relations",
+	{
+		factId: integer("fact_id")
+			.notNull()
+			.references(() => facts.id, { onDelete: "cascade" }),
+		relatedFactId: integer("related_fact_id")
+			.notNull()
+			.references(() => facts.id, { onDelete: "cascade" }),
+		relationType: text("relation_type").notNull(),
+		createdAt: text("created_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
+	},
+	(table) => [
+		primaryKey({
+			columns: [table.factId, table.relatedFactId, table.relationType],
+		}),
+		index("fact_relations_related_fact_id_idx").on(table.relatedFactId),
+	],
+);
+
 export const resources = sqliteTable(
 	"resources",
 	{
@@ -76,11 +128,30 @@ export const resources = sqliteTable(
 			command?: string;
 			url?: string;
 			headers?: Record<string, string>;
+			// Extra header names to encrypt and mask, beyond credential headers
+			sensitiveHeaders?: string[];
 		}>(),
 		lastVerifiedAt: text("last_verified_at"),
+		// Extracted from the snapshot when an extractor recognises it (see utils/extractors)
+		structuredSummary: text("structured_summary", { mode: "json" }).$type<{
+			extractor: string;
+			data: Record<string, unknown>;
+		}>(),
+		// Snapshot holds a local summary or outline; the full original is stored in resource_chunks
+		summarized: integer("summarized", { mode: "boolean" })
+			.default(false)
+			.notNull(),
+		// Git commit a file snapshot was taken at; freshness is then judged by git
+		gitCommit: text("git_commit"),
+		// Per-resource freshness threshold (hours), takes precedence over inferred categories
+		maxAgeHours: integer("max_age_hours"),
 		retrievalCount: integer("retrieval_count").default(0).notNull(),
 		systemId: text("system_id").unique(),
 		systemHash: text("system_hash"),
+		// Outcome of the last server-side refresh (see refresh_resources)
+		lastRefreshAt: text("last_refresh_at"),
+		lastRefreshStatus: text("last_refresh_status"), // 'updated', 'unchanged', 'failed', 'missing'
+		lastRefreshMessage: text("last_refresh_message"),
 		createdAt: text("created_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
 		updatedAt: text("updated_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
 		deletedAt: text("deleted_at"),
@@ -92,6 +163,20 @@ export const resources = sqliteTable(
 	],
 );
 
+// Remembered glob registrations - re-expanded to pick up new files
+export const resourceGlobs = sqliteTable("resource_globs", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	pattern: text("pattern").notNull().unique(),
+	tags: text("tags", { mode: "json" }).$type<string[]>().notNull(),
+	// Supports {path}, {name}, {dir} and {ext} placeholders
+	descriptionTemplate: text("description_template"),
+	exclude: text("exclude", { mode: "json" }).$type<string[]>(),
+	maxAgeHours: integer("max_age_hours"),
+	lastExpandedAt: text("last_expanded_at"),
+	createdAt: text("created_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
+	updatedAt: text("updated_at").default(sql`(CURRENT_TIMESTAMP)`).notNull(),
+});
+
 export const resourceTags = sqliteTable(
 	"resource_tags",
 	{
@@ -105,6 +190,46 @@ export const resourceTags = sqliteTable(
 	(table) => [primaryKey({ columns: [table.resourceId, table.tagId] })],
 );
 
+// Snapshot history - previous versions of resource snapshots
+export const resourceSnapshots = sqliteTable(
+	"resource_snapshots",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		resourceId: integer("resource_id")
+			.notNull()
+			.references(() => resources.id, { onDelete: "cascade" }),
+		snapshot: text("snapshot").notNull(),
+		snapshotHash: text("snapshot_hash").notNull(),
+		// When this version was captured (lastVerifiedAt of the resource at the time)
+		capturedAt: text("captured_at"),
+		// When this version was replaced by a newer snapshot
+		supersededAt: text("superseded_at")
+			.default(sql`(CURRENT_TIMESTAMP)`)
+			.notNull(),
+	},
+	(table) => [index("resource_snapshots_resource_id_idx").on(table.resourceId)],
+);
+
+export const resourceChunks = sqliteTable(
+	"resource_chunks",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		resourceId: integer("resource_id")
+			.notNull()
+			.references(() => resources.id, { onDelete: "cascade" }),
+		// Position of the chunk within the snapshot (0-based)
+		chunkIndex: integer("chunk_index").notNull(),
+		// Heading path, top-level key, or line range
+		title: text("title").notNull(),
+		content: text("content").notNull(),
+		contentHash: text("content_hash").notNull(),
+		// 1-based line range in the snapshot (null for re-serialized JSON)
+		startLine: integer("start_line"),
+		endLine: integer("end_line"),
+	},
+	(table) => [index("resource_chunks_resource_id_idx").on(table.resourceId)],
+);
+
 export const skills = sqliteTable(
 	"skills",
 	{
@@ -121,7 +121,6 @@ export async function generateKnowledgeContext(
 			checkResources: true,
 			checkSkills: true,
 			checkFacts: true,
-			maxAgeHours: 168, // 7 days
 		});
 
 		const hasWarnings =
@@ -156,7 +155,9 @@ export async function generateKnowledgeContext(
 					`### Stale Resources (${staleness.staleResources.length})`,
 				);
 				for (const r of staleness.staleResources.slice(0, 5)) {
-					sections.push(`- ${r.uri} (${r.daysStale} days stale)`);
+					sections.push(
+						`- ${r.uri} (${r.daysStale} days stale, ${r.thresholdHours}h threshold)`,
+					);
 				}
 				if (staleness.staleResources.length > 5) {
 					sections.push(
@@ -166,6 +167,21 @@ export async function generateKnowledgeContext(
 				sections.push("");
 			}
 
+			if (staleness.missingResources.length > 0) {
+				sections.push(
+					`### Missing Files (${staleness.missingResources.length})`,
+				);
+				for (const r of staleness.missingResources.slice(0, 5)) {
+					sections.push(`- ${r.uri}`);
+				}
+				if (staleness.missingResources.length > 5) {
+					sections.push(
+						`  ... and ${staleness.missingResources.length - 5} more`,
+					);
+				}
+				sections.push("");
+			}
+
 			if (staleness.staleSkills.length > 0) {
 				sections.push(
 					`### Skills with Stale Dependencies (${staleness.staleSkills.length})`,
@@ -186,6 +202,21 @@ export async function generateKnowledgeContext(
 				sections.push("Consider verifying these facts before relying on them.");
 				sections.push("");
 			}
+
+			if (staleness.contradictions.length > 0) {
+				sections.push(
+					`### Contradicting Facts (${staleness.contradictions.length})`,
+				);
+				for (const c of staleness.contradictions.slice(0, 5)) {
+					sections.push(`- #${c.factId} vs #${c.relatedFactId}`);
+				}
+				if (staleness.contradictions.length > 5) {
+					sections.push(
+						`  ... and ${staleness.contradictions.length - 5} more`,
+					);
+				}
+				sections.push("");
+			}
 		}
 	}
 
@@ -276,20 +307,28 @@ export async function generateMaintenanceReport(
 	db: DB,
 	input: MaintenanceReportInput,
 ): Promise<MaintenanceReportResult> {
-	const maxAgeHours = input.maxAgeHours ?? 168; // Default 7 days
+	const maxAgeHours = input.maxAgeHours;
 	const result = await checkStale(db, { maxAgeHours });
 
 	const sections: string[] = [];
 	sections.push(`# Knowledge Base Maintenance Report\n`);
-	sections.push(
-		`Stale threshold: ${maxAgeHours} hours (${Math.round(maxAgeHours / 24)} days)\n`,
-	);
+	if (maxAgeHours !== undefined) {
+		sections.push(
+			`Stale threshold: ${maxAgeHours} hours (${Math.round(maxAgeHours / 24)} days)\n`,
+		);
+	} else {
+		sections.push(
+			"Stale threshold: per resource category (skills and facts: 168 hours)\n",
+		);
+	}
 	sections.push(
 		`**Summary:** ${result.summary.totalStale} items need attention\n`,
 	);
 	sections.push(`- Resources: ${result.summary.resources}`);
+	sections.push(`- Missing Files: ${result.summary.missingResources}`);
 	sections.push(`- Skills: ${result.summary.skills}`);
 	sections.push(`- Unverified Facts: ${result.summary.facts}`);
+	sections.push(`- Contradicting Facts: ${result.summary.contradictions}`);
 	sections.push(`- Skills Pending Review: ${result.summary.pendingReview}`);
 	sections.push(
 		`- Incomplete Descriptions: ${result.summary.incompleteDescriptions}`,
@@ -305,6 +344,9 @@ export async function generateMaintenanceReport(
 			sections.push(`### ${resource.uri}`);
 			sections.push(`- Type: ${resource.type}`);
 			sections.push(`- Days stale: ${resource.daysStale}`);
+			sections.push(
+				`- Threshold: ${resource.thresholdHours} hours (${resource.categories.join(", ")})`,
+			);
 			sections.push(`- Last verified: ${resource.lastVerifiedAt}`);
 			if (resource.retrievalMethod) {
 				sections.push(`- Retrieval: ${resource.retrievalMethod.type}`);
@@ -319,6 +361,20 @@ export async function generateMaintenanceReport(
 		}
 	}
 
+	if (result.missingResources.length > 0) {
+		sections.push("## Missing Files\n");
+		sections.push(
+			"These file resources no longer exist on disk and should be restored, re-pointed or deleted:\n",
+		);
+		for (const resource of result.missingResources) {
+			sections.push(`- ${resource.uri} (id: ${resource.id})`);
+			if (resource.lastCheckedAt) {
+				sections.push(`  - Last checked: ${resource.lastCheckedAt}`);
+			}
+		}
+		sections.push("");
+	}
+
 	if (result.staleSkills.length > 0) {
 		sections.push("## Skills Needing Review\n");
 		sections.push("These skills have stale or changed dependencies:\n");
@@ -347,6 +403,20 @@ export async function generateMaintenanceReport(
 		sections.push("");
 	}
 
+	if (result.contradictions.length > 0) {
+		sections.push("## Contradicting Facts\n");
+		sections.push(
+			"These facts contradict each other. Supersede or delete the wrong one, or unlink them with `unlink_facts`:\n",
+		);
+		for (const c of result.contradictions) {
+			sections.push(`- **#${c.factId}** ${c.content}`);
+			sections.push(
+				`  - Contradicts **#${c.relatedFactId}** ${c.relatedContent}`,
+			);
+		}
+		sections.push("");
+	}
+
 	if (result.skillsNeedingReview.length > 0) {
 		sections.push("## Skills Pending Review\n");
 		sections.push(
@@ -440,6 +510,9 @@ export async function generateRefreshGuide(
 		`**Current snapshot age:** ${Math.floor(resource.snapshotAgeSeconds / 3600)} hours`,
 	);
 	sections.push(`**Is fresh:** ${resource.isFresh ? "Yes" : "No"}`);
+	sections.push(
+		`**Freshness threshold:** ${resource.freshnessThresholdHours} hours`,
+	);
 	sections.push("");
 
 	sections.push("## How to Refresh\n");
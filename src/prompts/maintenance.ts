@@ -11,7 +11,7 @@ const maintenanceReportArgs = {
 		.string()
 		.optional()
 		.describe(
-			"Hours before content is considered stale (default: 168 = 7 days)",
+			"Hours before content is considered stale. Overrides per-category resource thresholds (default: category-based; 168 for skills and facts)",
 		),
 };
 
@@ -1,56 +1,64 @@
-import type { FreshnessCategory, CategoryMatchRule } from "./types.js";
+import type {
+	FreshnessCategory,
+	CategoryMatchRule,
+	CustomCategoryRule,
+	ResourceCategory,
+} from "./types.js";
+
+type MatchRule = CategoryMatchRule | CustomCategoryRule;
 
 /**
  * Match a clause against a URI (first pass - URI-based matching only).
- * Returns true if:
- * 1. (ANY endsWith matches OR ANY includes matches) - at least one positive match
- * 2. AND NOT (ANY not.endsWith matches OR ANY not.includes matches)
+ * Returns the positive pattern that matched, or null if:
+ * 1. No endsWith or includes pattern matches, OR
+ * 2. ANY not.endsWith or not.includes pattern matches (reported as excludedBy)
  *
  * Note: not.tagged is NOT checked here - it's handled in a second pass
  * after all URI-based matches are collected.
  */
-const matchClauseUri = (clause: CategoryMatchRule, uri: string): boolean => {
+const matchClauseUri = (
+	clause: MatchRule,
+	uri: string,
+): { matchedBy: string | null; excludedBy: string | null } => {
 	const { endsWith = [], includes = [], not } = clause;
 
-	// Check URI-based negative conditions first (fail fast)
-	if (not) {
-		// If any not.endsWith pattern matches, fail
-		if (not.endsWith?.some((ext) => uri.endsWith(ext))) {
-			return false;
-		}
-		// If any not.includes pattern matches, fail
-		if (not.includes?.some((str) => uri.includes(str))) {
-			return false;
-		}
-		// not.tagged is intentionally NOT checked here - see second pass
-	}
-
 	// Need at least one positive match (any endsWith OR any includes)
-	const hasPositiveRules = endsWith.length > 0 || includes.length > 0;
-	if (!hasPositiveRules) {
-		// No positive rules means this is a catch-all (like 'default')
-		return true;
-	}
+	const endsWithMatch = endsWith.find((ext) => uri.endsWith(ext));
+	const includesMatch = includes.find((str) => uri.includes(str));
+	const matchedBy =
+		endsWithMatch !== undefined
+			? `endsWith "${endsWithMatch}"`
+			: includesMatch !== undefined
+				? `includes "${includesMatch}"`
+				: null;
 
-	const endsWithMatch = endsWith.some((ext) => uri.endsWith(ext));
-	const includesMatch = includes.some((str) => uri.includes(str));
+	if (!matchedBy || !not) {
+		return { matchedBy, excludedBy: null };
+	}
 
-	return endsWithMatch || includesMatch;
+	// Check URI-based negative conditions
+	const notEndsWith = not.endsWith?.find((ext) => uri.endsWith(ext));
+	if (notEndsWith !== undefined) {
+		return { matchedBy, excludedBy: `not.endsWith "${notEndsWith}"` };
+	}
+	const notIncludes = not.includes?.find((str) => uri.includes(str));
+	if (notIncludes !== undefined) {
+		return { matchedBy, excludedBy: `not.includes "${notIncludes}"` };
+	}
+	// not.tagged is intentionally NOT checked here - see second pass
+	return { matchedBy, excludedBy: null };
 };
 
 /**
  * Check if a category should be excluded based on not.tagged rules.
  * This is the second pass - called after all URI-based matches are collected.
- * A category is excluded if ANY of its not.tagged categories are in the matched set.
+ * Returns the first not.tagged category found in the matched set, if any.
  */
-const shouldExcludeByTag = (
-	clause: CategoryMatchRule,
-	matchedCategories: Set<FreshnessCategory>,
-): boolean => {
-	if (!clause.not?.tagged || clause.not.tagged.length === 0) {
-		return false;
-	}
-	return clause.not.tagged.some((tag) => matchedCategories.has(tag));
+const findExcludingTag = (
+	clause: MatchRule,
+	matchedCategories: Set<ResourceCategory>,
+): ResourceCategory | undefined => {
+	return clause.not?.tagged?.find((tag) => matchedCategories.has(tag));
 };
 
 /**
@@ -527,42 +535,223 @@ export const CATEGORY_RULES: { [key in FreshnessCategory]: CategoryMatchRule } =
 	};
 
 /**
- * Infer resource category from URI or type for freshness lookup.
+ * A category rule whose positive patterns matched a URI
+ */
+export interface CategoryMatchExplanation {
+	category: ResourceCategory;
+	source: "builtin" | "custom";
+	priority: number;
+	/** Pattern that matched, e.g. `endsWith ".lock"` */
+	matchedBy: string;
+	status: "applied" | "excluded" | "shadowed";
+	/** Why a matching rule was not applied */
+	reason?: string;
+}
+
+export interface CategoryExplanation {
+	categories: ResourceCategory[];
+	matches: CategoryMatchExplanation[];
+}
+
+const lower = (pattern: string) => pattern.toLowerCase();
+
+const CUSTOM_CATEGORY_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every((v) => typeof v === "string");
+
+/**
+ * Validate a `custom_categories` config value.
+ * Returns an error message, or null if the value is valid.
+ */
+export function validateCustomCategories(value: string): string | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		return "custom_categories must be valid JSON";
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return "custom_categories must be an object mapping category names to rules";
+	}
+
+	for (const [name, rule] of Object.entries(parsed)) {
+		if (!CUSTOM_CATEGORY_NAME.test(name)) {
+			return `Invalid category name "${name}": use letters, digits, '_' or '-'`;
+		}
+		if (name in CATEGORY_RULES) {
+			return `"${name}" is a built-in category; adjust its freshness_* key instead`;
+		}
+		if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+			return `Category "${name}" must be an object`;
+		}
+		const { endsWith, includes, not, freshnessHours, priority } =
+			rule as Record<string, unknown>;
+		if (endsWith !== undefined && !isStringArray(endsWith)) {
+			return `Category "${name}": endsWith must be an array of strings`;
+		}
+		if (includes !== undefined && !isStringArray(includes)) {
+			return `Category "${name}": includes must be an array of strings`;
+		}
+		if (!endsWith?.length && !includes?.length) {
+			return `Category "${name}" needs at least one endsWith or includes pattern`;
+		}
+		if (not !== undefined) {
+			if (!not || typeof not !== "object" || Array.isArray(not)) {
+				return `Category "${name}": not must be an object`;
+			}
+			for (const [key, patterns] of Object.entries(not)) {
+				if (!["endsWith", "includes", "tagged"].includes(key)) {
+					return `Category "${name}": unknown not.${key} rule`;
+				}
+				if (!isStringArray(patterns)) {
+					return `Category "${name}": not.${key} must be an array of strings`;
+				}
+			}
+		}
+		if (
+			typeof freshnessHours !== "number" ||
+			!Number.isFinite(freshnessHours) ||
+			freshnessHours <= 0
+		) {
+			return `Category "${name}": freshnessHours must be a positive number`;
+		}
+		if (
+			priority !== undefined &&
+			(typeof priority !== "number" || !Number.isFinite(priority))
+		) {
+			return `Category "${name}": priority must be a number`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Parse the `custom_categories` config value.
+ * Invalid values are ignored so a bad config never breaks category inference.
+ */
+export function parseCustomCategories(
+	value: string | null | undefined,
+): Record<string, CustomCategoryRule> {
+	if (!value || validateCustomCategories(value) !== null) {
+		return {};
+	}
+	return JSON.parse(value) as Record<string, CustomCategoryRule>;
+}
+
+/**
+ * Explain how a URI is categorized: every rule whose patterns matched, and
+ * whether it was applied, excluded (not.* rules) or shadowed by a
+ * higher-priority match.
+ *
  * Uses a two-pass approach:
  * 1. First pass: Match all categories based on URI patterns (endsWith, includes, not.endsWith, not.includes)
  * 2. Second pass: Apply not.tagged exclusions now that we have all URI-based matches
  *
  * This ensures that not.tagged exclusions work reliably regardless of category processing order.
+ * Only matches at the highest remaining priority are applied.
  */
-export function inferResourceCategory(uri: string): FreshnessCategory[] {
+export function explainResourceCategory(
+	uri: string,
+	customCategories: Record<string, CustomCategoryRule> = {},
+): CategoryExplanation {
 	const lowerUri = uri.toLowerCase();
 
-	// First pass: Collect all URI-based matches (ignoring not.tagged for now)
-	const uriMatches = new Set<FreshnessCategory>();
-
-	for (const [category, clause] of Object.entries(CATEGORY_RULES)) {
-		const cat = category as FreshnessCategory;
+	// Custom categories are listed first so they become the primary category
+	const rules: Array<{
+		category: ResourceCategory;
+		source: "builtin" | "custom";
+		priority: number;
+		clause: MatchRule;
+	}> = [
+		...Object.entries(customCategories).map(([category, clause]) => ({
+			category,
+			source: "custom" as const,
+			priority: clause.priority ?? 0,
+			// URIs are matched lowercased, so normalize user-supplied patterns too
+			clause: {
+				endsWith: clause.endsWith?.map(lower),
+				includes: clause.includes?.map(lower),
+				not: clause.not && {
+					endsWith: clause.not.endsWith?.map(lower),
+					includes: clause.not.includes?.map(lower),
+					tagged: clause.not.tagged,
+				},
+				freshnessHours: clause.freshnessHours,
+			},
+		})),
+		...Object.entries(CATEGORY_RULES)
+			// Skip 'default' - it's a catch-all handled at the end
+			.filter(([category]) => category !== "default")
+			.map(([category, clause]) => ({
+				category,
+				source: "builtin" as const,
+				priority: 0,
+				clause,
+			})),
+	];
 
-		// Skip 'default' - it's a catch-all handled at the end
-		if (cat === "default") {
+	// First pass: Collect all URI-based matches (ignoring not.tagged for now)
+	const matches: Array<CategoryMatchExplanation & { clause: MatchRule }> = [];
+	for (const rule of rules) {
+		const { matchedBy, excludedBy } = matchClauseUri(rule.clause, lowerUri);
+		if (!matchedBy) {
 			continue;
 		}
-
-		if (matchClauseUri(clause, lowerUri)) {
-			uriMatches.add(cat);
-		}
+		matches.push({
+			category: rule.category,
+			source: rule.source,
+			priority: rule.priority,
+			matchedBy,
+			status: excludedBy ? "excluded" : "applied",
+			reason: excludedBy ?? undefined,
+			clause: rule.clause,
+		});
 	}
 
 	// Second pass: Apply not.tagged exclusions
 	// Now we have all URI-based matches, so we can reliably check tag-based exclusions
-	const finalMatches = new Set<FreshnessCategory>();
+	const uriMatches = new Set(
+		matches.filter((m) => m.status === "applied").map((m) => m.category),
+	);
+	for (const match of matches) {
+		if (match.status !== "applied") continue;
+		const tag = findExcludingTag(match.clause, uriMatches);
+		if (tag) {
+			match.status = "excluded";
+			match.reason = `not.tagged "${tag}"`;
+		}
+	}
 
-	for (const cat of uriMatches) {
-		const clause = CATEGORY_RULES[cat];
-		if (!shouldExcludeByTag(clause, uriMatches)) {
-			finalMatches.add(cat);
+	// Higher-priority matches shadow lower ones
+	const applied = matches.filter((m) => m.status === "applied");
+	const topPriority = Math.max(...applied.map((m) => m.priority));
+	for (const match of applied) {
+		if (match.priority < topPriority) {
+			match.status = "shadowed";
+			match.reason = `shadowed by priority ${topPriority}`;
 		}
 	}
 
-	return finalMatches.size > 0 ? [...finalMatches] : ["default"];
+	const categories = matches
+		.filter((m) => m.status === "applied")
+		.map((m) => m.category);
+
+	return {
+		categories: categories.length > 0 ? categories : ["default"],
+		matches: matches.map(({ clause: _clause, ...match }) => match),
+	};
+}
+
+/**
+ * Infer resource category from URI or type for freshness lookup.
+ * Custom categories (from the `custom_categories` config key) are merged
+ * with the built-in rules; see explainResourceCategory.
+ */
+export function inferResourceCategory(
+	uri: string,
+	customCategories?: Record<string, CustomCategoryRule>,
+): ResourceCategory[] {
+	return explainResourceCategory(uri, customCategories).categories;
 }
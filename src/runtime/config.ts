@@ -4,8 +4,11 @@ import type {
 	RuntimeConfig,
 	FreshnessConfig,
 	FreshnessCategory,
+	CustomCategoryRule,
+	ResourceCategory,
 } from "./types.js";
 import { DEFAULT_FRESHNESS_CONFIG } from "./defaults.js";
+import { parseCustomCategories } from "./categories.js";
 
 /**
  * In-memory runtime configuration state.
@@ -121,15 +124,29 @@ export function getEffectiveFreshness(
 	return base;
 }
 
+/**
+ * Get user-defined categories from the `custom_categories` database config.
+ */
+export function getCustomCategories(
+	dbConfig?: Record<string, string>,
+): Record<string, CustomCategoryRule> {
+	return parseCustomCategories(dbConfig?.custom_categories);
+}
+
 /**
  * Get freshness threshold for a specific resource category.
+ * Custom categories use their own freshnessHours.
  */
 export function getFreshnessForCategory(
-	category: FreshnessCategory,
+	category: ResourceCategory,
 	dbConfig?: Record<string, string>,
 ): number {
+	const custom = getCustomCategories(dbConfig)[category];
+	if (custom) {
+		return custom.freshnessHours;
+	}
 	const freshness = getEffectiveFreshness(dbConfig);
-	return freshness[category] ?? freshness.default;
+	return freshness[category as FreshnessCategory] ?? freshness.default;
 }
 
 /**
@@ -138,7 +155,7 @@ export function getFreshnessForCategory(
  * (smallest) threshold wins to ensure we don't miss stale content.
  */
 export function getFreshnessForCategories(
-	categories: FreshnessCategory[],
+	categories: ResourceCategory[],
 	dbConfig?: Record<string, string>,
 ): number {
 	if (categories.length === 0) {
@@ -146,10 +163,14 @@ export function getFreshnessForCategories(
 	}
 
 	const freshness = getEffectiveFreshness(dbConfig);
+	const customCategories = getCustomCategories(dbConfig);
 	let minThreshold = Infinity;
 
 	for (const category of categories) {
-		const threshold = freshness[category] ?? freshness.default;
+		const threshold =
+			customCategories[category]?.freshnessHours ??
+			freshness[category as FreshnessCategory] ??
+			freshness.default;
 		if (threshold < minThreshold) {
 			minThreshold = threshold;
 		}
@@ -14,6 +14,7 @@ export type ConfigCategory =
 	| "snapshots"
 	| "maintenance"
 	| "workers"
+	| "security"
 	| "preferences";
 
 /**
@@ -185,6 +186,55 @@ export const DEFAULT_SNAPSHOT_SETTINGS = {
 	maxSizeKb: 100,
 	overflowBehavior: "summarize" as const,
 	retentionVersions: 1,
+	chunkSizeKb: 16,
+	refreshTimeoutMs: 30 * 1000,
+};
+
+/**
+ * Default policy for commands run by Factsets (command-type resource refreshes)
+ */
+export const DEFAULT_EXECUTION_POLICY = {
+	allowlist: [
+		"cat",
+		"head",
+		"tail",
+		"wc",
+		"ls",
+		"tree",
+		"stat",
+		"find",
+		"grep",
+		"rg",
+		"sort",
+		"uniq",
+		"cut",
+		"tr",
+		"jq",
+		"diff",
+		"echo",
+		"printf",
+		"pwd",
+		"date",
+		"sleep",
+		"git",
+		"env",
+		"timeout",
+	],
+	denylist: [
+		"rm",
+		"sudo",
+		"su",
+		"dd",
+		"mkfs",
+		"shutdown",
+		"reboot",
+		"chmod",
+		"chown",
+	],
+	envAllowlist: ["PATH", "LANG", "LC_ALL", "TMPDIR", "USER"],
+	timeoutMs: 30 * 1000,
+	maxOutputKb: 10 * 1024,
+	dryRun: false,
 };
 
 /**
@@ -194,6 +244,7 @@ export type SnapshotOverflowBehavior =
 	| "truncate"
 	| "summarize"
 	| "remove_noise"
+	| "chunk"
 	| "auto";
 
 /**
@@ -202,7 +253,9 @@ export type SnapshotOverflowBehavior =
 export const DEFAULT_WORKER_INTERVALS = {
 	autoVerify: 60 * 60 * 1000, // 1 hour
 	expireFacts: 6 * 60 * 60 * 1000, // 6 hours
+	expireDatedFacts: 60 * 60 * 1000, // 1 hour
 	pruneSnapshots: 24 * 60 * 60 * 1000, // 24 hours
+	refreshResources: 60 * 60 * 1000, // 1 hour
 	pruneTags: 24 * 60 * 60 * 1000, // 24 hours
 	hardDelete: 24 * 60 * 60 * 1000, // 24 hours
 };
@@ -300,6 +353,20 @@ export const CONFIG_SCHEMA = {
 		default: DEFAULT_FRESHNESS_CONFIG.default,
 		category: "freshness" as const,
 	},
+	custom_categories: {
+		description:
+			"JSON object defining extra freshness categories: name -> { endsWith, includes, not, freshnessHours, priority }",
+		type: "json" as const,
+		default: "{}",
+		category: "freshness" as const,
+	},
+	git_freshness: {
+		description:
+			"Record the git commit of clean, tracked file snapshots and judge their freshness by git instead of age",
+		type: "boolean" as const,
+		default: true,
+		category: "freshness" as const,
+	},
 
 	search_limit_tags: {
 		description: "Default limit for list_tags results",
@@ -400,6 +467,13 @@ export const CONFIG_SCHEMA = {
 		default: null,
 		category: "facts" as const,
 	},
+	fact_duplicate_threshold: {
+		description:
+			"Similarity (0.0-1.0) at which submit_facts and find_duplicate_facts treat facts as near-duplicates",
+		type: "number" as const,
+		default: 0.5,
+		category: "facts" as const,
+	},
 	source_type_trust: {
 		description:
 			"JSON object mapping source types to trust levels (0.0-1.0) for ordering",
@@ -416,9 +490,9 @@ export const CONFIG_SCHEMA = {
 	},
 	snapshot_overflow_behavior: {
 		description:
-			"How to handle snapshots exceeding max size: truncate, summarize, remove_noise, auto",
+			"How to handle snapshots exceeding max size: truncate, summarize, remove_noise, chunk, auto",
 		type: "string" as const,
-		values: ["truncate", "summarize", "remove_noise", "auto"],
+		values: ["truncate", "summarize", "remove_noise", "chunk", "auto"],
 		default: DEFAULT_SNAPSHOT_SETTINGS.overflowBehavior,
 		category: "snapshots" as const,
 	},
@@ -428,6 +502,82 @@ export const CONFIG_SCHEMA = {
 		default: DEFAULT_SNAPSHOT_SETTINGS.retentionVersions,
 		category: "snapshots" as const,
 	},
+	snapshot_chunk_size_kb: {
+		description:
+			"Maximum size in KB of each section when an oversized snapshot is chunked",
+		type: "number" as const,
+		default: DEFAULT_SNAPSHOT_SETTINGS.chunkSizeKb,
+		category: "snapshots" as const,
+	},
+	refresh_timeout_ms: {
+		description:
+			"Milliseconds before a server-side refresh (command or HTTP fetch) is aborted",
+		type: "number" as const,
+		default: DEFAULT_SNAPSHOT_SETTINGS.refreshTimeoutMs,
+		category: "snapshots" as const,
+	},
+	content_selectors: {
+		description:
+			"JSON object mapping URL globs to { include, exclude } CSS selectors for extracting the main content of HTML snapshots",
+		type: "json" as const,
+		default: "{}",
+		category: "snapshots" as const,
+	},
+
+	redact_secrets: {
+		description:
+			"Redact secrets from snapshots, execution logs and retrieval headers before they are stored",
+		type: "boolean" as const,
+		default: true,
+		category: "security" as const,
+	},
+	redaction_patterns: {
+		description:
+			"JSON object of extra redaction detectors: name -> regular expression",
+		type: "json" as const,
+		default: "{}",
+		category: "security" as const,
+	},
+	execution_allowlist: {
+		description:
+			"JSON array of executables server-side commands may run (empty allows any not denied)",
+		type: "json" as const,
+		default: JSON.stringify(DEFAULT_EXECUTION_POLICY.allowlist),
+		category: "security" as const,
+	},
+	execution_denylist: {
+		description: "JSON array of executables server-side commands may never run",
+		type: "json" as const,
+		default: JSON.stringify(DEFAULT_EXECUTION_POLICY.denylist),
+		category: "security" as const,
+	},
+	execution_env_allowlist: {
+		description:
+			"JSON array of environment variables passed to server-side commands",
+		type: "json" as const,
+		default: JSON.stringify(DEFAULT_EXECUTION_POLICY.envAllowlist),
+		category: "security" as const,
+	},
+	execution_timeout_ms: {
+		description: "Wall-clock limit in milliseconds for a server-side command",
+		type: "number" as const,
+		default: DEFAULT_EXECUTION_POLICY.timeoutMs,
+		category: "security" as const,
+	},
+	execution_max_output_kb: {
+		description:
+			"Output in KB after which a server-side command is stopped and fails",
+		type: "number" as const,
+		default: DEFAULT_EXECUTION_POLICY.maxOutputKb,
+		category: "security" as const,
+	},
+	execution_dry_run: {
+		description:
+			"Report the commands refreshes would run instead of running them",
+		type: "boolean" as const,
+		default: DEFAULT_EXECUTION_POLICY.dryRun,
+		category: "security" as const,
+	},
 
 	auto_prune_orphan_tags: {
 		description: "Automatically prune tags not linked to any entities",
@@ -435,6 +585,13 @@ export const CONFIG_SCHEMA = {
 		default: false,
 		category: "maintenance" as const,
 	},
+	auto_refresh_resources: {
+		description:
+			"Let the background worker refresh stale resources from their retrieval methods",
+		type: "boolean" as const,
+		default: false,
+		category: "maintenance" as const,
+	},
 	soft_delete_retention_days: {
 		description: "Days to retain soft-deleted items before hard deletion",
 		type: "number" as const,
@@ -461,12 +618,25 @@ export const CONFIG_SCHEMA = {
 		default: DEFAULT_WORKER_INTERVALS.expireFacts,
 		category: "workers" as const,
 	},
+	worker_interval_expire_dated_facts: {
+		description:
+			"Milliseconds between runs removing facts past their expiresAt",
+		type: "number" as const,
+		default: DEFAULT_WORKER_INTERVALS.expireDatedFacts,
+		category: "workers" as const,
+	},
 	worker_interval_prune_snapshots: {
 		description: "Milliseconds between snapshot pruning runs",
 		type: "number" as const,
 		default: DEFAULT_WORKER_INTERVALS.pruneSnapshots,
 		category: "workers" as const,
 	},
+	worker_interval_refresh_resources: {
+		description: "Milliseconds between stale resource refresh runs",
+		type: "number" as const,
+		default: DEFAULT_WORKER_INTERVALS.refreshResources,
+		category: "workers" as const,
+	},
 	worker_interval_prune_tags: {
 		description: "Milliseconds between orphan tag pruning runs",
 		type: "number" as const,
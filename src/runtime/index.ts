@@ -2,8 +2,10 @@
 export type {
 	FreshnessConfig,
 	FreshnessCategory,
+	ResourceCategory,
 	RuntimeConfig,
 	CategoryMatchRule,
+	CustomCategoryRule,
 } from "./types.js";
 
 // Defaults and schema
@@ -32,7 +34,15 @@ export {
 	getEffectiveFreshness,
 	getFreshnessForCategory,
 	getFreshnessForCategories,
+	getCustomCategories,
 } from "./config.js";
 
 // Category inference
-export { inferResourceCategory, CATEGORY_RULES } from "./categories.js";
+export {
+	inferResourceCategory,
+	explainResourceCategory,
+	validateCustomCategories,
+	CATEGORY_RULES,
+	type CategoryExplanation,
+	type CategoryMatchExplanation,
+} from "./categories.js";
@@ -33,6 +33,11 @@ export interface FreshnessConfig {
 
 export type FreshnessCategory = keyof FreshnessConfig;
 
+/**
+ * A built-in freshness category or a user-defined one from `custom_categories`.
+ */
+export type ResourceCategory = FreshnessCategory | (string & {});
+
 /**
  * Runtime configuration that can be set via CLI options.
  * These take precedence over database-stored config values.
@@ -64,6 +69,24 @@ export type CategoryMatchRule = {
 	};
 };
 
+/**
+ * User-defined category from the `custom_categories` config key.
+ * Matching follows CategoryMatchRule; `not.tagged` may name built-in or custom categories.
+ */
+export type CustomCategoryRule = {
+	endsWith?: string[];
+	includes?: string[];
+	not?: {
+		endsWith?: string[];
+		includes?: string[];
+		tagged?: ResourceCategory[];
+	};
+	/** Hours before matching resources are considered stale */
+	freshnessHours: number;
+	/** Matches with a higher priority shadow lower ones (built-in categories are 0) */
+	priority?: number;
+};
+
 /**
  * Communication tone options
  */
@@ -6,9 +6,31 @@ const retrievalMethod = z
 		command: z.string().optional(),
 		url: z.string().optional(),
 		headers: z.record(z.string(), z.string()).optional(),
+		sensitiveHeaders: z.array(z.string()).optional(),
 	})
 	.nullable();
 
+// Schema for resource category inference
+export const freshnessCategory = z.enum([
+	"lockFiles",
+	"configFiles",
+	"documentation",
+	"generatedFiles",
+	"apiSchemas",
+	"sourceCode",
+	"database",
+	"scripts",
+	"tests",
+	"assets",
+	"infrastructure",
+	"default",
+]);
+
+// Built-in freshness category, or a user-defined one from custom_categories
+export const resourceCategory = z
+	.string()
+	.describe("Freshness category (built-in or from custom_categories)");
+
 export const contextBuildInput = z.object({
 	tags: z.array(z.string().min(1)).min(1),
 	includeFacts: z.boolean().default(true).optional(),
@@ -19,6 +41,16 @@ export const contextBuildInput = z.object({
 	maxSkills: z.number().int().positive().default(10).optional(),
 	format: z.enum(["text", "json"]).default("text").optional(),
 	includeStalenessWarnings: z.boolean().default(true).optional(),
+	includeSuperseded: z
+		.boolean()
+		.default(false)
+		.optional()
+		.describe("Include facts that a newer fact supersedes"),
+	includeExpired: z
+		.boolean()
+		.default(false)
+		.optional()
+		.describe("Include facts whose expiresAt has passed"),
 });
 
 export const checkStaleInput = z.object({
@@ -29,10 +61,9 @@ export const checkStaleInput = z.object({
 		.number()
 		.int()
 		.positive()
-		.default(168)
 		.optional()
 		.describe(
-			"Hours before content is considered stale (default: 168 = 7 days)",
+			"Hours before content is considered stale. Overrides the per-category freshness thresholds for resources; skills and facts default to 168 (7 days)",
 		),
 });
 
@@ -45,7 +76,19 @@ export const checkStaleOutput = z.object({
 			lastVerifiedAt: z.string().optional(),
 			daysStale: z.number(),
 			hoursStale: z.number(),
+			categories: z
+				.array(resourceCategory)
+				.describe("All matched resource categories"),
+			thresholdHours: z
+				.number()
+				.describe("Staleness threshold in hours applied to this resource"),
 			retrievalMethod: retrievalMethod,
+			changedSinceCommit: z
+				.string()
+				.optional()
+				.describe(
+					"Git commit the snapshot was taken at, when git reports the file changed since",
+				),
 		}),
 	),
 	approachingStaleResources: z.array(
@@ -56,8 +99,29 @@ export const checkStaleOutput = z.object({
 			lastVerifiedAt: z.string().optional(),
 			hoursUntilStale: z.number(),
 			percentToStale: z.number(),
+			categories: z
+				.array(resourceCategory)
+				.describe("All matched resource categories"),
+			thresholdHours: z
+				.number()
+				.describe("Staleness threshold in hours applied to this resource"),
 		}),
 	),
+	missingResources: z
+		.array(
+			z.object({
+				id: z.number(),
+				uri: z.string(),
+				lastCheckedAt: z
+					.string()
+					.nullable()
+					.describe("When the file was last found missing"),
+				message: z.string().nullable(),
+			}),
+		)
+		.describe(
+			"File resources whose file was deleted (found by watch-files or refresh_resources)",
+		),
 	staleSkills: z.array(
 		z.object({
 			id: z.number(),
@@ -80,6 +144,19 @@ export const checkStaleOutput = z.object({
 			sourceType: z.string(),
 		}),
 	),
+	contradictions: z
+		.array(
+			z.object({
+				factId: z.number(),
+				content: z.string(),
+				relatedFactId: z.number(),
+				relatedContent: z.string(),
+				createdAt: z.string().describe("When the contradiction was recorded"),
+			}),
+		)
+		.describe(
+			"Pairs of live facts marked as contradicting each other. Resolve by superseding, deleting or unlinking one",
+		),
 	skillsNeedingReview: z.array(
 		z.object({
 			id: z.number(),
@@ -101,9 +178,11 @@ export const checkStaleOutput = z.object({
 		resources: z.number(),
 		skills: z.number(),
 		facts: z.number(),
+		contradictions: z.number(),
 		pendingReview: z.number(),
 		incompleteDescriptions: z.number(),
 		approachingStaleResources: z.number(),
+		missingResources: z.number(),
 	}),
 });
 
@@ -126,21 +205,79 @@ export const markRefreshedOutput = z.object({
 		.describe("Skills that reference the refreshed resources"),
 });
 
-// Schema for resource category inference
-export const freshnessCategory = z.enum([
-	"lockFiles",
-	"configFiles",
-	"documentation",
-	"generatedFiles",
-	"apiSchemas",
-	"sourceCode",
-	"database",
-	"scripts",
-	"tests",
-	"assets",
-	"infrastructure",
-	"default",
-]);
+export const refreshResourcesInput = z.object({
+	ids: z
+		.array(z.number().int().positive())
+		.optional()
+		.describe(
+			"Resource IDs to refresh. Omit ids and uris to refresh all stale resources",
+		),
+	uris: z
+		.array(z.string().min(1))
+		.optional()
+		.describe("Resource URIs to refresh"),
+	maxAgeHours: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe(
+			"When selecting stale resources, override the per-category freshness threshold",
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.default(20)
+		.optional()
+		.describe("Maximum number of resources to refresh in this call"),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe(
+			"Report what each refresh would read, run or fetch without doing it. Commands are still checked against the execution policy",
+		),
+});
+
+export const refreshResourcesOutput = z.object({
+	refreshed: z.number().describe("Resources whose snapshot content changed"),
+	unchanged: z
+		.number()
+		.describe("Resources re-fetched with identical content (re-verified)"),
+	failed: z.number(),
+	missing: z.number().describe("File resources whose file no longer exists"),
+	skipped: z.number().describe("Resources with no usable retrieval method"),
+	results: z.array(
+		z.object({
+			id: z.number(),
+			uri: z.string(),
+			method: z.enum(["file", "command", "url"]).nullable(),
+			status: z.enum([
+				"updated",
+				"unchanged",
+				"failed",
+				"missing",
+				"skipped",
+				"dry_run",
+			]),
+			message: z.string().optional(),
+			snapshotHash: z.string().optional(),
+			durationMs: z.number(),
+			redactions: z
+				.array(z.object({ detector: z.string(), count: z.number() }))
+				.optional()
+				.describe("Secrets redacted from the fetched content before storing"),
+		}),
+	),
+	skillsToReview: z
+		.array(
+			z.object({
+				id: z.number(),
+				name: z.string(),
+			}),
+		)
+		.describe("Skills that reference resources whose content changed"),
+});
 
 export const inferCategoryInput = z.object({
 	uri: z.string().min(1).describe("URI or file path to infer category for"),
@@ -149,9 +286,9 @@ export const inferCategoryInput = z.object({
 export const inferCategoryOutput = z.object({
 	uri: z.string(),
 	categories: z
-		.array(freshnessCategory)
+		.array(resourceCategory)
 		.describe("All matched categories for this URI"),
-	primaryCategory: freshnessCategory.describe(
+	primaryCategory: resourceCategory.describe(
 		"Primary category (first match or 'default')",
 	),
 	freshnessThresholdHours: z
@@ -172,12 +309,56 @@ export const inferCategoriesBatchOutput = z.object({
 	results: z.array(inferCategoryOutput),
 });
 
+export const classifyResourceInput = z.object({
+	uri: z.string().min(1).describe("URI or file path to classify"),
+});
+
+export const classifyResourceOutput = inferCategoryOutput.extend({
+	freshnessThresholdHours: z
+		.number()
+		.describe(
+			"Effective threshold in hours: the resource override if set, otherwise the strictest applied category",
+		),
+	matches: z
+		.array(
+			z.object({
+				category: resourceCategory,
+				source: z.enum(["builtin", "custom"]),
+				priority: z.number(),
+				freshnessHours: z.number(),
+				matchedBy: z
+					.string()
+					.describe('Pattern that matched, e.g. `endsWith ".lock"`'),
+				status: z
+					.enum(["applied", "excluded", "shadowed"])
+					.describe(
+						"applied: counts toward the threshold; excluded: removed by a not.* rule; shadowed: a higher-priority category matched",
+					),
+				reason: z
+					.string()
+					.optional()
+					.describe("Why a matching rule was not applied"),
+			}),
+		)
+		.describe("Every category rule whose patterns matched the URI"),
+	resourceMaxAgeHours: z
+		.number()
+		.nullable()
+		.describe(
+			"maxAgeHours override stored on a registered resource with this URI (takes precedence over categories)",
+		),
+});
+
 export type ContextBuildInput = z.infer<typeof contextBuildInput>;
 export type CheckStaleInput = z.infer<typeof checkStaleInput>;
 export type CheckStaleOutput = z.infer<typeof checkStaleOutput>;
 export type MarkRefreshedInput = z.infer<typeof markRefreshedInput>;
 export type MarkRefreshedOutput = z.infer<typeof markRefreshedOutput>;
+export type RefreshResourcesInput = z.infer<typeof refreshResourcesInput>;
+export type RefreshResourcesOutput = z.infer<typeof refreshResourcesOutput>;
 export type FreshnessCategoryType = z.infer<typeof freshnessCategory>;
+export type ClassifyResourceInput = z.infer<typeof classifyResourceInput>;
+export type ClassifyResourceOutput = z.infer<typeof classifyResourceOutput>;
 export type InferCategoryInput = z.infer<typeof inferCategoryInput>;
 export type InferCategoryOutput = z.infer<typeof inferCategoryOutput>;
 export type InferCategoriesBatchInput = z.infer<
@@ -99,6 +99,24 @@ export const executionLogOutput = z.object({
 export const executionLogSubmitOutput = z.object({
 	created: z.number().describe("Number of logs created"),
 	ids: z.array(z.number()).describe("IDs of the created logs"),
+	redactions: z
+		.array(
+			z.object({
+				id: z.number().describe("ID of the log"),
+				detector: z
+					.string()
+					.describe(
+						"Detector that matched: a built-in one (e.g. aws_access_key, jwt) or a redaction_patterns name",
+					),
+				count: z
+					.number()
+					.describe("Values replaced with [REDACTED:<detector>]"),
+			}),
+		)
+		.optional()
+		.describe(
+			"Secrets redacted from commands, context and output before storing",
+		),
 });
 
 export const executionLogSearchOutput = z.object({
@@ -1,6 +1,12 @@
 import { z } from "zod";
 
 const sourceType = z.enum(["user", "documentation", "code", "inference"]);
+const relationType = z.enum([
+	"supersedes",
+	"contradicts",
+	"refines",
+	"depends_on",
+]);
 
 export const factSubmitInput = z.object({
 	facts: z
@@ -11,19 +17,57 @@ export const factSubmitInput = z.object({
 				source: z.string().optional(),
 				sourceType: sourceType.optional(),
 				verified: z.boolean().default(false).optional(),
+				supersedes: z
+					.array(z.number().int().positive())
+					.optional()
+					.describe(
+						"IDs of facts this fact replaces. Superseded facts are hidden from search and context",
+					),
+				expiresAt: z
+					.string()
+					.datetime()
+					.optional()
+					.describe(
+						"When the fact stops holding, for temporary knowledge. Expired facts are hidden from search and context",
+					),
 			}),
 		)
 		.min(1),
+	mode: z
+		.enum(["insert", "skip", "merge"])
+		.default("insert")
+		.optional()
+		.describe(
+			"What to do with a new fact that closely matches an existing one: insert it anyway, skip it, or merge its tags and source into the closest match",
+		),
 });
 
 export const factSearchInput = z.object({
 	tags: z.array(z.string()).optional(),
-	query: z.string().optional(),
+	query: z
+		.string()
+		.optional()
+		.describe(
+			'Full-text search over fact content. Terms are ANDed; supports "exact phrases", prefix* terms and OR',
+		),
 	limit: z.number().int().positive().default(50).optional(),
 	cursor: z.string().optional().describe("Opaque cursor for pagination"),
 	verifiedOnly: z.boolean().optional(),
 	sourceType: sourceType.optional(),
-	orderBy: z.enum(["recent", "oldest", "usage"]).default("recent").optional(),
+	orderBy: z
+		.enum(["relevance", "recent", "oldest", "usage"])
+		.optional()
+		.describe(
+			"Result ordering. Defaults to relevance when query is set, otherwise recent",
+		),
+	includeSuperseded: z
+		.boolean()
+		.optional()
+		.describe("Include facts that a newer fact supersedes"),
+	includeExpired: z
+		.boolean()
+		.optional()
+		.describe("Include facts whose expiresAt has passed"),
 });
 
 export const factVerifyInput = z.object({
@@ -35,6 +79,10 @@ export const factDeleteInput = z.object({
 	tags: z.array(z.string()).optional(),
 	olderThan: z.string().datetime().optional(),
 	unverifiedOnly: z.boolean().optional(),
+	expired: z
+		.boolean()
+		.optional()
+		.describe("Only delete facts whose expiresAt has passed"),
 	soft: z
 		.boolean()
 		.default(false)
@@ -98,6 +146,12 @@ export const factUpdateInput = z
 				source: z.string().optional().describe("New source attribution"),
 				sourceType: sourceType.optional().describe("New source type"),
 				verified: z.boolean().optional().describe("Set verification status"),
+				expiresAt: z
+					.string()
+					.datetime()
+					.nullable()
+					.optional()
+					.describe("New expiry date, or null to make the fact permanent"),
 				tags: z
 					.array(z.string().min(1))
 					.optional()
@@ -129,15 +183,160 @@ export const factVerifyByTagsInput = z.object({
 		.describe("If true, only verify facts that have ALL specified tags"),
 });
 
+export const factHistoryInput = z
+	.object({
+		id: z.number().int().positive().optional().describe("The ID of the fact"),
+		contentMatch: z
+			.string()
+			.optional()
+			.describe("Match fact by exact content instead of ID"),
+		limit: z
+			.number()
+			.int()
+			.positive()
+			.default(20)
+			.optional()
+			.describe("Maximum number of revisions to list (newest first)"),
+	})
+	.refine((data) => data.id !== undefined || data.contentMatch !== undefined, {
+		message: "Either 'id' or 'contentMatch' must be provided",
+	});
+
+export const factRevertInput = z.object({
+	id: z.number().int().positive().describe("The ID of the fact to revert"),
+	revisionId: z
+		.number()
+		.int()
+		.positive()
+		.describe(
+			"Revision from get_fact_history; the fact is restored to the values it had before that change",
+		),
+});
+
+export const factMergeInput = z.object({
+	ids: z
+		.array(z.number().int().positive())
+		.min(2)
+		.describe(
+			"Facts to merge. The first one survives; the others are absorbed into it",
+		),
+	content: z.string().min(1).describe("Content of the merged fact"),
+});
+
+export const factMergeOutput = z.object({
+	success: z.literal(true),
+	id: z.number().describe("ID of the surviving fact"),
+	content: z.string(),
+	tags: z.array(z.string()),
+	verified: z.boolean(),
+	retrievalCount: z.number(),
+	absorbed: z
+		.array(z.number())
+		.describe("Facts merged into the survivor, now superseded by it"),
+	skillLinks: z
+		.number()
+		.describe("Skill links moved from absorbed facts to the survivor"),
+});
+
+export const factLinkInput = z.object({
+	relations: z
+		.array(
+			z.object({
+				factId: z.number().int().positive(),
+				relatedFactId: z.number().int().positive(),
+				type: relationType.describe(
+					"How factId relates to relatedFactId, e.g. factId supersedes relatedFactId",
+				),
+			}),
+		)
+		.min(1),
+});
+
+export const factLinkOutput = z.object({
+	linked: z.number().describe("Number of new relations"),
+});
+
+export const factUnlinkOutput = z.object({
+	unlinked: z.number().describe("Number of relations removed"),
+});
+
+const similarFact = z.object({
+	id: z.number(),
+	content: z.string(),
+	score: z.number().describe("Similarity from 0 to 1"),
+});
+
 export const factSubmitOutput = z.object({
 	created: z.number(),
 	updated: z.number(),
+	merged: z
+		.number()
+		.optional()
+		.describe("New facts merged into an existing near-duplicate (mode merge)"),
+	skipped: z
+		.number()
+		.optional()
+		.describe("New facts not stored because of a near-duplicate (mode skip)"),
 	facts: z.array(
 		z.object({
 			id: z.number(),
 			content: z.string(),
+			mergedContent: z
+				.string()
+				.optional()
+				.describe(
+					"Submitted content that was not stored because it was merged into this fact (mode merge)",
+				),
 		}),
 	),
+	possibleDuplicates: z
+		.array(
+			z.object({
+				content: z.string().describe("Submitted fact content"),
+				matches: z.array(similarFact).describe("Closest match first"),
+			}),
+		)
+		.optional()
+		.describe("Existing facts similar to newly submitted ones"),
+});
+
+export const factDuplicatesInput = z.object({
+	tags: z
+		.array(z.string().min(1))
+		.optional()
+		.describe("Only scan facts with any of these tags"),
+	threshold: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Minimum similarity. Defaults to fact_duplicate_threshold"),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.default(20)
+		.optional()
+		.describe("Maximum clusters to return (largest first)"),
+});
+
+export const factDuplicatesOutput = z.object({
+	clusters: z
+		.array(
+			z.object({
+				score: z.number().describe("Highest similarity within the cluster"),
+				facts: z.array(
+					z.object({
+						id: z.number(),
+						content: z.string(),
+						verified: z.boolean(),
+						updatedAt: z.string(),
+					}),
+				),
+			}),
+		)
+		.describe("Groups of facts that restate each other"),
+	scanned: z.number().describe("Number of facts compared"),
 });
 
 export const factSearchOutput = z.object({
@@ -149,6 +348,20 @@ export const factSearchOutput = z.object({
 			verified: z.boolean(),
 			sourceType: z.string().nullable(),
 			updatedAt: z.string(),
+			snippet: z
+				.string()
+				.optional()
+				.describe("Matching excerpt with **highlighted** terms (query only)"),
+			expiresAt: z
+				.string()
+				.optional()
+				.describe("When the fact stops holding (time-bounded facts only)"),
+			supersededBy: z
+				.array(z.number())
+				.optional()
+				.describe(
+					"IDs of the facts that supersede this one (includeSuperseded only)",
+				),
 		}),
 	),
 	nextCursor: z
@@ -161,6 +374,44 @@ export const factSearchOutput = z.object({
 		.describe("Popular tags to explore when search returns empty results"),
 });
 
+const factState = z.object({
+	content: z.string(),
+	source: z.string().nullable(),
+	sourceType: z.string().nullable(),
+	verified: z.boolean(),
+	deleted: z.boolean(),
+	expiresAt: z.string().nullable(),
+	tags: z.array(z.string()),
+});
+
+export const factHistoryOutput = z.object({
+	factId: z.number(),
+	current: factState
+		.extend({ updatedAt: z.string() })
+		.describe("The fact as currently stored"),
+	revisions: z
+		.array(
+			factState.extend({
+				id: z.number(),
+				changedBy: z.string().describe("Tool or worker that made the change"),
+				changedAt: z.string(),
+				tagsAdded: z.array(z.string()),
+				tagsRemoved: z.array(z.string()),
+			}),
+		)
+		.describe(
+			"Changes to the fact, newest first, each with the values from before the change",
+		),
+});
+
+export const factRevertOutput = z.object({
+	success: z.literal(true),
+	id: z.number(),
+	revisionId: z.number(),
+	content: z.string(),
+	tags: z.array(z.string()),
+});
+
 export type FactSubmitInput = z.infer<typeof factSubmitInput>;
 export type FactSearchInput = z.infer<typeof factSearchInput>;
 export type FactVerifyInput = z.infer<typeof factVerifyInput>;
@@ -168,6 +419,11 @@ export type FactDeleteInput = z.infer<typeof factDeleteInput>;
 export type FactUpdateInput = z.infer<typeof factUpdateInput>;
 export type FactVerifyByTagsInput = z.infer<typeof factVerifyByTagsInput>;
 export type FactRestoreInput = z.infer<typeof factRestoreInput>;
+export type FactHistoryInput = z.infer<typeof factHistoryInput>;
+export type FactRevertInput = z.infer<typeof factRevertInput>;
+export type FactLinkInput = z.infer<typeof factLinkInput>;
+export type FactMergeInput = z.infer<typeof factMergeInput>;
+export type FactDuplicatesInput = z.infer<typeof factDuplicatesInput>;
 export type FactSubmitOutput = z.infer<typeof factSubmitOutput>;
 export type FactSearchOutput = z.infer<typeof factSearchOutput>;
 export type FactRestoreOutput = z.infer<typeof factRestoreOutput>;
@@ -175,3 +431,10 @@ export type FactVerifyOutput = z.infer<typeof factVerifyOutput>;
 export type FactDeleteOutput = z.infer<typeof factDeleteOutput>;
 export type FactUpdateOutput = z.infer<typeof factUpdateOutput>;
 export type FactVerifyByTagsOutput = z.infer<typeof factVerifyByTagsOutput>;
+export type FactHistoryOutput = z.infer<typeof factHistoryOutput>;
+export type FactRevertOutput = z.infer<typeof factRevertOutput>;
+export type FactLinkOutput = z.infer<typeof factLinkOutput>;
+export type FactMergeOutput = z.infer<typeof factMergeOutput>;
+export type FactUnlinkOutput = z.infer<typeof factUnlinkOutput>;
+export type FactDuplicatesOutput = z.infer<typeof factDuplicatesOutput>;
+export type SimilarFact = z.infer<typeof similarFact>;
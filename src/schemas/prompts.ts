@@ -47,10 +47,9 @@ export const maintenanceReportInput = z.object({
 		.number()
 		.int()
 		.positive()
-		.default(168)
 		.optional()
 		.describe(
-			"Hours before content is considered stale (default: 168 = 7 days)",
+			"Hours before content is considered stale. Overrides per-category resource thresholds (default: category-based; 168 for skills and facts)",
 		),
 });
 
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { PLACEHOLDER_DESCRIPTION } from "../constants.js";
-import { freshnessCategory } from "./context.js";
+import { resourceCategory } from "./context.js";
 
 const resourceType = z.enum(["file", "url", "api", "command"]);
 
@@ -9,6 +9,22 @@ const retrievalMethod = z.object({
 	command: z.string().optional(),
 	url: z.string().optional(),
 	headers: z.record(z.string(), z.string()).optional(),
+	sensitiveHeaders: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Header names to treat as credentials in addition to Authorization, cookies and API key headers: encrypted at rest and masked (***) in output",
+		),
+});
+
+// Secrets replaced before storing (see redact_secrets)
+const redaction = z.object({
+	detector: z
+		.string()
+		.describe(
+			"Detector that matched: a built-in one (e.g. github_token, env_value, header) or a redaction_patterns name",
+		),
+	count: z.number().describe("Values replaced with [REDACTED:<detector>]"),
 });
 
 /**
@@ -16,10 +32,22 @@ const retrievalMethod = z.object({
  * - truncate: Simple truncation to max size
  * - remove_noise: Apply regex patterns to remove noise before storing
  * - html_to_md: Convert HTML content to markdown using turndown
+ * - chunk: Store in full, split into sections retrievable one at a time
+ * - summarize: Store a local extractive summary, with the original in sections
+ * - outline: Store headings and first paragraphs, or exported signatures, with
+ *   the original in sections
  * - ignore: Store as-is regardless of size (for dense/critical content)
  */
 const snapshotOverflowBehavior = z.object({
-	behavior: z.enum(["truncate", "remove_noise", "html_to_md", "ignore"]),
+	behavior: z.enum([
+		"truncate",
+		"remove_noise",
+		"html_to_md",
+		"chunk",
+		"summarize",
+		"outline",
+		"ignore",
+	]),
 	noisePatterns: z
 		.array(z.string())
 		.optional()
@@ -44,6 +72,14 @@ export const resourceAddInput = z.object({
 				tags: z.array(z.string().min(1)),
 				snapshot: z.string().optional(),
 				retrievalMethod: retrievalMethod.optional(),
+				maxAgeHours: z
+					.number()
+					.int()
+					.positive()
+					.optional()
+					.describe(
+						"Freshness threshold in hours for this resource, overriding the category inferred from its URI",
+					),
 				overflowBehavior: snapshotOverflowBehavior
 					.optional()
 					.describe(
@@ -54,13 +90,75 @@ export const resourceAddInput = z.object({
 		.min(1),
 });
 
+export const resourceGlobInput = z.object({
+	pattern: z
+		.string()
+		.min(1)
+		.describe(
+			"Glob relative to the project root, e.g. 'src/**/*.schema.ts' or 'infra/**/*.tf'. Supports *, **, ?, [abc] and {a,b}",
+		),
+	tags: z
+		.array(z.string().min(1))
+		.optional()
+		.describe(
+			"Tags for every matched file. Required the first time a pattern is registered; defaults to the remembered tags",
+		),
+	description: z
+		.string()
+		.min(1)
+		.optional()
+		.describe(
+			"Description template for each file. Placeholders: {path}, {name}, {dir}, {ext}",
+		),
+	exclude: z
+		.array(z.string().min(1))
+		.optional()
+		.describe("Globs for files or directories to leave out"),
+	maxAgeHours: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Freshness threshold in hours for every matched file"),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.default(200)
+		.optional()
+		.describe("Maximum number of files to register in one call"),
+	overflowBehavior: snapshotOverflowBehavior
+		.optional()
+		.describe(
+			"How to handle files whose snapshots exceed size limits. Without it, oversize files are reported and not registered",
+		),
+});
+
+export const resourceGlobSyncInput = z.object({
+	patterns: z
+		.array(z.string().min(1))
+		.optional()
+		.describe("Remembered patterns to re-expand. Omit to re-expand all"),
+});
+
 export const resourceSearchInput = z.object({
 	tags: z.array(z.string()).optional(),
 	type: resourceType.optional(),
 	uriPattern: z.string().optional(),
+	query: z
+		.string()
+		.optional()
+		.describe(
+			'Full-text search over snapshot content and descriptions. Terms are ANDed; supports "exact phrases", prefix* terms and OR',
+		),
 	limit: z.number().int().positive().default(100).optional(),
 	cursor: z.string().optional().describe("Opaque cursor for pagination"),
-	orderBy: z.enum(["recent", "oldest", "fresh"]).default("recent").optional(),
+	orderBy: z
+		.enum(["relevance", "recent", "oldest", "fresh"])
+		.optional()
+		.describe(
+			"Result ordering. Defaults to relevance when query is set, otherwise recent",
+		),
 });
 
 export const resourceGetInput = z
@@ -90,6 +188,13 @@ export const resourcesGetInput = z
 			.default(1)
 			.optional()
 			.describe("Hours before content is considered stale (default: 1)"),
+		summaryOnly: z
+			.boolean()
+			.default(false)
+			.optional()
+			.describe(
+				"Return the structured summary (OpenAPI endpoints, package.json scripts, Makefile targets, config keys) instead of the snapshot for resources that have one",
+			),
 	})
 	.refine(
 		(data) =>
@@ -99,6 +204,49 @@ export const resourcesGetInput = z
 		},
 	);
 
+export const resourceSectionInput = z
+	.object({
+		id: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Resource ID (required if uri not provided)"),
+		uri: z
+			.string()
+			.optional()
+			.describe("Resource URI (required if id not provided)"),
+		index: z
+			.number()
+			.int()
+			.min(0)
+			.optional()
+			.describe("Section index from the resource outline"),
+		title: z
+			.string()
+			.min(1)
+			.optional()
+			.describe(
+				"Section title from the outline. Matches exactly (case-insensitive) or as a substring",
+			),
+	})
+	.superRefine((data, ctx) => {
+		if (data.id === undefined && data.uri === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Either id or uri must be provided",
+				path: [],
+			});
+		}
+		if (data.index === undefined && data.title === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Either index or title must be provided",
+				path: [],
+			});
+		}
+	});
+
 export const resourceUpdateSnapshotInput = z
 	.object({
 		id: z
@@ -168,9 +316,18 @@ export const resourceUpdateInput = z
 			})
 			.optional()
 			.describe("Update the retrieval method for refreshing this resource"),
+		maxAgeHours: z
+			.number()
+			.int()
+			.positive()
+			.nullable()
+			.optional()
+			.describe(
+				"Freshness threshold in hours for this resource, overriding its inferred category. Pass null to clear",
+			),
 	})
 	.describe(
-		"Update resource metadata (description, tags, retrieval method) without modifying snapshot or timestamp fields.",
+		"Update resource metadata (description, tags, retrieval method, freshness threshold) without modifying snapshot or timestamp fields.",
 	)
 	.superRefine((data, ctx) => {
 		if (data.id === undefined && data.uri === undefined) {
@@ -184,12 +341,13 @@ export const resourceUpdateInput = z
 			data.description === undefined &&
 			data.tags === undefined &&
 			data.appendTags === undefined &&
-			data.retrievalMethod === undefined
+			data.retrievalMethod === undefined &&
+			data.maxAgeHours === undefined
 		) {
 			ctx.addIssue({
 				code: z.ZodIssueCode.custom,
 				message:
-					"At least one of description, tags, appendTags, or retrievalMethod must be provided",
+					"At least one of description, tags, appendTags, retrievalMethod, or maxAgeHours must be provided",
 				path: [],
 			});
 		}
@@ -240,27 +398,170 @@ export const resourceRestoreInput = z.object({
 		.describe("IDs of soft-deleted resources to restore"),
 });
 
+export const resourceDuplicatesInput = z.object({
+	merge: z
+		.boolean()
+		.default(false)
+		.optional()
+		.describe(
+			"Merge each group into its kept resource (tags and skill links move over, duplicates are deleted). Default: report only",
+		),
+});
+
+export const resourceHistoryInput = z
+	.object({
+		id: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Resource ID (required if uri not provided)"),
+		uri: z
+			.string()
+			.optional()
+			.describe("Resource URI (required if id not provided)"),
+		snapshotId: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe(
+				"ID of a historical version to return in full. Omit to only list versions",
+			),
+		limit: z
+			.number()
+			.int()
+			.positive()
+			.default(20)
+			.optional()
+			.describe("Maximum number of versions to list (newest first)"),
+	})
+	.superRefine((data, ctx) => {
+		if (data.id === undefined && data.uri === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Either id or uri must be provided",
+				path: [],
+			});
+		}
+	});
+
+export const resourceDiffInput = z
+	.object({
+		id: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Resource ID (required if uri not provided)"),
+		uri: z
+			.string()
+			.optional()
+			.describe("Resource URI (required if id not provided)"),
+		candidate: z
+			.string()
+			.optional()
+			.describe(
+				"New content to compare against. Compared to the stored snapshot unless fromSnapshotId is set",
+			),
+		fromSnapshotId: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe(
+				"Historical version to diff from (see get_resource_history). Defaults to the stored snapshot",
+			),
+		toSnapshotId: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe(
+				"Historical version to diff to. Defaults to the stored snapshot when no candidate is given",
+			),
+		context: z
+			.number()
+			.int()
+			.min(0)
+			.default(3)
+			.optional()
+			.describe("Unchanged lines of context around each hunk"),
+	})
+	.superRefine((data, ctx) => {
+		if (data.id === undefined && data.uri === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Either id or uri must be provided",
+				path: [],
+			});
+		}
+		if (data.candidate === undefined && data.fromSnapshotId === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Either candidate or fromSnapshotId must be provided",
+				path: [],
+			});
+		}
+		if (data.candidate !== undefined && data.toSnapshotId !== undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "candidate and toSnapshotId cannot be combined",
+				path: [],
+			});
+		}
+	});
+
 export const resourceRestoreOutput = z.object({
 	restored: z.number().describe("Number of resources restored"),
 });
 
 export const resourceUpdateSnapshotOutput = z.object({
 	success: z.literal(true),
+	redactions: z
+		.array(redaction)
+		.optional()
+		.describe("Secrets redacted from the snapshot before storing"),
 });
 
 export const resourceUpdateSnapshotsOutput = z.object({
 	updated: z.number().describe("Number of snapshots updated"),
+	redactions: z
+		.array(redaction.extend({ resourceId: z.number() }))
+		.optional()
+		.describe("Secrets redacted from the snapshots before storing"),
 });
 
 export const resourceUpdateOutput = z.object({
 	id: z.number(),
 	success: z.boolean(),
+	redactions: z
+		.array(redaction)
+		.optional()
+		.describe("Secrets redacted from the retrieval method before storing"),
 });
 
 export const resourceDeleteOutput = z.object({
 	deleted: z.number().describe("Number of resources deleted"),
 });
 
+const resourceRef = z.object({ id: z.number(), uri: z.string() });
+
+export const resourceDuplicatesOutput = z.object({
+	groups: z.array(
+		z.object({
+			uri: z.string().describe("Canonical URI shared by the group"),
+			keep: resourceRef.describe(
+				"Resource kept on merge: live before deleted, then most recently verified, then oldest",
+			),
+			duplicates: z.array(resourceRef),
+		}),
+	),
+	merged: z
+		.number()
+		.describe("Duplicate resources merged away (0 unless merge is set)"),
+});
+
 export const resourceAddOutput = z.object({
 	created: z.number(),
 	resources: z.array(
@@ -288,6 +589,9 @@ export const resourceAddOutput = z.object({
 								"truncate",
 								"remove_noise",
 								"html_to_md",
+								"chunk",
+								"summarize",
+								"outline",
 								"ignore",
 							]),
 							description: z.string(),
@@ -300,6 +604,51 @@ export const resourceAddOutput = z.object({
 		.describe(
 			"Resources that exceeded size limits and need resubmission with overflow handling",
 		),
+	redactions: z
+		.array(redaction.extend({ uri: z.string() }))
+		.optional()
+		.describe(
+			"Secrets redacted from snapshots and retrieval methods before storing",
+		),
+});
+
+export const resourceGlobOutput = z.object({
+	globId: z.number(),
+	pattern: z.string(),
+	matched: z.number().describe("Number of files matching the pattern"),
+	limited: z
+		.boolean()
+		.describe("True if more files matched than the limit allowed"),
+	created: z.array(z.object({ id: z.number(), uri: z.string() })),
+	skipped: z.array(
+		z.object({
+			uri: z.string(),
+			reason: z
+				.enum(["exists", "deleted", "binary", "unreadable"])
+				.describe(
+					"exists: already registered; deleted: soft-deleted resource with this URI",
+				),
+		}),
+	),
+	oversize: z
+		.array(
+			z.object({
+				uri: z.string(),
+				currentSizeKb: z.number(),
+				maxSizeKb: z.number(),
+			}),
+		)
+		.describe(
+			"Files not registered because their snapshot exceeds snapshot_max_size_kb. Re-run with overflowBehavior",
+		),
+	redactions: z
+		.array(redaction.extend({ uri: z.string() }))
+		.optional()
+		.describe("Secrets redacted from registered files before storing"),
+});
+
+export const resourceGlobSyncOutput = z.object({
+	globs: z.array(resourceGlobOutput),
 });
 
 export const resourceSearchOutput = z.object({
@@ -314,11 +663,36 @@ export const resourceSearchOutput = z.object({
 			snapshotPreview: z.string(),
 			lastVerifiedAt: z.string().nullable(),
 			categories: z
-				.array(freshnessCategory)
+				.array(resourceCategory)
 				.describe("All matched resource categories"),
 			freshnessThresholdHours: z
 				.number()
-				.describe("Minimum freshness threshold in hours across all categories"),
+				.describe(
+					"Freshness threshold in hours: the resource override, or the minimum across all categories",
+				),
+			snippet: z
+				.string()
+				.optional()
+				.describe("Matching excerpt with **highlighted** terms (query only)"),
+			matches: z
+				.array(
+					z.object({
+						line: z.number().describe("1-based line in the snapshot"),
+						text: z
+							.string()
+							.describe("The matching line with **highlighted** terms"),
+						section: z
+							.number()
+							.optional()
+							.describe(
+								"Section of a chunked snapshot holding the line, for get_resource_section",
+							),
+					}),
+				)
+				.optional()
+				.describe(
+					"First snapshot lines matching the query (query only; empty when only the description matched)",
+				),
 		}),
 	),
 	nextCursor: z
@@ -331,19 +705,59 @@ export const resourceSearchOutput = z.object({
 		.describe("Popular tags to explore when search returns empty results"),
 });
 
+const resourceOutlineEntry = z.object({
+	index: z.number().describe("Section index for get_resource_section"),
+	title: z
+		.string()
+		.describe("Heading path, top-level key, or line range of the section"),
+	startLine: z.number().nullable(),
+	endLine: z.number().nullable(),
+	sizeBytes: z.number(),
+});
+
+const resourceOutline = z
+	.array(resourceOutlineEntry)
+	.optional()
+	.describe(
+		"Sections of a chunked, summarised or outlined snapshot. When present, content holds only the first section (or the summary or outline); fetch others with get_resource_section",
+	);
+
+const structuredSummary = z
+	.object({
+		extractor: z
+			.string()
+			.describe(
+				"Extractor that produced the summary: openapi, package.json, toml, yaml, json or makefile",
+			),
+		data: z.record(z.string(), z.unknown()),
+	})
+	.describe(
+		"Structured summary of the snapshot, returned with summaryOnly in place of content (which is then empty)",
+	);
+
+const freshnessSource = z
+	.enum(["git", "age"])
+	.describe(
+		"How isFresh was decided: git (file unchanged since the commit it was snapshotted at) or age (snapshot age against the threshold)",
+	);
+
 export const resourceGetOutput = z.object({
 	uri: z.string(),
 	type: z.string(),
 	content: z.string(),
 	isFresh: z.boolean(),
+	freshnessSource: freshnessSource,
 	snapshotAgeSeconds: z.number(),
 	retrievalMethod: retrievalMethod.nullable(),
 	categories: z
-		.array(freshnessCategory)
+		.array(resourceCategory)
 		.describe("All matched resource categories"),
 	freshnessThresholdHours: z
 		.number()
-		.describe("Minimum freshness threshold in hours across all categories"),
+		.describe(
+			"Freshness threshold in hours: the resource override, or the minimum across all categories",
+		),
+	outline: resourceOutline,
 });
 
 export const resourcesGetOutput = z.object({
@@ -354,23 +768,109 @@ export const resourcesGetOutput = z.object({
 			type: z.string(),
 			content: z.string(),
 			isFresh: z.boolean(),
+			freshnessSource: freshnessSource,
 			snapshotAgeSeconds: z.number(),
 			retrievalMethod: retrievalMethod.nullable(),
 			categories: z
-				.array(freshnessCategory)
+				.array(resourceCategory)
 				.describe("All matched resource categories"),
 			freshnessThresholdHours: z
 				.number()
-				.describe("Minimum freshness threshold in hours across all categories"),
+				.describe(
+					"Freshness threshold in hours: the resource override, or the minimum across all categories",
+				),
+			outline: resourceOutline,
+			structuredSummary: structuredSummary.optional(),
 		}),
 	),
 	notFound: z.array(z.union([z.number(), z.string()])),
 });
 
+export const resourceSectionOutput = z.object({
+	resourceId: z.number(),
+	uri: z.string(),
+	index: z.number(),
+	title: z.string(),
+	content: z.string(),
+	contentHash: z.string(),
+	startLine: z
+		.number()
+		.nullable()
+		.describe("First line of the section in the snapshot (null for JSON)"),
+	endLine: z.number().nullable(),
+	sectionCount: z.number().describe("Total number of sections"),
+	snapshotHash: z
+		.string()
+		.nullable()
+		.describe("Hash of the full snapshot the section belongs to"),
+});
+
+const snapshotVersion = z.object({
+	id: z.number().describe("Snapshot version ID"),
+	snapshotHash: z.string(),
+	capturedAt: z
+		.string()
+		.nullable()
+		.describe("When this version was captured (verified)"),
+	supersededAt: z
+		.string()
+		.describe("When this version was replaced by a newer snapshot"),
+	sizeBytes: z.number(),
+});
+
+export const resourceHistoryOutput = z.object({
+	resourceId: z.number(),
+	uri: z.string(),
+	current: z
+		.object({
+			snapshotHash: z.string().nullable(),
+			lastVerifiedAt: z.string().nullable(),
+			sizeBytes: z.number(),
+		})
+		.describe("The snapshot currently stored on the resource"),
+	versions: z
+		.array(snapshotVersion)
+		.describe("Previous snapshot versions, newest first"),
+	snapshot: snapshotVersion
+		.extend({ content: z.string() })
+		.optional()
+		.describe("Full content of the requested snapshotId"),
+});
+
+const diffSide = z.object({
+	label: z
+		.string()
+		.describe('"current", "candidate" or "snapshot:<id>" for a version'),
+	snapshotHash: z.string().nullable(),
+});
+
+export const resourceDiffOutput = z.object({
+	resourceId: z.number(),
+	uri: z.string(),
+	from: diffSide,
+	to: diffSide,
+	identical: z.boolean(),
+	added: z.number().describe("Number of added lines"),
+	removed: z.number().describe("Number of removed lines"),
+	diff: z.string().describe("Unified diff, empty when identical"),
+	tooLarge: z
+		.boolean()
+		.optional()
+		.describe(
+			"True if the versions differ too much to diff; diff is empty and the counts are lines found in only one version",
+		),
+	linkedSkills: z
+		.array(z.string())
+		.describe("Skills referencing this resource that may need review"),
+});
+
 export type ResourceAddInput = z.infer<typeof resourceAddInput>;
+export type ResourceGlobInput = z.infer<typeof resourceGlobInput>;
+export type ResourceGlobSyncInput = z.infer<typeof resourceGlobSyncInput>;
 export type ResourceSearchInput = z.infer<typeof resourceSearchInput>;
 export type ResourceGetInput = z.infer<typeof resourceGetInput>;
 export type ResourcesGetInput = z.infer<typeof resourcesGetInput>;
+export type ResourceSectionInput = z.infer<typeof resourceSectionInput>;
 export type ResourceUpdateSnapshotInput = z.infer<
 	typeof resourceUpdateSnapshotInput
 >;
@@ -380,10 +880,17 @@ export type ResourceUpdateSnapshotsInput = z.infer<
 export type ResourceUpdateInput = z.infer<typeof resourceUpdateInput>;
 export type ResourceDeleteInput = z.infer<typeof resourceDeleteInput>;
 export type ResourceRestoreInput = z.infer<typeof resourceRestoreInput>;
+export type ResourceDuplicatesInput = z.infer<typeof resourceDuplicatesInput>;
+export type ResourceHistoryInput = z.infer<typeof resourceHistoryInput>;
+export type ResourceDiffInput = z.infer<typeof resourceDiffInput>;
 export type ResourceAddOutput = z.infer<typeof resourceAddOutput>;
+export type ResourceGlobOutput = z.infer<typeof resourceGlobOutput>;
+export type ResourceGlobSyncOutput = z.infer<typeof resourceGlobSyncOutput>;
 export type ResourceSearchOutput = z.infer<typeof resourceSearchOutput>;
 export type ResourceGetOutput = z.infer<typeof resourceGetOutput>;
 export type ResourcesGetOutput = z.infer<typeof resourcesGetOutput>;
+export type ResourceOutlineEntry = z.infer<typeof resourceOutlineEntry>;
+export type ResourceSectionOutput = z.infer<typeof resourceSectionOutput>;
 export type ResourceRestoreOutput = z.infer<typeof resourceRestoreOutput>;
 export type ResourceUpdateSnapshotOutput = z.infer<
 	typeof resourceUpdateSnapshotOutput
@@ -393,3 +900,6 @@ export type ResourceUpdateSnapshotsOutput = z.infer<
 >;
 export type ResourceUpdateOutput = z.infer<typeof resourceUpdateOutput>;
 export type ResourceDeleteOutput = z.infer<typeof resourceDeleteOutput>;
+export type ResourceDuplicatesOutput = z.infer<typeof resourceDuplicatesOutput>;
+export type ResourceHistoryOutput = z.infer<typeof resourceHistoryOutput>;
+export type ResourceDiffOutput = z.infer<typeof resourceDiffOutput>;
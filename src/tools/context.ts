@@ -3,11 +3,17 @@ import {
 	checkStale,
 	markResourcesRefreshed,
 } from "../db/operations/staleness.js";
+import { refreshResources } from "../db/operations/refresh.js";
+import { classifyResource } from "../db/operations/categories.js";
 import {
 	checkStaleInput,
 	checkStaleOutput,
+	classifyResourceInput,
+	classifyResourceOutput,
 	markRefreshedInput,
 	markRefreshedOutput,
+	refreshResourcesInput,
+	refreshResourcesOutput,
 } from "../schemas/context.js";
 import { registerDbTool } from "./utils.js";
 import type { McpServerCompat } from "../types.js";
@@ -38,4 +44,32 @@ export function registerContextTools(server: McpServerCompat, db: DB) {
 		},
 		handler: async (db, { ids }) => markResourcesRefreshed(db, ids),
 	});
+
+	registerDbTool(server, db, {
+		name: "refresh_resources",
+		title: "Refresh Resources",
+		description:
+			"Refresh resources server-side from their retrieval methods: read files from disk, run commands (with a timeout), or fetch URLs/APIs. " +
+			"Without ids or uris, refreshes resources that are stale for their freshness category. " +
+			"Snapshots go through the normal size limits; returns per-resource outcomes and skills to review when content changed.",
+		inputSchema: refreshResourcesInput,
+		outputSchema: refreshResourcesOutput,
+		annotations: {
+			openWorldHint: true,
+		},
+		handler: refreshResources,
+	});
+
+	registerDbTool(server, db, {
+		name: "classify_resource",
+		title: "Classify Resource",
+		description:
+			"Explain which freshness category rules (built-in and custom_categories) match a URI, which were excluded or shadowed by priority, and the resulting staleness threshold.",
+		inputSchema: classifyResourceInput,
+		outputSchema: classifyResourceOutput,
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: classifyResource,
+	});
 }
@@ -7,7 +7,11 @@ import {
 	updateFact,
 	verifyFactsByTags,
 	restoreFacts,
+	mergeFacts,
 } from "../db/operations/facts.js";
+import { getFactHistory, revertFact } from "../db/operations/fact-revisions.js";
+import { linkFacts, unlinkFacts } from "../db/operations/fact-relations.js";
+import { findDuplicateFacts } from "../db/operations/fact-duplicates.js";
 import {
 	factSubmitInput,
 	factSearchInput,
@@ -23,6 +27,17 @@ import {
 	factUpdateOutput,
 	factVerifyByTagsOutput,
 	factRestoreOutput,
+	factHistoryInput,
+	factHistoryOutput,
+	factRevertInput,
+	factRevertOutput,
+	factLinkInput,
+	factLinkOutput,
+	factUnlinkOutput,
+	factDuplicatesInput,
+	factDuplicatesOutput,
+	factMergeInput,
+	factMergeOutput,
 } from "../schemas/facts.js";
 import { registerDbTool } from "./utils.js";
 import type { McpServerCompat } from "../types.js";
@@ -32,7 +47,7 @@ export function registerFactTools(server: McpServerCompat, db: DB) {
 		name: "submit_facts",
 		title: "Submit Facts",
 		description:
-			"Submit one or more facts to the knowledge base. Facts with matching content will be updated. Call this immediately when learning something new - do not wait for user prompting.",
+			"Submit one or more facts to the knowledge base. Facts with matching content will be updated; near-duplicates of stored facts are reported in possibleDuplicates, and mode decides whether they are inserted, skipped or merged. Call this immediately when learning something new - do not wait for user prompting.",
 		inputSchema: factSubmitInput,
 		outputSchema: factSubmitOutput,
 		annotations: {
@@ -45,7 +60,7 @@ export function registerFactTools(server: McpServerCompat, db: DB) {
 		name: "search_facts",
 		title: "Search Facts",
 		description:
-			"Search for facts by tags, content query, verification status, or source type. Use this on every prompt to validate context before responding - not just at session start.",
+			"Search for facts by tags, full-text content query (ranked, with highlighted snippets), verification status, or source type. Use this on every prompt to validate context before responding - not just at session start.",
 		inputSchema: factSearchInput,
 		outputSchema: factSearchOutput,
 		annotations: {
@@ -127,4 +142,87 @@ export function registerFactTools(server: McpServerCompat, db: DB) {
 		},
 		handler: async (db, { ids }) => restoreFacts(db, ids),
 	});
+
+	registerDbTool(server, db, {
+		name: "get_fact_history",
+		title: "Get Fact History",
+		description:
+			"List the revisions of a fact, newest first. Each revision records which tool or worker task made the change, " +
+			"the values the fact had before it, and the tags it added or removed. Find the fact by ID or exact content match.",
+		inputSchema: factHistoryInput,
+		outputSchema: factHistoryOutput,
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: getFactHistory,
+	});
+
+	registerDbTool(server, db, {
+		name: "revert_fact",
+		title: "Revert Fact",
+		description:
+			"Restore a fact to the values it had before a revision from get_fact_history, including its tags and deletion state. " +
+			"The revert is recorded as a new revision, so it can be undone the same way.",
+		inputSchema: factRevertInput,
+		outputSchema: factRevertOutput,
+		annotations: {
+			idempotentHint: true,
+		},
+		handler: revertFact,
+	});
+
+	registerDbTool(server, db, {
+		name: "link_facts",
+		title: "Link Facts",
+		description:
+			"Record how facts relate: supersedes (factId replaces relatedFactId, which is then hidden from search and context), " +
+			"contradicts (reported by check_stale until one is superseded or deleted), refines, or depends_on.",
+		inputSchema: factLinkInput,
+		outputSchema: factLinkOutput,
+		annotations: {
+			idempotentHint: true,
+		},
+		handler: linkFacts,
+	});
+
+	registerDbTool(server, db, {
+		name: "unlink_facts",
+		title: "Unlink Facts",
+		description:
+			"Remove relations between facts, e.g. to restore a superseded fact or dismiss a contradiction that turned out not to be one.",
+		inputSchema: factLinkInput,
+		outputSchema: factUnlinkOutput,
+		annotations: {
+			idempotentHint: true,
+		},
+		handler: unlinkFacts,
+	});
+
+	registerDbTool(server, db, {
+		name: "find_duplicate_facts",
+		title: "Find Duplicate Facts",
+		description:
+			"Scan stored facts for clusters that restate each other in different words (e.g. 'The API uses port 3000' and 'API server listens on port 3000'). " +
+			"Report only; resolve clusters by superseding, updating or deleting facts.",
+		inputSchema: factDuplicatesInput,
+		outputSchema: factDuplicatesOutput,
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: findDuplicateFacts,
+	});
+
+	registerDbTool(server, db, {
+		name: "merge_facts",
+		title: "Merge Facts",
+		description:
+			"Merge redundant facts into one. The first ID survives with the given content and gains every tag, skill link and " +
+			"retrieval count of the others, and is verified if any of them was. The others are kept as superseded by the survivor.",
+		inputSchema: factMergeInput,
+		outputSchema: factMergeOutput,
+		annotations: {
+			destructiveHint: true,
+		},
+		handler: mergeFacts,
+	});
 }
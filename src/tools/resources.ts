@@ -4,31 +4,51 @@ import {
 	searchResources,
 	getResource,
 	getResources,
+	getResourceSection,
 	updateResourceSnapshot,
 	updateResourceSnapshots,
 	updateResource,
 	deleteResources,
 	restoreResources,
+	findDuplicateResources,
+	getResourceHistory,
+	diffResourceSnapshot,
 } from "../db/operations/resources.js";
+import {
+	addResourceGlob,
+	syncResourceGlobs,
+} from "../db/operations/resource-globs.js";
 import {
 	resourceAddInput,
+	resourceGlobInput,
+	resourceGlobSyncInput,
 	resourceSearchInput,
 	resourceGetInput,
 	resourcesGetInput,
+	resourceSectionInput,
 	resourceUpdateSnapshotInput,
 	resourceUpdateSnapshotsInput,
 	resourceUpdateInput,
 	resourceDeleteInput,
 	resourceRestoreInput,
+	resourceDuplicatesInput,
 	resourceAddOutput,
+	resourceGlobOutput,
+	resourceGlobSyncOutput,
 	resourceSearchOutput,
 	resourceGetOutput,
 	resourcesGetOutput,
+	resourceSectionOutput,
 	resourceUpdateSnapshotOutput,
 	resourceUpdateSnapshotsOutput,
 	resourceUpdateOutput,
 	resourceDeleteOutput,
 	resourceRestoreOutput,
+	resourceDuplicatesOutput,
+	resourceHistoryInput,
+	resourceHistoryOutput,
+	resourceDiffInput,
+	resourceDiffOutput,
 } from "../schemas/resources.js";
 import { registerDbTool } from "./utils.js";
 import { z } from "zod";
@@ -55,11 +75,39 @@ export function registerResourceTools(server: McpServerCompat, db: DB) {
 		handler: addResources,
 	});
 
+	registerDbTool(server, db, {
+		name: "add_resource_glob",
+		title: "Add Resource Glob",
+		description:
+			"Register every file matching a glob (e.g. 'src/**/*.schema.ts', 'infra/**/*.tf') under the project root as a resource, with shared tags and a description template. " +
+			"Each file is snapshotted from disk. Reports created, skipped and oversize files. " +
+			"The glob is remembered: call again with just the pattern, or use sync_resource_globs, to pick up newly added files.",
+		inputSchema: resourceGlobInput,
+		outputSchema: resourceGlobOutput,
+		annotations: {
+			idempotentHint: true,
+		},
+		handler: addResourceGlob,
+	});
+
+	registerDbTool(server, db, {
+		name: "sync_resource_globs",
+		title: "Sync Resource Globs",
+		description:
+			"Re-expand remembered resource globs and register files added since they last ran. Existing resources are left untouched.",
+		inputSchema: resourceGlobSyncInput,
+		outputSchema: resourceGlobSyncOutput,
+		annotations: {
+			idempotentHint: true,
+		},
+		handler: syncResourceGlobs,
+	});
+
 	registerDbTool(server, db, {
 		name: "search_resources",
 		title: "Search Resources",
 		description:
-			"Search for resources by tags, type, or URI pattern. " +
+			"Search for resources by tags, type, URI pattern, or full-text query over cached snapshots (ranked, with snippets and matching line numbers). " +
 			"Check for existing resources before registering new ones to avoid duplicates.",
 		inputSchema: resourceSearchInput,
 		outputSchema: resourceSearchOutput,
@@ -107,7 +155,7 @@ export function registerResourceTools(server: McpServerCompat, db: DB) {
 		name: "get_resources",
 		title: "Get Resources",
 		description:
-			"Retrieve multiple resources by IDs or URIs in a single call. Returns found resources and lists any not found.",
+			"Retrieve multiple resources by IDs or URIs in a single call. Returns found resources and lists any not found. Set summaryOnly to get a structured summary (API endpoints, scripts, targets, keys) instead of the full body of large specs and config files.",
 		inputSchema: resourcesGetInput,
 		outputSchema: resourcesGetOutput,
 		annotations: {
@@ -116,6 +164,20 @@ export function registerResourceTools(server: McpServerCompat, db: DB) {
 		handler: getResources,
 	});
 
+	registerDbTool(server, db, {
+		name: "get_resource_section",
+		title: "Get Resource Section",
+		description:
+			"Get one section of a chunked resource snapshot, or of the full original behind a summarised or outlined one, by index or title. " +
+			"Large snapshots are split by markdown heading, top-level JSON/YAML key, or line range; get_resource(s) returns their outline so you can fetch only the sections you need.",
+		inputSchema: resourceSectionInput,
+		outputSchema: resourceSectionOutput,
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: getResourceSection,
+	});
+
 	registerDbTool(server, db, {
 		name: "update_resource_snapshot",
 		title: "Update Resource Snapshot",
@@ -127,11 +189,29 @@ export function registerResourceTools(server: McpServerCompat, db: DB) {
 			idempotentHint: true,
 		},
 		handler: async (db, params) => {
-			await updateResourceSnapshot(db, params);
-			return { success: true as const };
+			const { redactions } = await updateResourceSnapshot(db, params);
+			return {
+				success: true as const,
+				...(redactions.length > 0 && { redactions }),
+			};
 		},
 	});
 
+	registerDbTool(server, db, {
+		name: "diff_resource_snapshot",
+		title: "Diff Resource Snapshot",
+		description:
+			"Show what changed in a resource as a line-based unified diff with added/removed counts. " +
+			"Compare the stored snapshot against freshly fetched content (candidate), or two versions from get_resource_history. " +
+			"Use after refreshing to decide whether linked skills need updating.",
+		inputSchema: resourceDiffInput,
+		outputSchema: resourceDiffOutput,
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: diffResourceSnapshot,
+	});
+
 	registerDbTool(server, db, {
 		name: "update_resource_snapshots",
 		title: "Update Resource Snapshots",
@@ -146,6 +226,19 @@ export function registerResourceTools(server: McpServerCompat, db: DB) {
 			updateResourceSnapshots(db, snapshots),
 	});
 
+	registerDbTool(server, db, {
+		name: "get_resource_history",
+		title: "Get Resource History",
+		description:
+			"List previous snapshot versions of a resource (hash and timestamps, newest first). Pass snapshotId to fetch the full content of an older version.",
+		inputSchema: resourceHistoryInput,
+		outputSchema: resourceHistoryOutput,
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: getResourceHistory,
+	});
+
 	registerDbTool(server, db, {
 		name: "update_resource",
 		title: "Update Resource",
@@ -184,4 +277,17 @@ export function registerResourceTools(server: McpServerCompat, db: DB) {
 		},
 		handler: async (db, { ids }) => restoreResources(db, ids),
 	});
+
+	registerDbTool(server, db, {
+		name: "find_duplicate_resources",
+		title: "Find Duplicate Resources",
+		description:
+			"Find resources whose URIs point at the same location once canonicalized (./src/a.ts vs src/a.ts, trailing slashes, utm_* parameters). Set merge to fold each group into one resource, moving tags and skill links.",
+		inputSchema: resourceDuplicatesInput,
+		outputSchema: resourceDuplicatesOutput,
+		annotations: {
+			destructiveHint: true,
+		},
+		handler: findDuplicateResources,
+	});
 }
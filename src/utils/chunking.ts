@@ -0,0 +1,272 @@
+/**
+ * Split large snapshots into addressable sections: markdown by heading,
+ * JSON and YAML by top-level key, and anything else by line range.
+ */
+
+export type ChunkFormat = "markdown" | "json" | "yaml" | "lines";
+
+export interface SnapshotChunk {
+	title: string;
+	content: string;
+	/** 1-based line range in the original snapshot, null for re-serialized JSON */
+	startLine: number | null;
+	endLine: number | null;
+}
+
+interface Section {
+	title: string;
+	lines: string[];
+	startLine: number;
+}
+
+/** Markdown headings at or above this level start a new section */
+const MAX_HEADING_LEVEL = 3;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const YAML_KEY_PATTERN = /^(?!---|\.\.\.)(["']?)([^\s#:"'-][^:]*?)\1\s*:(\s|$)/;
+
+function byteLength(text: string): number {
+	return Buffer.byteLength(text, "utf8");
+}
+
+/**
+ * Work out how a snapshot should be chunked from its URI extension,
+ * falling back to its content.
+ */
+export function detectChunkFormat(content: string, uri?: string): ChunkFormat {
+	const path = (uri ?? "").toLowerCase().replace(/[?#].*$/, "");
+
+	if (/\.(md|mdx|markdown)$/.test(path)) return "markdown";
+	if (/\.ya?ml$/.test(path)) return "yaml";
+
+	const trimmed = content.trimStart();
+	if (path.endsWith(".json") || /^[[{]/.test(trimmed)) {
+		try {
+			const parsed: unknown = JSON.parse(content);
+			if (parsed !== null && typeof parsed === "object") return "json";
+		} catch {
+			// Not JSON, keep looking
+		}
+	}
+
+	const headings = content
+		.split(/\r?\n/)
+		.filter((line) => HEADING_PATTERN.test(line)).length;
+	if (headings >= 2) return "markdown";
+
+	return "lines";
+}
+
+/**
+ * Split lines into consecutive chunks no larger than maxBytes. A single line
+ * larger than maxBytes becomes its own (oversized) chunk.
+ */
+function splitLines(
+	lines: string[],
+	firstLine: number,
+	maxBytes: number,
+	titleFor: (start: number, end: number, part: number) => string,
+): SnapshotChunk[] {
+	const chunks: SnapshotChunk[] = [];
+	let current: string[] = [];
+	let currentBytes = 0;
+	let start = firstLine;
+
+	const flush = () => {
+		if (current.length === 0) return;
+		const end = start + current.length - 1;
+		chunks.push({
+			title: titleFor(start, end, chunks.length + 1),
+			content: current.join("\n"),
+			startLine: start,
+			endLine: end,
+		});
+		start = end + 1;
+		current = [];
+		currentBytes = 0;
+	};
+
+	for (const line of lines) {
+		const lineBytes = byteLength(line) + 1;
+		if (current.length > 0 && currentBytes + lineBytes > maxBytes) {
+			flush();
+		}
+		current.push(line);
+		currentBytes += lineBytes;
+	}
+	flush();
+
+	return chunks;
+}
+
+/**
+ * Turn sections into chunks, splitting any section over maxBytes into parts
+ */
+function sectionsToChunks(
+	sections: Section[],
+	maxBytes: number,
+): SnapshotChunk[] {
+	return sections.flatMap((section) => {
+		const content = section.lines.join("\n");
+		if (byteLength(content) <= maxBytes) {
+			return [
+				{
+					title: section.title,
+					content,
+					startLine: section.startLine,
+					endLine: section.startLine + section.lines.length - 1,
+				},
+			];
+		}
+		return splitLines(
+			section.lines,
+			section.startLine,
+			maxBytes,
+			(_start, _end, part) => `${section.title} (part ${part})`,
+		);
+	});
+}
+
+function isBlank(section: Section): boolean {
+	return section.lines.every((line) => line.trim() === "");
+}
+
+function chunkMarkdown(lines: string[], maxBytes: number): SnapshotChunk[] {
+	const sections: Section[] = [];
+	const headingPath: string[] = [];
+	let current: Section = { title: "Preamble", lines: [], startLine: 1 };
+	let inFence = false;
+
+	lines.forEach((line, i) => {
+		if (FENCE_PATTERN.test(line)) {
+			inFence = !inFence;
+		}
+		const heading = inFence ? null : HEADING_PATTERN.exec(line);
+		const level = heading?.[1]?.length ?? 0;
+
+		if (heading && level <= MAX_HEADING_LEVEL) {
+			sections.push(current);
+			headingPath.length = level - 1;
+			headingPath[level - 1] = heading[2] ?? "";
+			current = {
+				title: headingPath.filter(Boolean).join(" > "),
+				lines: [],
+				startLine: i + 1,
+			};
+		}
+		current.lines.push(line);
+	});
+	sections.push(current);
+
+	return sectionsToChunks(
+		sections.filter((section) => !isBlank(section)),
+		maxBytes,
+	);
+}
+
+function chunkYaml(lines: string[], maxBytes: number): SnapshotChunk[] {
+	const sections: Section[] = [];
+	let current: Section = { title: "Preamble", lines: [], startLine: 1 };
+
+	lines.forEach((line, i) => {
+		const key = YAML_KEY_PATTERN.exec(line);
+		if (key) {
+			sections.push(current);
+			current = { title: key[2] ?? "", lines: [], startLine: i + 1 };
+		}
+		current.lines.push(line);
+	});
+	sections.push(current);
+
+	const keyed = sections.filter((section) => !isBlank(section));
+	if (keyed.every((section) => section.title === "Preamble")) {
+		return chunkLines(lines, maxBytes);
+	}
+	return sectionsToChunks(keyed, maxBytes);
+}
+
+function chunkJson(content: string, maxBytes: number): SnapshotChunk[] {
+	const parsed = JSON.parse(content) as unknown;
+
+	const toChunks = (title: string, value: unknown): SnapshotChunk[] => {
+		const serialized = JSON.stringify(value, null, 2);
+		if (byteLength(serialized) <= maxBytes) {
+			return [{ title, content: serialized, startLine: null, endLine: null }];
+		}
+		return splitLines(
+			serialized.split("\n"),
+			1,
+			maxBytes,
+			(_start, _end, part) => `${title} (part ${part})`,
+		).map((chunk) => ({ ...chunk, startLine: null, endLine: null }));
+	};
+
+	if (Array.isArray(parsed)) {
+		// Group consecutive array elements up to the size limit
+		const chunks: SnapshotChunk[] = [];
+		let group: unknown[] = [];
+		let groupStart = 0;
+		// "[\n" and "\n]" around the serialized group
+		let groupBytes = 4;
+		const flush = (end: number) => {
+			if (group.length === 0) return;
+			chunks.push(...toChunks(`[${groupStart}-${end}]`, group));
+			group = [];
+			groupBytes = 4;
+			groupStart = end + 1;
+		};
+		parsed.forEach((item, i) => {
+			// Each element is indented one level and followed by ",\n"
+			const serialized = JSON.stringify(item, null, 2) ?? "null";
+			const itemBytes = byteLength(serialized.replace(/\n/g, "\n  ")) + 4;
+			if (group.length > 0 && groupBytes + itemBytes > maxBytes) {
+				flush(i - 1);
+			}
+			group.push(item);
+			groupBytes += itemBytes;
+		});
+		flush(parsed.length - 1);
+		return chunks;
+	}
+
+	return Object.entries(parsed as Record<string, unknown>).flatMap(
+		([key, value]) => toChunks(key, { [key]: value }),
+	);
+}
+
+function chunkLines(lines: string[], maxBytes: number): SnapshotChunk[] {
+	return splitLines(
+		lines,
+		1,
+		maxBytes,
+		(start, end) => `lines ${start}-${end}`,
+	);
+}
+
+/**
+ * Split a snapshot into sections of at most maxBytes (a single line or JSON
+ * value larger than the limit is split by line). Blank sections are dropped.
+ */
+export function chunkSnapshot(
+	content: string,
+	options: { maxBytes: number; uri?: string; format?: ChunkFormat },
+): SnapshotChunk[] {
+	const format = options.format ?? detectChunkFormat(content, options.uri);
+	const lines = content.split(/\r?\n/);
+
+	switch (format) {
+		case "markdown":
+			return chunkMarkdown(lines, options.maxBytes);
+		case "yaml":
+			return chunkYaml(lines, options.maxBytes);
+		case "json":
+			try {
+				return chunkJson(content, options.maxBytes);
+			} catch {
+				return chunkLines(lines, options.maxBytes);
+			}
+		case "lines":
+			return chunkLines(lines, options.maxBytes);
+	}
+}
@@ -0,0 +1,226 @@
+/**
+ * Line-based diff utilities (Myers' O(ND) algorithm) producing unified diffs.
+ */
+
+export type DiffOp = {
+	type: "equal" | "add" | "remove";
+	line: string;
+};
+
+export interface UnifiedDiffResult {
+	diff: string;
+	added: number;
+	removed: number;
+	/** The texts differ too much to diff; counts are lines found on one side only */
+	tooLarge?: boolean;
+}
+
+/** Changed lines (after the common prefix and suffix) beyond which texts are not diffed */
+const MAX_DIFF_LINES = 50_000;
+
+/** Edits beyond which the search stops; bounds memory at roughly its square */
+const MAX_EDITS = 2_000;
+
+function splitLines(text: string): string[] {
+	if (text === "") return [];
+	const lines = text.split(/\r?\n/);
+	// A trailing newline does not introduce an extra empty line
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines;
+}
+
+/**
+ * Compute the shortest edit script between two line arrays. Returns null if
+ * more than `maxLines` lines differ between the common prefix and suffix, or
+ * the script needs more than `maxEdits` edits.
+ */
+export function diffLines(
+	a: string[],
+	b: string[],
+	limits: { maxLines?: number; maxEdits?: number } = {},
+): DiffOp[] | null {
+	// Strip common prefix/suffix to keep the search space small
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+	const n = midA.length;
+	const m = midB.length;
+	const max = n + m;
+	if (max > (limits.maxLines ?? max)) return null;
+	const maxEdits = limits.maxEdits ?? max;
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	// Step d only reads diagonals -d..d, so that window is all it keeps
+	const trace: Int32Array[] = [];
+	const at = (arr: Int32Array, k: number) => arr[offset + k] ?? 0;
+	const atStep = (d: number, k: number) => trace[d]?.[d + k] ?? 0;
+	// Whether the path to diagonal k comes from k+1 (insertion) rather than k-1
+	const fromAbove = (
+		get: (k: number) => number,
+		k: number,
+		d: number,
+	): boolean => k === -d || (k !== d && get(k - 1) < get(k + 1));
+
+	let found = max === 0;
+	for (let d = 0; d <= max && !found; d++) {
+		if (d > maxEdits) return null;
+		trace.push(v.slice(offset - d, offset + d + 1));
+		for (let k = -d; k <= d; k += 2) {
+			let x = fromAbove((i) => at(v, i), k, d)
+				? at(v, k + 1)
+				: at(v, k - 1) + 1;
+			let y = x - k;
+			while (x < n && y < m && midA[x] === midB[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+	}
+
+	// Backtrack through the trace to recover the edit script
+	const middle: DiffOp[] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+		const get = (i: number) => atStep(d, i);
+		const k = x - y;
+		const prevK = fromAbove(get, k, d) ? k + 1 : k - 1;
+		const prevX = d === 0 ? 0 : get(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			middle.push({ type: "equal", line: midA[x - 1] ?? "" });
+			x--;
+			y--;
+		}
+		if (d === 0) break;
+		if (x === prevX) {
+			middle.push({ type: "add", line: midB[y - 1] ?? "" });
+		} else {
+			middle.push({ type: "remove", line: midA[x - 1] ?? "" });
+		}
+		x = prevX;
+		y = prevY;
+	}
+	middle.reverse();
+
+	return [
+		...a.slice(0, start).map((line) => ({ type: "equal" as const, line })),
+		...middle,
+		...a.slice(endA).map((line) => ({ type: "equal" as const, line })),
+	];
+}
+
+/**
+ * Lines of each text missing from the other, counted with multiplicity
+ */
+function countUnmatched(a: string[], b: string[]): UnifiedDiffResult {
+	const counts = new Map<string, number>();
+	for (const line of a) counts.set(line, (counts.get(line) ?? 0) + 1);
+	let added = 0;
+	for (const line of b) {
+		const count = counts.get(line) ?? 0;
+		if (count > 0) counts.set(line, count - 1);
+		else added++;
+	}
+	let removed = 0;
+	for (const count of counts.values()) removed += count;
+	return { diff: "", added, removed, tooLarge: true };
+}
+
+/**
+ * Produce a unified diff (with `context` lines around each hunk) between two
+ * texts. Texts with too many changed lines, or needing too many edits, are
+ * not diffed: the result is marked `tooLarge` with approximate counts.
+ */
+export function unifiedDiff(
+	before: string,
+	after: string,
+	options: { fromLabel?: string; toLabel?: string; context?: number } = {},
+): UnifiedDiffResult {
+	const context = options.context ?? 3;
+	const a = splitLines(before);
+	const b = splitLines(after);
+	const ops = diffLines(a, b, {
+		maxLines: MAX_DIFF_LINES,
+		maxEdits: MAX_EDITS,
+	});
+	if (!ops) {
+		return countUnmatched(a, b);
+	}
+
+	const added = ops.filter((op) => op.type === "add").length;
+	const removed = ops.filter((op) => op.type === "remove").length;
+	if (added === 0 && removed === 0) {
+		return { diff: "", added, removed };
+	}
+
+	const output = [
+		`--- ${options.fromLabel ?? "before"}`,
+		`+++ ${options.toLabel ?? "after"}`,
+	];
+
+	// Line numbers (1-based) of each op in the old and new text
+	const positions: Array<{ oldLine: number; newLine: number }> = [];
+	let oldLine = 1;
+	let newLine = 1;
+	for (const op of ops) {
+		positions.push({ oldLine, newLine });
+		if (op.type !== "add") oldLine++;
+		if (op.type !== "remove") newLine++;
+	}
+
+	let i = 0;
+	while (i < ops.length) {
+		if (ops[i]?.type === "equal") {
+			i++;
+			continue;
+		}
+
+		// Extend the hunk while changes are within 2*context lines of each other
+		const hunkStart = Math.max(0, i - context);
+		let hunkEnd = i;
+		let lastChange = i;
+		while (hunkEnd < ops.length) {
+			if (ops[hunkEnd]?.type !== "equal") {
+				lastChange = hunkEnd;
+			} else if (hunkEnd - lastChange > context * 2) {
+				break;
+			}
+			hunkEnd++;
+		}
+		hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+		const hunk = ops.slice(hunkStart, hunkEnd);
+		const oldCount = hunk.filter((op) => op.type !== "add").length;
+		const newCount = hunk.filter((op) => op.type !== "remove").length;
+		const first = positions[hunkStart] ?? { oldLine: 1, newLine: 1 };
+		const oldStart = oldCount === 0 ? first.oldLine - 1 : first.oldLine;
+		const newStart = newCount === 0 ? first.newLine - 1 : first.newLine;
+
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		for (const op of hunk) {
+			const prefix = op.type === "add" ? "+" : op.type === "remove" ? "-" : " ";
+			output.push(`${prefix}${op.line}`);
+		}
+
+		i = hunkEnd;
+	}
+
+	return { diff: output.join("\n"), added, removed };
+}
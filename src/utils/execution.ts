@@ -0,0 +1,533 @@
+import { spawn } from "node:child_process";
+import { basename, isAbsolute, relative, resolve } from "node:path";
+
+/**
+ * Guardrails for commands Factsets runs itself (command-type resource
+ * refreshes). A command is parsed into its simple commands so every
+ * executable can be checked against the allowlist and denylist, and every
+ * directory it changes into, writes to or names by path must stay inside the
+ * project root.
+ */
+
+export interface ExecutionPolicy {
+	/** Executables that may run; empty allows anything not denied */
+	allowlist: string[];
+	/** Executables that never run, even if allowlisted */
+	denylist: string[];
+	/** Environment variables passed through to commands */
+	envAllowlist: string[];
+	/** Wall-clock limit per command */
+	timeoutMs: number;
+	/** Output beyond this aborts the command */
+	maxOutputKb: number;
+	/** Report what would run instead of running it */
+	dryRun: boolean;
+}
+
+export interface CommandResult {
+	stdout: string;
+	stderr: string;
+	exitCode: number | null;
+	durationMs: number;
+	/** Why the command did not complete normally */
+	error?: string;
+}
+
+/** Commands that run another command given as their arguments */
+const WRAPPERS = new Set([
+	"builtin",
+	"env",
+	"command",
+	"exec",
+	"nohup",
+	"nice",
+	"time",
+	"timeout",
+	"xargs",
+]);
+
+/** Commands that run a command line given as a string */
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+
+/** Shell builtins that need no allowlisting */
+const BUILTINS = new Set(["cd", "exit", "true", "false"]);
+
+/** find actions that run commands on every match */
+const FIND_EXEC = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+const ASSIGNMENT = /^[A-Za-z_]\w*=/;
+
+/** Expansions and whitespace that would make the executable run differ from its name */
+const NOT_LITERAL = /[\s$*?[\]{}~]/;
+
+/** Parameter expansion, which the shell resolves after the check */
+const EXPANSION = /\$[\w{@*#?!$-]/;
+
+/** git options that set configuration, which can name commands to run */
+const GIT_CONFIG_OPTIONS = new Set(["-c", "--config-env", "--exec-path"]);
+
+/** git options that point git at another directory */
+const GIT_PATH_OPTIONS = new Set(["-C", "--git-dir", "--work-tree"]);
+
+/** Other git options that take their value as the next argument */
+const GIT_VALUE_OPTIONS = new Set(["--namespace", "--super-prefix"]);
+
+/** git subcommands that run programs given on the command line */
+const GIT_RUNS_PROGRAMS = new Set([
+	"bisect",
+	"difftool",
+	"filter-branch",
+	"mergetool",
+	"submodule",
+]);
+
+/** git subcommand options that name a program to run */
+const GIT_PROGRAM_OPTIONS = new Set([
+	"--exec",
+	"--extcmd",
+	"--upload-pack",
+	"--receive-pack",
+]);
+
+interface SimpleCommand {
+	words: string[];
+	/** Redirection targets (files read or written) */
+	redirects: string[];
+}
+
+/**
+ * Split a shell command line into simple commands with their redirection
+ * targets. Throws on syntax that could hide what runs (command substitution,
+ * subshells, process substitution).
+ */
+export function parseShellCommand(command: string): SimpleCommand[] {
+	const commands: SimpleCommand[] = [];
+	let words: string[] = [];
+	let redirects: string[] = [];
+	let word: string | null = null;
+	let quote: "'" | '"' | null = null;
+	let redirectNext = false;
+
+	const endWord = () => {
+		if (word === null) return;
+		if (redirectNext) {
+			redirects.push(word);
+			redirectNext = false;
+		} else {
+			words.push(word);
+		}
+		word = null;
+	};
+	const endCommand = () => {
+		endWord();
+		if (words.length > 0 || redirects.length > 0) {
+			commands.push({ words, redirects });
+		}
+		words = [];
+		redirects = [];
+	};
+
+	for (let i = 0; i < command.length; i++) {
+		const char = command[i] ?? "";
+		const next = command[i + 1];
+
+		if (quote === "'") {
+			if (char === "'") quote = null;
+			else word += char;
+			continue;
+		}
+
+		if (char === "\\") {
+			word = (word ?? "") + (next ?? "");
+			i++;
+			continue;
+		}
+		if (char === "`" || (char === "$" && next === "(")) {
+			throw new Error("Command substitution is not allowed");
+		}
+		// $'\x2f' and $"..." produce text the check never sees
+		if (char === "$" && quote === null && (next === "'" || next === '"')) {
+			throw new Error("ANSI-C quoting is not allowed");
+		}
+
+		if (quote === '"') {
+			if (char === '"') quote = null;
+			else word += char;
+			continue;
+		}
+
+		if (char === "'" || char === '"') {
+			quote = char;
+			word = word ?? "";
+		} else if (char === "(" || char === ")") {
+			throw new Error("Subshells are not allowed");
+		} else if (char === ">" || char === "<") {
+			if (next === "(") {
+				throw new Error("Process substitution is not allowed");
+			}
+			// A file descriptor number belongs to the redirection, not the command
+			if (word !== null && /^\d+$/.test(word)) word = null;
+			endWord();
+			if (next === ">" || next === "&") i++;
+			// >&2 and friends duplicate a descriptor rather than naming a file
+			if (command[i] === "&") {
+				while (/[\d-]/.test(command[i + 1] ?? "")) i++;
+				continue;
+			}
+			redirectNext = true;
+		} else if (char === ";" || char === "|" || char === "&" || char === "\n") {
+			endCommand();
+		} else if (char === " " || char === "\t") {
+			endWord();
+		} else {
+			word = (word ?? "") + char;
+		}
+	}
+
+	if (quote) {
+		throw new Error("Unterminated quote");
+	}
+	endCommand();
+
+	return commands;
+}
+
+/**
+ * Executables a simple command runs, with the index of the word naming each:
+ * the command itself, and the command a wrapper such as `env` or `xargs` runs
+ */
+function commandExecutables(
+	words: string[],
+): Array<{ name: string; index: number }> {
+	const executables: Array<{ name: string; index: number }> = [];
+	let i = 0;
+	while (i < words.length && ASSIGNMENT.test(words[i] ?? "")) i++;
+
+	while (i < words.length) {
+		const executable = basename(words[i] ?? "");
+		executables.push({ name: executable, index: i });
+		if (!WRAPPERS.has(executable)) break;
+
+		i++;
+		while (
+			i < words.length &&
+			((words[i] ?? "").startsWith("-") || ASSIGNMENT.test(words[i] ?? ""))
+		) {
+			i++;
+		}
+		// timeout takes a duration before the command
+		if (executable === "timeout") i++;
+	}
+
+	return executables;
+}
+
+function isInside(root: string, path: string): boolean {
+	const rel = relative(root, path);
+	return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+/**
+ * The command line a shell is asked to run with `-c`, or null if it would
+ * run a script file or read commands from its input instead
+ */
+function shellScript(args: string[]): string | null {
+	const flag = args.findIndex((arg) => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg));
+	if (flag === -1) return null;
+	return args.slice(flag + 1).find((arg) => !arg.startsWith("-")) ?? null;
+}
+
+/**
+ * Paths named by arguments (`/etc/passwd`, `../other`, `--file=/etc/x`)
+ * that resolve outside the project root
+ */
+function outsidePath(args: string[], dir: string, root: string): string | null {
+	for (const arg of args) {
+		const path = arg.startsWith("-") ? arg.slice(arg.indexOf("=") + 1) : arg;
+		if (arg.startsWith("-") && !arg.includes("=")) continue;
+		if (path === "/dev/null") continue;
+		if (path.startsWith("~")) return arg;
+		if (
+			(path.startsWith("/") || path.split("/").includes("..")) &&
+			!isInside(root, resolve(dir, path))
+		) {
+			return arg;
+		}
+	}
+	return null;
+}
+
+/**
+ * git options and subcommands that run other programs or leave the project
+ * root (`git -c alias.x='!cmd' x`, `git -C /elsewhere`, `git rebase --exec`)
+ */
+function checkGit(args: string[], dir: string, root: string): string | null {
+	let i = 0;
+	for (; i < args.length; i++) {
+		const arg = args[i] ?? "";
+		if (!arg.startsWith("-")) break;
+		const eq = arg.indexOf("=");
+		const flag = eq === -1 ? arg : arg.slice(0, eq);
+		if (GIT_CONFIG_OPTIONS.has(flag)) {
+			return `git ${flag} is not allowed`;
+		}
+		if (GIT_PATH_OPTIONS.has(flag)) {
+			const path = eq === -1 ? (args[++i] ?? "") : arg.slice(eq + 1);
+			if (path.startsWith("~") || !isInside(root, resolve(dir, path))) {
+				return `Path outside the project root: ${path}`;
+			}
+		} else if (GIT_VALUE_OPTIONS.has(flag) && eq === -1) {
+			i++;
+		}
+	}
+
+	const subcommand = args[i];
+	if (subcommand === undefined) return null;
+	if (GIT_RUNS_PROGRAMS.has(subcommand)) {
+		return `git ${subcommand} is not allowed`;
+	}
+	for (const arg of args.slice(i + 1)) {
+		const flag = arg.split("=")[0] ?? "";
+		if (
+			GIT_PROGRAM_OPTIONS.has(flag) ||
+			(subcommand === "rebase" && arg === "-x")
+		) {
+			return `git ${subcommand} ${flag} is not allowed`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Check one simple command's words, including the commands it starts
+ * through wrappers, shells, `eval` and `find -exec`
+ */
+function checkWords(
+	words: string[],
+	dir: string,
+	policy: ExecutionPolicy,
+	root: string,
+): string | null {
+	const executables = commandExecutables(words);
+	for (const { name, index } of executables) {
+		const word = words[index] ?? "";
+		if (NOT_LITERAL.test(word)) {
+			return `Executable must be named literally: ${word}`;
+		}
+		if (policy.denylist.includes(name)) {
+			return `Executable is denied: ${name}`;
+		}
+		if (
+			policy.allowlist.length > 0 &&
+			!policy.allowlist.includes(name) &&
+			!BUILTINS.has(name)
+		) {
+			return `Executable is not in the allowlist: ${name}`;
+		}
+	}
+
+	const expanded = words.find((word) => EXPANSION.test(word));
+	if (expanded) {
+		return `Arguments must not use shell expansion: ${expanded}`;
+	}
+
+	const last = executables.at(-1);
+	if (!last || last.name === "cd") return null;
+	const args = words.slice(last.index + 1);
+
+	const outside = outsidePath(args, dir, root);
+	if (outside) {
+		return `Path outside the project root: ${outside}`;
+	}
+
+	if (last.name === "git") {
+		const blocked = checkGit(args, dir, root);
+		if (blocked) return blocked;
+		const gitEnv = words
+			.slice(0, last.index)
+			.find((word) => word.startsWith("GIT_") && ASSIGNMENT.test(word));
+		if (gitEnv) {
+			return `git configuration through the environment is not allowed: ${gitEnv}`;
+		}
+	}
+	if (SHELLS.has(last.name)) {
+		const script = shellScript(args);
+		if (script === null) {
+			return `${last.name} may only run a command given with -c`;
+		}
+		return checkCommand(script, dir, policy, root);
+	}
+	if (last.name === "eval") {
+		return checkCommand(args.join(" "), dir, policy, root);
+	}
+	if (last.name === "source" || last.name === ".") {
+		return `Sourcing scripts is not allowed: ${args[0] ?? ""}`.trim();
+	}
+	if (last.name === "find") {
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i] ?? "";
+			if (arg === "-delete") {
+				return "find -delete is not allowed";
+			}
+			if (FIND_EXEC.has(arg)) {
+				const end = args.findIndex((a, j) => j > i && (a === ";" || a === "+"));
+				const blocked = checkWords(
+					args.slice(i + 1, end === -1 ? undefined : end),
+					dir,
+					policy,
+					root,
+				);
+				if (blocked) return blocked;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check a command against the policy before it runs in cwd.
+ * Returns why it is blocked, or null if it may run.
+ */
+export function checkCommand(
+	command: string,
+	cwd: string,
+	policy: ExecutionPolicy,
+	root: string,
+): string | null {
+	if (!isInside(root, cwd)) {
+		return `Working directory is outside the project root: ${cwd}`;
+	}
+
+	let commands: SimpleCommand[];
+	try {
+		commands = parseShellCommand(command);
+	} catch (err) {
+		return err instanceof Error ? err.message : String(err);
+	}
+	if (commands.length === 0) {
+		return "Command is empty";
+	}
+
+	let dir = cwd;
+	for (const { words, redirects } of commands) {
+		const blocked = checkWords(words, dir, policy, root);
+		if (blocked) return blocked;
+
+		if (words[0] === "cd") {
+			const target = words[1];
+			if (
+				!target ||
+				target.startsWith("~") ||
+				target.includes("$") ||
+				target === "-"
+			) {
+				return "cd must name a directory inside the project root";
+			}
+			dir = resolve(dir, target);
+			if (!isInside(root, dir)) {
+				return `cd leaves the project root: ${target}`;
+			}
+		}
+
+		for (const target of redirects) {
+			if (target === "/dev/null") continue;
+			if (
+				target.startsWith("~") ||
+				target.includes("$") ||
+				!isInside(root, resolve(dir, target))
+			) {
+				return `Redirection outside the project root: ${target}`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Environment for a command: only the allowlisted variables
+ */
+export function policyEnv(policy: ExecutionPolicy): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const name of policy.envAllowlist) {
+		const value = process.env[name];
+		if (value !== undefined) env[name] = value;
+	}
+	return env;
+}
+
+/**
+ * Run a command through the shell under the policy's environment, time and
+ * output limits. Never rejects: failures are reported in `error`.
+ */
+export function runCommand(
+	command: string,
+	cwd: string,
+	policy: ExecutionPolicy,
+	timeoutMs: number = policy.timeoutMs,
+): Promise<CommandResult> {
+	const started = Date.now();
+	const maxBytes = policy.maxOutputKb * 1024;
+
+	return new Promise((resolvePromise) => {
+		const child = spawn(command, {
+			cwd,
+			env: policyEnv(policy),
+			shell: true,
+			stdio: ["ignore", "pipe", "pipe"],
+			// Own process group, so a limit stops everything the shell started
+			detached: true,
+		});
+
+		const stdout: Buffer[] = [];
+		const stderr: Buffer[] = [];
+		let size = 0;
+		let error: string | undefined;
+
+		const stop = (reason: string) => {
+			error ??= reason;
+			try {
+				if (child.pid) process.kill(-child.pid, "SIGKILL");
+			} catch {
+				child.kill("SIGKILL");
+			}
+		};
+		const timer = setTimeout(
+			() => stop(`Command timed out after ${timeoutMs}ms`),
+			timeoutMs,
+		);
+		const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > maxBytes) {
+				stop(`Command output exceeded ${policy.maxOutputKb} KB`);
+				return;
+			}
+			chunks.push(chunk);
+		};
+		child.stdout.on("data", collect(stdout));
+		child.stderr.on("data", collect(stderr));
+
+		const finish = (exitCode: number | null) => {
+			clearTimeout(timer);
+			resolvePromise({
+				stdout: Buffer.concat(stdout).toString("utf-8"),
+				stderr: Buffer.concat(stderr).toString("utf-8"),
+				exitCode,
+				durationMs: Date.now() - started,
+				...(error && { error }),
+			});
+		};
+		child.on("error", (err) => {
+			error ??= err.message;
+			finish(null);
+		});
+		child.on("close", (code) => {
+			if (!error && code !== 0) {
+				const detail = Buffer.concat(stderr).toString("utf-8").trim();
+				error = `Command exited with code ${code ?? "unknown"}${detail ? `: ${detail.slice(0, 500)}` : ""}`;
+			}
+			finish(code);
+		});
+	});
+}
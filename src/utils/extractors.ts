@@ -0,0 +1,296 @@
+/**
+ * Structured summaries of snapshots: endpoint lists for OpenAPI specs, scripts
+ * for package.json, targets for Makefiles, keys and tables for JSON, YAML and
+ * TOML. Extractors are registered per resource category and tried in order
+ * for each category a resource falls into; the first one that recognises the
+ * snapshot wins.
+ *
+ * YAML and TOML are read line by line rather than fully parsed, which is
+ * enough to recover their key structure.
+ */
+
+export interface StructuredSummary {
+	/** Extractor that produced the summary */
+	extractor: string;
+	data: Record<string, unknown>;
+}
+
+export interface Extractor {
+	name: string;
+	/** Summary fields, or null if the snapshot is not something it handles */
+	extract(content: string, uri: string): Record<string, unknown> | null;
+}
+
+type Tree = { [key: string]: string | Tree };
+
+const HTTP_METHODS = [
+	"get",
+	"put",
+	"post",
+	"delete",
+	"options",
+	"head",
+	"patch",
+	"trace",
+];
+
+const YAML_LINE =
+	/^(\s*)(?!-\s|---|\.\.\.)(["']?)([^\s#"'][^:]*?)\2\s*:(?:\s+(.*?))?\s*$/;
+const TOML_TABLE = /^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/;
+const TOML_KEY = /^\s*(["']?)([A-Za-z0-9_.-]+)\1\s*=\s*(.*?)\s*$/;
+const MAKE_RULE = /^([^\s:#=][^:#=]*?)\s*::?(?!=)/;
+
+function isTree(value: unknown): value is Tree {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fileName(uri: string): string {
+	return (
+		uri
+			.toLowerCase()
+			.replace(/[?#].*$/, "")
+			.split("/")
+			.pop() ?? ""
+	);
+}
+
+function unquote(value: string): string {
+	const trimmed = value.replace(/\s+#.*$/, "").trim();
+	const quoted = /^(["'])(.*)\1$/.exec(trimmed);
+	return quoted ? (quoted[2] ?? "") : trimmed;
+}
+
+function parseJson(content: string): unknown {
+	try {
+		return JSON.parse(content);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Nested keys of a YAML document with scalar values as strings. List items
+ * and block scalar bodies are skipped.
+ */
+export function parseYamlTree(content: string): Tree {
+	const root: Tree = {};
+	const stack: Array<{ indent: number; node: Tree }> = [
+		{ indent: -1, node: root },
+	];
+	let blockIndent: number | null = null;
+
+	for (const line of content.split(/\r?\n/)) {
+		if (!line.trim() || line.trimStart().startsWith("#")) continue;
+		const indent = line.length - line.trimStart().length;
+		if (blockIndent !== null) {
+			if (indent > blockIndent) continue;
+			blockIndent = null;
+		}
+
+		const match = YAML_LINE.exec(line);
+		if (!match) continue;
+		const key = match[3] ?? "";
+		const value = match[4] ?? "";
+
+		while ((stack.at(-1)?.indent ?? -1) >= indent) stack.pop();
+		const parent = stack.at(-1)?.node ?? root;
+
+		if (value === "" || value.startsWith("#")) {
+			const node: Tree = {};
+			parent[key] = node;
+			stack.push({ indent, node });
+		} else {
+			parent[key] = unquote(value);
+			if (/^[|>][-+0-9]*$/.test(value)) blockIndent = indent;
+		}
+	}
+
+	return root;
+}
+
+function openApiSummary(doc: unknown): Record<string, unknown> | null {
+	if (!isTree(doc) || !isTree(doc.paths)) return null;
+	const specVersion = doc.openapi ?? doc.swagger;
+	if (typeof specVersion !== "string" && typeof specVersion !== "number") {
+		return null;
+	}
+
+	const info = isTree(doc.info) ? doc.info : {};
+	const endpoints: string[] = [];
+	for (const [path, item] of Object.entries(doc.paths)) {
+		if (!isTree(item)) continue;
+		for (const method of HTTP_METHODS) {
+			const operation = item[method];
+			if (operation === undefined) continue;
+			const label = isTree(operation)
+				? (operation.summary ?? operation.operationId)
+				: undefined;
+			endpoints.push(
+				`${method.toUpperCase()} ${path}${typeof label === "string" ? `: ${label}` : ""}`,
+			);
+		}
+	}
+
+	return {
+		specVersion: String(specVersion),
+		...(typeof info.title === "string" && { title: info.title }),
+		...(typeof info.version === "string" && { version: info.version }),
+		endpoints,
+	};
+}
+
+const openApiExtractor: Extractor = {
+	name: "openapi",
+	extract: (content) =>
+		openApiSummary(parseJson(content) ?? parseYamlTree(content)),
+};
+
+const packageJsonExtractor: Extractor = {
+	name: "package.json",
+	extract(content, uri) {
+		if (fileName(uri) !== "package.json") return null;
+		const pkg = parseJson(content);
+		if (!isTree(pkg)) return null;
+
+		const { name, version, scripts, dependencies, devDependencies } = pkg;
+		return {
+			...(typeof name === "string" && { name }),
+			...(typeof version === "string" && { version }),
+			keys: Object.keys(pkg),
+			scripts: isTree(scripts) ? scripts : {},
+			...(isTree(dependencies) && { dependencies: Object.keys(dependencies) }),
+			...(isTree(devDependencies) && {
+				devDependencies: Object.keys(devDependencies),
+			}),
+		};
+	},
+};
+
+const jsonExtractor: Extractor = {
+	name: "json",
+	extract(content) {
+		const doc = parseJson(content);
+		if (Array.isArray(doc)) return { items: doc.length };
+		return isTree(doc) ? { keys: Object.keys(doc) } : null;
+	},
+};
+
+const yamlExtractor: Extractor = {
+	name: "yaml",
+	extract(content, uri) {
+		if (!/\.ya?ml$/.test(fileName(uri))) return null;
+		const doc = parseYamlTree(content);
+		const keys = Object.keys(doc);
+		if (keys.length === 0) return null;
+		// Second-level keys name the jobs, services and so on of most configs
+		const sections = Object.fromEntries(
+			Object.entries(doc)
+				.filter((entry): entry is [string, Tree] => isTree(entry[1]))
+				.map(([key, value]) => [key, Object.keys(value)]),
+		);
+		return { keys, sections };
+	},
+};
+
+const tomlExtractor: Extractor = {
+	name: "toml",
+	extract(content, uri) {
+		if (!fileName(uri).endsWith(".toml")) return null;
+
+		const keys: string[] = [];
+		const tables: string[] = [];
+		const values = new Map<string, Record<string, string>>();
+		let table = "";
+		for (const line of content.split(/\r?\n/)) {
+			const header = TOML_TABLE.exec(line);
+			if (header) {
+				table = header[1] ?? "";
+				if (!tables.includes(table)) tables.push(table);
+				continue;
+			}
+			const entry = TOML_KEY.exec(line);
+			if (!entry) continue;
+			const key = entry[2] ?? "";
+			if (!table) keys.push(key);
+			const tableValues = values.get(table) ?? {};
+			tableValues[key] = unquote(entry[3] ?? "");
+			values.set(table, tableValues);
+		}
+		if (keys.length === 0 && tables.length === 0) return null;
+
+		// Cargo.toml, pyproject.toml and Poetry name the package in a table
+		const pkg = ["package", "project", "tool.poetry"]
+			.map((name) => values.get(name))
+			.find((v) => v?.name);
+		const scripts =
+			values.get("project.scripts") ?? values.get("tool.poetry.scripts");
+		return {
+			...(pkg?.name && { name: pkg.name }),
+			...(pkg?.version && { version: pkg.version }),
+			keys,
+			tables,
+			...(scripts && { scripts }),
+		};
+	},
+};
+
+const makefileExtractor: Extractor = {
+	name: "makefile",
+	extract(content, uri) {
+		if (!/^(gnu)?makefile$|\.mk$/.test(fileName(uri))) return null;
+
+		const targets: string[] = [];
+		for (const line of content.split(/\r?\n/)) {
+			if (/^\s/.test(line)) continue;
+			const rule = MAKE_RULE.exec(line);
+			if (!rule) continue;
+			for (const target of (rule[1] ?? "").split(/\s+/)) {
+				// Skip special targets (.PHONY), pattern rules and variables
+				if (/^\.|[%$]/.test(target) || targets.includes(target)) continue;
+				targets.push(target);
+			}
+		}
+		return targets.length > 0 ? { targets } : null;
+	},
+};
+
+const EXTRACTORS = new Map<string, Extractor[]>([
+	["apiSchemas", [openApiExtractor]],
+	[
+		"configFiles",
+		[packageJsonExtractor, tomlExtractor, yamlExtractor, jsonExtractor],
+	],
+	["infrastructure", [yamlExtractor]],
+	["scripts", [makefileExtractor]],
+]);
+
+/**
+ * Register an extractor for a resource category (built-in or custom). It is
+ * tried after the extractors already registered for that category.
+ */
+export function registerExtractor(category: string, extractor: Extractor) {
+	EXTRACTORS.set(category, [...(EXTRACTORS.get(category) ?? []), extractor]);
+}
+
+/**
+ * Summarise a snapshot with the first extractor, across the resource's
+ * categories in order, that recognises it. Returns null if none does.
+ */
+export function extractStructuredSummary(
+	content: string,
+	uri: string,
+	categories: string[],
+): StructuredSummary | null {
+	for (const category of categories) {
+		for (const extractor of EXTRACTORS.get(category) ?? []) {
+			let data: Record<string, unknown> | null;
+			try {
+				data = extractor.extract(content, uri);
+			} catch {
+				data = null;
+			}
+			if (data) return { extractor: extractor.name, data };
+		}
+	}
+	return null;
+}
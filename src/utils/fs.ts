@@ -1,5 +1,6 @@
 import { readFile, writeFile, stat } from "node:fs/promises";
 import { resolve, relative, isAbsolute } from "node:path";
+import { fileURLToPath } from "node:url";
 
 /**
  * Get the project root directory (process working directory)
@@ -30,6 +31,20 @@ export function toAbsolutePath(filePath: string): string {
 	return resolve(getProjectRoot(), filePath);
 }
 
+/**
+ * Resolve a file location (a file:// URL or a path relative to the project
+ * root) to an absolute path. Returns null for malformed file URLs.
+ */
+export function resolveFileLocation(location: string): string | null {
+	try {
+		return location.startsWith("file://")
+			? fileURLToPath(location)
+			: toAbsolutePath(location);
+	} catch {
+		return null;
+	}
+}
+
 /**
  * Check if a file exists
  */
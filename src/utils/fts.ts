@@ -0,0 +1,60 @@
+/**
+ * Helpers for building SQLite FTS5 MATCH expressions from free-form search text.
+ *
+ * User input is never passed to MATCH verbatim: every term is quoted so that
+ * punctuation and FTS5 keywords cannot produce syntax errors. Only the
+ * following syntax is preserved:
+ *
+ * - `"exact phrase"` - phrase query
+ * - `term*` - prefix query
+ * - `OR` (uppercase, between terms) - alternative terms
+ *
+ * All remaining terms are implicitly ANDed together.
+ */
+
+const TOKEN_PATTERN = /"([^"]*)"(\*?)|(\S+)/g;
+
+function quote(term: string): string {
+	return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Convert a free-form query into a safe FTS5 MATCH expression.
+ * Returns null if the query contains no searchable terms.
+ */
+export function toFtsQuery(query: string): string | null {
+	const parts: string[] = [];
+
+	for (const match of query.matchAll(TOKEN_PATTERN)) {
+		const [, phrase, phrasePrefix, word] = match;
+
+		if (phrase !== undefined) {
+			const trimmed = phrase.trim();
+			if (trimmed) {
+				parts.push(`${quote(trimmed)}${phrasePrefix}`);
+			}
+			continue;
+		}
+
+		if (!word) continue;
+
+		if (word === "OR") {
+			// Only keep OR when it joins two terms
+			if (parts.length > 0 && parts[parts.length - 1] !== "OR") {
+				parts.push("OR");
+			}
+			continue;
+		}
+
+		const isPrefix = word.length > 1 && word.endsWith("*");
+		const term = isPrefix ? word.replace(/\*+$/, "") : word;
+		if (!term) continue;
+		parts.push(`${quote(term)}${isPrefix ? "*" : ""}`);
+	}
+
+	if (parts[parts.length - 1] === "OR") {
+		parts.pop();
+	}
+
+	return parts.length > 0 ? parts.join(" ") : null;
+}
@@ -0,0 +1,133 @@
+import { execFile } from "node:child_process";
+import { isAbsolute, relative, resolve } from "node:path";
+
+/**
+ * Thin wrappers around the local `git` binary for judging whether checked-in
+ * files changed. Every helper degrades to "unknown" (empty results or null)
+ * when git is missing or the paths are not in a repository.
+ */
+
+/** Upper bound for a single git invocation */
+const GIT_TIMEOUT_MS = 5000;
+
+function runGit(args: string[], cwd: string): Promise<string> {
+	return new Promise((resolvePromise, reject) => {
+		execFile(
+			"git",
+			["--literal-pathspecs", ...args],
+			{ cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+			(error, stdout) => {
+				if (error) {
+					reject(error);
+					return;
+				}
+				resolvePromise(stdout);
+			},
+		);
+	});
+}
+
+function splitNul(output: string): string[] {
+	return output.split("\0").filter(Boolean);
+}
+
+/**
+ * Root of the git work tree containing cwd, or null outside a repository
+ */
+export async function getGitRoot(cwd: string): Promise<string | null> {
+	try {
+		return (await runGit(["rev-parse", "--show-toplevel"], cwd)).trim();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Map absolute paths to repository-relative paths, dropping paths outside it
+ */
+function toRepoPaths(root: string, paths: string[]): Map<string, string> {
+	const repoPaths = new Map<string, string>();
+	for (const path of paths) {
+		const repoPath = relative(root, resolve(path)).replace(/\\/g, "/");
+		if (repoPath && !repoPath.startsWith("..") && !isAbsolute(repoPath)) {
+			repoPaths.set(path, repoPath);
+		}
+	}
+	return repoPaths;
+}
+
+/**
+ * Find the commit each file's current content belongs to: HEAD for files that
+ * are tracked and have no staged or unstaged changes. Other paths are omitted.
+ */
+export async function getCleanFileCommits(
+	paths: string[],
+	cwd: string,
+): Promise<Map<string, string>> {
+	const commits = new Map<string, string>();
+	const root = paths.length > 0 ? await getGitRoot(cwd) : null;
+	if (!root) return commits;
+
+	const repoPaths = toRepoPaths(root, paths);
+	if (repoPaths.size === 0) return commits;
+
+	try {
+		const pathspecs = [...repoPaths.values()];
+		const head = (await runGit(["rev-parse", "--verify", "HEAD"], root)).trim();
+		const tracked = new Set(
+			splitNul(await runGit(["ls-files", "-z", "--", ...pathspecs], root)),
+		);
+		const dirty = new Set(
+			splitNul(
+				await runGit(
+					["diff", "--name-only", "-z", "HEAD", "--", ...pathspecs],
+					root,
+				),
+			),
+		);
+
+		for (const [path, repoPath] of repoPaths) {
+			if (tracked.has(repoPath) && !dirty.has(repoPath)) {
+				commits.set(path, head);
+			}
+		}
+	} catch {
+		// No commits yet, or git failed: nothing can be pinned
+	}
+
+	return commits;
+}
+
+/**
+ * Check which files differ between a commit and the working tree (committed
+ * since, staged or unstaged, including deletions). Paths outside the
+ * repository are left out of the result. Returns null when git cannot
+ * answer, for example because the commit no longer exists.
+ */
+export async function getFilesChangedSince(
+	commit: string,
+	paths: string[],
+	cwd: string,
+): Promise<Map<string, boolean> | null> {
+	const root = await getGitRoot(cwd);
+	if (!root) return null;
+
+	const repoPaths = toRepoPaths(root, paths);
+	if (repoPaths.size === 0) return new Map();
+
+	try {
+		const changed = new Set(
+			splitNul(
+				await runGit(
+					["diff", "--name-only", "-z", commit, "--", ...repoPaths.values()],
+					root,
+				),
+			),
+		);
+		return new Map(
+			[...repoPaths].map(([path, repoPath]) => [path, changed.has(repoPath)]),
+		);
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,194 @@
+import type { Dirent } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Minimal glob support for registering file trees:
+ *
+ * - `*` - any characters within a path segment
+ * - `**` - any number of path segments (including none)
+ * - `?` - a single character within a path segment
+ * - `[abc]`, `[!abc]` - character classes
+ * - `{a,b}` - alternatives
+ *
+ * Paths are matched relative to a root using forward slashes.
+ */
+
+/** Directories skipped while walking unless the pattern names them */
+const IGNORED_DIRECTORIES = ["node_modules", ".git"];
+
+const GLOB_CHARS = /[*?[{]/;
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.+^$()|\\/]/g, "\\$&");
+}
+
+function globSource(pattern: string): string {
+	let source = "";
+	let i = 0;
+
+	while (i < pattern.length) {
+		const char = pattern[i] ?? "";
+
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				i += 2;
+				if (pattern[i] === "/") {
+					i++;
+					source += "(?:.*/)?";
+				} else {
+					source += ".*";
+				}
+			} else {
+				i++;
+				source += "[^/]*";
+			}
+			continue;
+		}
+
+		if (char === "?") {
+			source += "[^/]";
+			i++;
+			continue;
+		}
+
+		if (char === "[") {
+			const close = pattern.indexOf("]", i + 2);
+			if (close !== -1) {
+				const body = pattern.slice(i + 1, close).replace(/\\/g, "\\\\");
+				source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+				i = close + 1;
+				continue;
+			}
+		}
+
+		if (char === "{") {
+			const close = pattern.indexOf("}", i + 1);
+			if (close !== -1) {
+				const options = pattern.slice(i + 1, close).split(",");
+				source += `(?:${options.map(globSource).join("|")})`;
+				i = close + 1;
+				continue;
+			}
+		}
+
+		source += escapeRegExp(char);
+		i++;
+	}
+
+	return source;
+}
+
+/**
+ * Compile a glob pattern into a regular expression matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+	return new RegExp(`^${globSource(pattern)}$`);
+}
+
+/**
+ * Normalize a glob to a root-relative pattern with forward slashes.
+ * Throws if the pattern is absolute or escapes the root.
+ */
+export function normalizeGlob(pattern: string): string {
+	const normalized = pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+	if (
+		normalized === "" ||
+		normalized.startsWith("/") ||
+		/^[a-zA-Z]:/.test(normalized) ||
+		normalized.split("/").includes("..")
+	) {
+		throw new Error(
+			`Glob pattern must be relative to the project root: ${pattern}`,
+		);
+	}
+	return normalized;
+}
+
+/**
+ * Expand a glob against a root directory. Returns matching file paths
+ * relative to the root, sorted, up to `limit` entries. Matches `skip`
+ * accepts are returned separately and do not count towards the limit.
+ */
+export async function expandGlob(
+	pattern: string,
+	options: {
+		root: string;
+		exclude?: string[];
+		limit?: number;
+		skip?: (path: string) => boolean;
+	},
+): Promise<{ files: string[]; skipped: string[]; limited: boolean }> {
+	const normalized = normalizeGlob(pattern);
+	const matcher = globToRegExp(normalized);
+	const excludes = (options.exclude ?? []).map((p) =>
+		globToRegExp(normalizeGlob(p)),
+	);
+	const limit = options.limit ?? Number.POSITIVE_INFINITY;
+
+	// A plain path needs no walk
+	const segments = normalized.split("/");
+	const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+	if (firstGlob === -1) {
+		const isFile = await stat(join(options.root, normalized)).then(
+			(s) => s.isFile(),
+			() => false,
+		);
+		if (isFile && options.skip?.(normalized)) {
+			return { files: [], skipped: [normalized], limited: false };
+		}
+		return {
+			files: isFile && limit > 0 ? [normalized] : [],
+			skipped: [],
+			limited: false,
+		};
+	}
+
+	// Walk from the longest prefix without glob characters
+	const base = segments.slice(0, firstGlob).join("/");
+
+	const named = new Set(segments);
+	const files: string[] = [];
+	const skipped: string[] = [];
+	let limited = false;
+
+	const walk = async (dir: string): Promise<void> => {
+		let entries: Dirent[];
+		try {
+			entries = await readdir(join(options.root, dir), { withFileTypes: true });
+		} catch {
+			return;
+		}
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+
+		for (const entry of entries) {
+			if (limited) return;
+			const path = dir ? `${dir}/${entry.name}` : entry.name;
+			if (excludes.some((exclude) => exclude.test(path))) continue;
+
+			if (entry.isDirectory()) {
+				if (
+					IGNORED_DIRECTORIES.includes(entry.name) &&
+					!named.has(entry.name)
+				) {
+					continue;
+				}
+				await walk(path);
+			} else if (entry.isFile() && matcher.test(path)) {
+				if (options.skip?.(path)) {
+					skipped.push(path);
+					continue;
+				}
+				if (files.length >= limit) {
+					limited = true;
+					return;
+				}
+				files.push(path);
+			}
+		}
+	};
+
+	await walk(base);
+
+	return { files, skipped, limited };
+}
@@ -0,0 +1,96 @@
+import { chunkSnapshot, detectChunkFormat } from "./chunking.js";
+
+/**
+ * Structural outlines for snapshots over the size limit. The snapshot is
+ * split into the same sections chunking stores, and each section keeps only
+ * its skeleton: for markdown the heading and first paragraph, for source code
+ * the exported symbol signatures. Whatever a section loses is replaced by a
+ * marker naming the section, so the agent can fetch it with
+ * get_resource_section.
+ */
+
+export interface SnapshotOutline {
+	text: string;
+	/** Indexes of the sections that were cut, matching the stored sections */
+	elided: number[];
+}
+
+const HEADING = /^#{1,6}\s+\S/;
+const FENCE = /^\s*(```|~~~)/;
+/** Symbols visible outside their module in TS/JS, Python, Rust and Go */
+const EXPORTED =
+	/^export\s+(?!\*|\{)|^module\.exports\b|^(async\s+)?def\s+[A-Za-z]|^class\s+[A-Za-z]|^pub(\(crate\))?\s+(async\s+)?(fn|struct|enum|trait|type|mod|const)\s|^func\s+(\([^)]*\)\s*)?[A-Z]|^type\s+[A-Z]\w*\s+(struct|interface)\b/;
+
+/** Heading plus the first paragraph under it, skipping code blocks */
+function markdownSkeleton(lines: string[]): string[] {
+	const kept: string[] = [];
+	let i = 0;
+	if (HEADING.test(lines[0] ?? "")) {
+		kept.push(lines[0] ?? "");
+		i = 1;
+	}
+	let fenced = false;
+	for (; i < lines.length; i++) {
+		const line = lines[i] ?? "";
+		if (FENCE.test(line)) {
+			fenced = !fenced;
+			continue;
+		}
+		if (fenced) continue;
+		if (line.trim()) {
+			kept.push(line);
+		} else if (kept.length > (HEADING.test(kept[0] ?? "") ? 1 : 0)) {
+			break;
+		}
+	}
+	return kept;
+}
+
+function codeSkeleton(lines: string[]): string[] {
+	return lines.filter((line) => EXPORTED.test(line)).map((l) => l.trimEnd());
+}
+
+/**
+ * Whether a snapshot is an HTML document rather than markdown or code that
+ * happens to contain tags
+ */
+export function looksLikeHtml(content: string): boolean {
+	return /^\s*(<!doctype\s+html|<html[\s>]|<head[\s>]|<body[\s>])/i.test(
+		content,
+	);
+}
+
+/**
+ * Outline a snapshot section by section. sectionBytes must match the chunk
+ * size the full snapshot is stored with, so the elided indexes line up.
+ */
+export function outlineSnapshot(
+	content: string,
+	options: { sectionBytes: number; uri?: string },
+): SnapshotOutline {
+	const format = detectChunkFormat(content, options.uri);
+	const sections = chunkSnapshot(content, {
+		maxBytes: options.sectionBytes,
+		format,
+	});
+
+	const parts: string[] = [];
+	const elided: number[] = [];
+	sections.forEach((section, index) => {
+		const lines = section.content.split(/\r?\n/);
+		const kept =
+			format === "markdown" ? markdownSkeleton(lines) : codeSkeleton(lines);
+		const cut =
+			lines.filter((line) => line.trim()).length -
+			kept.filter((line) => line.trim()).length;
+
+		const part = [...kept];
+		if (cut > 0) {
+			elided.push(index);
+			part.push(`[... section ${index} "${section.title}" elided]`);
+		}
+		parts.push(part.join("\n"));
+	});
+
+	return { text: parts.join("\n\n"), elided };
+}
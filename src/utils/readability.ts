@@ -0,0 +1,449 @@
+/**
+ * Main-content extraction for HTML snapshots, so converted pages keep the
+ * article and drop the site chrome around it. The page is parsed into a
+ * loose element tree, scripts, forms and configured exclusions are removed,
+ * and the content container is chosen in order of preference:
+ *
+ * 1. Elements matching configured include selectors
+ * 2. `<main>` or `[role=main]`
+ * 3. The `<article>` with the most text
+ * 4. The element scoring highest on paragraph text density, discounting links
+ *
+ * Navigation, sidebars, footers, cookie banners and similar boilerplate
+ * inside the container are then removed.
+ *
+ * Selectors support tag names, `#id`, `.class`, `[attr]` and `[attr=value]`,
+ * compounds of these (`div.docs`) and descendant chains (`main .content`).
+ */
+
+export interface ContentSelectors {
+	/** Elements holding the main content; all matches are kept */
+	include: string[];
+	/** Elements removed before the content is located */
+	exclude: string[];
+}
+
+interface HtmlText {
+	type: "text";
+	text: string;
+}
+
+interface HtmlElement {
+	type: "element";
+	tag: string;
+	attrs: Record<string, string>;
+	/** The opening tag as written */
+	open: string;
+	children: HtmlNode[];
+	parent: HtmlElement | null;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+interface Compound {
+	tag?: string;
+	id?: string;
+	classes: string[];
+	attrs: Array<{ name: string; value?: string }>;
+}
+
+/** A descendant chain of compounds, outermost first */
+type Selector = Compound[];
+
+const TOKEN =
+	/<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+const ATTRIBUTE =
+	/([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const COMPOUND_PART =
+	/^(?:([a-zA-Z][\w-]*|\*)|#([\w-]+)|\.([\w-]+)|\[([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\]]*)))?\])/;
+
+const VOID_TAGS = new Set(
+	"area base br col embed hr img input link meta param source track wbr".split(
+		" ",
+	),
+);
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+/** Tags that close an open paragraph */
+const BLOCK_TAGS = new Set(
+	"address article aside blockquote div dl fieldset figure footer form h1 h2 h3 h4 h5 h6 header hr main nav ol p pre section table ul".split(
+		" ",
+	),
+);
+/** Tags closed by an opening tag of the same group */
+const SELF_CLOSING_GROUPS: Record<string, string[]> = {
+	li: ["li"],
+	dt: ["dt", "dd"],
+	dd: ["dt", "dd"],
+	tr: ["tr"],
+	td: ["td", "th"],
+	th: ["td", "th"],
+	option: ["option"],
+};
+
+/** Never content, wherever they appear */
+const NOISE_TAGS = new Set(
+	"script style noscript template iframe svg canvas object embed form button input select textarea dialog".split(
+		" ",
+	),
+);
+/** Boilerplate inside the content container */
+const BOILERPLATE_TAGS = new Set(["nav", "aside", "footer"]);
+const BOILERPLATE_ROLES = new Set([
+	"navigation",
+	"banner",
+	"contentinfo",
+	"complementary",
+	"search",
+	"dialog",
+	"alertdialog",
+]);
+const BOILERPLATE_NAME =
+	/(^|[-_])(nav|navbar|navigation|menu|sidebar|footer|breadcrumbs?|cookies?|consent|banner|ads?|advert\w*|promo|social|share|sharing|subscribe|newsletter|related|comments?|popup|modal|skip|toolbar|masthead|toc)([-_]|$)/i;
+/** Landmarks that hold content whatever their classes say */
+const CONTENT_TAGS = new Set(["html", "body", "main", "article"]);
+/** Elements whose text feeds the density score of their ancestors */
+const PARAGRAPH_TAGS = new Set(["p", "pre", "td", "li", "blockquote"]);
+
+function parseAttributes(source: string): Record<string, string> {
+	const attrs: Record<string, string> = {};
+	for (const match of source.matchAll(ATTRIBUTE)) {
+		const name = (match[1] ?? "").toLowerCase();
+		attrs[name] = match[2] ?? match[3] ?? match[4] ?? "";
+	}
+	return attrs;
+}
+
+/**
+ * Parse HTML into a tree leniently: unmatched closing tags are ignored and
+ * unclosed elements end with their parent.
+ */
+function parseHtml(html: string): HtmlElement {
+	const root: HtmlElement = {
+		type: "element",
+		tag: "#root",
+		attrs: {},
+		open: "",
+		children: [],
+		parent: null,
+	};
+	let current = root;
+	let last = 0;
+
+	const text = (value: string) => {
+		if (value) current.children.push({ type: "text", text: value });
+	};
+	const close = (tag: string) => {
+		for (let node: HtmlElement | null = current; node; node = node.parent) {
+			if (node.tag === tag) {
+				current = node.parent ?? root;
+				return;
+			}
+		}
+	};
+
+	TOKEN.lastIndex = 0;
+	for (let match = TOKEN.exec(html); match; match = TOKEN.exec(html)) {
+		text(html.slice(last, match.index));
+		last = TOKEN.lastIndex;
+
+		const closing = match[1]?.toLowerCase();
+		const tag = match[2]?.toLowerCase();
+		if (closing) {
+			close(closing);
+			continue;
+		}
+		if (!tag) continue;
+
+		if (current.tag === "p" && BLOCK_TAGS.has(tag)) close("p");
+		const group = SELF_CLOSING_GROUPS[tag];
+		if (group?.includes(current.tag)) close(current.tag);
+
+		const element: HtmlElement = {
+			type: "element",
+			tag,
+			attrs: parseAttributes(match[3] ?? ""),
+			open: match[0],
+			children: [],
+			parent: current,
+		};
+		current.children.push(element);
+
+		if (RAW_TEXT_TAGS.has(tag)) {
+			const closeTag = new RegExp(`</${tag}`, "gi");
+			closeTag.lastIndex = last;
+			const end = closeTag.exec(html)?.index ?? -1;
+			const stop = end === -1 ? html.length : end;
+			element.children.push({ type: "text", text: html.slice(last, stop) });
+			const closeEnd = end === -1 ? html.length : html.indexOf(">", end) + 1;
+			last = closeEnd || html.length;
+			TOKEN.lastIndex = last;
+		} else if (!VOID_TAGS.has(tag) && !match[0].endsWith("/>")) {
+			current = element;
+		}
+	}
+	text(html.slice(last));
+
+	return root;
+}
+
+function serialize(node: HtmlNode): string {
+	if (node.type === "text") return node.text;
+	const inner = node.children.map(serialize).join("");
+	if (node.tag === "#root") return inner;
+	if (VOID_TAGS.has(node.tag)) return node.open;
+	return `${node.open}${inner}</${node.tag}>`;
+}
+
+function elements(node: HtmlElement): HtmlElement[] {
+	const found: HtmlElement[] = [];
+	const walk = (parent: HtmlElement) => {
+		for (const child of parent.children) {
+			if (child.type !== "element") continue;
+			found.push(child);
+			walk(child);
+		}
+	};
+	walk(node);
+	return found;
+}
+
+function textOf(node: HtmlNode): string {
+	if (node.type === "text") return node.text;
+	if (NOISE_TAGS.has(node.tag)) return "";
+	return node.children.map(textOf).join(" ");
+}
+
+function textLength(node: HtmlNode): number {
+	return textOf(node).replace(/\s+/g, " ").trim().length;
+}
+
+function linkTextLength(node: HtmlElement): number {
+	return elements(node)
+		.filter((el) => el.tag === "a" && el.parent?.tag !== "a")
+		.reduce((sum, el) => sum + textLength(el), 0);
+}
+
+/**
+ * Detach nodes from the tree, filtering each parent's children once
+ */
+function removeAll(nodes: HtmlElement[]): void {
+	const removed = new Set(nodes);
+	const parents = new Set(
+		nodes.flatMap((node) => (node.parent ? [node.parent] : [])),
+	);
+	for (const parent of parents) {
+		parent.children = parent.children.filter(
+			(child) => child.type !== "element" || !removed.has(child),
+		);
+	}
+	for (const node of nodes) node.parent = null;
+}
+
+function parseCompound(source: string): Compound {
+	const compound: Compound = { classes: [], attrs: [] };
+	let rest = source;
+	while (rest) {
+		const part = COMPOUND_PART.exec(rest);
+		if (!part) {
+			throw new Error(`Unsupported selector: ${source}`);
+		}
+		if (part[1] && part[1] !== "*") compound.tag = part[1].toLowerCase();
+		if (part[2]) compound.id = part[2];
+		if (part[3]) compound.classes.push(part[3]);
+		if (part[4]) {
+			const value = part[5] ?? part[6] ?? part[7];
+			compound.attrs.push({
+				name: part[4].toLowerCase(),
+				...(value !== undefined && { value }),
+			});
+		}
+		rest = rest.slice(part[0].length);
+	}
+	return compound;
+}
+
+/**
+ * Parse a selector list (comma-separated). Throws on syntax outside the
+ * supported subset.
+ */
+function parseSelectors(source: string): Selector[] {
+	return source
+		.split(",")
+		.map((selector) => selector.trim())
+		.filter(Boolean)
+		.map((selector) => selector.split(/\s+/).map(parseCompound));
+}
+
+function matchesCompound(el: HtmlElement, compound: Compound): boolean {
+	if (compound.tag && el.tag !== compound.tag) return false;
+	if (compound.id && el.attrs.id !== compound.id) return false;
+	const classes = (el.attrs.class ?? "").split(/\s+/);
+	if (!compound.classes.every((name) => classes.includes(name))) return false;
+	return compound.attrs.every(({ name, value }) =>
+		value === undefined ? name in el.attrs : el.attrs[name] === value,
+	);
+}
+
+function matchesSelector(el: HtmlElement, selector: Selector): boolean {
+	const last = selector.at(-1);
+	if (!last || !matchesCompound(el, last)) return false;
+	let i = selector.length - 2;
+	for (let node = el.parent; node && i >= 0; node = node.parent) {
+		const compound = selector[i];
+		if (compound && matchesCompound(node, compound)) i--;
+	}
+	return i < 0;
+}
+
+function isBoilerplate(el: HtmlElement): boolean {
+	if (CONTENT_TAGS.has(el.tag)) return false;
+	if (BOILERPLATE_TAGS.has(el.tag)) return true;
+	if (BOILERPLATE_ROLES.has(el.attrs.role ?? "")) return true;
+	if ("hidden" in el.attrs || el.attrs["aria-hidden"] === "true") return true;
+	const names = `${el.attrs.id ?? ""} ${el.attrs.class ?? ""}`.split(/\s+/);
+	return names.some((name) => BOILERPLATE_NAME.test(name));
+}
+
+/** Topmost elements matching any of the selectors, in document order */
+function select(root: HtmlElement, selectors: Selector[]): HtmlElement[] {
+	const matched = elements(root).filter((el) =>
+		selectors.some((selector) => matchesSelector(el, selector)),
+	);
+	const matchedSet = new Set(matched);
+	return matched.filter((el) => {
+		for (let node = el.parent; node; node = node.parent) {
+			if (matchedSet.has(node)) return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Element with the densest paragraph text, readability-style: each
+ * paragraph scores its parent in full and its grandparent by half, and
+ * candidates are discounted by the share of their text inside links.
+ */
+function densestElement(root: HtmlElement): HtmlElement | null {
+	const scores = new Map<HtmlElement, number>();
+	const inBoilerplate = (el: HtmlElement) => {
+		for (let node: HtmlElement | null = el; node; node = node.parent) {
+			if (isBoilerplate(node)) return true;
+		}
+		return false;
+	};
+
+	for (const el of elements(root)) {
+		if (!PARAGRAPH_TAGS.has(el.tag) || inBoilerplate(el)) continue;
+		const text = textOf(el);
+		const length = textLength(el);
+		if (length < 25) continue;
+		const commas = text.split(",").length - 1;
+		const score = 1 + commas + Math.min(Math.floor(length / 100), 3);
+		const parent = el.parent;
+		if (parent && parent !== root) {
+			scores.set(parent, (scores.get(parent) ?? 0) + score);
+			const grandparent = parent.parent;
+			if (grandparent && grandparent !== root) {
+				scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+			}
+		}
+	}
+
+	let best: HtmlElement | null = null;
+	let bestScore = 0;
+	for (const [el, score] of scores) {
+		const length = textLength(el);
+		const adjusted = score * (1 - (length ? linkTextLength(el) / length : 0));
+		if (adjusted > bestScore) {
+			best = el;
+			bestScore = adjusted;
+		}
+	}
+	return best;
+}
+
+/**
+ * Validate a `content_selectors` config value.
+ * Returns an error message, or null if the value is valid.
+ */
+export function validateContentSelectors(value: string): string | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		return "content_selectors must be valid JSON";
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return "content_selectors must be an object mapping URL patterns to selectors";
+	}
+
+	for (const [pattern, rule] of Object.entries(parsed)) {
+		if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+			return `Pattern "${pattern}" must map to { include, exclude }`;
+		}
+		for (const [key, selectors] of Object.entries(rule)) {
+			if (key !== "include" && key !== "exclude") {
+				return `Pattern "${pattern}": unknown key ${key}`;
+			}
+			if (
+				!Array.isArray(selectors) ||
+				!selectors.every((s) => typeof s === "string")
+			) {
+				return `Pattern "${pattern}": ${key} must be an array of selectors`;
+			}
+			try {
+				for (const selector of selectors) parseSelectors(selector);
+			} catch (err) {
+				return `Pattern "${pattern}": ${err instanceof Error ? err.message : err}`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * HTML of the main content of a page. Pages where no content is found are
+ * returned unchanged.
+ */
+export function extractMainContent(
+	html: string,
+	selectors: ContentSelectors = { include: [], exclude: [] },
+): string {
+	const root = parseHtml(html);
+
+	const excluded = selectors.exclude.flatMap(parseSelectors);
+	removeAll(
+		elements(root).filter(
+			(el) =>
+				NOISE_TAGS.has(el.tag) ||
+				excluded.some((selector) => matchesSelector(el, selector)),
+		),
+	);
+
+	let containers = select(root, selectors.include.flatMap(parseSelectors));
+	if (containers.length === 0) {
+		const main = elements(root).find(
+			(el) => el.tag === "main" || el.attrs.role === "main",
+		);
+		const article = elements(root)
+			.filter((el) => el.tag === "article")
+			.sort((a, b) => textLength(b) - textLength(a))[0];
+		containers = [main ?? article ?? densestElement(root) ?? root];
+	}
+
+	const content = containers
+		.map((container) => {
+			const total = textLength(container);
+			// A wrapper holding most of the text is layout, not boilerplate
+			removeAll(
+				elements(container).filter(
+					(el) => isBoilerplate(el) && textLength(el) <= total / 2,
+				),
+			);
+			return serialize(container);
+		})
+		.join("\n");
+
+	return textLength(parseHtml(content)) > 0 ? content : html;
+}
@@ -0,0 +1,264 @@
+import { basename } from "node:path";
+import { isEncrypted } from "./secrets.js";
+
+/**
+ * Replace secrets with `[REDACTED:<detector>]` markers before text is stored.
+ *
+ * Built-in detectors cover private key blocks, AWS access keys and secret
+ * keys, GitHub tokens and JWTs. Values of `KEY=value` lines are redacted
+ * when the text comes from a `.env` file. User-defined detectors come from
+ * the `redaction_patterns` config key (name -> regular expression).
+ */
+
+export interface Redaction {
+	detector: string;
+	count: number;
+}
+
+export interface RedactionOptions {
+	/** Set to false to store text unchanged */
+	enabled?: boolean;
+	/** User-defined detectors: name -> regular expression source */
+	patterns?: Record<string, string>;
+	/** URI or path the text came from, used to recognise .env files */
+	source?: string;
+}
+
+interface Detector {
+	name: string;
+	pattern: RegExp;
+	/** Builds the replacement; defaults to replacing the whole match */
+	replace?: (marker: string, ...groups: string[]) => string;
+}
+
+const BUILTIN_DETECTORS: Detector[] = [
+	{
+		name: "private_key",
+		pattern:
+			/-----BEGIN ((?:[A-Z0-9]+ )*)PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END \1PRIVATE KEY\2-----/g,
+	},
+	{
+		name: "aws_access_key",
+		pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g,
+	},
+	{
+		name: "aws_secret_key",
+		pattern:
+			/\b(aws_?secret_?(?:access_?)?key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi,
+		replace: (marker, prefix = "") => `${prefix}${marker}`,
+	},
+	{
+		name: "github_token",
+		pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{22,255})\b/g,
+	},
+	{
+		name: "jwt",
+		pattern:
+			/\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+	},
+];
+
+const ENV_LINE_DETECTOR: Detector = {
+	name: "env_value",
+	pattern:
+		/^([ \t]*(?:export[ \t]+)?[A-Za-z_][\w.-]*[ \t]*=[ \t]*)(?=\S)(.*)$/gm,
+	replace: (marker, prefix = "", value = "") =>
+		// Keep references to other variables and already-redacted values
+		/^["']?(\$\{?[A-Za-z_]\w*\}?|\[REDACTED:[\w-]+\])["']?$/.test(value.trim())
+			? `${prefix}${value}`
+			: `${prefix}${marker}`,
+};
+
+/** .env files meant to be committed, which hold placeholders, not secrets */
+const ENV_TEMPLATE_SUFFIXES = [".example", ".sample", ".template", ".dist"];
+
+/**
+ * Header names whose values are credentials even when no detector matches
+ */
+const SENSITIVE_HEADER =
+	/^(authorization|proxy-authorization|cookie|x-api-key|api-key|apikey)$|token|secret|password/i;
+
+/**
+ * Whether a header carries a credential: a well-known credential header, or
+ * one listed in the retrieval method's sensitiveHeaders (case-insensitive)
+ */
+export function isSensitiveHeader(
+	name: string,
+	marked: string[] = [],
+): boolean {
+	return (
+		SENSITIVE_HEADER.test(name) ||
+		marked.some((header) => header.toLowerCase() === name.toLowerCase())
+	);
+}
+
+/**
+ * Whether a URI or path names a .env file (.env, .env.local, prod.env)
+ */
+export function isEnvFile(source: string): boolean {
+	const name = basename(source.replace(/[?#].*$/, "")).toLowerCase();
+	if (!/^\.env(\..+)?$|\.env$/.test(name)) return false;
+	return !ENV_TEMPLATE_SUFFIXES.some((suffix) => name.endsWith(suffix));
+}
+
+/**
+ * Validate a `redaction_patterns` config value.
+ * Returns an error message, or null if the value is valid.
+ */
+export function validateRedactionPatterns(value: string): string | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		return "redaction_patterns must be valid JSON";
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return "redaction_patterns must be an object mapping detector names to regular expressions";
+	}
+
+	for (const [name, pattern] of Object.entries(parsed)) {
+		if (!/^[a-z0-9_-]+$/i.test(name)) {
+			return `Invalid detector name "${name}": use letters, digits, '_' or '-'`;
+		}
+		if (typeof pattern !== "string" || pattern === "") {
+			return `Detector "${name}" must be a non-empty regular expression string`;
+		}
+		try {
+			if (new RegExp(pattern).test("")) {
+				return `Detector "${name}" must not match empty text`;
+			}
+		} catch (err) {
+			return `Detector "${name}" is not a valid regular expression: ${err instanceof Error ? err.message : err}`;
+		}
+	}
+
+	return null;
+}
+
+function customDetectors(patterns: Record<string, string> = {}): Detector[] {
+	const detectors: Detector[] = [];
+	for (const [name, source] of Object.entries(patterns)) {
+		try {
+			detectors.push({ name, pattern: new RegExp(source, "g") });
+		} catch {
+			// Invalid patterns are rejected by set_config; skip any that slip in
+		}
+	}
+	return detectors;
+}
+
+function addRedaction(
+	redactions: Redaction[],
+	detector: string,
+	count: number,
+) {
+	if (count === 0) return;
+	const existing = redactions.find((r) => r.detector === detector);
+	if (existing) {
+		existing.count += count;
+	} else {
+		redactions.push({ detector, count });
+	}
+}
+
+/**
+ * Combine redaction reports, summing counts per detector
+ */
+export function mergeRedactions(...lists: Redaction[][]): Redaction[] {
+	const merged: Redaction[] = [];
+	for (const list of lists) {
+		for (const { detector, count } of list) {
+			addRedaction(merged, detector, count);
+		}
+	}
+	return merged;
+}
+
+/**
+ * Replace every detected secret in text. Returns the redacted text and the
+ * number of replacements per detector.
+ */
+export function redactSecrets(
+	text: string,
+	options: RedactionOptions = {},
+): { text: string; redactions: Redaction[] } {
+	const redactions: Redaction[] = [];
+	if (options.enabled === false || text === "") {
+		return { text, redactions };
+	}
+
+	const detectors = [
+		...BUILTIN_DETECTORS,
+		...(options.source && isEnvFile(options.source) ? [ENV_LINE_DETECTOR] : []),
+		...customDetectors(options.patterns),
+	];
+
+	let redacted = text;
+	for (const detector of detectors) {
+		const marker = `[REDACTED:${detector.name}]`;
+		let count = 0;
+		redacted = redacted.replace(
+			detector.pattern,
+			(match: string, ...args: unknown[]) => {
+				// Capture groups come before the numeric match offset
+				const groups = args
+					.slice(
+						0,
+						args.findIndex((arg) => typeof arg === "number"),
+					)
+					.map((group) => (typeof group === "string" ? group : ""));
+				const replacement = detector.replace
+					? detector.replace(marker, ...groups)
+					: marker;
+				if (replacement !== match) count++;
+				return replacement;
+			},
+		);
+		addRedaction(redactions, detector.name, count);
+	}
+
+	return { text: redacted, redactions };
+}
+
+/**
+ * Redact retrieval method header values. Credential headers (Authorization,
+ * cookies, API keys, anything named like a token or secret) are redacted
+ * whole, keeping an auth scheme such as `Bearer`. Encrypted values are left
+ * untouched.
+ */
+export function redactHeaders(
+	headers: Record<string, string>,
+	options: RedactionOptions = {},
+	marked: string[] = [],
+): { headers: Record<string, string>; redactions: Redaction[] } {
+	const redactions: Redaction[] = [];
+	if (options.enabled === false) {
+		return { headers, redactions };
+	}
+
+	const redacted: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		if (isEncrypted(value)) {
+			redacted[name] = value;
+			continue;
+		}
+
+		const detected = redactSecrets(value, { patterns: options.patterns });
+		redactions.push(...detected.redactions);
+
+		if (
+			isSensitiveHeader(name, marked) &&
+			!value.includes("[REDACTED:") &&
+			detected.redactions.length === 0 &&
+			value.trim() !== ""
+		) {
+			const scheme = /^(Bearer|Basic|Token|Digest)\s+/i.exec(value)?.[0] ?? "";
+			redacted[name] = `${scheme}[REDACTED:header]`;
+			addRedaction(redactions, "header", 1);
+		} else {
+			redacted[name] = detected.text;
+		}
+	}
+
+	return { headers: redacted, redactions: mergeRedactions(redactions) };
+}
@@ -0,0 +1,97 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	randomBytes,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Encryption at rest for sensitive retrieval method header values.
+ *
+ * Values are sealed with AES-256-GCM and stored as
+ * `enc:v1:<iv>:<auth tag>:<ciphertext>` (base64 parts). The key comes from
+ * the `FACTSETS_SECRET_KEY` environment variable or, failing that, a key file
+ * (`FACTSETS_SECRET_KEY_FILE`, default `~/.config/factsets/secret.key`).
+ * Any key material works: it is hashed to 32 bytes.
+ */
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+/** Shown in place of sensitive header values in tool output and dumps */
+export const SECRET_MASK = "***";
+
+export const SECRET_KEY_ENV = "FACTSETS_SECRET_KEY";
+export const SECRET_KEY_FILE_ENV = "FACTSETS_SECRET_KEY_FILE";
+
+/**
+ * Key file used when FACTSETS_SECRET_KEY_FILE is not set
+ */
+export function defaultSecretKeyFile(): string {
+	return join(homedir(), ".config", "factsets", "secret.key");
+}
+
+function deriveKey(material: string): Buffer {
+	return createHash("sha256").update(material).digest();
+}
+
+/**
+ * Load the encryption key, or null if none is configured
+ */
+export async function loadSecretKey(): Promise<Buffer | null> {
+	const fromEnv = process.env[SECRET_KEY_ENV]?.trim();
+	if (fromEnv) {
+		return deriveKey(fromEnv);
+	}
+
+	const file = process.env[SECRET_KEY_FILE_ENV] || defaultSecretKeyFile();
+	try {
+		const material = (await readFile(file, "utf-8")).trim();
+		return material ? deriveKey(material) : null;
+	} catch {
+		return null;
+	}
+}
+
+export function isEncrypted(value: string): boolean {
+	return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptSecret(value: string, key: Buffer): string {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv("aes-256-gcm", key, iv);
+	const ciphertext = Buffer.concat([
+		cipher.update(value, "utf-8"),
+		cipher.final(),
+	]);
+	return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), ciphertext]
+		.map((part) => part.toString("base64"))
+		.join(":")}`;
+}
+
+/**
+ * Decrypt a value produced by encryptSecret.
+ * Throws if the value is malformed or the key does not match.
+ */
+export function decryptSecret(value: string, key: Buffer): string {
+	const [iv, tag, ciphertext] = value
+		.slice(ENCRYPTED_PREFIX.length)
+		.split(":")
+		.map((part) => Buffer.from(part, "base64"));
+	if (!isEncrypted(value) || !iv || !tag || !ciphertext) {
+		throw new Error("Value is not an encrypted secret");
+	}
+
+	try {
+		const decipher = createDecipheriv("aes-256-gcm", key, iv);
+		decipher.setAuthTag(tag);
+		return Buffer.concat([
+			decipher.update(ciphertext),
+			decipher.final(),
+		]).toString("utf-8");
+	} catch {
+		throw new Error("Secret could not be decrypted with the configured key");
+	}
+}
@@ -0,0 +1,102 @@
+/**
+ * Near-duplicate scoring for short texts such as facts. Text is normalised
+ * (lowercased, punctuation and stopwords dropped, plural "s" stripped) and
+ * compared as sets of words (Jaccard), so rewordings that keep the key terms
+ * score high even when word order and filler differ, while facts naming
+ * different things ("bun test" vs "jest") do not.
+ */
+
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"has",
+	"have",
+	"in",
+	"is",
+	"it",
+	"its",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	// "Project uses X" says nothing about X
+	"use",
+	"used",
+	"uses",
+	"using",
+	"was",
+	"were",
+	"will",
+	"with",
+]);
+
+/**
+ * Significant words of a text, in order
+ */
+export function normalizeTokens(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((word) => word && !STOPWORDS.has(word))
+		.map((word) =>
+			word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+				? word.slice(0, -1)
+				: word,
+		);
+}
+
+/**
+ * Precomputed comparison features of a text, for scoring one text against
+ * many
+ */
+export interface TextFeatures {
+	tokens: string[];
+	words: Set<string>;
+	numbers: Set<string>;
+}
+
+export function textFeatures(text: string): TextFeatures {
+	const tokens = normalizeTokens(text);
+	return {
+		tokens,
+		words: new Set(tokens),
+		numbers: new Set(tokens.filter((token) => /\d/.test(token))),
+	};
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 && b.size === 0) return 0;
+	let shared = 0;
+	for (const item of a) {
+		if (b.has(item)) shared++;
+	}
+	return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two texts from 0 (unrelated) to 1 (same significant words).
+ * Texts stating different numbers ("port 3000" vs "port 8080") disagree
+ * rather than repeat each other, so their score is halved.
+ */
+export function featureSimilarity(a: TextFeatures, b: TextFeatures): number {
+	const score = jaccard(a.words, b.words);
+	const sameNumbers =
+		a.numbers.size === b.numbers.size &&
+		[...a.numbers].every((n) => b.numbers.has(n));
+	return sameNumbers ? score : score / 2;
+}
+
+export function textSimilarity(a: string, b: string): number {
+	return featureSimilarity(textFeatures(a), textFeatures(b));
+}
@@ -0,0 +1,230 @@
+/**
+ * Local extractive summaries for snapshots over the size limit. Headings and
+ * code signatures are kept first, in document order, as far as the budget
+ * allows. Prose sentences are then scored by how frequent their words are
+ * across the document, with a bonus for opening a section, and the best ones
+ * fill the remaining space, skipping any that mostly repeat a sentence
+ * already chosen. Everything is emitted in its original order, so
+ * the same input always gives the same summary.
+ */
+
+interface Unit {
+	/** Position in the document */
+	index: number;
+	/** Paragraph the unit belongs to; paragraphs are separated by blank lines */
+	paragraph: number;
+	text: string;
+	kind: "heading" | "signature" | "sentence";
+	/** Distinct content words, for scoring and redundancy checks */
+	words: Set<string>;
+	/** Rendered on its own line rather than joined to the previous sentence */
+	ownLine: boolean;
+	score: number;
+}
+
+const HEADING = /^#{1,6}\s+\S/;
+const FENCE = /^\s*(```|~~~)/;
+const LIST_OR_TABLE = /^\s*([-*+]\s|\d+[.)]\s|\|)/;
+/** Indented lines and statement syntax: code bodies, which are dropped */
+const CODE_LINE = /^(\t| {4})|[;{}]\s*$|^\s*(\/\/|\/\*|\*\/?\s|})/;
+const SIGNATURE =
+	/^\s*(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(async\s+)?(function\*?|class|interface|type|enum|def|fn|func|struct|trait|impl|module|namespace|pub(\(crate\))?\s+(async\s+)?(fn|struct|enum|trait|mod))\s+[\w$]|^\s*(export\s+)?(const|let|var)\s+[\w$]+\s*=\s*(async\s+)?(\([^)]*\)|[\w$]+)\s*=>/;
+const SENTENCE_END = /(?<=[.!?])\s+(?=["'([]?[A-Z0-9])/;
+const WORD = /[a-z][a-z0-9_'-]*/g;
+/** Share of words two sentences may have in common before one is redundant */
+const MAX_OVERLAP = 0.5;
+
+const STOPWORDS = new Set(
+	(
+		"a about above after again all also an and any are as at be because been " +
+		"before being below between both but by can could did do does doing down " +
+		"each few for from further had has have having he her here hers him his " +
+		"how i if in into is it its itself just more most my no nor not now of " +
+		"off on once only or other our out over own same she should so some such " +
+		"than that the their them then there these they this those through to " +
+		"too under until up use used using very was we were what when where which " +
+		"while who whom why will with would you your"
+	).split(" "),
+);
+
+/** Unit in the summary costs its text plus at most two separator bytes */
+function cost(unit: Unit): number {
+	return Buffer.byteLength(unit.text, "utf8") + 2;
+}
+
+function splitUnits(text: string): Unit[] {
+	const units: Unit[] = [];
+	let paragraph = 0;
+	let fence: { marker: string; open: string; signatures: string[] } | null =
+		null;
+	let prose: string[] = [];
+
+	const add = (unit: Pick<Unit, "text" | "kind" | "ownLine">) =>
+		units.push({
+			...unit,
+			index: units.length,
+			paragraph,
+			words: new Set(
+				(unit.text.toLowerCase().match(WORD) ?? []).filter(
+					(word) => !STOPWORDS.has(word),
+				),
+			),
+			score: 0,
+		});
+	const flushProse = () => {
+		if (prose.length === 0) return;
+		for (const sentence of prose.join(" ").split(SENTENCE_END)) {
+			if (sentence.trim()) {
+				add({ text: sentence.trim(), kind: "sentence", ownLine: false });
+			}
+		}
+		prose = [];
+	};
+
+	for (const line of text.split(/\r?\n/)) {
+		if (fence) {
+			if (line.trim().startsWith(fence.marker)) {
+				// Code blocks keep only their signatures, inside the original fence
+				if (fence.signatures.length > 0) {
+					paragraph++;
+					add({
+						text: [fence.open, ...fence.signatures, fence.marker].join("\n"),
+						kind: "signature",
+						ownLine: true,
+					});
+				}
+				fence = null;
+				paragraph++;
+			} else if (SIGNATURE.test(line)) {
+				fence.signatures.push(line.trimEnd());
+			}
+			continue;
+		}
+
+		const fenceMatch = FENCE.exec(line);
+		if (fenceMatch) {
+			flushProse();
+			fence = {
+				marker: fenceMatch[1] ?? "```",
+				open: line.trim(),
+				signatures: [],
+			};
+		} else if (!line.trim()) {
+			flushProse();
+			paragraph++;
+		} else if (HEADING.test(line)) {
+			flushProse();
+			paragraph++;
+			add({ text: line.trim(), kind: "heading", ownLine: true });
+			paragraph++;
+		} else if (SIGNATURE.test(line)) {
+			flushProse();
+			add({ text: line.trimEnd(), kind: "signature", ownLine: true });
+		} else if (LIST_OR_TABLE.test(line)) {
+			flushProse();
+			add({ text: line.trimEnd(), kind: "sentence", ownLine: true });
+		} else if (CODE_LINE.test(line)) {
+			flushProse();
+		} else {
+			prose.push(line.trim());
+		}
+	}
+	flushProse();
+
+	return units;
+}
+
+function scoreSentences(units: Unit[]): void {
+	const frequency = new Map<string, number>();
+	for (const unit of units) {
+		if (unit.kind !== "sentence") continue;
+		for (const word of unit.words) {
+			frequency.set(word, (frequency.get(word) ?? 0) + 1);
+		}
+	}
+	const maxFrequency = Math.max(1, ...frequency.values());
+
+	let previous: Unit | undefined;
+	for (const unit of units) {
+		if (unit.kind === "sentence") {
+			let weight = 0;
+			for (const word of unit.words) {
+				weight += (frequency.get(word) ?? 0) / maxFrequency;
+			}
+			const count = unit.words.size;
+			unit.score = count > 0 ? weight / Math.sqrt(count) : 0;
+			// Opening sentences usually say what a section is about
+			if (previous?.kind === "heading" || previous === undefined) {
+				unit.score *= 1.5;
+			}
+			if (count < 4) unit.score *= 0.5;
+		}
+		previous = unit;
+	}
+}
+
+function overlaps(a: Unit, b: Unit): boolean {
+	let shared = 0;
+	for (const word of a.words) {
+		if (b.words.has(word)) shared++;
+	}
+	return shared > MAX_OVERLAP * Math.min(a.words.size, b.words.size);
+}
+
+function render(units: Unit[]): string {
+	let output = "";
+	let previous: Unit | undefined;
+	for (const unit of units) {
+		if (!previous) {
+			output = unit.text;
+		} else if (unit.paragraph !== previous.paragraph) {
+			output += `\n\n${unit.text}`;
+		} else {
+			output += `${unit.ownLine ? "\n" : " "}${unit.text}`;
+		}
+		previous = unit;
+	}
+	return output;
+}
+
+/**
+ * Summarise text to at most maxBytes (UTF-8). Text with nothing to extract
+ * (a single huge line, say) is cut at the budget instead.
+ */
+export function summarizeText(text: string, maxBytes: number): string {
+	if (Buffer.byteLength(text, "utf8") <= maxBytes) return text;
+
+	const units = splitUnits(text);
+	scoreSentences(units);
+
+	const selected = new Set<Unit>();
+	let budget = maxBytes;
+	const take = (candidates: Unit[]) => {
+		for (const unit of candidates) {
+			if (cost(unit) > budget) continue;
+			if (
+				unit.kind === "sentence" &&
+				[...selected].some((s) => s.kind === "sentence" && overlaps(unit, s))
+			) {
+				continue;
+			}
+			selected.add(unit);
+			budget -= cost(unit);
+		}
+	};
+	take(units.filter((u) => u.kind === "heading"));
+	take(units.filter((u) => u.kind === "signature"));
+	take(
+		units
+			.filter((u) => u.kind === "sentence" && u.score > 0)
+			.sort((a, b) => b.score - a.score || a.index - b.index),
+	);
+
+	if (selected.size === 0) {
+		return Buffer.from(text, "utf8")
+			.subarray(0, maxBytes)
+			.toString("utf8")
+			.replace(/\uFFFD$/, "");
+	}
+	return render(units.filter((u) => selected.has(u)));
+}
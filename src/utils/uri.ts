@@ -0,0 +1,78 @@
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { getProjectRoot } from "./fs.js";
+
+/**
+ * Canonical resource URIs, so one location is one resource however it was
+ * written. Files inside the project root become `./`-relative paths and files
+ * outside it file:// URLs. http(s) URLs get a lowercase scheme and host with
+ * no default port, fragment, `utm_*` parameters or trailing slash; their
+ * path and remaining query are kept as written. Anything else (command and
+ * note names, other schemes) is left unchanged.
+ */
+
+const SCHEME = /^([a-z][a-z0-9+.-]*):/i;
+
+function canonicalPath(path: string): string {
+	const root = getProjectRoot();
+	const absolute = resolve(root, path);
+	const rel = relative(root, absolute);
+	if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+		return pathToFileURL(absolute).href;
+	}
+	return rel === "" ? "." : `./${rel.split(sep).join("/")}`;
+}
+
+function canonicalUrl(url: URL): string {
+	for (const name of [...url.searchParams.keys()]) {
+		if (name.toLowerCase().startsWith("utm_")) {
+			url.searchParams.delete(name);
+		}
+	}
+	url.hash = "";
+	// The root path keeps its slash: "https://a.dev" and "https://a.dev/" agree
+	url.pathname = url.pathname.replace(/\/+$/, "");
+	return url.href;
+}
+
+/**
+ * Canonical form of a resource URI. Relative paths are only treated as files
+ * when the resource type says so, since command and note resources use bare
+ * names as URIs.
+ */
+export function canonicalResourceUri(uri: string, type?: string): string {
+	const scheme = SCHEME.exec(uri)?.[1]?.toLowerCase();
+	if (scheme === "http" || scheme === "https" || scheme === "file") {
+		let url: URL;
+		try {
+			url = new URL(uri);
+		} catch {
+			return uri;
+		}
+		return scheme === "file"
+			? canonicalPath(fileURLToPath(url))
+			: canonicalUrl(url);
+	}
+	if (scheme) {
+		return uri;
+	}
+	if (type === "file" || (type === undefined && isAbsolute(uri))) {
+		return canonicalPath(uri);
+	}
+	return uri;
+}
+
+/**
+ * URIs a lookup should match when the resource type is unknown: the URI as
+ * given (rows stored before canonicalisation), its canonical form, and its
+ * canonical form as a file path.
+ */
+export function resourceUriKeys(uri: string): string[] {
+	return [
+		...new Set([
+			uri,
+			canonicalResourceUri(uri),
+			canonicalResourceUri(uri, "file"),
+		]),
+	];
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { eq } from "drizzle-orm";
+import { dumpHandler, restoreHandler } from "../../src/commands/dump";
+import { createConnection, runMigrations } from "../../src/db";
+import { factRelations, facts, resources } from "../../src/db/schema";
+import { submitFacts } from "../../src/db/operations/facts";
+import { linkFacts } from "../../src/db/operations/fact-relations";
+import { encryptSecret } from "../../src/utils/secrets";
+
+describe("dump command", () => {
+	let dir: string;
+	let databaseUrl: string;
+	let outputFile: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "factsets-dump-"));
+		databaseUrl = join(dir, "facts.db");
+		outputFile = join(dir, "dump.json");
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	async function dump() {
+		await dumpHandler({ type: "dump", databaseUrl, outputFile });
+		return JSON.parse(await readFile(outputFile, "utf-8"));
+	}
+
+	/** Dump the source database and restore it into a fresh one */
+	async function roundTrip(existingFacts: string[] = []) {
+		await dump();
+		const restoredUrl = join(dir, "restored.db");
+		if (existingFacts.length > 0) {
+			const target = createConnection(restoredUrl);
+			await runMigrations(target);
+			await submitFacts(target, {
+				facts: existingFacts.map((content) => ({ content, tags: ["seed"] })),
+			});
+		}
+		await restoreHandler({
+			type: "restore",
+			databaseUrl: restoredUrl,
+			inputFile: outputFile,
+		});
+		return createConnection(restoredUrl);
+	}
+
+	it("round-trips per-resource freshness overrides", async () => {
+		const db = createConnection(databaseUrl);
+		await runMigrations(db);
+		await db.insert(resources).values([
+			{
+				uri: "https://example.com/status",
+				type: "url",
+				description: "Status page",
+				maxAgeHours: 2,
+			},
+			{ uri: "https://example.com/docs", type: "url", description: "Docs" },
+		]);
+
+		const restored = await roundTrip();
+
+		const rows = await restored
+			.select({ uri: resources.uri, maxAgeHours: resources.maxAgeHours })
+			.from(resources);
+		expect(rows).toEqual([
+			{ uri: "https://example.com/status", maxAgeHours: 2 },
+			{ uri: "https://example.com/docs", maxAgeHours: null },
+		]);
+	});
+
+	it("restores fact relations with remapped IDs", async () => {
+		const db = createConnection(databaseUrl);
+		await runMigrations(db);
+		const { facts: submitted } = await submitFacts(db, {
+			facts: [
+				{ content: "The API is served on port 3000", tags: ["api"] },
+				{ content: "The API is served on port 8080", tags: ["api"] },
+				{ content: "The proxy forwards to the API port", tags: ["api"] },
+			],
+		});
+		const [old, current, proxy] = submitted.map((f) => f.id);
+		await linkFacts(db, {
+			relations: [
+				{ factId: current!, relatedFactId: old!, type: "supersedes" },
+				{ factId: proxy!, relatedFactId: current!, type: "depends_on" },
+			],
+		});
+
+		// An unrelated fact in the target shifts every restored ID
+		const restored = await roundTrip(["Builds run nightly"]);
+
+		const idOf = async (content: string) => {
+			const [row] = await restored
+				.select({ id: facts.id })
+				.from(facts)
+				.where(eq(facts.content, content));
+			return row?.id;
+		};
+		const rows = await restored
+			.select({
+				factId: factRelations.factId,
+				relatedFactId: factRelations.relatedFactId,
+				relationType: factRelations.relationType,
+			})
+			.from(factRelations);
+		expect(rows).toEqual([
+			{
+				factId: await idOf("The API is served on port 8080"),
+				relatedFactId: await idOf("The API is served on port 3000"),
+				relationType: "supersedes",
+			},
+			{
+				factId: await idOf("The proxy forwards to the API port"),
+				relatedFactId: await idOf("The API is served on port 8080"),
+				relationType: "depends_on",
+			},
+		]);
+		expect(await idOf("The API is served on port 3000")).not.toBe(old);
+	});
+
+	it("round-trips fact expiry dates", async () => {
+		const db = createConnection(databaseUrl);
+		await runMigrations(db);
+		await submitFacts(db, {
+			facts: [
+				{
+					content: "The staging cluster is frozen for the release",
+					tags: ["ops"],
+					expiresAt: "2030-01-01T00:00:00.000Z",
+				},
+				{ content: "Deploys go through CI", tags: ["ops"] },
+			],
+		});
+
+		const restored = await roundTrip();
+
+		const rows = await restored
+			.select({ content: facts.content, expiresAt: facts.expiresAt })
+			.from(facts);
+		expect(rows).toEqual([
+			{
+				content: "The staging cluster is frozen for the release",
+				expiresAt: "2030-01-01T00:00:00.000Z",
+			},
+			{ content: "Deploys go through CI", expiresAt: null },
+		]);
+	});
+
+	it("masks plain-text credentials and keeps encrypted ones", async () => {
+		const db = createConnection(databaseUrl);
+		await runMigrations(db);
+		const encrypted = encryptSecret(
+			"Bearer sealed",
+			createHash("sha256").update("dump-key").digest(),
+		);
+		await db.insert(resources).values([
+			{
+				uri: "https://api.example.com/plain",
+				type: "api",
+				description: "Stored before redaction",
+				retrievalMethod: {
+					type: "api",
+					headers: { Authorization: "Bearer sk-plain", Accept: "text/plain" },
+				},
+			},
+			{
+				uri: "https://api.example.com/sealed",
+				type: "api",
+				description: "Stored with a key",
+				retrievalMethod: {
+					type: "api",
+					headers: { Authorization: encrypted },
+				},
+			},
+		]);
+
+		const output = await dump();
+
+		expect(output.resources[0].retrievalMethod.headers).toEqual({
+			Authorization: "***",
+			Accept: "text/plain",
+		});
+		expect(output.resources[1].retrievalMethod.headers).toEqual({
+			Authorization: encrypted,
+		});
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTestDb, type TestDB } from "../harness";
+import { classifyResource } from "../../src/db/operations/categories";
+import { addResources, getResource } from "../../src/db/operations/resources";
+import { setConfig, validateConfigValue } from "../../src/db/operations/config";
+
+describe("category operations", () => {
+	let db: TestDB;
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		await setConfig(db, "skills_dir", "/tmp/factsets-test");
+		await setConfig(
+			db,
+			"custom_categories",
+			JSON.stringify({
+				helmValues: {
+					includes: ["/charts/"],
+					freshnessHours: 336,
+					priority: 10,
+				},
+			}),
+		);
+	});
+
+	describe("classifyResource", () => {
+		it("explains custom and built-in matches", async () => {
+			const result = await classifyResource(db, {
+				uri: "file:///repo/charts/api/values.yaml",
+			});
+
+			expect(result.primaryCategory).toBe("helmValues");
+			expect(result.freshnessThresholdHours).toBe(336);
+			expect(result.resourceMaxAgeHours).toBeNull();
+
+			const helm = result.matches.find((m) => m.category === "helmValues");
+			expect(helm).toMatchObject({
+				source: "custom",
+				status: "applied",
+				matchedBy: 'includes "/charts/"',
+				freshnessHours: 336,
+			});
+			expect(result.matches.some((m) => m.status === "shadowed")).toBe(true);
+		});
+
+		it("falls back to the default category", async () => {
+			const result = await classifyResource(db, { uri: "notes-without-ext" });
+
+			expect(result.categories).toEqual(["default"]);
+			expect(result.matches).toHaveLength(0);
+		});
+
+		it("reports a stored resource override", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///repo/charts/api/values.yaml",
+						type: "file",
+						tags: [],
+						maxAgeHours: 4,
+					},
+				],
+			});
+
+			const result = await classifyResource(db, {
+				uri: "file:///repo/charts/api/values.yaml",
+			});
+
+			expect(result.resourceMaxAgeHours).toBe(4);
+			expect(result.freshnessThresholdHours).toBe(4);
+		});
+	});
+
+	it("applies custom categories when retrieving resources", async () => {
+		await addResources(db, {
+			resources: [
+				{
+					uri: "file:///repo/charts/web/values.yaml",
+					type: "file",
+					tags: [],
+					snapshot: "replicas: 2",
+				},
+			],
+		});
+
+		const resource = await getResource(db, {
+			uri: "file:///repo/charts/web/values.yaml",
+		});
+
+		expect(resource?.categories).toEqual(["helmValues"]);
+		expect(resource?.freshnessThresholdHours).toBe(336);
+	});
+
+	it("validates custom_categories config values", () => {
+		expect(
+			validateConfigValue(
+				"custom_categories",
+				JSON.stringify({
+					codegen: { endsWith: [".gen.ts"], freshnessHours: 1 },
+				}),
+			).valid,
+		).toBe(true);
+
+		const invalid = validateConfigValue(
+			"custom_categories",
+			JSON.stringify({ codegen: { endsWith: ".gen.ts", freshnessHours: 1 } }),
+		);
+		expect(invalid.valid).toBe(false);
+		expect(invalid.error).toContain("endsWith must be an array");
+	});
+});
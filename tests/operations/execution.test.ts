@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTestDb, type TestDB } from "../harness";
+import { executeCommand } from "../../src/db/operations/execution";
+import {
+	getExecutionLog,
+	searchExecutionLogs,
+} from "../../src/db/operations/execution-logs";
+import {
+	getExecutionPolicy,
+	setConfig,
+	validateConfigValue,
+} from "../../src/db/operations/config";
+
+describe("execution operations", () => {
+	let db: TestDB;
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		await setConfig(db, "skills_dir", "/tmp/factsets-test");
+	});
+
+	describe("getExecutionPolicy", () => {
+		it("reads the policy from config", async () => {
+			await setConfig(db, "execution_allowlist", '["git"]');
+			await setConfig(db, "execution_timeout_ms", "1000");
+			await setConfig(db, "execution_dry_run", "true");
+
+			const policy = await getExecutionPolicy(db);
+
+			expect(policy.allowlist).toEqual(["git"]);
+			expect(policy.denylist).toContain("rm");
+			expect(policy.envAllowlist).toContain("PATH");
+			expect(policy.timeoutMs).toBe(1000);
+			expect(policy.dryRun).toBe(true);
+		});
+
+		it("rejects lists that are not arrays of names", () => {
+			expect(validateConfigValue("execution_denylist", '"rm"').valid).toBe(
+				false,
+			);
+			expect(validateConfigValue("execution_allowlist", "[1]").valid).toBe(
+				false,
+			);
+			expect(validateConfigValue("execution_allowlist", '["ls"]').valid).toBe(
+				true,
+			);
+		});
+	});
+
+	describe("executeCommand", () => {
+		it("runs commands and logs the run", async () => {
+			const result = await executeCommand(db, {
+				command: "echo hello",
+				context: "test run",
+			});
+
+			expect(result.status).toBe("completed");
+			expect(result.stdout).toBe("hello\n");
+
+			const log = await getExecutionLog(db, { id: result.logId! });
+			expect(log).toMatchObject({
+				command: "echo hello",
+				workingDirectory: ".",
+				context: "test run",
+				output: "hello",
+				exitCode: 0,
+				success: true,
+			});
+			expect(log!.durationMs).toBeGreaterThanOrEqual(0);
+		});
+
+		it("logs failures with their exit code", async () => {
+			const result = await executeCommand(db, {
+				command: "echo broken >&2; exit 2",
+				context: "failing run",
+			});
+
+			expect(result.status).toBe("failed");
+			expect(result.message).toBe("Command exited with code 2: broken");
+
+			const log = await getExecutionLog(db, { id: result.logId! });
+			expect(log).toMatchObject({
+				exitCode: 2,
+				success: false,
+				output: "broken",
+			});
+		});
+
+		it("blocks commands the policy denies and logs the attempt", async () => {
+			const result = await executeCommand(db, {
+				command: "rm -rf build",
+				context: "cleanup",
+			});
+
+			expect(result.status).toBe("blocked");
+			expect(result.message).toBe(
+				"Blocked by execution policy: Executable is denied: rm",
+			);
+			const log = await getExecutionLog(db, { id: result.logId! });
+			expect(log).toMatchObject({
+				success: false,
+				exitCode: null,
+				output: "Blocked by execution policy: Executable is denied: rm",
+			});
+		});
+
+		it("previews commands in dry-run mode without logging", async () => {
+			await setConfig(db, "execution_dry_run", "true");
+
+			const result = await executeCommand(db, {
+				command: "echo hello",
+				context: "preview",
+			});
+
+			expect(result).toEqual({
+				status: "dry_run",
+				message: "Would run `echo hello` in .",
+				exitCode: null,
+				durationMs: 0,
+			});
+			const { logs } = await searchExecutionLogs(db, {});
+			expect(logs).toHaveLength(0);
+		});
+
+		it("applies the shorter of the caller and policy timeouts", async () => {
+			await setConfig(db, "execution_timeout_ms", "100");
+
+			const result = await executeCommand(db, {
+				command: "sleep 5",
+				context: "slow",
+				timeoutMs: 30000,
+			});
+
+			expect(result.status).toBe("failed");
+			expect(result.message).toBe("Command timed out after 100ms");
+		});
+	});
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTestDb, type TestDB } from "../harness";
+import { submitFacts, searchFacts } from "../../src/db/operations/facts";
+import { findDuplicateFacts } from "../../src/db/operations/fact-duplicates";
+import { setConfig } from "../../src/db/operations/config";
+
+describe("near-duplicate facts", () => {
+	let db: TestDB;
+	let portId: number;
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		const result = await submitFacts(db, {
+			facts: [
+				{ content: "The API uses port 3000", tags: ["api"] },
+				{ content: "Deployments run on GitHub Actions", tags: ["ci"] },
+			],
+		});
+		portId = result.facts[0]?.id ?? 0;
+	});
+
+	const reworded = {
+		content: "API server listens on port 3000.",
+		tags: ["network"],
+		source: "src/server.ts",
+		sourceType: "code" as const,
+	};
+
+	describe("submitFacts", () => {
+		it("reports possible duplicates and inserts by default", async () => {
+			const result = await submitFacts(db, { facts: [reworded] });
+
+			expect(result.created).toBe(1);
+			expect(result.possibleDuplicates).toEqual([
+				{
+					content: reworded.content,
+					matches: [
+						{
+							id: portId,
+							content: "The API uses port 3000",
+							score: expect.any(Number),
+						},
+					],
+				},
+			]);
+		});
+
+		it("leaves out possibleDuplicates when nothing is similar", async () => {
+			const result = await submitFacts(db, {
+				facts: [{ content: "Logs are shipped to Loki", tags: ["ops"] }],
+			});
+
+			expect(result.possibleDuplicates).toBeUndefined();
+		});
+
+		it("skips near-duplicates in skip mode", async () => {
+			const result = await submitFacts(db, {
+				facts: [
+					reworded,
+					{ content: "Logs are shipped to Loki", tags: ["ops"] },
+				],
+				mode: "skip",
+			});
+
+			expect(result.created).toBe(1);
+			expect(result.skipped).toBe(1);
+			expect(result.facts.map((f) => f.content)).toEqual([
+				"Logs are shipped to Loki",
+			]);
+		});
+
+		it("merges tags and source into the closest match in merge mode", async () => {
+			const result = await submitFacts(db, {
+				facts: [reworded],
+				mode: "merge",
+			});
+
+			expect(result.created).toBe(0);
+			expect(result.merged).toBe(1);
+			expect(result.facts).toEqual([
+				{
+					id: portId,
+					content: "The API uses port 3000",
+					mergedContent: reworded.content,
+				},
+			]);
+
+			const { facts } = await searchFacts(db, { tags: ["network"] });
+			expect(facts).toHaveLength(1);
+			expect(facts[0]?.id).toBe(portId);
+			expect(facts[0]?.sourceType).toBe("code");
+			expect(facts[0]?.tags.sort()).toEqual(["api", "network"]);
+		});
+
+		it("does not flag facts that name different tools", async () => {
+			await submitFacts(db, {
+				facts: [{ content: "Project uses bun test", tags: ["testing"] }],
+			});
+
+			const result = await submitFacts(db, {
+				facts: [{ content: "Project uses jest", tags: ["testing"] }],
+				mode: "merge",
+			});
+
+			expect(result.created).toBe(1);
+			expect(result.possibleDuplicates).toBeUndefined();
+		});
+
+		it("ignores expired and superseded facts", async () => {
+			await submitFacts(db, {
+				facts: [
+					{
+						content: "The staging API uses port 3000",
+						tags: ["api"],
+						expiresAt: "2020-01-01T00:00:00.000Z",
+					},
+					{
+						content: "The API listens on port 3000 today",
+						tags: ["api"],
+						supersedes: [portId],
+					},
+				],
+			});
+
+			const result = await submitFacts(db, {
+				facts: [{ content: "The API uses port 3000 now", tags: ["api"] }],
+			});
+
+			expect(
+				result.possibleDuplicates?.[0]?.matches.map((m) => m.content),
+			).toEqual(["The API listens on port 3000 today"]);
+		});
+
+		it("respects fact_duplicate_threshold", async () => {
+			await setConfig(db, "fact_duplicate_threshold", "0.9");
+
+			const result = await submitFacts(db, {
+				facts: [reworded],
+				mode: "skip",
+			});
+
+			expect(result.created).toBe(1);
+			expect(result.possibleDuplicates).toBeUndefined();
+		});
+	});
+
+	describe("findDuplicateFacts", () => {
+		it("clusters facts that restate each other", async () => {
+			await submitFacts(db, {
+				facts: [
+					reworded,
+					{ content: "Port 3000 is used by the API", tags: ["api"] },
+				],
+			});
+
+			const result = await findDuplicateFacts(db, {});
+
+			expect(result.scanned).toBe(4);
+			expect(result.clusters).toHaveLength(1);
+			expect(result.clusters[0]?.facts.map((f) => f.content).sort()).toEqual([
+				"API server listens on port 3000.",
+				"Port 3000 is used by the API",
+				"The API uses port 3000",
+			]);
+			expect(result.clusters[0]?.score).toBeGreaterThanOrEqual(0.5);
+		});
+
+		it("does not cluster facts that differ in numbers", async () => {
+			await submitFacts(db, {
+				facts: [{ content: "The API uses port 8080", tags: ["api"] }],
+			});
+
+			const result = await findDuplicateFacts(db, {});
+			expect(result.clusters).toHaveLength(0);
+		});
+
+		it("ignores words shared by many facts", async () => {
+			await submitFacts(db, {
+				facts: [
+					...Array.from({ length: 60 }, (_, i) => ({
+						content: `Project module ${i} exports helpers`,
+						tags: ["modules"],
+					})),
+					{
+						content: "Project deploys with Kubernetes manifests",
+						tags: ["ci"],
+					},
+					{
+						content: "The project deploys using Kubernetes manifests",
+						tags: ["ci"],
+					},
+				],
+			});
+
+			const result = await findDuplicateFacts(db, {});
+
+			expect(result.scanned).toBe(64);
+			expect(result.clusters).toHaveLength(1);
+			expect(result.clusters[0]?.facts.map((f) => f.content)).toEqual([
+				"Project deploys with Kubernetes manifests",
+				"The project deploys using Kubernetes manifests",
+			]);
+		});
+
+		it("limits the scan to tags", async () => {
+			await submitFacts(db, { facts: [reworded] });
+
+			expect(
+				(await findDuplicateFacts(db, { tags: ["api"] })).clusters,
+			).toEqual([]);
+			expect(
+				(await findDuplicateFacts(db, { tags: ["api", "network"] })).clusters,
+			).toHaveLength(1);
+		});
+	});
+});
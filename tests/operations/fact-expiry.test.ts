@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTestDb, type TestDB } from "../harness";
+import {
+	submitFacts,
+	searchFacts,
+	updateFact,
+	deleteFacts,
+} from "../../src/db/operations/facts";
+import { getFactHistory } from "../../src/db/operations/fact-revisions";
+import { buildContext } from "../../src/db/operations/context";
+
+const PAST = "2020-01-30T00:00:00.000Z";
+const FUTURE = "2099-01-30T00:00:00.000Z";
+
+describe("fact expiry", () => {
+	let db: TestDB;
+	let frozenId: number;
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		const result = await submitFacts(db, {
+			facts: [
+				{
+					content: "Staging is frozen until the 30th",
+					tags: ["staging"],
+					expiresAt: PAST,
+				},
+				{
+					content: "Feature flag new-checkout is on during the migration",
+					tags: ["staging"],
+					expiresAt: FUTURE,
+				},
+				{ content: "Staging runs on Kubernetes", tags: ["staging"] },
+			],
+		});
+		frozenId = result.facts[0]?.id ?? 0;
+	});
+
+	const contents = async (input: { includeExpired?: boolean } = {}) =>
+		(await searchFacts(db, { tags: ["staging"], ...input })).facts
+			.map((f) => f.content)
+			.sort();
+
+	it("hides expired facts from search", async () => {
+		expect(await contents()).toEqual([
+			"Feature flag new-checkout is on during the migration",
+			"Staging runs on Kubernetes",
+		]);
+	});
+
+	it("lists expired facts on request with their expiry", async () => {
+		const { facts } = await searchFacts(db, {
+			tags: ["staging"],
+			includeExpired: true,
+		});
+
+		expect(facts).toHaveLength(3);
+		expect(facts.find((f) => f.id === frozenId)?.expiresAt).toBe(PAST);
+		expect(
+			facts.find((f) => f.content === "Staging runs on Kubernetes"),
+		).not.toHaveProperty("expiresAt");
+	});
+
+	it("hides expired facts from context", async () => {
+		const context = await buildContext(db, { tags: ["staging"] });
+
+		expect(context).not.toContain("frozen");
+		expect(context).toContain("Kubernetes");
+	});
+
+	it("extends or clears expiry with update_fact", async () => {
+		await updateFact(db, { id: frozenId, updates: { expiresAt: FUTURE } });
+		expect(await contents()).toHaveLength(3);
+
+		await updateFact(db, { id: frozenId, updates: { expiresAt: null } });
+		const history = await getFactHistory(db, { id: frozenId });
+		expect(history.current.expiresAt).toBeNull();
+		expect(history.revisions.map((r) => r.expiresAt)).toEqual([FUTURE, PAST]);
+	});
+
+	it("soft-deletes only lapsed facts", async () => {
+		const deleted = await deleteFacts(db, { expired: true, soft: true });
+
+		expect(deleted).toBe(1);
+		const { facts } = await searchFacts(db, {
+			tags: ["staging"],
+			includeExpired: true,
+		});
+		expect(facts.map((f) => f.id)).not.toContain(frozenId);
+	});
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTestDb, type TestDB } from "../harness";
+import {
+	submitFacts,
+	searchFacts,
+	deleteFacts,
+} from "../../src/db/operations/facts";
+import { linkFacts, unlinkFacts } from "../../src/db/operations/fact-relations";
+import { buildContext } from "../../src/db/operations/context";
+import { checkStale } from "../../src/db/operations/staleness";
+
+describe("fact relations", () => {
+	let db: TestDB;
+	let jestId: number;
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		const result = await submitFacts(db, {
+			facts: [{ content: "Tests run with Jest", tags: ["testing"] }],
+		});
+		jestId = result.facts[0]?.id ?? 0;
+	});
+
+	const contents = async (input: { includeSuperseded?: boolean } = {}) =>
+		(await searchFacts(db, { tags: ["testing"], ...input })).facts.map(
+			(f) => f.content,
+		);
+
+	describe("supersession", () => {
+		it("hides superseded facts from search", async () => {
+			await submitFacts(db, {
+				facts: [
+					{
+						content: "Tests run with bun test",
+						tags: ["testing"],
+						supersedes: [jestId],
+					},
+				],
+			});
+
+			expect(await contents()).toEqual(["Tests run with bun test"]);
+		});
+
+		it("lists superseded facts on request with their replacements", async () => {
+			const { facts } = await submitFacts(db, {
+				facts: [
+					{
+						content: "Tests run with bun test",
+						tags: ["testing"],
+						supersedes: [jestId],
+					},
+				],
+			});
+
+			const result = await searchFacts(db, {
+				tags: ["testing"],
+				includeSuperseded: true,
+			});
+
+			const jest = result.facts.find((f) => f.id === jestId);
+			expect(result.facts).toHaveLength(2);
+			expect(jest?.supersededBy).toEqual([facts[0]?.id ?? 0]);
+		});
+
+		it("hides superseded facts from context", async () => {
+			await submitFacts(db, {
+				facts: [
+					{
+						content: "Tests run with bun test",
+						tags: ["testing"],
+						supersedes: [jestId],
+					},
+				],
+			});
+
+			const context = await buildContext(db, { tags: ["testing"] });
+			expect(context).toContain("Tests run with bun test");
+			expect(context).not.toContain("Jest");
+
+			const all = await buildContext(db, {
+				tags: ["testing"],
+				includeSuperseded: true,
+			});
+			expect(all).toContain("Jest");
+		});
+
+		it("brings a fact back when its replacement is deleted", async () => {
+			const { facts } = await submitFacts(db, {
+				facts: [
+					{
+						content: "Tests run with bun test",
+						tags: ["testing"],
+						supersedes: [jestId],
+					},
+				],
+			});
+
+			await deleteFacts(db, { ids: [facts[0]?.id ?? 0], soft: true });
+
+			expect(await contents()).toEqual(["Tests run with Jest"]);
+		});
+
+		it("rejects unknown superseded facts before writing", async () => {
+			await expect(
+				submitFacts(db, {
+					facts: [{ content: "Orphan", tags: ["testing"], supersedes: [999] }],
+				}),
+			).rejects.toThrow("Facts not found: 999");
+
+			expect(await contents()).toEqual(["Tests run with Jest"]);
+		});
+	});
+
+	describe("linkFacts", () => {
+		let vitestId: number;
+
+		beforeEach(async () => {
+			const result = await submitFacts(db, {
+				facts: [{ content: "Tests run with Vitest", tags: ["testing"] }],
+			});
+			vitestId = result.facts[0]?.id ?? 0;
+		});
+
+		it("stores contradictions once regardless of direction", async () => {
+			const first = await linkFacts(db, {
+				relations: [
+					{ factId: vitestId, relatedFactId: jestId, type: "contradicts" },
+				],
+			});
+			const second = await linkFacts(db, {
+				relations: [
+					{ factId: jestId, relatedFactId: vitestId, type: "contradicts" },
+				],
+			});
+
+			expect(first.linked).toBe(1);
+			expect(second.linked).toBe(0);
+		});
+
+		it("reports live contradictions in check_stale", async () => {
+			await linkFacts(db, {
+				relations: [
+					{ factId: jestId, relatedFactId: vitestId, type: "contradicts" },
+				],
+			});
+
+			const stale = await checkStale(db, {});
+
+			expect(stale.contradictions).toEqual([
+				expect.objectContaining({
+					factId: jestId,
+					content: "Tests run with Jest",
+					relatedFactId: vitestId,
+					relatedContent: "Tests run with Vitest",
+				}),
+			]);
+			expect(stale.summary.contradictions).toBe(1);
+		});
+
+		it("resolves contradictions by superseding or unlinking", async () => {
+			const contradiction = {
+				factId: jestId,
+				relatedFactId: vitestId,
+				type: "contradicts" as const,
+			};
+			await linkFacts(db, { relations: [contradiction] });
+			await linkFacts(db, {
+				relations: [
+					{ factId: vitestId, relatedFactId: jestId, type: "supersedes" },
+				],
+			});
+
+			expect((await checkStale(db, {})).contradictions).toHaveLength(0);
+
+			await unlinkFacts(db, {
+				relations: [
+					{ factId: vitestId, relatedFactId: jestId, type: "supersedes" },
+				],
+			});
+			expect((await checkStale(db, {})).contradictions).toHaveLength(1);
+
+			const { unlinked } = await unlinkFacts(db, {
+				relations: [contradiction],
+			});
+			expect(unlinked).toBe(1);
+			expect((await checkStale(db, {})).contradictions).toHaveLength(0);
+		});
+
+		it("leaves refinements and dependencies visible", async () => {
+			await linkFacts(db, {
+				relations: [
+					{ factId: vitestId, relatedFactId: jestId, type: "refines" },
+					{ factId: jestId, relatedFactId: vitestId, type: "depends_on" },
+				],
+			});
+
+			expect(await contents()).toHaveLength(2);
+		});
+
+		it("rejects self relations and unknown facts", async () => {
+			await expect(
+				linkFacts(db, {
+					relations: [
+						{ factId: jestId, relatedFactId: jestId, type: "refines" },
+					],
+				}),
+			).rejects.toThrow(`Fact ${jestId} cannot be related to itself`);
+			await expect(
+				linkFacts(db, {
+					relations: [{ factId: jestId, relatedFactId: 999, type: "refines" }],
+				}),
+			).rejects.toThrow("Facts not found: 999");
+		});
+	});
+});
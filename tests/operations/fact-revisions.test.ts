@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTestDb, type TestDB } from "../harness";
+import {
+	submitFacts,
+	updateFact,
+	verifyFacts,
+	deleteFacts,
+	restoreFacts,
+} from "../../src/db/operations/facts";
+import {
+	getFactHistory,
+	revertFact,
+} from "../../src/db/operations/fact-revisions";
+
+describe("fact revisions", () => {
+	let db: TestDB;
+	let factId: number;
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		const result = await submitFacts(db, {
+			facts: [
+				{
+					content: "The API listens on port 3000",
+					tags: ["api", "config"],
+					source: "README.md",
+					sourceType: "documentation",
+				},
+			],
+		});
+		factId = result.facts[0]?.id ?? 0;
+	});
+
+	it("starts with no revisions", async () => {
+		const history = await getFactHistory(db, { id: factId });
+
+		expect(history.revisions).toHaveLength(0);
+		expect(history.current.content).toBe("The API listens on port 3000");
+		expect(history.current.tags).toEqual(["api", "config"]);
+	});
+
+	it("records old values and the tag delta on update", async () => {
+		await updateFact(db, {
+			id: factId,
+			updates: {
+				content: "The API listens on port 8080",
+				appendTags: ["network"],
+				removeTags: ["config"],
+			},
+		});
+
+		const history = await getFactHistory(db, {
+			contentMatch: "The API listens on port 8080",
+		});
+
+		expect(history.revisions).toHaveLength(1);
+		const [revision] = history.revisions;
+		expect(revision?.changedBy).toBe("update_fact");
+		expect(revision?.content).toBe("The API listens on port 3000");
+		expect(revision?.tags).toEqual(["api", "config"]);
+		expect(revision?.tagsAdded).toEqual(["network"]);
+		expect(revision?.tagsRemoved).toEqual(["config"]);
+		expect(history.current.tags).toEqual(["api", "network"]);
+	});
+
+	it("records verify, delete and restore, newest first", async () => {
+		await verifyFacts(db, { ids: [factId] });
+		await deleteFacts(db, { ids: [factId], soft: true });
+		await restoreFacts(db, [factId]);
+
+		const history = await getFactHistory(db, { id: factId });
+
+		expect(history.revisions.map((r) => r.changedBy)).toEqual([
+			"restore_facts",
+			"delete_facts",
+			"verify_facts",
+		]);
+		expect(history.revisions[0]?.deleted).toBe(true);
+		expect(history.revisions[2]?.verified).toBe(false);
+		expect(history.current.deleted).toBe(false);
+	});
+
+	it("skips changes that leave the fact as it was", async () => {
+		await submitFacts(db, {
+			facts: [
+				{
+					content: "The API listens on port 3000",
+					tags: ["api"],
+					source: "README.md",
+					sourceType: "documentation",
+				},
+			],
+		});
+		await restoreFacts(db, [factId]);
+
+		const history = await getFactHistory(db, { id: factId });
+		expect(history.revisions).toHaveLength(0);
+	});
+
+	it("records resubmission and keeps verification", async () => {
+		await verifyFacts(db, { ids: [factId] });
+		await submitFacts(db, {
+			facts: [
+				{
+					content: "The API listens on port 3000",
+					tags: ["api"],
+					source: "src/server.ts",
+					sourceType: "code",
+				},
+			],
+		});
+
+		const history = await getFactHistory(db, { id: factId, limit: 1 });
+		expect(history.revisions).toHaveLength(1);
+		expect(history.revisions[0]?.changedBy).toBe("submit_facts");
+		expect(history.revisions[0]?.verified).toBe(true);
+		expect(history.revisions[0]?.source).toBe("README.md");
+		expect(history.current.verified).toBe(true);
+	});
+
+	it("reverts content and tags to a revision", async () => {
+		await updateFact(db, {
+			id: factId,
+			updates: {
+				content: "The API listens on port 8080",
+				tags: ["deprecated"],
+				verified: true,
+			},
+		});
+		const [revision] = (await getFactHistory(db, { id: factId })).revisions;
+
+		const result = await revertFact(db, {
+			id: factId,
+			revisionId: revision?.id ?? 0,
+		});
+
+		expect(result.content).toBe("The API listens on port 3000");
+		const history = await getFactHistory(db, { id: factId });
+		expect(history.current).toMatchObject({
+			content: "The API listens on port 3000",
+			verified: false,
+			tags: ["api", "config"],
+		});
+		expect(history.revisions[0]).toMatchObject({
+			changedBy: "revert_fact",
+			content: "The API listens on port 8080",
+			tagsAdded: ["api", "config"],
+			tagsRemoved: ["deprecated"],
+		});
+	});
+
+	it("restores deletion state on revert", async () => {
+		await deleteFacts(db, { ids: [factId], soft: true });
+		const [revision] = (await getFactHistory(db, { id: factId })).revisions;
+
+		await revertFact(db, { id: factId, revisionId: revision?.id ?? 0 });
+
+		const history = await getFactHistory(db, { id: factId });
+		expect(history.current.deleted).toBe(false);
+	});
+
+	it("rejects revisions of other facts", async () => {
+		await updateFact(db, {
+			id: factId,
+			updates: { content: "Changed" },
+		});
+		const [revision] = (await getFactHistory(db, { id: factId })).revisions;
+
+		await expect(
+			revertFact(db, { id: factId + 1, revisionId: revision?.id ?? 0 }),
+		).rejects.toThrow(
+			`Revision ${revision?.id} not found for fact ${factId + 1}`,
+		);
+	});
+
+	it("refuses to revert to content another fact has", async () => {
+		await updateFact(db, {
+			id: factId,
+			updates: { content: "The API listens on port 8080" },
+		});
+		const [revision] = (await getFactHistory(db, { id: factId })).revisions;
+		const { facts } = await submitFacts(db, {
+			facts: [{ content: "The API listens on port 3000", tags: ["api"] }],
+		});
+
+		await expect(
+			revertFact(db, { id: factId, revisionId: revision?.id ?? 0 }),
+		).rejects.toThrow(
+			`Cannot revert fact ${factId}: fact ${facts[0]?.id} already has the content of revision ${revision?.id}`,
+		);
+	});
+
+	it("throws for unknown facts", async () => {
+		await expect(getFactHistory(db, { id: 999 })).rejects.toThrow(
+			"Fact with ID 999 not found",
+		);
+	});
+});
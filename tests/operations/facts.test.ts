@@ -7,8 +7,10 @@ import {
 	updateFact,
 	verifyFacts,
 	verifyFactsByTags,
+	mergeFacts,
 } from "../../src/db/operations/facts";
 import { setConfig } from "../../src/db/operations/config";
+import { createSkill, getSkill } from "../../src/db/operations/skills";
 
 describe("facts operations - extended coverage", () => {
 	let db: TestDB;
@@ -156,6 +158,106 @@ describe("facts operations - extended coverage", () => {
 		});
 	});
 
+	describe("searchFacts full-text query", () => {
+		beforeEach(async () => {
+			await submitFacts(db, {
+				facts: [
+					{
+						content: "The API server listens on port 8080 by default",
+						tags: ["api"],
+					},
+					{
+						content: "Server logs are rotated daily by the logging service",
+						tags: ["ops"],
+					},
+					{
+						content: "Configuration lives in the server config file",
+						tags: ["config"],
+					},
+				],
+			});
+		});
+
+		it("matches terms regardless of order and case", async () => {
+			const result = await searchFacts(db, { query: "PORT api" });
+			expect(result.facts).toHaveLength(1);
+			expect(result.facts[0]!.content).toContain("port 8080");
+		});
+
+		it("supports phrase queries", async () => {
+			const phrase = await searchFacts(db, { query: '"api server"' });
+			expect(phrase.facts).toHaveLength(1);
+
+			const reversed = await searchFacts(db, { query: '"server api"' });
+			expect(reversed.facts).toHaveLength(0);
+		});
+
+		it("supports prefix queries", async () => {
+			const result = await searchFacts(db, { query: "config*" });
+			expect(result.facts).toHaveLength(1);
+			expect(result.facts[0]!.content).toContain("Configuration");
+		});
+
+		it("supports OR between terms", async () => {
+			const result = await searchFacts(db, { query: "port OR rotated" });
+			expect(result.facts).toHaveLength(2);
+		});
+
+		it("ranks results by relevance when a query is given", async () => {
+			await submitFacts(db, {
+				facts: [{ content: "server server server", tags: ["noise"] }],
+			});
+
+			const result = await searchFacts(db, { query: "server" });
+			expect(result.facts).toHaveLength(4);
+			expect(result.facts[0]!.content).toBe("server server server");
+		});
+
+		it("returns highlighted snippets", async () => {
+			const result = await searchFacts(db, { query: "rotated" });
+			expect(result.facts[0]!.snippet).toContain("**rotated**");
+
+			const byTag = await searchFacts(db, { tags: ["ops"] });
+			expect(byTag.facts[0]!.snippet).toBeUndefined();
+		});
+
+		it("treats FTS syntax characters as literal text", async () => {
+			const result = await searchFacts(db, { query: 'port: (8080) "api' });
+			expect(result.facts).toHaveLength(1);
+
+			const empty = await searchFacts(db, { query: "***" });
+			expect(empty.facts).toHaveLength(0);
+			expect(empty.suggestedTags).toBeDefined();
+		});
+
+		it("reflects content updates and deletions", async () => {
+			const found = await searchFacts(db, { query: "rotated" });
+			const id = found.facts[0]!.id;
+
+			await updateFact(db, {
+				id,
+				updates: { content: "Server logs are archived weekly" },
+			});
+			expect((await searchFacts(db, { query: "rotated" })).facts).toHaveLength(
+				0,
+			);
+			expect((await searchFacts(db, { query: "archived" })).facts).toHaveLength(
+				1,
+			);
+
+			await deleteFacts(db, { ids: [id] });
+			expect((await searchFacts(db, { query: "archived" })).facts).toHaveLength(
+				0,
+			);
+		});
+
+		it("combines query with tag filters", async () => {
+			const result = await searchFacts(db, { query: "server", tags: ["ops"] });
+			expect(result.facts).toHaveLength(1);
+			expect(result.facts[0]!.content).toContain("logging");
+		});
+	});
+
 	describe("deleteFacts", () => {
 		it("deletes facts by ids", async () => {
 			const submitted = await submitFacts(db, {
@@ -339,4 +441,103 @@ describe("facts operations - extended coverage", () => {
 			expect(result.verified).toBe(0);
 		});
 	});
+
+	describe("mergeFacts", () => {
+		let ids: number[];
+
+		beforeEach(async () => {
+			const result = await submitFacts(db, {
+				facts: [
+					{ content: "The API uses port 3000", tags: ["api"] },
+					{
+						content: "API server listens on port 3000",
+						tags: ["network"],
+						source: "src/server.ts",
+						sourceType: "code",
+						verified: true,
+					},
+					{ content: "Port 3000 is the API port", tags: ["api", "config"] },
+				],
+			});
+			ids = result.facts.map((f) => f.id);
+			await searchFacts(db, { tags: ["network"] });
+			await searchFacts(db, { tags: ["config"] });
+		});
+
+		it("consolidates tags, verification and usage into the first fact", async () => {
+			const result = await mergeFacts(db, {
+				ids,
+				content: "The API server listens on port 3000",
+			});
+
+			expect(result).toMatchObject({
+				id: ids[0],
+				content: "The API server listens on port 3000",
+				tags: ["api", "config", "network"],
+				verified: true,
+				retrievalCount: 2,
+				absorbed: ids.slice(1),
+			});
+
+			const { facts } = await searchFacts(db, { tags: ["api", "network"] });
+			expect(facts.map((f) => f.id)).toEqual([ids[0] ?? 0]);
+			expect(facts[0]?.sourceType).toBe("code");
+		});
+
+		it("keeps absorbed facts as superseded by the survivor", async () => {
+			await mergeFacts(db, { ids, content: "The API uses port 3000" });
+
+			const { facts } = await searchFacts(db, {
+				tags: ["network"],
+				includeSuperseded: true,
+			});
+			const absorbed = facts.find((f) => f.id === ids[1]);
+			expect(absorbed?.supersededBy).toEqual([ids[0] ?? 0]);
+		});
+
+		it("moves skill links to the survivor", async () => {
+			await createSkill(db, {
+				name: "api-setup",
+				title: "API Setup",
+				content: "# API Setup",
+				tags: ["api"],
+				references: { facts: [ids[1] ?? 0, ids[2] ?? 0] },
+			});
+
+			const result = await mergeFacts(db, {
+				ids,
+				content: "The API uses port 3000",
+			});
+
+			expect(result.skillLinks).toBe(2);
+			const skill = await getSkill(db, { name: "api-setup" });
+			expect(skill?.references.facts).toEqual([
+				{ id: ids[0] ?? 0, content: "The API uses port 3000" },
+			]);
+		});
+
+		it("rejects content that belongs to another fact", async () => {
+			const other = await submitFacts(db, {
+				facts: [{ content: "Deploys run nightly", tags: ["ci"] }],
+			});
+
+			await expect(
+				mergeFacts(db, {
+					ids: ids.slice(0, 2),
+					content: "Deploys run nightly",
+				}),
+			).rejects.toThrow(
+				`Fact with content "Deploys run nightly" already exists (ID ${other.facts[0]?.id})`,
+			);
+		});
+
+		it("requires two existing facts", async () => {
+			await expect(
+				mergeFacts(db, { ids: [ids[0] ?? 0, ids[0] ?? 0], content: "x" }),
+			).rejects.toThrow("At least two distinct fact IDs are required to merge");
+			await expect(
+				mergeFacts(db, { ids: [ids[0] ?? 0, 999], content: "x" }),
+			).rejects.toThrow("Facts not found: 999");
+		});
+	});
 });
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { realpathSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { eq } from "drizzle-orm";
+import { createTestDb, type TestDB } from "../harness";
+import {
+	addResources,
+	getResource,
+	getResources,
+	updateResourceSnapshot,
+} from "../../src/db/operations/resources";
+import { checkStale } from "../../src/db/operations/staleness";
+import { refreshResources } from "../../src/db/operations/refresh";
+import { setConfig } from "../../src/db/operations/config";
+import { resources } from "../../src/db/schema";
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync(
+		"git",
+		["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+		{ cwd, encoding: "utf-8" },
+	).trim();
+
+describe("git-aware freshness", () => {
+	let db: TestDB;
+	let repo: string;
+	let head: string;
+	let previousCwd: string;
+
+	const addFile = (uri: string, snapshot: string) =>
+		addResources(db, {
+			resources: [{ uri, type: "file", tags: [], snapshot }],
+		});
+
+	const age = (uri: string, hours: number) =>
+		db
+			.update(resources)
+			.set({
+				lastVerifiedAt: new Date(Date.now() - hours * 3600_000).toISOString(),
+			})
+			.where(eq(resources.uri, uri));
+
+	const stored = async (uri: string) => {
+		const [row] = await db
+			.select()
+			.from(resources)
+			.where(eq(resources.uri, uri));
+		return row;
+	};
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		await setConfig(db, "skills_dir", "/tmp/factsets-test");
+		repo = realpathSync(await mkdtemp(join(tmpdir(), "factsets-gitfresh-")));
+		previousCwd = process.cwd();
+		process.chdir(repo);
+
+		git(repo, "init", "-q");
+		await writeFile(join(repo, "tsconfig.json"), "{}");
+		await writeFile(join(repo, "README.md"), "# Readme");
+		git(repo, "add", ".");
+		git(repo, "commit", "-q", "-m", "initial");
+		head = git(repo, "rev-parse", "HEAD");
+	});
+
+	afterEach(async () => {
+		process.chdir(previousCwd);
+		await rm(repo, { recursive: true, force: true });
+	});
+
+	it("pins clean tracked files to HEAD", async () => {
+		await writeFile(join(repo, "README.md"), "# Edited");
+		await writeFile(join(repo, "local.txt"), "untracked");
+		await addFile("./tsconfig.json", "{}");
+		await addFile("./README.md", "# Edited");
+		await addFile("./local.txt", "untracked");
+
+		expect((await stored("./tsconfig.json"))?.gitCommit).toBe(head);
+		expect((await stored("./README.md"))?.gitCommit).toBeNull();
+		expect((await stored("./local.txt"))?.gitCommit).toBeNull();
+	});
+
+	it("treats unchanged files as fresh regardless of age", async () => {
+		await addFile("./tsconfig.json", "{}");
+		await age("./tsconfig.json", 24 * 365);
+
+		const resource = await getResource(db, { uri: "./tsconfig.json" });
+		expect(resource?.isFresh).toBe(true);
+		expect(resource?.freshnessSource).toBe("git");
+
+		const stale = await checkStale(db, {});
+		expect(stale.staleResources).toHaveLength(0);
+		expect(stale.approachingStaleResources).toHaveLength(0);
+	});
+
+	it("treats files as stale as soon as git reports a change", async () => {
+		await addFile("./tsconfig.json", "{}");
+		await writeFile(join(repo, "tsconfig.json"), '{"strict": true}');
+
+		const { resources: found } = await getResources(db, {
+			uris: ["./tsconfig.json"],
+		});
+		expect(found[0]?.isFresh).toBe(false);
+		expect(found[0]?.freshnessSource).toBe("git");
+
+		const stale = await checkStale(db, {});
+		expect(stale.staleResources).toHaveLength(1);
+		expect(stale.staleResources[0]?.changedSinceCommit).toBe(head);
+
+		git(repo, "commit", "-q", "-am", "strict mode");
+		const afterCommit = await getResource(db, { uri: "./tsconfig.json" });
+		expect(afterCommit?.isFresh).toBe(false);
+	});
+
+	it("re-pins snapshots when they are replaced", async () => {
+		await addFile("./tsconfig.json", "{}");
+		await writeFile(join(repo, "tsconfig.json"), '{"strict": true}');
+		git(repo, "commit", "-q", "-am", "strict mode");
+		const next = git(repo, "rev-parse", "HEAD");
+
+		await updateResourceSnapshot(db, {
+			uri: "./tsconfig.json",
+			snapshot: '{"strict": true}',
+		});
+		expect((await stored("./tsconfig.json"))?.gitCommit).toBe(next);
+
+		await writeFile(join(repo, "tsconfig.json"), '{"strict": false}');
+		await refreshResources(db, { uris: ["./tsconfig.json"] });
+		expect((await stored("./tsconfig.json"))?.gitCommit).toBeNull();
+	});
+
+	it("refreshes files changed in git when selecting stale resources", async () => {
+		await addFile("./tsconfig.json", "{}");
+		await addFile("./README.md", "# Readme");
+		await age("./README.md", 24 * 365);
+		await writeFile(join(repo, "tsconfig.json"), '{"strict": true}');
+
+		const result = await refreshResources(db, {});
+
+		expect(result.results.map((r) => r.uri)).toEqual(["./tsconfig.json"]);
+		expect(result.refreshed).toBe(1);
+	});
+
+	it("falls back to age when git_freshness is disabled", async () => {
+		await setConfig(db, "git_freshness", "false");
+		await addFile("./tsconfig.json", "{}");
+		await age("./tsconfig.json", 24 * 365);
+
+		expect((await stored("./tsconfig.json"))?.gitCommit).toBeNull();
+		const resource = await getResource(db, { uri: "./tsconfig.json" });
+		expect(resource?.isFresh).toBe(false);
+		expect(resource?.freshnessSource).toBe("age");
+	});
+});
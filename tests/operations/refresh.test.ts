@@ -0,0 +1,540 @@
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	beforeAll,
+	afterAll,
+} from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { eq, inArray } from "drizzle-orm";
+import { createTestDb, type TestDB } from "../harness";
+import {
+	addResources,
+	getResource,
+	getResourceHistory,
+	updateResourceSnapshot,
+} from "../../src/db/operations/resources";
+import {
+	refreshResources,
+	resolveRefreshTarget,
+} from "../../src/db/operations/refresh";
+import { setConfig } from "../../src/db/operations/config";
+import { searchExecutionLogs } from "../../src/db/operations/execution-logs";
+import { checkStale } from "../../src/db/operations/staleness";
+import { resources } from "../../src/db/schema";
+
+describe("refresh operations", () => {
+	let db: TestDB;
+	let dir: string;
+	let server: ReturnType<typeof Bun.serve>;
+	let pageBody = "<html><body><h1>Docs</h1></body></html>";
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "factsets-refresh-"));
+		server = Bun.serve({
+			port: 0,
+			fetch(req) {
+				const path = new URL(req.url).pathname;
+				if (path === "/missing") {
+					return new Response("not found", { status: 404 });
+				}
+				if (path === "/auth") {
+					return new Response(req.headers.get("authorization") ?? "none");
+				}
+				if (path === "/stream") {
+					const chunk = new TextEncoder().encode("x".repeat(1024));
+					let sent = 0;
+					return new Response(
+						new ReadableStream({
+							pull(controller) {
+								if (sent++ < 20) controller.enqueue(chunk);
+								else controller.close();
+							},
+						}),
+					);
+				}
+				if (path === "/trace") {
+					return new Response(req.headers.get("x-trace") ?? "none");
+				}
+				return new Response(pageBody, {
+					headers: { "content-type": "text/html" },
+				});
+			},
+		});
+	});
+
+	afterAll(async () => {
+		server.stop(true);
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		await setConfig(db, "skills_dir", "/tmp/factsets-test");
+	});
+
+	describe("resolveRefreshTarget", () => {
+		it("resolves file URIs to paths", () => {
+			const target = resolveRefreshTarget({
+				uri: "file:///tmp/example.txt",
+				type: "file",
+				retrievalMethod: null,
+			});
+			expect(target).toEqual({ method: "file", target: "/tmp/example.txt" });
+		});
+
+		it("uses the retrieval method command", () => {
+			const target = resolveRefreshTarget({
+				uri: "package-scripts",
+				type: "config",
+				retrievalMethod: { type: "command", command: "cat package.json" },
+			});
+			expect(target).toEqual({
+				method: "command",
+				target: "cat package.json",
+			});
+		});
+
+		it("returns null for non-http URLs and unknown types", () => {
+			expect(
+				resolveRefreshTarget({
+					uri: "ftp://example.com/file",
+					type: "url",
+					retrievalMethod: null,
+				}),
+			).toBeNull();
+			expect(
+				resolveRefreshTarget({
+					uri: "notes",
+					type: "note",
+					retrievalMethod: null,
+				}),
+			).toBeNull();
+		});
+	});
+
+	describe("refreshResources", () => {
+		it("refreshes a file resource from disk", async () => {
+			const path = join(dir, "config.json");
+			await writeFile(path, '{"version": 1}');
+			const uri = pathToFileURL(path).href;
+			await addResources(db, {
+				resources: [{ uri, type: "file", tags: [], snapshot: "old" }],
+			});
+
+			const result = await refreshResources(db, { uris: [uri] });
+
+			expect(result.refreshed).toBe(1);
+			expect(result.results[0]?.method).toBe("file");
+			const resource = await getResource(db, { uri });
+			expect(resource?.content).toBe('{"version": 1}');
+
+			const history = await getResourceHistory(db, { uri });
+			expect(history.versions).toHaveLength(1);
+			expect(history.versions[0]?.sizeBytes).toBe(3);
+		});
+
+		it("reports unchanged when the content matches", async () => {
+			const path = join(dir, "same.txt");
+			await writeFile(path, "same content");
+			const uri = pathToFileURL(path).href;
+			await addResources(db, {
+				resources: [{ uri, type: "file", tags: [], snapshot: "same content" }],
+			});
+
+			const result = await refreshResources(db, { uris: [uri] });
+
+			expect(result.unchanged).toBe(1);
+			expect(result.results[0]?.status).toBe("unchanged");
+		});
+
+		it("runs commands and records failures", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "echo-output",
+						type: "config",
+						tags: [],
+						retrievalMethod: { type: "command", command: "echo hello" },
+					},
+					{
+						uri: "failing-command",
+						type: "config",
+						tags: [],
+						retrievalMethod: {
+							type: "command",
+							command: "echo broken >&2; exit 3",
+						},
+					},
+				],
+			});
+
+			const result = await refreshResources(db, {
+				uris: ["echo-output", "failing-command"],
+			});
+
+			expect(result.refreshed).toBe(1);
+			expect(result.failed).toBe(1);
+			const failure = result.results.find((r) => r.status === "failed");
+			expect(failure?.message).toContain("code 3");
+			expect(failure?.message).toContain("broken");
+
+			const echoed = await getResource(db, { uri: "echo-output" });
+			expect(echoed?.content).toBe("hello\n");
+
+			const [row] = await db
+				.select()
+				.from(resources)
+				.where(eq(resources.uri, "failing-command"));
+			expect(row?.lastRefreshStatus).toBe("failed");
+			expect(row?.lastRefreshAt).not.toBeNull();
+		});
+
+		it("runs commands under the execution policy", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "cleanup",
+						type: "config",
+						tags: [],
+						retrievalMethod: { type: "command", command: "rm -rf dist" },
+					},
+				],
+			});
+
+			const result = await refreshResources(db, { uris: ["cleanup"] });
+
+			expect(result.failed).toBe(1);
+			expect(result.results[0]?.message).toBe(
+				"Blocked by execution policy: Executable is denied: rm",
+			);
+			const { logs } = await searchExecutionLogs(db, {});
+			expect(logs).toHaveLength(1);
+			expect(logs[0]).toMatchObject({
+				command: "rm -rf dist",
+				context: "Refresh of resource cleanup",
+				success: false,
+			});
+		});
+
+		it("previews refreshes in dry-run mode", async () => {
+			const path = join(dir, "preview.txt");
+			await writeFile(path, "new");
+			const fileUri = pathToFileURL(path).href;
+			await addResources(db, {
+				resources: [
+					{ uri: fileUri, type: "file", tags: [], snapshot: "old" },
+					{
+						uri: "echo-preview",
+						type: "config",
+						tags: [],
+						snapshot: "old",
+						retrievalMethod: { type: "command", command: "echo hello" },
+					},
+				],
+			});
+
+			const result = await refreshResources(db, {
+				uris: [fileUri, "echo-preview"],
+				dryRun: true,
+			});
+
+			expect(result.results.map((r) => [r.status, r.message])).toEqual([
+				["dry_run", `Would read ${path}`],
+				["dry_run", "Would run `echo hello` in ."],
+			]);
+			expect((await getResource(db, { uri: "echo-preview" }))?.content).toBe(
+				"old",
+			);
+			const [row] = await db
+				.select()
+				.from(resources)
+				.where(eq(resources.uri, "echo-preview"));
+			expect(row?.lastRefreshAt).toBeNull();
+			expect((await searchExecutionLogs(db, {})).logs).toHaveLength(0);
+		});
+
+		it("fetches URLs with retrieval headers", async () => {
+			// Literal credentials are redacted on save unless redaction is off
+			await setConfig(db, "redact_secrets", "false");
+			const base = `http://localhost:${server.port}`;
+			await addResources(db, {
+				resources: [
+					{ uri: `${base}/docs`, type: "url", tags: [] },
+					{
+						uri: `${base}/auth`,
+						type: "api",
+						tags: [],
+						retrievalMethod: {
+							type: "api",
+							headers: { Authorization: "Bearer token" },
+						},
+					},
+					{ uri: `${base}/missing`, type: "url", tags: [] },
+				],
+			});
+
+			const result = await refreshResources(db, {
+				uris: [`${base}/docs`, `${base}/auth`, `${base}/missing`],
+			});
+
+			expect(result.refreshed).toBe(2);
+			expect(result.failed).toBe(1);
+			expect(
+				result.results.find((r) => r.uri === `${base}/missing`)?.message,
+			).toContain("404");
+
+			const docs = await getResource(db, { uri: `${base}/docs` });
+			expect(docs?.content).toBe(pageBody);
+			const auth = await getResource(db, { uri: `${base}/auth` });
+			expect(auth?.content).toBe("Bearer token");
+		});
+
+		it("does not expand environment references in headers", async () => {
+			process.env.FACTSETS_TEST_TOKEN = "Bearer from-env";
+			try {
+				const uri = `http://localhost:${server.port}/trace`;
+				await addResources(db, {
+					resources: [
+						{
+							uri,
+							type: "api",
+							tags: [],
+							retrievalMethod: {
+								type: "api",
+								headers: { "X-Trace": "${FACTSETS_TEST_TOKEN}" },
+							},
+						},
+					],
+				});
+
+				await refreshResources(db, { uris: [uri] });
+
+				const resource = await getResource(db, { uri });
+				expect(resource?.content).toBe("${FACTSETS_TEST_TOKEN}");
+			} finally {
+				delete process.env.FACTSETS_TEST_TOKEN;
+			}
+		});
+
+		it("decrypts encrypted headers only for the request", async () => {
+			const uri = `http://localhost:${server.port}/auth`;
+			process.env.FACTSETS_SECRET_KEY = "test-key";
+			try {
+				await addResources(db, {
+					resources: [
+						{
+							uri,
+							type: "api",
+							tags: [],
+							retrievalMethod: {
+								type: "api",
+								headers: { Authorization: "Bearer sealed" },
+							},
+						},
+					],
+				});
+
+				const result = await refreshResources(db, { uris: [uri] });
+
+				expect(result.refreshed).toBe(1);
+				expect((await getResource(db, { uri }))?.content).toBe("Bearer sealed");
+			} finally {
+				delete process.env.FACTSETS_SECRET_KEY;
+			}
+
+			process.env.FACTSETS_SECRET_KEY_FILE = join(dir, "missing.key");
+			try {
+				const result = await refreshResources(db, { uris: [uri] });
+
+				expect(result.failed).toBe(1);
+				expect(result.results[0]?.message).toContain("need a key");
+			} finally {
+				delete process.env.FACTSETS_SECRET_KEY_FILE;
+			}
+		});
+
+		it("redacts secrets from refreshed files", async () => {
+			const path = join(dir, "deploy.env");
+			await writeFile(path, "DEPLOY_KEY=hunter2\n");
+			const uri = pathToFileURL(path).href;
+			await addResources(db, {
+				resources: [{ uri, type: "file", tags: [], snapshot: "old" }],
+			});
+
+			const result = await refreshResources(db, { uris: [uri] });
+
+			expect(result.results[0]?.redactions).toEqual([
+				{ detector: "env_value", count: 1 },
+			]);
+			const resource = await getResource(db, { uri });
+			expect(resource?.content).toBe("DEPLOY_KEY=[REDACTED:env_value]\n");
+		});
+
+		it("converts oversized HTML to markdown", async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+			const previous = pageBody;
+			pageBody = `<html><body><h1>Guide</h1>${"<div><span>text</span></div>".repeat(60)}</body></html>`;
+			try {
+				const uri = `http://localhost:${server.port}/large`;
+				await addResources(db, { resources: [{ uri, type: "url", tags: [] }] });
+
+				const result = await refreshResources(db, { uris: [uri] });
+
+				expect(result.refreshed).toBe(1);
+				const resource = await getResource(db, { uri });
+				expect(resource?.content).toContain("# Guide");
+				expect(resource?.content).not.toContain("<div>");
+			} finally {
+				pageBody = previous;
+			}
+		});
+
+		it("fails refreshes whose response body is too large", async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+			const previous = pageBody;
+			pageBody = "y".repeat(20 * 1024);
+			try {
+				const sized = `http://localhost:${server.port}/sized`;
+				const streamed = `http://localhost:${server.port}/stream`;
+				await addResources(db, {
+					resources: [
+						{ uri: sized, type: "url", tags: [] },
+						{ uri: streamed, type: "url", tags: [] },
+					],
+				});
+
+				const result = await refreshResources(db, { uris: [sized, streamed] });
+
+				expect(result.refreshed).toBe(0);
+				expect(result.results.map((r) => r.message)).toEqual([
+					"Response body exceeds 10 KB; not refreshed",
+					"Response body exceeds 10 KB; not refreshed",
+				]);
+			} finally {
+				pageBody = previous;
+			}
+		});
+
+		it("flags file resources whose file was deleted as missing", async () => {
+			const path = join(dir, "deleted.txt");
+			const uri = pathToFileURL(path).href;
+			await addResources(db, {
+				resources: [{ uri, type: "file", tags: [], snapshot: "last known" }],
+			});
+
+			const result = await refreshResources(db, { uris: [uri] });
+
+			expect(result.missing).toBe(1);
+			expect(result.failed).toBe(0);
+			expect(result.results[0]?.status).toBe("missing");
+			expect(result.results[0]?.message).toBe(`File not found: ${path}`);
+
+			const resource = await getResource(db, { uri });
+			expect(resource?.content).toBe("last known");
+			const [row] = await db
+				.select()
+				.from(resources)
+				.where(eq(resources.uri, uri));
+			expect(row?.lastRefreshStatus).toBe("missing");
+		});
+
+		it("clears the missing status when a new snapshot is stored", async () => {
+			const path = join(dir, "replaced.txt");
+			const uri = pathToFileURL(path).href;
+			await addResources(db, {
+				resources: [{ uri, type: "file", tags: [], snapshot: "last known" }],
+			});
+			await refreshResources(db, { uris: [uri] });
+
+			await updateResourceSnapshot(db, { uri, snapshot: "submitted" });
+
+			const [row] = await db
+				.select()
+				.from(resources)
+				.where(eq(resources.uri, uri));
+			expect(row?.lastRefreshStatus).toBeNull();
+			expect(row?.lastRefreshMessage).toBeNull();
+			const stale = await checkStale(db, {});
+			expect(stale.missingResources).toEqual([]);
+		});
+
+		it("skips resources without a usable retrieval method", async () => {
+			await addResources(db, {
+				resources: [{ uri: "team-notes", type: "note", tags: [] }],
+			});
+
+			const result = await refreshResources(db, { uris: ["team-notes"] });
+
+			expect(result.skipped).toBe(1);
+			expect(result.results[0]?.method).toBeNull();
+		});
+
+		it("selects stale resources when no targets are given", async () => {
+			const freshPath = join(dir, "fresh.txt");
+			const stalePath = join(dir, "stale.txt");
+			await writeFile(freshPath, "fresh v2");
+			await writeFile(stalePath, "stale v2");
+			const freshUri = pathToFileURL(freshPath).href;
+			const staleUri = pathToFileURL(stalePath).href;
+			await addResources(db, {
+				resources: [
+					{ uri: freshUri, type: "file", tags: [], snapshot: "fresh v1" },
+					{ uri: staleUri, type: "file", tags: [], snapshot: "stale v1" },
+					{ uri: "no-method", type: "note", tags: [] },
+				],
+			});
+			await db
+				.update(resources)
+				.set({ lastVerifiedAt: "2020-01-01T00:00:00.000Z" })
+				.where(eq(resources.uri, staleUri));
+
+			const result = await refreshResources(db, { maxAgeHours: 24 });
+
+			expect(result.results.map((r) => r.uri)).toEqual([staleUri]);
+			expect(result.refreshed).toBe(1);
+		});
+
+		it("backs off resources whose last refresh failed", async () => {
+			const stalePath = join(dir, "stale.txt");
+			await writeFile(stalePath, "stale v2");
+			const staleUri = pathToFileURL(stalePath).href;
+			const failingUris = ["a", "b", "c"].map(
+				(name) => pathToFileURL(join(dir, `gone-${name}.txt`)).href,
+			);
+			await addResources(db, {
+				resources: [staleUri, ...failingUris].map((uri) => ({
+					uri,
+					type: "file",
+					tags: [],
+					snapshot: "v1",
+				})),
+			});
+			await db
+				.update(resources)
+				.set({ lastVerifiedAt: "2021-01-01T00:00:00.000Z" })
+				.where(eq(resources.uri, staleUri));
+			await db
+				.update(resources)
+				.set({ lastVerifiedAt: "2020-01-01T00:00:00.000Z" })
+				.where(inArray(resources.uri, failingUris));
+
+			const first = await refreshResources(db, { maxAgeHours: 24, limit: 2 });
+			expect(first.missing).toBe(2);
+
+			const second = await refreshResources(db, { maxAgeHours: 24, limit: 2 });
+			expect(second.results.map((r) => r.uri)).toEqual([
+				failingUris[2],
+				staleUri,
+			]);
+			expect(second.refreshed).toBe(1);
+
+			const third = await refreshResources(db, { maxAgeHours: 24, limit: 2 });
+			expect(third.results).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createTestDb, type TestDB } from "../harness";
+import {
+	addResourceGlob,
+	syncResourceGlobs,
+} from "../../src/db/operations/resource-globs";
+import {
+	deleteResources,
+	getResource,
+} from "../../src/db/operations/resources";
+import { setConfig } from "../../src/db/operations/config";
+
+describe("resource glob operations", () => {
+	let db: TestDB;
+	let dir: string;
+	let previousCwd: string;
+
+	const write = async (path: string, content: string | Buffer) => {
+		await mkdir(join(dir, path, ".."), { recursive: true });
+		await writeFile(join(dir, path), content);
+	};
+
+	beforeEach(async () => {
+		db = await createTestDb();
+		await setConfig(db, "skills_dir", "/tmp/factsets-test");
+		dir = await mkdtemp(join(tmpdir(), "factsets-globs-"));
+		previousCwd = process.cwd();
+		process.chdir(dir);
+
+		await write("src/user.schema.ts", "export const user = {};");
+		await write("src/api/order.schema.ts", "export const order = {};");
+		await write("src/index.ts", "export {};");
+	});
+
+	afterEach(async () => {
+		process.chdir(previousCwd);
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	describe("addResourceGlob", () => {
+		it("registers matching files with tags and a description template", async () => {
+			const result = await addResourceGlob(db, {
+				pattern: "src/**/*.schema.ts",
+				tags: ["schemas"],
+				description: "Schema {name} in {dir}",
+			});
+
+			expect(result.matched).toBe(2);
+			expect(result.created.map((r) => r.uri)).toEqual([
+				"./src/api/order.schema.ts",
+				"./src/user.schema.ts",
+			]);
+			expect(result.skipped).toEqual([]);
+
+			const resource = await getResource(db, { uri: "./src/user.schema.ts" });
+			expect(resource?.content).toBe("export const user = {};");
+			expect(resource?.retrievalMethod).toEqual({ type: "file" });
+		});
+
+		it("requires tags for a new pattern", async () => {
+			await expect(
+				addResourceGlob(db, { pattern: "src/**/*.ts" }),
+			).rejects.toThrow("Tags are required");
+		});
+
+		it("remembers the glob so re-running picks up new files", async () => {
+			await addResourceGlob(db, {
+				pattern: "./src/**/*.schema.ts",
+				tags: ["schemas"],
+				maxAgeHours: 6,
+			});
+			await write(
+				"src/billing/invoice.schema.ts",
+				"export const invoice = {};",
+			);
+
+			const rerun = await addResourceGlob(db, {
+				pattern: "src/**/*.schema.ts",
+			});
+
+			expect(rerun.created.map((r) => r.uri)).toEqual([
+				"./src/billing/invoice.schema.ts",
+			]);
+			expect(rerun.skipped.map((s) => s.reason)).toEqual(["exists", "exists"]);
+
+			const added = await getResource(db, {
+				uri: "./src/billing/invoice.schema.ts",
+			});
+			expect(added?.freshnessThresholdHours).toBe(6);
+		});
+
+		it("applies the limit to new files only", async () => {
+			const first = await addResourceGlob(db, {
+				pattern: "src/**/*.ts",
+				tags: ["code"],
+				limit: 2,
+			});
+			expect(first.created).toHaveLength(2);
+			expect(first.limited).toBe(true);
+
+			const second = await addResourceGlob(db, {
+				pattern: "src/**/*.ts",
+				limit: 2,
+			});
+			expect(second.created.map((r) => r.uri)).toEqual([
+				"./src/user.schema.ts",
+			]);
+			expect(second.skipped.map((s) => s.reason)).toEqual(["exists", "exists"]);
+			expect(second.matched).toBe(3);
+			expect(second.limited).toBe(false);
+		});
+
+		it("reports binary, deleted and oversize files", async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+			await setConfig(db, "snapshot_overflow_behavior", "auto");
+			await write("assets/logo.bin", Buffer.from([0x89, 0x00, 0x01]));
+			await write("assets/big.txt", "x".repeat(2048));
+			await write("assets/old.txt", "old");
+
+			await addResourceGlob(db, {
+				pattern: "assets/old.txt",
+				tags: ["assets"],
+			});
+			await deleteResources(db, { uris: ["./assets/old.txt"], soft: true });
+
+			const result = await addResourceGlob(db, {
+				pattern: "assets/*",
+				tags: ["assets"],
+			});
+
+			expect(result.created).toEqual([]);
+			expect(result.skipped).toEqual([
+				{ uri: "./assets/logo.bin", reason: "binary" },
+				{ uri: "./assets/old.txt", reason: "deleted" },
+			]);
+			expect(result.oversize).toEqual([
+				{ uri: "./assets/big.txt", currentSizeKb: 2, maxSizeKb: 1 },
+			]);
+		});
+	});
+
+	describe("syncResourceGlobs", () => {
+		it("re-expands every remembered glob", async () => {
+			await addResourceGlob(db, {
+				pattern: "src/**/*.schema.ts",
+				tags: ["schemas"],
+			});
+			await addResourceGlob(db, {
+				pattern: "docs/*.md",
+				tags: ["docs"],
+			});
+			await write("docs/guide.md", "# Guide");
+
+			const result = await syncResourceGlobs(db, {});
+
+			expect(result.globs.map((g) => g.pattern)).toEqual([
+				"src/**/*.schema.ts",
+				"docs/*.md",
+			]);
+			expect(result.globs[0]?.created).toEqual([]);
+			expect(result.globs[1]?.created.map((r) => r.uri)).toEqual([
+				"./docs/guide.md",
+			]);
+		});
+
+		it("rejects unknown patterns", async () => {
+			await expect(
+				syncResourceGlobs(db, { patterns: ["never/*.ts"] }),
+			).rejects.toThrow("Unknown glob patterns: never/*.ts");
+		});
+	});
+});
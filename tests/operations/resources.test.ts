@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { createTestDb, type TestDB } from "../harness";
 import {
 	addResources,
@@ -10,8 +10,15 @@ import {
 	updateResource,
 	getStaleResources,
 	deleteResources,
+	getResourceHistory,
+	pruneResourceSnapshots,
+	diffResourceSnapshot,
+	getResourceSection,
+	findDuplicateResources,
 } from "../../src/db/operations/resources";
+import { createSkill } from "../../src/db/operations/skills";
 import { setConfig } from "../../src/db/operations/config";
+import { registerExtractor } from "../../src/utils/extractors";
 
 describe("resources operations - extended coverage", () => {
 	let db: TestDB;
@@ -21,6 +28,137 @@ describe("resources operations - extended coverage", () => {
 		await setConfig(db, "skills_dir", "/tmp/factsets-test");
 	});
 
+	describe("searchResources full-text query", () => {
+		beforeEach(async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/migrations.md",
+						type: "file",
+						tags: ["docs"],
+						description: "Database migration guide",
+						snapshot: [
+							"# Migrations",
+							"",
+							"Generate migrations with drizzle-kit generate.",
+							"Never run drizzle-kit push against production.",
+						].join("\n"),
+					},
+					{
+						uri: "./docs/testing.md",
+						type: "file",
+						tags: ["testing"],
+						description: "How tests are run",
+						snapshot: "Run the suite with bun test.\nMigrations run first.",
+					},
+					{
+						uri: "./package.json",
+						type: "file",
+						tags: ["config"],
+						description: "Package manifest listing drizzle-kit",
+						snapshot: '{ "name": "example" }',
+					},
+				],
+			});
+		});
+
+		it("returns matching lines with line numbers", async () => {
+			const result = await searchResources(db, {
+				query: '"drizzle-kit push"',
+			});
+
+			expect(result.resources).toHaveLength(1);
+			const [resource] = result.resources;
+			expect(resource!.uri).toBe("./docs/migrations.md");
+			expect(resource!.snippet).toContain("**drizzle-kit push**");
+			expect(resource!.matches).toEqual([
+				{
+					line: 4,
+					text: "Never run **drizzle-kit push** against production.",
+				},
+			]);
+		});
+
+		it("searches descriptions and ranks by relevance", async () => {
+			const result = await searchResources(db, { query: "migrations" });
+
+			expect(result.resources.map((r) => r.uri)).toEqual([
+				"./docs/migrations.md",
+				"./docs/testing.md",
+			]);
+			expect(result.resources[0]!.matches?.map((m) => m.line)).toEqual([1, 3]);
+
+			const described = await searchResources(db, { query: "manifest" });
+			expect(described.resources[0]!.uri).toBe("./package.json");
+			expect(described.resources[0]!.matches).toEqual([]);
+		});
+
+		it("combines query with other filters", async () => {
+			const result = await searchResources(db, {
+				query: "drizzle*",
+				tags: ["config"],
+			});
+			expect(result.resources.map((r) => r.uri)).toEqual(["./package.json"]);
+
+			const byTag = await searchResources(db, { tags: ["docs"] });
+			expect(byTag.resources[0]!.snippet).toBeUndefined();
+			expect(byTag.resources[0]!.matches).toBeUndefined();
+		});
+
+		it("reflects snapshot updates and deletions", async () => {
+			const found = await searchResources(db, { query: "bun" });
+			const id = found.resources[0]!.id;
+
+			await updateResourceSnapshot(db, {
+				id,
+				snapshot: "Run the suite with vitest.",
+			});
+			expect((await searchResources(db, { query: "bun" })).resources).toEqual(
+				[],
+			);
+			expect(
+				(await searchResources(db, { query: "vitest" })).resources,
+			).toHaveLength(1);
+
+			await deleteResources(db, { ids: [id], soft: false });
+			expect(
+				(await searchResources(db, { query: "vitest" })).resources,
+			).toEqual([]);
+		});
+
+		it("points matches in chunked snapshots at their section", async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+			await setConfig(db, "snapshot_chunk_size_kb", "1");
+			const sections = Array.from(
+				{ length: 4 },
+				(_, i) =>
+					`## Part ${i}\n\n${"Filler text about nothing in particular. ".repeat(20)}`,
+			);
+			sections[2] += "\nThe rollback procedure lives here.";
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/runbook.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: sections.join("\n\n"),
+						overflowBehavior: { behavior: "chunk" },
+					},
+				],
+			});
+
+			const result = await searchResources(db, { query: "rollback" });
+
+			const [match] = result.resources[0]!.matches!;
+			expect(match!.text).toBe("The **rollback** procedure lives here.");
+			const section = await getResourceSection(db, {
+				uri: "./docs/runbook.md",
+				index: match!.section!,
+			});
+			expect(section.content).toContain("rollback procedure");
+		});
+	});
+
 	describe("searchResources pagination", () => {
 		it("uses cursor for pagination", async () => {
 			await addResources(db, {
@@ -104,6 +242,20 @@ describe("resources operations - extended coverage", () => {
 			expect(result.resources[0]!.uri).toContain("/src/");
 		});
 
+		it("matches uriPattern as a substring of URLs", async () => {
+			await addResources(db, {
+				resources: [
+					{ uri: "https://example.com/api/v1", type: "url", tags: [] },
+					{ uri: "https://example.com/docs", type: "url", tags: [] },
+				],
+			});
+
+			const result = await searchResources(db, { uriPattern: "/api/" });
+			expect(result.resources.map((r) => r.uri)).toEqual([
+				"https://example.com/api/v1",
+			]);
+		});
+
 		it("orders by oldest first", async () => {
 			await addResources(db, {
 				resources: [
@@ -309,6 +461,203 @@ describe("resources operations - extended coverage", () => {
 		});
 	});
 
+	describe("snapshot history", () => {
+		it("records previous snapshots when replaced", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "file:///history.ts",
+						type: "file",
+						tags: ["test"],
+						snapshot: "version 1",
+					},
+				],
+			});
+			const id = added.resources[0]!.id;
+
+			await updateResourceSnapshot(db, { id, snapshot: "version 2" });
+			await updateResourceSnapshots(db, [
+				{ resourceId: id, snapshot: "version 3" },
+			]);
+
+			const history = await getResourceHistory(db, { id });
+			expect(history.uri).toBe("file:///history.ts");
+			expect(history.versions).toHaveLength(2);
+			expect(history.versions[0]!.sizeBytes).toBe("version 2".length);
+			expect(history.versions[0]!.capturedAt).not.toBeNull();
+			expect(history.current.sizeBytes).toBe("version 3".length);
+			expect(history.snapshot).toBeUndefined();
+
+			const oldest = await getResourceHistory(db, {
+				uri: "file:///history.ts",
+				snapshotId: history.versions[1]!.id,
+			});
+			expect(oldest.snapshot!.content).toBe("version 1");
+		});
+
+		it("does not record unchanged snapshots", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "file:///same.ts",
+						type: "file",
+						tags: ["test"],
+						snapshot: "same",
+					},
+				],
+			});
+			const id = added.resources[0]!.id;
+
+			await updateResourceSnapshot(db, { id, snapshot: "same" });
+
+			const history = await getResourceHistory(db, { id });
+			expect(history.versions).toHaveLength(0);
+		});
+
+		it("throws for unknown resources and versions", async () => {
+			await expect(getResourceHistory(db, { id: 999999 })).rejects.toThrow(
+				"Resource not found",
+			);
+
+			const added = await addResources(db, {
+				resources: [{ uri: "file:///none.ts", type: "file", tags: ["test"] }],
+			});
+			await expect(
+				getResourceHistory(db, {
+					id: added.resources[0]!.id,
+					snapshotId: 999999,
+				}),
+			).rejects.toThrow("Snapshot version 999999 not found");
+		});
+
+		it("prunes history beyond the retained versions", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{ uri: "file:///a.ts", type: "file", tags: ["test"], snapshot: "a0" },
+					{ uri: "file:///b.ts", type: "file", tags: ["test"], snapshot: "b0" },
+				],
+			});
+			const [a, b] = added.resources;
+
+			for (let i = 1; i <= 3; i++) {
+				await updateResourceSnapshot(db, { id: a!.id, snapshot: `a${i}` });
+			}
+			await updateResourceSnapshot(db, { id: b!.id, snapshot: "b1" });
+
+			const result = await pruneResourceSnapshots(db, 1);
+			expect(result.pruned).toBe(2);
+
+			const historyA = await getResourceHistory(db, { id: a!.id });
+			expect(historyA.versions).toHaveLength(1);
+			const kept = await getResourceHistory(db, {
+				id: a!.id,
+				snapshotId: historyA.versions[0]!.id,
+			});
+			expect(kept.snapshot!.content).toBe("a2");
+
+			const historyB = await getResourceHistory(db, { id: b!.id });
+			expect(historyB.versions).toHaveLength(1);
+		});
+
+		it("removes history with hard-deleted resources", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "file:///gone.ts",
+						type: "file",
+						tags: ["test"],
+						snapshot: "1",
+					},
+				],
+			});
+			const id = added.resources[0]!.id;
+			await updateResourceSnapshot(db, { id, snapshot: "2" });
+
+			await deleteResources(db, { ids: [id] });
+
+			const result = await pruneResourceSnapshots(db, 10);
+			expect(result.pruned).toBe(0);
+		});
+	});
+
+	describe("diffResourceSnapshot", () => {
+		it("diffs the stored snapshot against a candidate", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "file:///diff.ts",
+						type: "file",
+						tags: ["test"],
+						snapshot: "one\ntwo\nthree",
+					},
+				],
+			});
+
+			const result = await diffResourceSnapshot(db, {
+				id: added.resources[0]!.id,
+				candidate: "one\n2\nthree\nfour",
+			});
+
+			expect(result.identical).toBe(false);
+			expect(result.added).toBe(2);
+			expect(result.removed).toBe(1);
+			expect(result.from.label).toBe("current");
+			expect(result.to.label).toBe("candidate");
+			expect(result.diff).toContain("--- file:///diff.ts (current)");
+			expect(result.diff).toContain("-two\n+2");
+			expect(result.linkedSkills).toEqual([]);
+		});
+
+		it("diffs between historical versions", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{ uri: "file:///v.ts", type: "file", tags: ["test"], snapshot: "v1" },
+				],
+			});
+			const id = added.resources[0]!.id;
+			await updateResourceSnapshot(db, { id, snapshot: "v2" });
+			await updateResourceSnapshot(db, { id, snapshot: "v3" });
+
+			const history = await getResourceHistory(db, { id });
+			const [v2, v1] = history.versions;
+
+			const between = await diffResourceSnapshot(db, {
+				id,
+				fromSnapshotId: v1!.id,
+				toSnapshotId: v2!.id,
+			});
+			expect(between.diff).toContain("-v1\n+v2");
+
+			const toCurrent = await diffResourceSnapshot(db, {
+				uri: "file:///v.ts",
+				fromSnapshotId: v1!.id,
+			});
+			expect(toCurrent.to.label).toBe("current");
+			expect(toCurrent.diff).toContain("-v1\n+v3");
+		});
+
+		it("reports identical content", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "file:///same.ts",
+						type: "file",
+						tags: ["test"],
+						snapshot: "x",
+					},
+				],
+			});
+
+			const result = await diffResourceSnapshot(db, {
+				id: added.resources[0]!.id,
+				candidate: "x",
+			});
+			expect(result.identical).toBe(true);
+			expect(result.diff).toBe("");
+			expect(result.from.snapshotHash).toBe(result.to.snapshotHash);
+		});
+	});
+
 	describe("getStaleResources", () => {
 		it("returns resources older than threshold", async () => {
 			await addResources(db, {
@@ -542,4 +891,961 @@ describe("resources operations - extended coverage", () => {
 			expect(resource!.content).toBe("original content");
 		});
 	});
+
+	describe("freshness override", () => {
+		it("uses the stored maxAgeHours ahead of the inferred category", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///docs/stable.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: "content",
+						maxAgeHours: 720,
+					},
+					{
+						uri: "file:///docs/other.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: "content",
+					},
+				],
+			});
+
+			const stable = await getResource(db, { uri: "file:///docs/stable.md" });
+			expect(stable?.categories).toContain("documentation");
+			expect(stable?.freshnessThresholdHours).toBe(720);
+
+			const batch = await getResources(db, {
+				uris: ["file:///docs/stable.md", "file:///docs/other.md"],
+			});
+			const thresholds = Object.fromEntries(
+				batch.resources.map((r) => [r.uri, r.freshnessThresholdHours]),
+			);
+			expect(thresholds["file:///docs/stable.md"]).toBe(720);
+			expect(thresholds["file:///docs/other.md"]).toBe(72);
+
+			const search = await searchResources(db, { tags: ["docs"] });
+			const found = search.resources.find(
+				(r) => r.uri === "file:///docs/stable.md",
+			);
+			expect(found?.freshnessThresholdHours).toBe(720);
+		});
+
+		it("sets and clears the override with updateResource", async () => {
+			await addResources(db, {
+				resources: [
+					{ uri: "file:///api/spec.yaml", type: "file", tags: ["api"] },
+				],
+			});
+
+			await updateResource(db, {
+				uri: "file:///api/spec.yaml",
+				maxAgeHours: 2,
+			});
+			let resource = await getResource(db, { uri: "file:///api/spec.yaml" });
+			expect(resource?.freshnessThresholdHours).toBe(2);
+
+			await updateResource(db, {
+				uri: "file:///api/spec.yaml",
+				maxAgeHours: null,
+			});
+			resource = await getResource(db, { uri: "file:///api/spec.yaml" });
+			expect(resource?.freshnessThresholdHours).not.toBe(2);
+		});
+
+		it("lets a request maxAgeHours decide isFresh", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///notes.txt",
+						type: "file",
+						tags: [],
+						snapshot: "content",
+						maxAgeHours: 48,
+					},
+				],
+			});
+
+			const { resources: dbResources } = await import("../../src/db/schema");
+			const { eq } = await import("drizzle-orm");
+			const oldDate = new Date();
+			oldDate.setHours(oldDate.getHours() - 10);
+			await db
+				.update(dbResources)
+				.set({ lastVerifiedAt: oldDate.toISOString() })
+				.where(eq(dbResources.uri, "file:///notes.txt"));
+
+			const stored = await getResource(db, { uri: "file:///notes.txt" });
+			expect(stored?.isFresh).toBe(true);
+
+			const overridden = await getResource(db, {
+				uri: "file:///notes.txt",
+				maxAgeHours: 5,
+			});
+			expect(overridden?.isFresh).toBe(false);
+		});
+	});
+
+	describe("chunked snapshots", () => {
+		const guide = [
+			"# Guide",
+			"Overview of the project.",
+			"## Install",
+			"x".repeat(1500),
+			"## Configure",
+			"y".repeat(1500),
+			"## Deploy",
+			"Push to main.",
+		].join("\n");
+
+		beforeEach(async () => {
+			await setConfig(db, "snapshot_max_size_kb", "2");
+			await setConfig(db, "snapshot_chunk_size_kb", "2");
+		});
+
+		it("stores oversized snapshots in sections and returns an outline", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "file:///docs/guide.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: guide,
+						overflowBehavior: { behavior: "chunk" },
+					},
+				],
+			});
+			expect(added.resources[0]?.hasSnapshot).toBe(true);
+
+			const resource = await getResource(db, { uri: "file:///docs/guide.md" });
+			expect(resource?.content).toBe("# Guide\nOverview of the project.");
+			expect(resource?.outline?.map((s) => s.title)).toEqual([
+				"Guide",
+				"Guide > Install",
+				"Guide > Configure",
+				"Guide > Deploy",
+			]);
+			expect(resource?.outline?.[1]).toMatchObject({
+				index: 1,
+				startLine: 3,
+				endLine: 4,
+			});
+
+			const batch = await getResources(db, { uris: ["file:///docs/guide.md"] });
+			expect(batch.resources[0]?.outline).toHaveLength(4);
+
+			const history = await getResourceHistory(db, {
+				uri: "file:///docs/guide.md",
+			});
+			expect(history.current.sizeBytes).toBe(Buffer.byteLength(guide));
+		});
+
+		it("returns sections by index or title", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///docs/guide.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: guide,
+						overflowBehavior: { behavior: "chunk" },
+					},
+				],
+			});
+
+			const byIndex = await getResourceSection(db, {
+				uri: "file:///docs/guide.md",
+				index: 3,
+			});
+			expect(byIndex).toMatchObject({
+				title: "Guide > Deploy",
+				content: "## Deploy\nPush to main.",
+				sectionCount: 4,
+			});
+
+			const byTitle = await getResourceSection(db, {
+				uri: "file:///docs/guide.md",
+				title: "configure",
+			});
+			expect(byTitle.index).toBe(2);
+			expect(byTitle.content).toContain("y".repeat(1500));
+
+			await expect(
+				getResourceSection(db, { uri: "file:///docs/guide.md", index: 9 }),
+			).rejects.toThrow("Section index 9 not found");
+		});
+
+		it("chunks the config default and oversized updates", async () => {
+			await setConfig(db, "snapshot_overflow_behavior", "chunk");
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///docs/guide.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: guide,
+					},
+				],
+			});
+			expect(
+				(await getResource(db, { uri: "file:///docs/guide.md" }))?.outline,
+			).toHaveLength(4);
+
+			await updateResourceSnapshot(db, {
+				uri: "file:///docs/guide.md",
+				snapshot: "# Guide\nNow short",
+			});
+			const shortened = await getResource(db, { uri: "file:///docs/guide.md" });
+			expect(shortened?.outline).toBeUndefined();
+			expect(shortened?.content).toBe("# Guide\nNow short");
+
+			await updateResourceSnapshot(db, {
+				uri: "file:///docs/guide.md",
+				snapshot: `${guide}\n## Rollback\nRevert the deploy.`,
+			});
+			const section = await getResourceSection(db, {
+				uri: "file:///docs/guide.md",
+				title: "Rollback",
+			});
+			expect(section.index).toBe(4);
+		});
+
+		it("rejects section requests for unchunked resources", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///docs/small.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: "# Small",
+					},
+				],
+			});
+
+			await expect(
+				getResourceSection(db, { uri: "file:///docs/small.md", index: 0 }),
+			).rejects.toThrow("is not chunked");
+		});
+	});
+
+	describe("secret redaction", () => {
+		const token = `ghp_${"t".repeat(36)}`;
+
+		it("redacts snapshots and retrieval headers before storing", async () => {
+			const result = await addResources(db, {
+				resources: [
+					{
+						uri: "./.env",
+						type: "file",
+						tags: [],
+						snapshot: "API_URL=https://api.example.com\nAPI_TOKEN=s3cr3t",
+					},
+					{
+						uri: "https://api.example.com/status",
+						type: "api",
+						tags: [],
+						retrievalMethod: {
+							type: "api",
+							headers: {
+								Authorization: "Bearer opaque",
+								"X-Request-Source": "factsets",
+							},
+						},
+					},
+				],
+			});
+
+			expect(result.redactions).toEqual([
+				{ uri: "./.env", detector: "env_value", count: 2 },
+				{
+					uri: "https://api.example.com/status",
+					detector: "header",
+					count: 1,
+				},
+			]);
+
+			const env = await getResource(db, { uri: "./.env" });
+			expect(env?.content).toBe(
+				"API_URL=[REDACTED:env_value]\nAPI_TOKEN=[REDACTED:env_value]",
+			);
+			const { resources: dbResources } = await import("../../src/db/schema");
+			const { eq } = await import("drizzle-orm");
+			const [api] = await db
+				.select({ retrievalMethod: dbResources.retrievalMethod })
+				.from(dbResources)
+				.where(eq(dbResources.uri, "https://api.example.com/status"));
+			expect(api?.retrievalMethod?.headers).toEqual({
+				Authorization: "Bearer [REDACTED:header]",
+				"X-Request-Source": "factsets",
+			});
+		});
+
+		it("redacts snapshot updates and retrieval method changes", async () => {
+			const { resources: added } = await addResources(db, {
+				resources: [
+					{ uri: "./notes.md", type: "file", tags: [], snapshot: "clean" },
+				],
+			});
+			const id = added[0]!.id;
+
+			const single = await updateResourceSnapshot(db, {
+				id,
+				snapshot: `token ${token}`,
+			});
+			expect(single.redactions).toEqual([
+				{ detector: "github_token", count: 1 },
+			]);
+			expect((await getResource(db, { id }))?.content).toBe(
+				"token [REDACTED:github_token]",
+			);
+
+			const batch = await updateResourceSnapshots(db, [
+				{ resourceId: id, snapshot: `again ${token}` },
+			]);
+			expect(batch.redactions).toEqual([
+				{ resourceId: id, detector: "github_token", count: 1 },
+			]);
+
+			const updated = await updateResource(db, {
+				id,
+				retrievalMethod: {
+					type: "command",
+					command: `curl -H "Authorization: token ${token}" https://api.github.com`,
+				},
+			});
+			expect(updated.redactions).toEqual([
+				{ detector: "github_token", count: 1 },
+			]);
+			expect((await getResource(db, { id }))?.retrievalMethod?.command).toBe(
+				'curl -H "Authorization: token [REDACTED:github_token]" https://api.github.com',
+			);
+		});
+
+		it("applies redaction_patterns from config", async () => {
+			await setConfig(
+				db,
+				"redaction_patterns",
+				JSON.stringify({ internal_key: "ik-[0-9]{8}" }),
+			);
+
+			const result = await addResources(db, {
+				resources: [
+					{
+						uri: "./config.yaml",
+						type: "file",
+						tags: [],
+						snapshot: "key: ik-12345678",
+					},
+				],
+			});
+
+			expect(result.redactions).toEqual([
+				{ uri: "./config.yaml", detector: "internal_key", count: 1 },
+			]);
+			expect((await getResource(db, { uri: "./config.yaml" }))?.content).toBe(
+				"key: [REDACTED:internal_key]",
+			);
+		});
+	});
+
+	describe("encrypted headers", () => {
+		beforeEach(() => {
+			process.env.FACTSETS_SECRET_KEY = "test-key";
+		});
+
+		afterEach(() => {
+			delete process.env.FACTSETS_SECRET_KEY;
+		});
+
+		const uri = "https://api.example.com/private";
+
+		async function storedHeaders() {
+			const { resources: dbResources } = await import("../../src/db/schema");
+			const { eq } = await import("drizzle-orm");
+			const [row] = await db
+				.select({ retrievalMethod: dbResources.retrievalMethod })
+				.from(dbResources)
+				.where(eq(dbResources.uri, uri));
+			return row?.retrievalMethod?.headers ?? {};
+		}
+
+		it("encrypts sensitive headers and masks them in output", async () => {
+			const result = await addResources(db, {
+				resources: [
+					{
+						uri,
+						type: "api",
+						tags: [],
+						retrievalMethod: {
+							type: "api",
+							headers: {
+								Authorization: "Bearer opaque",
+								"X-Tenant": "acme",
+								"X-Region": "eu",
+							},
+							sensitiveHeaders: ["x-tenant"],
+						},
+					},
+				],
+			});
+
+			expect(result.redactions).toBeUndefined();
+			const stored = await storedHeaders();
+			expect(stored.Authorization).toStartWith("enc:v1:");
+			expect(stored["X-Tenant"]).toStartWith("enc:v1:");
+			expect(stored["X-Region"]).toBe("eu");
+
+			const resource = await getResource(db, { uri });
+			expect(resource?.retrievalMethod?.headers).toEqual({
+				Authorization: "***",
+				"X-Tenant": "***",
+				"X-Region": "eu",
+			});
+		});
+
+		it("keeps masked headers when a retrieval method is saved back", async () => {
+			const { resources: added } = await addResources(db, {
+				resources: [
+					{
+						uri,
+						type: "api",
+						tags: [],
+						retrievalMethod: {
+							type: "api",
+							headers: { Authorization: "Bearer opaque" },
+						},
+					},
+				],
+			});
+			const before = await storedHeaders();
+
+			const shown = await getResource(db, { uri });
+			await updateResource(db, {
+				id: added[0]!.id,
+				retrievalMethod: {
+					...shown!.retrievalMethod!,
+					url: "https://api.example.com/v2/private",
+				},
+			});
+
+			expect(await storedHeaders()).toEqual(before);
+		});
+	});
+
+	describe("URI canonicalization", () => {
+		it("stores one resource per location however the URI is written", async () => {
+			const first = await addResources(db, {
+				resources: [
+					{ uri: "src/a.ts", type: "file", tags: ["code"] },
+					{
+						uri: "https://Example.com/docs/?utm_source=chat#setup",
+						type: "url",
+						tags: ["docs"],
+					},
+				],
+			});
+			expect(first.resources.map((r) => r.uri)).toEqual([
+				"./src/a.ts",
+				"https://example.com/docs",
+			]);
+
+			const second = await addResources(db, {
+				resources: [
+					{ uri: `${process.cwd()}/src/a.ts`, type: "file", tags: ["code"] },
+					{ uri: "./src/a.ts", type: "file", tags: ["code"] },
+					{ uri: "https://example.com/docs", type: "url", tags: ["docs"] },
+				],
+			});
+			expect(second.created).toBe(0);
+			expect(second.resources.map((r) => r.id)).toEqual(
+				first.resources.map((r) => r.id),
+			);
+		});
+
+		it("looks resources up by any form of their URI", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./src/a.ts",
+						type: "file",
+						tags: ["code"],
+						snapshot: "export {}",
+					},
+				],
+			});
+
+			const byPath = await getResource(db, { uri: "src/a.ts" });
+			expect(byPath?.uri).toBe("./src/a.ts");
+			const byFileUrl = await getResources(db, {
+				uris: [`file://${process.cwd()}/src/a.ts`, "./missing.ts"],
+			});
+			expect(byFileUrl.resources).toHaveLength(1);
+			expect(byFileUrl.notFound).toEqual(["./missing.ts"]);
+
+			const searched = await searchResources(db, {
+				uriPattern: `${process.cwd()}/src`,
+			});
+			expect(searched.resources.map((r) => r.uri)).toEqual(["./src/a.ts"]);
+		});
+
+		it("finds and merges resources stored under variant URIs", async () => {
+			const { resources: dbResources, skillResources } = await import(
+				"../../src/db/schema"
+			);
+			const { eq } = await import("drizzle-orm");
+
+			// Rows stored before URIs were canonicalized
+			await db.insert(dbResources).values([
+				{ uri: "src/b.ts", type: "file", retrievalCount: 2 },
+				{
+					uri: `${process.cwd()}/src/b.ts`,
+					type: "file",
+					snapshot: "export const b = 1;",
+					lastVerifiedAt: "2026-01-01T00:00:00.000Z",
+					retrievalCount: 3,
+				},
+				{ uri: "https://example.com/api/", type: "url" },
+				{ uri: "https://example.com/api#auth", type: "url" },
+			]);
+			const [older, newer] = await db.select().from(dbResources);
+			await updateResource(db, { id: older!.id, tags: ["legacy"] });
+			await createSkill(db, {
+				name: "uses-b",
+				title: "Uses b",
+				content: "# Uses b",
+				tags: ["code"],
+				references: { resources: [older!.id] },
+			});
+
+			const report = await findDuplicateResources(db, {});
+			expect(report.merged).toBe(0);
+			expect(report.groups).toEqual([
+				{
+					uri: "./src/b.ts",
+					keep: { id: newer!.id, uri: newer!.uri },
+					duplicates: [{ id: older!.id, uri: "src/b.ts" }],
+				},
+				expect.objectContaining({ uri: "https://example.com/api" }),
+			]);
+
+			const result = await findDuplicateResources(db, { merge: true });
+			expect(result.merged).toBe(2);
+			expect((await findDuplicateResources(db, {})).groups).toEqual([]);
+
+			const [kept] = await db
+				.select()
+				.from(dbResources)
+				.where(eq(dbResources.id, newer!.id));
+			expect(kept).toMatchObject({
+				uri: "./src/b.ts",
+				snapshot: "export const b = 1;",
+				retrievalCount: 5,
+			});
+			const tagged = await searchResources(db, { tags: ["legacy"] });
+			expect(tagged.resources.map((r) => r.id)).toEqual([newer!.id]);
+			const links = await db.select().from(skillResources);
+			expect(links.map((l) => l.resourceId)).toEqual([newer!.id]);
+		});
+	});
+
+	describe("structured summaries", () => {
+		const spec = JSON.stringify({
+			openapi: "3.1.0",
+			info: { title: "Orders", version: "2" },
+			paths: { "/orders": { get: { summary: "List orders" } } },
+		});
+
+		beforeEach(async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./api/openapi.json",
+						type: "file",
+						tags: ["api"],
+						snapshot: spec,
+					},
+					{
+						uri: "./docs/notes.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: "# Notes",
+					},
+				],
+			});
+		});
+
+		it("returns the summary instead of the snapshot when asked", async () => {
+			const result = await getResources(db, {
+				uris: ["./api/openapi.json", "./docs/notes.md"],
+				summaryOnly: true,
+			});
+
+			const [api, notes] = result.resources;
+			expect(api!.content).toBe("");
+			expect(api!.structuredSummary).toEqual({
+				extractor: "openapi",
+				data: {
+					specVersion: "3.1.0",
+					title: "Orders",
+					version: "2",
+					endpoints: ["GET /orders: List orders"],
+				},
+			});
+			expect(notes!.content).toBe("# Notes");
+			expect(notes!.structuredSummary).toBeUndefined();
+
+			const full = await getResources(db, { uris: ["./api/openapi.json"] });
+			expect(full.resources[0]!.content).toBe(spec);
+			expect(full.resources[0]!.structuredSummary).toBeUndefined();
+		});
+
+		it("re-extracts the summary when the snapshot changes", async () => {
+			await updateResourceSnapshot(db, {
+				uri: "./api/openapi.json",
+				snapshot: JSON.stringify({
+					openapi: "3.1.0",
+					paths: { "/orders/{id}": { delete: {} } },
+				}),
+			});
+
+			const result = await getResources(db, {
+				uris: ["./api/openapi.json"],
+				summaryOnly: true,
+			});
+			expect(result.resources[0]!.structuredSummary?.data.endpoints).toEqual([
+				"DELETE /orders/{id}",
+			]);
+		});
+
+		it("extracts from the full content of oversized snapshots", async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+			const paths = Object.fromEntries(
+				Array.from({ length: 40 }, (_, i) => [
+					`/orders/${i}`,
+					{ get: { summary: `Get order ${i}` } },
+				]),
+			);
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./api/orders.openapi.json",
+						type: "file",
+						tags: ["api"],
+						snapshot: JSON.stringify({ openapi: "3.1.0", paths }),
+						overflowBehavior: { behavior: "truncate" },
+					},
+				],
+			});
+
+			const result = await getResources(db, {
+				uris: ["./api/orders.openapi.json"],
+				summaryOnly: true,
+			});
+			expect(result.resources[0]!.structuredSummary?.extractor).toBe("openapi");
+			expect(
+				result.resources[0]!.structuredSummary?.data.endpoints,
+			).toHaveLength(40);
+		});
+
+		it("uses extractors registered for custom categories", async () => {
+			registerExtractor("orderLedgers", {
+				name: "ledger",
+				extract: (content) => ({ lines: content.split("\n").length }),
+			});
+			await setConfig(
+				db,
+				"custom_categories",
+				JSON.stringify({
+					orderLedgers: { endsWith: [".ledger"], freshnessHours: 24 },
+				}),
+			);
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./data/orders.ledger",
+						type: "file",
+						tags: ["data"],
+						snapshot: "a\nb\nc",
+					},
+				],
+			});
+
+			const result = await getResources(db, {
+				uris: ["./data/orders.ledger"],
+				summaryOnly: true,
+			});
+			expect(result.resources[0]!.structuredSummary).toEqual({
+				extractor: "ledger",
+				data: { lines: 3 },
+			});
+		});
+	});
+
+	describe("summarize overflow", () => {
+		const doc = [
+			"# Runbook",
+			"Deploys run from the main branch after review.",
+			"",
+			...Array.from(
+				{ length: 40 },
+				(_, i) => `Step ${i} of the checklist covers one more routine check.`,
+			),
+			"",
+			"## Rollback",
+			"Rollbacks restore the previous release tag.",
+		].join("\n");
+
+		beforeEach(async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+		});
+
+		it("stores a summary and keeps the original in sections", async () => {
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/runbook.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: doc,
+						overflowBehavior: { behavior: "summarize" },
+					},
+				],
+			});
+			expect(added.resources[0]?.hasSnapshot).toBe(true);
+			expect(added.overflowPrompts).toBeUndefined();
+
+			const resource = await getResource(db, { uri: "./docs/runbook.md" });
+			expect(resource?.content).toStartWith(
+				"[Summary of a 3KB snapshot; read the full text with get_resource_section]",
+			);
+			expect(resource?.content).toContain("## Rollback");
+			expect(resource?.content).toContain(
+				"Rollbacks restore the previous release tag.",
+			);
+			expect(Buffer.byteLength(resource?.content ?? "")).toBeLessThanOrEqual(
+				1024,
+			);
+			expect(resource?.outline?.map((s) => s.title)).toEqual([
+				"Runbook",
+				"Runbook > Rollback",
+			]);
+
+			const section = await getResourceSection(db, {
+				uri: "./docs/runbook.md",
+				index: 0,
+			});
+			expect(section.content).toContain("Step 39 of the checklist");
+		});
+
+		it("summarizes by default when configured", async () => {
+			await setConfig(db, "snapshot_overflow_behavior", "summarize");
+
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/runbook.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: doc,
+					},
+				],
+			});
+			expect(added.overflowPrompts).toBeUndefined();
+
+			const result = await getResources(db, { uris: ["./docs/runbook.md"] });
+			expect(result.resources[0]?.content).toStartWith("[Summary of a 3KB");
+		});
+
+		it("asks for a resubmission when configured as auto", async () => {
+			await setConfig(db, "snapshot_overflow_behavior", "auto");
+
+			const added = await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/runbook.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: doc,
+					},
+				],
+			});
+			expect(
+				added.overflowPrompts?.[0]?.suggestedActions.map((a) => a.behavior),
+			).toContain("summarize");
+		});
+
+		it("does not map search matches in the summary to sections", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/runbook.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: doc,
+						overflowBehavior: { behavior: "summarize" },
+					},
+				],
+			});
+
+			const result = await searchResources(db, { query: "previous release" });
+			const match = result.resources[0]?.matches?.[0];
+			expect(match?.text).toContain("Rollbacks restore");
+			expect(match?.section).toBeUndefined();
+		});
+	});
+
+	describe("outline overflow", () => {
+		const doc = [
+			"# Runbook",
+			"Deploys run from the main branch after review.",
+			"",
+			...Array.from(
+				{ length: 40 },
+				(_, i) => `Step ${i} of the checklist covers one more routine check.`,
+			),
+			"",
+			"## API reference",
+			"Every endpoint takes a bearer token.",
+			"",
+			"GET /deploys lists recent deploys.",
+		].join("\n");
+
+		beforeEach(async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+		});
+
+		it("stores an outline and marks elided sections", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "./docs/runbook.md",
+						type: "file",
+						tags: ["docs"],
+						snapshot: doc,
+						overflowBehavior: { behavior: "outline" },
+					},
+				],
+			});
+
+			const resource = await getResource(db, { uri: "./docs/runbook.md" });
+			expect(resource?.content).toBe(
+				[
+					"[Outline of a 3KB snapshot; 2 sections elided, read them with get_resource_section]",
+					"",
+					"# Runbook",
+					"Deploys run from the main branch after review.",
+					'[... section 0 "Runbook" elided]',
+					"",
+					"## API reference",
+					"Every endpoint takes a bearer token.",
+					'[... section 1 "Runbook > API reference" elided]',
+				].join("\n"),
+			);
+			expect(resource?.outline).toHaveLength(2);
+
+			const section = await getResourceSection(db, {
+				uri: "./docs/runbook.md",
+				index: 1,
+			});
+			expect(section.content).toContain("GET /deploys lists recent deploys.");
+		});
+
+		it("outlines HTML as markdown", async () => {
+			const html = `<html><body><h1>Guide</h1><p>Overview.</p>${"<p>Detail paragraph.</p>".repeat(60)}<h2>API</h2><p>Endpoints.</p></body></html>`;
+
+			await addResources(db, {
+				resources: [
+					{
+						uri: "https://example.com/guide",
+						type: "url",
+						tags: ["docs"],
+						snapshot: html,
+						overflowBehavior: { behavior: "outline" },
+					},
+				],
+			});
+
+			const resource = await getResource(db, {
+				uri: "https://example.com/guide",
+			});
+			expect(resource?.content).toContain("# Guide\nOverview.");
+			expect(resource?.content).toContain("## API\nEndpoints.");
+			expect(resource?.content).not.toContain("<p>");
+		});
+	});
+
+	describe("HTML content extraction", () => {
+		const html = (body: string) =>
+			`<html><body><nav><a href="/">Home</a> <a href="/blog">Blog</a></nav>${body}<footer>${"Links to everything. ".repeat(80)}</footer></body></html>`;
+
+		beforeEach(async () => {
+			await setConfig(db, "snapshot_max_size_kb", "1");
+		});
+
+		it("converts only the main content to markdown", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "https://example.com/guide",
+						type: "url",
+						tags: ["docs"],
+						snapshot: html("<main><h1>Guide</h1><p>Install it.</p></main>"),
+						overflowBehavior: { behavior: "html_to_md" },
+					},
+				],
+			});
+
+			const resource = await getResource(db, {
+				uri: "https://example.com/guide",
+			});
+			expect(resource?.content).toBe("# Guide\n\nInstall it.");
+		});
+
+		it("uses the content selectors configured for the URL", async () => {
+			await setConfig(
+				db,
+				"content_selectors",
+				JSON.stringify({
+					"https://docs.example.com/**": {
+						include: [".docs"],
+						exclude: [".edit-link"],
+					},
+				}),
+			);
+			const body =
+				"<main><p>Product tour.</p></main>" +
+				'<div class="docs"><h2>Config</h2><p>Set the key.</p><a class="edit-link">Edit</a></div>';
+
+			await addResources(db, {
+				resources: [
+					{
+						uri: "https://docs.example.com/guides/config",
+						type: "url",
+						tags: ["docs"],
+						snapshot: html(body),
+						overflowBehavior: { behavior: "html_to_md" },
+					},
+					{
+						uri: "https://example.com/config",
+						type: "url",
+						tags: ["docs"],
+						snapshot: html(body),
+						overflowBehavior: { behavior: "html_to_md" },
+					},
+				],
+			});
+
+			const result = await getResources(db, {
+				uris: [
+					"https://docs.example.com/guides/config",
+					"https://example.com/config",
+				],
+			});
+			expect(result.resources.map((r) => r.content)).toEqual([
+				"## Config\n\nSet the key.",
+				"Product tour.",
+			]);
+		});
+	});
 });
@@ -9,6 +9,7 @@ import {
 	syncSkill,
 	deleteSkills,
 	markSkillReviewed,
+	markSkillsNeedingReview,
 	migrateSkillPaths,
 } from "../../src/db/operations/skills";
 import { addResources } from "../../src/db/operations/resources";
@@ -296,6 +297,34 @@ describe("skills operations - extended coverage", () => {
 		});
 	});
 
+	describe("markSkillsNeedingReview", () => {
+		it("sets needsReview on the given skills only", async () => {
+			const flagged = await createSkill(db, {
+				name: "flagged-skill",
+				title: "Flagged Skill",
+				content: "# Skill",
+				tags: ["test"],
+			});
+			await createSkill(db, {
+				name: "other-skill",
+				title: "Other Skill",
+				content: "# Skill",
+				tags: ["test"],
+			});
+
+			await markSkillsNeedingReview(db, [flagged.id]);
+
+			const { skills } = await import("../../src/db/schema");
+			const rows = await db
+				.select({ name: skills.name, needsReview: skills.needsReview })
+				.from(skills);
+			expect(rows).toEqual([
+				{ name: "flagged-skill", needsReview: true },
+				{ name: "other-skill", needsReview: false },
+			]);
+		});
+	});
+
 	describe("deleteSkills", () => {
 		it("deletes skills by names", async () => {
 			await createSkill(db, {
@@ -116,6 +116,150 @@ describe("staleness operations - extended coverage", () => {
 			expect(result.unverifiedFacts).toHaveLength(0);
 			// staleSkills might include recently created skill if any
 		});
+
+		it("reports missing files separately from stale resources", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///gone.ts",
+						type: "file",
+						tags: ["test"],
+						description: "Module removed from the project",
+						snapshot: "content",
+					},
+				],
+			});
+
+			const { resources } = await import("../../src/db/schema");
+			const { eq } = await import("drizzle-orm");
+			const oldDate = new Date();
+			oldDate.setHours(oldDate.getHours() - 48);
+			await db
+				.update(resources)
+				.set({
+					lastVerifiedAt: oldDate.toISOString(),
+					lastRefreshAt: "2025-01-01T00:00:00.000Z",
+					lastRefreshStatus: "missing",
+					lastRefreshMessage: "File not found: /gone.ts",
+				})
+				.where(eq(resources.uri, "file:///gone.ts"));
+
+			const result = await checkStale(db, { maxAgeHours: 24 });
+			expect(result.staleResources).toHaveLength(0);
+			expect(result.missingResources).toEqual([
+				{
+					id: expect.any(Number),
+					uri: "file:///gone.ts",
+					lastCheckedAt: "2025-01-01T00:00:00.000Z",
+					message: "File not found: /gone.ts",
+				},
+			]);
+			expect(result.summary.missingResources).toBe(1);
+			expect(result.summary.totalStale).toBe(1);
+		});
+	});
+
+	describe("checkStale category thresholds", () => {
+		async function addVerifiedHoursAgo(uris: string[], hours: number) {
+			await addResources(db, {
+				resources: uris.map((uri) => ({
+					uri,
+					type: "file",
+					tags: ["test"],
+					snapshot: "content",
+				})),
+			});
+
+			const { resources } = await import("../../src/db/schema");
+			const { inArray } = await import("drizzle-orm");
+			const oldDate = new Date();
+			oldDate.setHours(oldDate.getHours() - hours);
+			await db
+				.update(resources)
+				.set({ lastVerifiedAt: oldDate.toISOString() })
+				.where(inArray(resources.uri, uris));
+		}
+
+		it("uses each resource's category threshold by default", async () => {
+			await addVerifiedHoursAgo(
+				["file:///project/yarn.lock", "file:///project/dist/app.min.js"],
+				3,
+			);
+
+			const result = await checkStale(db, {});
+
+			expect(result.staleResources).toHaveLength(1);
+			const stale = result.staleResources[0];
+			expect(stale?.uri).toBe("file:///project/dist/app.min.js");
+			expect(stale?.categories).toContain("generatedFiles");
+			expect(stale?.thresholdHours).toBe(1);
+			expect(result.approachingStaleResources).toHaveLength(0);
+		});
+
+		it("reports category and threshold for approaching stale resources", async () => {
+			// sourceCode defaults to 12 hours; 10 hours is past the 80% warning
+			await addVerifiedHoursAgo(["file:///project/src/index.ts"], 10);
+
+			const result = await checkStale(db, {});
+
+			expect(result.staleResources).toHaveLength(0);
+			expect(result.approachingStaleResources).toHaveLength(1);
+			const approaching = result.approachingStaleResources[0];
+			expect(approaching?.categories).toContain("sourceCode");
+			expect(approaching?.thresholdHours).toBe(12);
+		});
+
+		it("respects freshness config overrides", async () => {
+			await setConfig(db, "freshness_generated_files", "24");
+			await addVerifiedHoursAgo(["file:///project/dist/app.min.js"], 3);
+
+			const result = await checkStale(db, {});
+
+			expect(result.staleResources).toHaveLength(0);
+		});
+
+		it("prefers a per-resource maxAgeHours over the category", async () => {
+			await addResources(db, {
+				resources: [
+					{
+						uri: "file:///project/dist/app.min.js",
+						type: "file",
+						tags: ["test"],
+						snapshot: "content",
+						maxAgeHours: 48,
+					},
+				],
+			});
+
+			const { resources } = await import("../../src/db/schema");
+			const { eq } = await import("drizzle-orm");
+			const oldDate = new Date();
+			oldDate.setHours(oldDate.getHours() - 3);
+			await db
+				.update(resources)
+				.set({ lastVerifiedAt: oldDate.toISOString() })
+				.where(eq(resources.uri, "file:///project/dist/app.min.js"));
+
+			const result = await checkStale(db, {});
+			expect(result.staleResources).toHaveLength(0);
+
+			const overridden = await checkStale(db, { maxAgeHours: 2 });
+			expect(overridden.staleResources).toHaveLength(1);
+		});
+
+		it("applies maxAgeHours to every resource when provided", async () => {
+			await addVerifiedHoursAgo(
+				["file:///project/yarn.lock", "file:///project/dist/app.min.js"],
+				3,
+			);
+
+			const result = await checkStale(db, { maxAgeHours: 2 });
+
+			expect(result.staleResources).toHaveLength(2);
+			for (const r of result.staleResources) {
+				expect(r.thresholdHours).toBe(2);
+			}
+		});
 	});
 
 	describe("markResourcesRefreshed", () => {
@@ -7,6 +7,8 @@ import {
 	inferResourceCategory,
 	getFreshnessForCategory,
 	getFreshnessForCategories,
+	explainResourceCategory,
+	validateCustomCategories,
 	DEFAULT_FRESHNESS_CONFIG,
 } from "../src/runtime-config";
 
@@ -479,4 +481,110 @@ describe("runtime-config", () => {
 			expect(threshold).toBe(DEFAULT_FRESHNESS_CONFIG.generatedFiles);
 		});
 	});
+
+	describe("custom categories", () => {
+		const customCategories = {
+			graphqlCodegen: { endsWith: [".graphql.ts"], freshnessHours: 2 },
+			helmValues: {
+				includes: ["/charts/"],
+				freshnessHours: 336,
+				priority: 10,
+			},
+			fixturesData: {
+				includes: ["/data/"],
+				not: { tagged: ["tests"] },
+				freshnessHours: 48,
+			},
+		};
+		const dbConfig = { custom_categories: JSON.stringify(customCategories) };
+
+		it("merges custom categories with built-in matches", () => {
+			const categories = inferResourceCategory(
+				"src/gen/Schema.GRAPHQL.ts",
+				customCategories,
+			);
+			expect(categories[0]).toBe("graphqlCodegen");
+			expect(categories).toContain("sourceCode");
+			expect(getFreshnessForCategories(categories, dbConfig)).toBe(2);
+		});
+
+		it("shadows lower-priority matches", () => {
+			const { categories, matches } = explainResourceCategory(
+				"deploy/charts/api/values.yaml",
+				customCategories,
+			);
+			expect(categories).toEqual(["helmValues"]);
+			expect(getFreshnessForCategories(categories, dbConfig)).toBe(336);
+
+			const shadowed = matches.filter((m) => m.status === "shadowed");
+			expect(shadowed.length).toBeGreaterThan(0);
+			expect(shadowed.every((m) => m.source === "builtin")).toBe(true);
+			expect(shadowed[0]?.reason).toBe("shadowed by priority 10");
+		});
+
+		it("reports the rule that matched and not.tagged exclusions", () => {
+			const { categories, matches } = explainResourceCategory(
+				"tests/data/users.test.ts",
+				customCategories,
+			);
+			expect(categories).not.toContain("fixturesData");
+
+			const fixtures = matches.find((m) => m.category === "fixturesData");
+			expect(fixtures?.matchedBy).toBe('includes "/data/"');
+			expect(fixtures?.status).toBe("excluded");
+			expect(fixtures?.reason).toBe('not.tagged "tests"');
+		});
+
+		it("ignores invalid custom category config", () => {
+			const categories = inferResourceCategory("app.min.js");
+			expect(
+				getFreshnessForCategories(categories, { custom_categories: "{bad" }),
+			).toBe(DEFAULT_FRESHNESS_CONFIG.generatedFiles);
+		});
+
+		describe("validateCustomCategories", () => {
+			it("accepts valid definitions", () => {
+				expect(
+					validateCustomCategories(JSON.stringify(customCategories)),
+				).toBeNull();
+			});
+
+			it("rejects built-in category names", () => {
+				expect(
+					validateCustomCategories(
+						JSON.stringify({
+							lockFiles: { endsWith: [".x"], freshnessHours: 1 },
+						}),
+					),
+				).toContain("built-in");
+			});
+
+			it("requires a positive pattern and freshnessHours", () => {
+				expect(
+					validateCustomCategories(
+						JSON.stringify({ empty: { freshnessHours: 1 } }),
+					),
+				).toContain("endsWith or includes");
+				expect(
+					validateCustomCategories(
+						JSON.stringify({ noHours: { endsWith: [".x"] } }),
+					),
+				).toContain("freshnessHours");
+			});
+
+			it("rejects unknown not rules", () => {
+				expect(
+					validateCustomCategories(
+						JSON.stringify({
+							bad: {
+								endsWith: [".x"],
+								not: { startsWith: ["a"] },
+								freshnessHours: 1,
+							},
+						}),
+					),
+				).toContain("not.startsWith");
+			});
+		});
+	});
 });
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "bun:test";
+import { chunkSnapshot, detectChunkFormat } from "../../src/utils/chunking";
+
+describe("chunking utilities", () => {
+	describe("detectChunkFormat", () => {
+		it("uses the URI extension", () => {
+			expect(detectChunkFormat("x", "https://example.com/guide.md?v=2")).toBe(
+				"markdown",
+			);
+			expect(detectChunkFormat("a: 1", "file:///repo/values.yml")).toBe("yaml");
+			expect(detectChunkFormat("{}", "package.json")).toBe("json");
+		});
+
+		it("falls back to the content", () => {
+			expect(detectChunkFormat('[{"id": 1}]')).toBe("json");
+			expect(detectChunkFormat("# One\ntext\n## Two\nmore")).toBe("markdown");
+			expect(detectChunkFormat("{ not json")).toBe("lines");
+		});
+	});
+
+	describe("chunkSnapshot", () => {
+		it("splits markdown by heading with the heading path as title", () => {
+			const content = [
+				"Intro",
+				"# Guide",
+				"Welcome",
+				"## Install",
+				"```sh",
+				"# a comment, not a heading",
+				"```",
+				"#### Notes",
+				"Deep headings stay in their section",
+				"## Usage",
+				"Run it",
+			].join("\n");
+
+			const chunks = chunkSnapshot(content, { maxBytes: 1024, uri: "a.md" });
+
+			expect(chunks.map((c) => c.title)).toEqual([
+				"Preamble",
+				"Guide",
+				"Guide > Install",
+				"Guide > Usage",
+			]);
+			expect(chunks[2]).toMatchObject({ startLine: 4, endLine: 9 });
+			expect(chunks[2]?.content).toContain("#### Notes");
+		});
+
+		it("splits oversized sections into parts", () => {
+			const body = Array.from({ length: 40 }, (_, i) => `line ${i}`);
+			const content = ["# Big", ...body].join("\n");
+
+			const chunks = chunkSnapshot(content, { maxBytes: 100, uri: "a.md" });
+
+			expect(chunks.length).toBeGreaterThan(1);
+			expect(chunks[0]?.title).toBe("Big (part 1)");
+			expect(chunks[1]?.title).toBe("Big (part 2)");
+			expect(chunks.every((c) => Buffer.byteLength(c.content) <= 100)).toBe(
+				true,
+			);
+			expect(chunks.map((c) => c.content).join("\n")).toBe(content);
+		});
+
+		it("splits JSON objects by top-level key", () => {
+			const content = JSON.stringify({ name: "pkg", scripts: { test: "bun" } });
+
+			const chunks = chunkSnapshot(content, { maxBytes: 1024 });
+
+			expect(chunks.map((c) => c.title)).toEqual(["name", "scripts"]);
+			expect(JSON.parse(chunks[1]?.content ?? "")).toEqual({
+				scripts: { test: "bun" },
+			});
+			expect(chunks[0]?.startLine).toBeNull();
+		});
+
+		it("groups JSON array elements by index range", () => {
+			const items = Array.from({ length: 6 }, (_, i) => ({ id: i }));
+
+			const chunks = chunkSnapshot(JSON.stringify(items), { maxBytes: 60 });
+
+			expect(chunks.map((c) => c.title)).toEqual(["[0-1]", "[2-3]", "[4-5]"]);
+		});
+
+		it("splits YAML by top-level key", () => {
+			const content = [
+				"# comment",
+				"name: api",
+				"image:",
+				"  tag: latest",
+				'"on": push',
+			].join("\n");
+
+			const chunks = chunkSnapshot(content, {
+				maxBytes: 1024,
+				uri: "values.yaml",
+			});
+
+			expect(chunks.map((c) => c.title)).toEqual([
+				"Preamble",
+				"name",
+				"image",
+				"on",
+			]);
+			expect(chunks[2]).toMatchObject({
+				content: "image:\n  tag: latest",
+				startLine: 3,
+				endLine: 4,
+			});
+		});
+
+		it("splits other content by line range", () => {
+			const content = Array.from(
+				{ length: 10 },
+				(_, i) => `const x${i} = ${i};`,
+			).join("\n");
+
+			const chunks = chunkSnapshot(content, { maxBytes: 60, uri: "a.ts" });
+
+			expect(chunks[0]?.title).toBe("lines 1-4");
+			expect(chunks[chunks.length - 1]?.endLine).toBe(10);
+		});
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "bun:test";
+import { diffLines, unifiedDiff } from "../../src/utils/diff";
+
+describe("diff utilities", () => {
+	describe("diffLines", () => {
+		it("returns only equal ops for identical input", () => {
+			const ops = diffLines(["a", "b"], ["a", "b"]);
+			expect(ops?.every((op) => op.type === "equal")).toBe(true);
+		});
+
+		it("finds a minimal edit script", () => {
+			const ops = diffLines(["a", "b", "c", "d"], ["a", "c", "d", "e"]);
+			expect(ops).toEqual([
+				{ type: "equal", line: "a" },
+				{ type: "remove", line: "b" },
+				{ type: "equal", line: "c" },
+				{ type: "equal", line: "d" },
+				{ type: "add", line: "e" },
+			]);
+		});
+
+		it("gives up beyond the edit limit", () => {
+			expect(
+				diffLines(["a", "b", "c"], ["x", "y", "z"], { maxEdits: 5 }),
+			).toBeNull();
+			expect(
+				diffLines(["a", "b", "c"], ["a", "y", "c"], { maxEdits: 2 }),
+			).toHaveLength(4);
+		});
+	});
+
+	describe("unifiedDiff", () => {
+		const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+
+		it("returns an empty diff for identical text", () => {
+			const result = unifiedDiff(before, `${before}\n`);
+			expect(result).toEqual({ diff: "", added: 0, removed: 0 });
+		});
+
+		it("produces separate hunks with context", () => {
+			const after = before
+				.replace("line 2\n", "")
+				.replace("line 15", "LINE 15\nextra");
+			const result = unifiedDiff(before, after, {
+				fromLabel: "old",
+				toLabel: "new",
+			});
+
+			expect(result.added).toBe(2);
+			expect(result.removed).toBe(2);
+			expect(result.diff).toBe(
+				[
+					"--- old",
+					"+++ new",
+					"@@ -1,6 +1,5 @@",
+					" line 0",
+					" line 1",
+					"-line 2",
+					" line 3",
+					" line 4",
+					" line 5",
+					"@@ -13,7 +12,8 @@",
+					" line 12",
+					" line 13",
+					" line 14",
+					"-line 15",
+					"+LINE 15",
+					"+extra",
+					" line 16",
+					" line 17",
+					" line 18",
+				].join("\n"),
+			);
+		});
+
+		it("handles additions to empty text", () => {
+			const result = unifiedDiff("", "x\ny", { context: 0 });
+			expect(result.diff).toContain("@@ -0,0 +1,2 @@");
+			expect(result.added).toBe(2);
+		});
+
+		it("reports texts that differ too much without diffing them", () => {
+			const old = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+			const changed = [...old.slice(0, 10).reverse(), ...old.slice(10)].map(
+				(line, i) => (i % 2 === 0 ? line : `new ${i}`),
+			);
+
+			const result = unifiedDiff(old.join("\n"), changed.join("\n"));
+
+			expect(result).toEqual({
+				diff: "",
+				added: 1500,
+				removed: 1500,
+				tooLarge: true,
+			});
+		});
+	});
+});
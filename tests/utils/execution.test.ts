@@ -0,0 +1,280 @@
+import { describe, it, expect } from "bun:test";
+import {
+	checkCommand,
+	parseShellCommand,
+	policyEnv,
+	runCommand,
+	type ExecutionPolicy,
+} from "../../src/utils/execution";
+import { DEFAULT_EXECUTION_POLICY } from "../../src/runtime/defaults";
+
+const ROOT = "/work/project";
+
+const policy = (overrides: Partial<ExecutionPolicy> = {}): ExecutionPolicy => ({
+	allowlist: [],
+	denylist: ["rm", "sudo"],
+	envAllowlist: ["PATH"],
+	timeoutMs: 5000,
+	maxOutputKb: 64,
+	dryRun: false,
+	...overrides,
+});
+
+describe("execution utils", () => {
+	describe("parseShellCommand", () => {
+		it("splits simple commands and redirections", () => {
+			expect(
+				parseShellCommand(
+					"cd docs && FOO=1 cat 'a b.md' \"c.md\" | grep -v x > out.txt 2>&1; echo done",
+				),
+			).toEqual([
+				{ words: ["cd", "docs"], redirects: [] },
+				{ words: ["FOO=1", "cat", "a b.md", "c.md"], redirects: [] },
+				{ words: ["grep", "-v", "x"], redirects: ["out.txt"] },
+				{ words: ["echo", "done"], redirects: [] },
+			]);
+		});
+
+		it("rejects syntax that hides what runs", () => {
+			expect(() => parseShellCommand("echo $(whoami)")).toThrow(
+				"Command substitution",
+			);
+			expect(() => parseShellCommand("echo `whoami`")).toThrow(
+				"Command substitution",
+			);
+			expect(() => parseShellCommand("(rm -rf /)")).toThrow("Subshells");
+			expect(() => parseShellCommand("echo 'open")).toThrow("Unterminated");
+		});
+
+		it("treats quoted operators as text", () => {
+			expect(parseShellCommand("echo 'a; rm b'")).toEqual([
+				{ words: ["echo", "a; rm b"], redirects: [] },
+			]);
+		});
+	});
+
+	describe("checkCommand", () => {
+		it("allows commands not on the denylist", () => {
+			expect(
+				checkCommand("git log -5 | head", ROOT, policy(), ROOT),
+			).toBeNull();
+		});
+
+		it("blocks denied executables anywhere in the command", () => {
+			expect(checkCommand("ls && rm -rf x", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: rm",
+			);
+			expect(checkCommand("/bin/rm x", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: rm",
+			);
+			expect(checkCommand("env -i FOO=1 sudo ls", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: sudo",
+			);
+			expect(checkCommand("find . | xargs rm", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: rm",
+			);
+		});
+
+		it("only runs allowlisted executables when an allowlist is set", () => {
+			const allowGit = policy({ allowlist: ["git", "xargs"] });
+			expect(
+				checkCommand("cd src && git status", ROOT, allowGit, ROOT),
+			).toBeNull();
+			expect(
+				checkCommand("git ls-files | xargs wc", ROOT, allowGit, ROOT),
+			).toBe("Executable is not in the allowlist: wc");
+			expect(checkCommand("$CMD status", ROOT, allowGit, ROOT)).toBe(
+				"Executable must be named literally: $CMD",
+			);
+		});
+
+		it("checks commands run through shells, eval and find", () => {
+			const allowShell = policy({ allowlist: ["sh", "bash", "find", "ls"] });
+			expect(checkCommand("sh -c 'rm -rf /'", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: rm",
+			);
+			expect(checkCommand("bash -ec 'ls | wc'", ROOT, allowShell, ROOT)).toBe(
+				"Executable is not in the allowlist: wc",
+			);
+			expect(checkCommand("sh -c 'ls -la'", ROOT, allowShell, ROOT)).toBeNull();
+			expect(checkCommand("echo rm x | sh", ROOT, policy(), ROOT)).toBe(
+				"sh may only run a command given with -c",
+			);
+			expect(checkCommand("eval rm -rf x", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: rm",
+			);
+			expect(checkCommand("find . -delete", ROOT, policy(), ROOT)).toBe(
+				"find -delete is not allowed",
+			);
+			expect(checkCommand("find . -exec rm {} \\;", ROOT, policy(), ROOT)).toBe(
+				"Executable is denied: rm",
+			);
+			expect(
+				checkCommand("find src -name '*.ts'", ROOT, allowShell, ROOT),
+			).toBeNull();
+		});
+
+		it("requires executables to be named literally", () => {
+			expect(checkCommand("/bin/r? -rf x", ROOT, policy(), ROOT)).toBe(
+				"Executable must be named literally: /bin/r?",
+			);
+			expect(checkCommand("r[m] x", ROOT, policy(), ROOT)).toBe(
+				"Executable must be named literally: r[m]",
+			);
+		});
+
+		it("keeps path arguments inside the project root", () => {
+			expect(checkCommand("cat /etc/shadow", ROOT, policy(), ROOT)).toBe(
+				"Path outside the project root: /etc/shadow",
+			);
+			expect(checkCommand("cat ../../secret", ROOT, policy(), ROOT)).toBe(
+				"Path outside the project root: ../../secret",
+			);
+			expect(
+				checkCommand("git --git-dir=/tmp/x log", ROOT, policy(), ROOT),
+			).toBe("Path outside the project root: --git-dir=/tmp/x");
+			expect(
+				checkCommand(
+					`cat ${ROOT}/README.md docs/../a.md`,
+					ROOT,
+					policy(),
+					ROOT,
+				),
+			).toBeNull();
+		});
+
+		it("blocks expansions the shell resolves after the check", () => {
+			const defaults = { ...DEFAULT_EXECUTION_POLICY };
+			expect(checkCommand("cat $HOME/.ssh/id_rsa", ROOT, defaults, ROOT)).toBe(
+				"Arguments must not use shell expansion: $HOME/.ssh/id_rsa",
+			);
+			expect(checkCommand('cat "${HOME}/x"', ROOT, defaults, ROOT)).toBe(
+				"Arguments must not use shell expansion: ${HOME}/x",
+			);
+			expect(checkCommand("cat $'\\x2fetc/passwd'", ROOT, defaults, ROOT)).toBe(
+				"ANSI-C quoting is not allowed",
+			);
+			expect(checkCommand("grep 'end$' a.md", ROOT, defaults, ROOT)).toBeNull();
+			expect(defaults.envAllowlist).not.toContain("HOME");
+		});
+
+		it("blocks git options that run commands or leave the root", () => {
+			const defaults = { ...DEFAULT_EXECUTION_POLICY };
+			expect(
+				checkCommand(
+					"git -c alias.x='!touch /tmp/pwned' x",
+					ROOT,
+					defaults,
+					ROOT,
+				),
+			).toBe("git -c is not allowed");
+			expect(
+				checkCommand(
+					"git -c core.pager='touch /tmp/p' log",
+					ROOT,
+					defaults,
+					ROOT,
+				),
+			).toBe("git -c is not allowed");
+			expect(
+				checkCommand("git --config-env=core.pager=X log", ROOT, defaults, ROOT),
+			).toBe("git --config-env is not allowed");
+			expect(
+				checkCommand("git --exec-path=bin status", ROOT, defaults, ROOT),
+			).toBe("git --exec-path is not allowed");
+			expect(checkCommand("git -C .. status", ROOT, defaults, ROOT)).toBe(
+				"Path outside the project root: ..",
+			);
+			expect(
+				checkCommand("git --work-tree /srv status", ROOT, defaults, ROOT),
+			).toBe("Path outside the project root: /srv");
+			expect(
+				checkCommand("git rebase --exec 'touch x' main", ROOT, defaults, ROOT),
+			).toBe("git rebase --exec is not allowed");
+			expect(checkCommand("git bisect run make", ROOT, defaults, ROOT)).toBe(
+				"git bisect is not allowed",
+			);
+			expect(
+				checkCommand("GIT_EXTERNAL_DIFF=touch git diff", ROOT, defaults, ROOT),
+			).toBe(
+				"git configuration through the environment is not allowed: GIT_EXTERNAL_DIFF=touch",
+			);
+			expect(
+				checkCommand("git -C docs log -c --oneline", ROOT, defaults, ROOT),
+			).toBeNull();
+		});
+
+		it("keeps directories and redirections inside the project root", () => {
+			expect(checkCommand("ls", "/tmp", policy(), ROOT)).toContain(
+				"outside the project root",
+			);
+			expect(checkCommand("cd ../other && ls", ROOT, policy(), ROOT)).toBe(
+				"cd leaves the project root: ../other",
+			);
+			expect(checkCommand("cd ~ && ls", ROOT, policy(), ROOT)).toContain(
+				"cd must name a directory",
+			);
+			expect(checkCommand("echo x > /etc/passwd", ROOT, policy(), ROOT)).toBe(
+				"Redirection outside the project root: /etc/passwd",
+			);
+			expect(
+				checkCommand(
+					"cd docs && echo x > ../out.txt 2>/dev/null",
+					ROOT,
+					policy(),
+					ROOT,
+				),
+			).toBeNull();
+		});
+	});
+
+	describe("policyEnv", () => {
+		it("passes through only allowlisted variables", () => {
+			const env = policyEnv(policy({ envAllowlist: ["PATH", "NOT_SET_123"] }));
+			expect(Object.keys(env)).toEqual(["PATH"]);
+		});
+	});
+
+	describe("runCommand", () => {
+		it("captures output and exit codes", async () => {
+			const ok = await runCommand("echo hello", process.cwd(), policy());
+			expect(ok.stdout).toBe("hello\n");
+			expect(ok.exitCode).toBe(0);
+			expect(ok.error).toBeUndefined();
+
+			const failed = await runCommand(
+				"echo broken >&2; exit 3",
+				process.cwd(),
+				policy(),
+			);
+			expect(failed.exitCode).toBe(3);
+			expect(failed.error).toBe("Command exited with code 3: broken");
+		});
+
+		it("hides variables outside the allowlist", async () => {
+			process.env.FACTSETS_TEST_HIDDEN = "visible?";
+			try {
+				const result = await runCommand(
+					'echo "[$FACTSETS_TEST_HIDDEN]"',
+					process.cwd(),
+					policy(),
+				);
+				expect(result.stdout).toBe("[]\n");
+			} finally {
+				delete process.env.FACTSETS_TEST_HIDDEN;
+			}
+		});
+
+		it("enforces time and output limits", async () => {
+			const slow = await runCommand("sleep 5", process.cwd(), policy(), 100);
+			expect(slow.error).toBe("Command timed out after 100ms");
+
+			const noisy = await runCommand(
+				"yes | head -c 200000",
+				process.cwd(),
+				policy({ maxOutputKb: 1 }),
+			);
+			expect(noisy.error).toBe("Command output exceeded 1 KB");
+		});
+	});
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "bun:test";
+import {
+	extractStructuredSummary,
+	parseYamlTree,
+	registerExtractor,
+} from "../../src/utils/extractors";
+
+const OPENAPI_YAML = `openapi: 3.0.1
+info:
+  title: Petstore
+  description: |
+    Multi-line text with: colons
+    paths: not a key
+  version: "1.2.0"
+paths:
+  /pets:
+    get:
+      summary: List pets
+      parameters:
+        - name: limit
+          in: query
+    post:
+      operationId: createPet
+  "/pets/{id}":
+    delete: {}
+components:
+  schemas:
+    Pet:
+      type: object
+`;
+
+describe("extractors utils", () => {
+	describe("parseYamlTree", () => {
+		it("nests keys by indentation and skips block scalars", () => {
+			const tree = parseYamlTree(OPENAPI_YAML);
+
+			expect(tree.openapi).toBe("3.0.1");
+			expect(tree.info).toEqual({
+				title: "Petstore",
+				description: "|",
+				version: "1.2.0",
+			});
+			expect(Object.keys(tree.paths as object)).toEqual([
+				"/pets",
+				"/pets/{id}",
+			]);
+		});
+	});
+
+	describe("extractStructuredSummary", () => {
+		it("lists OpenAPI endpoints from YAML and JSON specs", () => {
+			expect(
+				extractStructuredSummary(OPENAPI_YAML, "./openapi.yaml", [
+					"apiSchemas",
+				]),
+			).toEqual({
+				extractor: "openapi",
+				data: {
+					specVersion: "3.0.1",
+					title: "Petstore",
+					version: "1.2.0",
+					endpoints: [
+						"GET /pets: List pets",
+						"POST /pets: createPet",
+						"DELETE /pets/{id}",
+					],
+				},
+			});
+
+			const json = JSON.stringify({
+				swagger: "2.0",
+				info: { title: "Legacy" },
+				paths: { "/health": { get: { summary: "Health check" } } },
+			});
+			expect(
+				extractStructuredSummary(json, "./swagger.json", ["apiSchemas"])?.data,
+			).toEqual({
+				specVersion: "2.0",
+				title: "Legacy",
+				endpoints: ["GET /health: Health check"],
+			});
+		});
+
+		it("summarizes package.json scripts and dependencies", () => {
+			const pkg = JSON.stringify({
+				name: "demo",
+				version: "1.0.0",
+				scripts: { build: "tsc", test: "bun test" },
+				dependencies: { zod: "3" },
+			});
+
+			expect(
+				extractStructuredSummary(pkg, "./package.json", ["configFiles"]),
+			).toEqual({
+				extractor: "package.json",
+				data: {
+					name: "demo",
+					version: "1.0.0",
+					keys: ["name", "version", "scripts", "dependencies"],
+					scripts: { build: "tsc", test: "bun test" },
+					dependencies: ["zod"],
+				},
+			});
+		});
+
+		it("summarizes TOML tables and scripts", () => {
+			const toml = [
+				'requires-python = ">=3.11"',
+				"",
+				"[project]",
+				'name = "tool" # the package',
+				'version = "0.3.0"',
+				"",
+				"[project.scripts]",
+				'tool = "tool.cli:main"',
+				"",
+				"[[tool.mypy.overrides]]",
+				'module = "x"',
+			].join("\n");
+
+			expect(
+				extractStructuredSummary(toml, "./pyproject.toml", ["configFiles"])
+					?.data,
+			).toEqual({
+				name: "tool",
+				version: "0.3.0",
+				keys: ["requires-python"],
+				tables: ["project", "project.scripts", "tool.mypy.overrides"],
+				scripts: { tool: "tool.cli:main" },
+			});
+		});
+
+		it("lists Makefile targets", () => {
+			const makefile = [
+				"BIN := out/app",
+				".PHONY: build test",
+				"build: deps",
+				"\tgo build -o $(BIN)",
+				"test lint:",
+				"\tgo test ./...",
+				"%.o: %.c",
+				"$(BIN): build",
+			].join("\n");
+
+			expect(
+				extractStructuredSummary(makefile, "./Makefile", ["scripts"]),
+			).toEqual({
+				extractor: "makefile",
+				data: { targets: ["build", "test", "lint"] },
+			});
+		});
+
+		it("summarizes YAML configs by their top two levels", () => {
+			const workflow = "on:\n  push:\njobs:\n  build:\n    steps:\n  lint:\n";
+
+			expect(
+				extractStructuredSummary(workflow, "./.github/workflows/ci.yml", [
+					"infrastructure",
+				])?.data,
+			).toEqual({
+				keys: ["on", "jobs"],
+				sections: { on: ["push"], jobs: ["build", "lint"] },
+			});
+		});
+
+		it("returns null when no extractor recognises the snapshot", () => {
+			expect(
+				extractStructuredSummary("not json", "./tsconfig.json", [
+					"configFiles",
+				]),
+			).toBeNull();
+			expect(
+				extractStructuredSummary("# Title", "./README.md", ["documentation"]),
+			).toBeNull();
+		});
+
+		it("tries registered extractors for custom categories", () => {
+			registerExtractor("changelogs", {
+				name: "changelog",
+				extract: (content) => ({
+					versions: content.match(/^## \S+/gm)?.map((h) => h.slice(3)) ?? [],
+				}),
+			});
+
+			expect(
+				extractStructuredSummary("## 1.1.0\n## 1.0.0", "CHANGELOG.md", [
+					"changelogs",
+				]),
+			).toEqual({
+				extractor: "changelog",
+				data: { versions: ["1.1.0", "1.0.0"] },
+			});
+		});
+	});
+});
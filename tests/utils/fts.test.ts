@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test";
+import { toFtsQuery } from "../../src/utils/fts";
+
+describe("fts utilities", () => {
+	describe("toFtsQuery", () => {
+		it("quotes plain terms", () => {
+			expect(toFtsQuery("api server")).toBe('"api" "server"');
+		});
+
+		it("preserves phrases", () => {
+			expect(toFtsQuery('"api server" port')).toBe('"api server" "port"');
+		});
+
+		it("preserves prefix terms", () => {
+			expect(toFtsQuery("config*")).toBe('"config"*');
+			expect(toFtsQuery('"api ser"*')).toBe('"api ser"*');
+		});
+
+		it("keeps OR only between terms", () => {
+			expect(toFtsQuery("port OR host")).toBe('"port" OR "host"');
+			expect(toFtsQuery("OR port OR")).toBe('"port"');
+			expect(toFtsQuery("port or host")).toBe('"port" "or" "host"');
+		});
+
+		it("escapes stray quotes and keywords", () => {
+			expect(toFtsQuery('say "hi')).toBe('"say" """hi"');
+			expect(toFtsQuery("NOT NEAR")).toBe('"NOT" "NEAR"');
+		});
+
+		it("returns null without searchable terms", () => {
+			expect(toFtsQuery("")).toBeNull();
+			expect(toFtsQuery('   ""  ')).toBeNull();
+			expect(toFtsQuery("OR")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtemp, rm, unlink, writeFile } from "node:fs/promises";
+import { realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	getCleanFileCommits,
+	getFilesChangedSince,
+	getGitRoot,
+} from "../../src/utils/git";
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync(
+		"git",
+		["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+		{ cwd, encoding: "utf-8" },
+	).trim();
+
+describe("git utils", () => {
+	let repo: string;
+	let head: string;
+
+	beforeEach(async () => {
+		repo = realpathSync(await mkdtemp(join(tmpdir(), "factsets-git-")));
+		git(repo, "init", "-q");
+		await writeFile(join(repo, "config.json"), "{}");
+		await writeFile(join(repo, "notes.md"), "# Notes");
+		git(repo, "add", ".");
+		git(repo, "commit", "-q", "-m", "initial");
+		head = git(repo, "rev-parse", "HEAD");
+	});
+
+	afterEach(async () => {
+		await rm(repo, { recursive: true, force: true });
+	});
+
+	describe("getGitRoot", () => {
+		it("finds the work tree root", async () => {
+			expect(await getGitRoot(repo)).toBe(repo);
+		});
+
+		it("returns null outside a repository", async () => {
+			const outside = await mkdtemp(join(tmpdir(), "factsets-nogit-"));
+			try {
+				expect(await getGitRoot(outside)).toBeNull();
+			} finally {
+				await rm(outside, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe("getCleanFileCommits", () => {
+		it("pins tracked, unmodified files to HEAD", async () => {
+			await writeFile(join(repo, "notes.md"), "# Edited");
+			await writeFile(join(repo, "untracked.txt"), "new");
+
+			const commits = await getCleanFileCommits(
+				[
+					join(repo, "config.json"),
+					join(repo, "notes.md"),
+					join(repo, "untracked.txt"),
+					"/elsewhere/file.txt",
+				],
+				repo,
+			);
+
+			expect(commits).toEqual(new Map([[join(repo, "config.json"), head]]));
+		});
+	});
+
+	describe("getFilesChangedSince", () => {
+		it("reports working tree edits, new commits and deletions", async () => {
+			await writeFile(join(repo, "config.json"), '{"a": 1}');
+			await unlink(join(repo, "notes.md"));
+
+			const changed = await getFilesChangedSince(
+				head,
+				[join(repo, "config.json"), join(repo, "notes.md")],
+				repo,
+			);
+			expect(changed?.get(join(repo, "config.json"))).toBe(true);
+			expect(changed?.get(join(repo, "notes.md"))).toBe(true);
+
+			git(repo, "checkout", "--", "notes.md");
+			git(repo, "commit", "-q", "-am", "update config");
+			const afterCommit = await getFilesChangedSince(
+				head,
+				[join(repo, "config.json"), join(repo, "notes.md")],
+				repo,
+			);
+			expect(afterCommit?.get(join(repo, "config.json"))).toBe(true);
+			expect(afterCommit?.get(join(repo, "notes.md"))).toBe(false);
+		});
+
+		it("leaves out paths outside the repository", async () => {
+			const changed = await getFilesChangedSince(
+				head,
+				["/elsewhere/file.txt"],
+				repo,
+			);
+			expect(changed?.size).toBe(0);
+		});
+
+		it("returns null for an unknown commit", async () => {
+			const changed = await getFilesChangedSince(
+				"0".repeat(40),
+				[join(repo, "config.json")],
+				repo,
+			);
+			expect(changed).toBeNull();
+		});
+	});
+});
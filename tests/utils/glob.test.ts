@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expandGlob, globToRegExp, normalizeGlob } from "../../src/utils/glob";
+
+describe("glob utilities", () => {
+	describe("globToRegExp", () => {
+		it("matches within and across path segments", () => {
+			const schema = globToRegExp("src/**/*.schema.ts");
+			expect(schema.test("src/user.schema.ts")).toBe(true);
+			expect(schema.test("src/api/v1/user.schema.ts")).toBe(true);
+			expect(schema.test("src/user.ts")).toBe(false);
+			expect(schema.test("lib/user.schema.ts")).toBe(false);
+
+			expect(globToRegExp("*.md").test("docs/readme.md")).toBe(false);
+		});
+
+		it("supports alternatives, classes and single characters", () => {
+			const config = globToRegExp("config/*.{json,yml}");
+			expect(config.test("config/app.yml")).toBe(true);
+			expect(config.test("config/app.toml")).toBe(false);
+
+			expect(globToRegExp("v?/[!x]*.tf").test("v1/main.tf")).toBe(true);
+			expect(globToRegExp("v?/[!x]*.tf").test("v1/xmain.tf")).toBe(false);
+			expect(globToRegExp("a.b").test("axb")).toBe(false);
+		});
+	});
+
+	describe("normalizeGlob", () => {
+		it("strips a leading ./ and rejects paths outside the root", () => {
+			expect(normalizeGlob("./infra/**/*.tf")).toBe("infra/**/*.tf");
+			expect(() => normalizeGlob("/etc/*.conf")).toThrow("relative");
+			expect(() => normalizeGlob("../other/*.ts")).toThrow("relative");
+		});
+	});
+
+	describe("expandGlob", () => {
+		let root: string;
+
+		beforeAll(async () => {
+			root = await mkdtemp(join(tmpdir(), "factsets-glob-"));
+			for (const path of [
+				"infra/main.tf",
+				"infra/modules/vpc/vpc.tf",
+				"infra/modules/vpc/README.md",
+				"infra/old/legacy.tf",
+				"node_modules/pkg/index.tf",
+			]) {
+				await mkdir(join(root, path, ".."), { recursive: true });
+				await writeFile(join(root, path), "");
+			}
+		});
+
+		afterAll(async () => {
+			await rm(root, { recursive: true, force: true });
+		});
+
+		it("returns sorted matches relative to the root", async () => {
+			const result = await expandGlob("**/*.tf", { root });
+			expect(result).toEqual({
+				files: [
+					"infra/main.tf",
+					"infra/modules/vpc/vpc.tf",
+					"infra/old/legacy.tf",
+				],
+				skipped: [],
+				limited: false,
+			});
+		});
+
+		it("applies excludes and limits", async () => {
+			const excluded = await expandGlob("infra/**/*.tf", {
+				root,
+				exclude: ["infra/old/**"],
+			});
+			expect(excluded.files).toEqual([
+				"infra/main.tf",
+				"infra/modules/vpc/vpc.tf",
+			]);
+
+			const limited = await expandGlob("infra/**/*.tf", { root, limit: 1 });
+			expect(limited).toEqual({
+				files: ["infra/main.tf"],
+				skipped: [],
+				limited: true,
+			});
+
+			const skipping = await expandGlob("infra/**/*.tf", {
+				root,
+				limit: 1,
+				skip: (path) => path === "infra/main.tf",
+			});
+			expect(skipping).toEqual({
+				files: ["infra/modules/vpc/vpc.tf"],
+				skipped: ["infra/main.tf"],
+				limited: true,
+			});
+		});
+
+		it("resolves plain paths without walking", async () => {
+			expect((await expandGlob("infra/main.tf", { root })).files).toEqual([
+				"infra/main.tf",
+			]);
+			expect((await expandGlob("missing.tf", { root })).files).toEqual([]);
+		});
+	});
+});
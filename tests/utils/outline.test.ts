@@ -0,0 +1,97 @@
+import { describe, it, expect } from "bun:test";
+import { looksLikeHtml, outlineSnapshot } from "../../src/utils/outline";
+
+const GUIDE = [
+	"# Guide",
+	"Intro paragraph.",
+	"Still intro.",
+	"",
+	"More detail here.",
+	"",
+	"## Install",
+	"",
+	"```sh",
+	"bun install",
+	"```",
+	"",
+	"Run the installer once.",
+	"",
+	"## API",
+	"Short.",
+].join("\n");
+
+describe("outlineSnapshot", () => {
+	it("keeps headings and first paragraphs of markdown", () => {
+		const outline = outlineSnapshot(GUIDE, {
+			sectionBytes: 4096,
+			uri: "./guide.md",
+		});
+
+		expect(outline.text).toBe(
+			[
+				"# Guide",
+				"Intro paragraph.",
+				"Still intro.",
+				'[... section 0 "Guide" elided]',
+				"",
+				"## Install",
+				"Run the installer once.",
+				'[... section 1 "Guide > Install" elided]',
+				"",
+				"## API",
+				"Short.",
+			].join("\n"),
+		);
+		expect(outline.elided).toEqual([0, 1]);
+	});
+
+	it("keeps exported signatures of source code", () => {
+		const source = [
+			'import { db } from "./db";',
+			"",
+			"export function addFact(content: string): Promise<void> {",
+			"\treturn db.insert(content);",
+			"}",
+			"",
+			"function helper() {}",
+			"",
+			"export class FactStore {",
+			"\tsize = 0;",
+			"}",
+		].join("\n");
+
+		const outline = outlineSnapshot(source, {
+			sectionBytes: 4096,
+			uri: "./src/facts.ts",
+		});
+
+		expect(outline.text).toBe(
+			[
+				"export function addFact(content: string): Promise<void> {",
+				"export class FactStore {",
+				'[... section 0 "lines 1-11" elided]',
+			].join("\n"),
+		);
+	});
+
+	it("marks every section that loses content", () => {
+		const source = Array.from(
+			{ length: 6 },
+			(_, i) => `export const value${i} = ${i};\nconst hidden${i} = ${i};`,
+		).join("\n");
+
+		const outline = outlineSnapshot(source, { sectionBytes: 100 });
+
+		expect(outline.elided).toEqual([0, 1, 2]);
+		expect(outline.text).toContain("export const value5 = 5;");
+		expect(outline.text).not.toContain("hidden");
+	});
+});
+
+describe("looksLikeHtml", () => {
+	it("recognises HTML documents only", () => {
+		expect(looksLikeHtml("<!DOCTYPE html><html></html>")).toBe(true);
+		expect(looksLikeHtml("  <html lang='en'><body></body></html>")).toBe(true);
+		expect(looksLikeHtml("# Title\n<div>inline</div>")).toBe(false);
+	});
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import {
+	extractMainContent,
+	validateContentSelectors,
+} from "../../src/utils/readability";
+
+const CONTENT =
+	"<h1>Install</h1>" +
+	"<p>Run the installer, then configure the database, the cache, and the queue before starting.</p>" +
+	"<p>Each service reads its settings from the environment, with defaults for local development.</p>";
+
+const page = (body: string) =>
+	`<!DOCTYPE html><html><head><title>Docs</title><script>var tag = "<div>";</script></head><body class="has-sidebar">${body}</body></html>`;
+
+const CHROME_START =
+	'<header class="site-header"><nav><a href="/">Home</a><a href="/docs">Docs</a></nav></header>' +
+	'<div id="cookie-banner">We use cookies, accept them please, thanks.</div>';
+const CHROME_END = "<footer>Copyright 2026, all rights reserved.</footer>";
+
+describe("extractMainContent", () => {
+	it("prefers the main element", () => {
+		const html = page(
+			`${CHROME_START}<main><div class="share-buttons">Share</div>${CONTENT}</main>${CHROME_END}`,
+		);
+
+		expect(extractMainContent(html)).toBe(`<main>${CONTENT}</main>`);
+	});
+
+	it("picks the article with the most text", () => {
+		const html = page(
+			`<article><p>Teaser.</p></article><article>${CONTENT}</article>`,
+		);
+
+		expect(extractMainContent(html)).toBe(`<article>${CONTENT}</article>`);
+	});
+
+	it("finds the densest container without landmarks", () => {
+		const html = page(
+			`${CHROME_START}<div class="layout"><aside class="sidebar"><ul><li><a href="/a">A sidebar link long enough to count</a></li></ul></aside>` +
+				`<div class="content">${CONTENT}</div></div>${CHROME_END}`,
+		);
+
+		expect(extractMainContent(html)).toBe(
+			`<div class="content">${CONTENT}</div>`,
+		);
+	});
+
+	it("applies include and exclude selectors", () => {
+		const html = page(
+			`<main><p>Marketing copy that should not be stored at all.</p></main>` +
+				`<div id="docs"><section class="docs-body">${CONTENT}<p class="feedback">Was this helpful?</p></section></div>`,
+		);
+
+		expect(
+			extractMainContent(html, {
+				include: ["#docs .docs-body"],
+				exclude: ["p.feedback"],
+			}),
+		).toBe(`<section class="docs-body">${CONTENT}</section>`);
+	});
+
+	it("closes paragraphs and list items left open", () => {
+		expect(
+			extractMainContent("<main><p>One<p>Two<ul><li>A<li>B</ul></main>"),
+		).toBe("<main><p>One</p><p>Two</p><ul><li>A</li><li>B</li></ul></main>");
+	});
+
+	it("skips scripts whose closing tag differs in case", () => {
+		const html = page(
+			`<main><SCRIPT>document.write("<p>not content</p>")</Script>${CONTENT}</main>`,
+		);
+
+		expect(extractMainContent(html)).toBe(`<main>${CONTENT}</main>`);
+	});
+
+	it("returns pages without content unchanged", () => {
+		const html = "<html><body><nav><a href='/'>Home</a></nav></body></html>";
+
+		expect(extractMainContent(html)).toBe(html);
+	});
+});
+
+describe("validateContentSelectors", () => {
+	it("accepts URL globs mapped to selector lists", () => {
+		expect(
+			validateContentSelectors(
+				JSON.stringify({
+					"https://docs.example.com/**": {
+						include: ["main .content", "article[role=main]"],
+						exclude: [".feedback"],
+					},
+				}),
+			),
+		).toBeNull();
+	});
+
+	it("rejects malformed rules and selectors", () => {
+		expect(validateContentSelectors("[]")).toBe(
+			"content_selectors must be an object mapping URL patterns to selectors",
+		);
+		expect(
+			validateContentSelectors(JSON.stringify({ "*": { keep: [] } })),
+		).toBe('Pattern "*": unknown key keep');
+		expect(
+			validateContentSelectors(JSON.stringify({ "*": { include: ["a > b"] } })),
+		).toBe('Pattern "*": Unsupported selector: >');
+	});
+});
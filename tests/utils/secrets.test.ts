@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	decryptSecret,
+	encryptSecret,
+	isEncrypted,
+	loadSecretKey,
+} from "../../src/utils/secrets";
+
+describe("secrets utils", () => {
+	let dir: string;
+	const saved = {
+		key: process.env.FACTSETS_SECRET_KEY,
+		file: process.env.FACTSETS_SECRET_KEY_FILE,
+	};
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "factsets-secrets-"));
+		delete process.env.FACTSETS_SECRET_KEY;
+		process.env.FACTSETS_SECRET_KEY_FILE = join(dir, "missing.key");
+	});
+
+	afterEach(async () => {
+		for (const [name, value] of [
+			["FACTSETS_SECRET_KEY", saved.key],
+			["FACTSETS_SECRET_KEY_FILE", saved.file],
+		] as const) {
+			if (value === undefined) delete process.env[name];
+			else process.env[name] = value;
+		}
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("round-trips values through encryption", async () => {
+		process.env.FACTSETS_SECRET_KEY = "correct horse battery staple";
+		const key = (await loadSecretKey())!;
+
+		const encrypted = encryptSecret("Bearer abc123", key);
+
+		expect(isEncrypted(encrypted)).toBe(true);
+		expect(encrypted).not.toContain("abc123");
+		expect(encryptSecret("Bearer abc123", key)).not.toBe(encrypted);
+		expect(decryptSecret(encrypted, key)).toBe("Bearer abc123");
+	});
+
+	it("rejects the wrong key and malformed values", async () => {
+		process.env.FACTSETS_SECRET_KEY = "one";
+		const encrypted = encryptSecret("secret", (await loadSecretKey())!);
+		process.env.FACTSETS_SECRET_KEY = "two";
+		const otherKey = (await loadSecretKey())!;
+
+		expect(() => decryptSecret(encrypted, otherKey)).toThrow(
+			"could not be decrypted",
+		);
+		expect(() => decryptSecret("plain", otherKey)).toThrow(
+			"not an encrypted secret",
+		);
+	});
+
+	it("loads the key from a key file when the variable is unset", async () => {
+		expect(await loadSecretKey()).toBeNull();
+
+		const file = join(dir, "secret.key");
+		await writeFile(file, "from-file\n");
+		process.env.FACTSETS_SECRET_KEY_FILE = file;
+		const fromFile = await loadSecretKey();
+
+		process.env.FACTSETS_SECRET_KEY = "from-file";
+		expect(fromFile).toEqual((await loadSecretKey())!);
+	});
+});
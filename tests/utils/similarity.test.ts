@@ -0,0 +1,59 @@
+import { describe, it, expect } from "bun:test";
+import { normalizeTokens, textSimilarity } from "../../src/utils/similarity";
+
+describe("normalizeTokens", () => {
+	it("drops punctuation, stopwords and plural s", () => {
+		expect(normalizeTokens("The API server listens on port 3000.")).toEqual([
+			"api",
+			"server",
+			"listen",
+			"port",
+			"3000",
+		]);
+		expect(normalizeTokens("Access class")).toEqual(["access", "class"]);
+	});
+});
+
+describe("textSimilarity", () => {
+	it("scores rewordings of the same fact highly", () => {
+		expect(
+			textSimilarity(
+				"The API uses port 3000",
+				"API server listens on port 3000.",
+			),
+		).toBeGreaterThanOrEqual(0.5);
+	});
+
+	it("keeps facts naming different things apart", () => {
+		expect(
+			textSimilarity("Project uses bun test", "Project uses jest"),
+		).toBeLessThan(0.5);
+	});
+
+	it("is 1 for texts differing only in filler and case", () => {
+		expect(textSimilarity("The cache is Redis", "cache: redis")).toBe(1);
+	});
+
+	it("halves the score when numbers differ", () => {
+		const same = textSimilarity(
+			"Requests time out after 30 seconds",
+			"Requests time out after 30 seconds",
+		);
+		const different = textSimilarity(
+			"Requests time out after 30 seconds",
+			"Requests time out after 60 seconds",
+		);
+
+		expect(same).toBe(1);
+		expect(different).toBeLessThan(0.5);
+	});
+
+	it("scores unrelated texts near zero", () => {
+		expect(
+			textSimilarity(
+				"Use bun for package management",
+				"The deploy pipeline runs on GitHub Actions",
+			),
+		).toBeLessThan(0.1);
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test";
+import { summarizeText } from "../../src/utils/summarize";
+
+const filler = Array.from(
+	{ length: 80 },
+	(_, i) => `Filler sentence number ${i} talks about nothing much at all here.`,
+);
+
+const DOC = [
+	"# Guide",
+	"",
+	"Factsets stores facts for agents. Facts are tagged and searched by agents.",
+	"",
+	"## API",
+	"",
+	"```ts",
+	"export function addFacts(db: DB, input: FactsInput) {",
+	"\treturn db.insert(facts).values(input.facts);",
+	"}",
+	"```",
+	"",
+	...filler,
+	"",
+	"## Tags",
+	"",
+	"Tags group facts and resources. Agents search facts by tags.",
+].join("\n");
+
+describe("summarizeText", () => {
+	it("returns text within the budget unchanged", () => {
+		expect(summarizeText("# Short\n\nNothing to cut.", 1024)).toBe(
+			"# Short\n\nNothing to cut.",
+		);
+	});
+
+	it("keeps headings, signatures and key sentences within the budget", () => {
+		const summary = summarizeText(DOC, 500);
+
+		expect(Buffer.byteLength(summary, "utf8")).toBeLessThanOrEqual(500);
+		expect(summary).toBe(
+			[
+				"# Guide",
+				"",
+				"Factsets stores facts for agents. Facts are tagged and searched by agents.",
+				"",
+				"## API",
+				"",
+				"```ts",
+				"export function addFacts(db: DB, input: FactsInput) {",
+				"```",
+				"",
+				"Filler sentence number 0 talks about nothing much at all here.",
+				"",
+				"## Tags",
+				"",
+				"Tags group facts and resources. Agents search facts by tags.",
+			].join("\n"),
+		);
+	});
+
+	it("drops sentences before headings when the budget is tight", () => {
+		const summary = summarizeText(DOC, 40);
+
+		expect(summary).toBe("# Guide\n\n## API\n\n## Tags");
+	});
+
+	it("is deterministic", () => {
+		expect(summarizeText(DOC, 300)).toBe(summarizeText(DOC, 300));
+	});
+
+	it("cuts text with nothing to extract at the budget", () => {
+		expect(summarizeText("é".repeat(100), 11)).toBe("é".repeat(5));
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { join } from "node:path";
+import { canonicalResourceUri, resourceUriKeys } from "../../src/utils/uri";
+
+const root = process.cwd();
+
+describe("uri utils", () => {
+	describe("canonicalResourceUri", () => {
+		it("writes file paths relative to the project root", () => {
+			for (const uri of [
+				"src/a.ts",
+				"./src/a.ts",
+				"./src/../src/a.ts",
+				join(root, "src/a.ts"),
+				`file://${join(root, "src/a.ts")}`,
+			]) {
+				expect(canonicalResourceUri(uri, "file")).toBe("./src/a.ts");
+			}
+		});
+
+		it("keeps files outside the project root as file URLs", () => {
+			expect(canonicalResourceUri("/etc/hosts", "file")).toBe(
+				"file:///etc/hosts",
+			);
+			expect(canonicalResourceUri("file:///etc/hosts")).toBe(
+				"file:///etc/hosts",
+			);
+		});
+
+		it("normalizes http URLs", () => {
+			expect(
+				canonicalResourceUri(
+					"HTTPS://Docs.Example.com:443/Guide/?page=2&utm_source=x&UTM_Medium=y#intro",
+				),
+			).toBe("https://docs.example.com/Guide?page=2");
+			expect(canonicalResourceUri("http://example.com:8080/a//")).toBe(
+				"http://example.com:8080/a",
+			);
+			expect(canonicalResourceUri("https://example.com")).toBe(
+				canonicalResourceUri("https://example.com/"),
+			);
+		});
+
+		it("leaves names and other schemes unchanged", () => {
+			expect(canonicalResourceUri("package-scripts", "command")).toBe(
+				"package-scripts",
+			);
+			expect(canonicalResourceUri("src/a.ts")).toBe("src/a.ts");
+			expect(canonicalResourceUri("mailto:Team@Example.com")).toBe(
+				"mailto:Team@Example.com",
+			);
+			expect(canonicalResourceUri("https://[bad")).toBe("https://[bad");
+		});
+	});
+
+	describe("resourceUriKeys", () => {
+		it("includes the URI as given and its file form", () => {
+			expect(resourceUriKeys("src/a.ts")).toEqual(["src/a.ts", "./src/a.ts"]);
+			expect(resourceUriKeys("https://example.com/a/")).toEqual([
+				"https://example.com/a/",
+				"https://example.com/a",
+			]);
+		});
+	});
+});